@@ -2,20 +2,40 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/Dashboard";
 import Reports from "@/pages/Reports";
 import Settings from "@/pages/Settings";
+import Household from "@/pages/Household";
+import Settlements from "@/pages/Settlements";
+import Accounts from "@/pages/Accounts";
+import Envelopes from "@/pages/Envelopes";
+import Recurring from "@/pages/Recurring";
+import Subscriptions from "@/pages/Subscriptions";
+import Loans from "@/pages/Loans";
+import UploadStatements from "@/pages/UploadStatements";
+import Login from "@/pages/Login";
+import Register from "@/pages/Register";
 import Sidebar from "@/components/Sidebar";
 
-function Router() {
+function AppLayout() {
   return (
     <div className="flex h-screen overflow-hidden">
       <Sidebar />
       <div className="flex flex-col flex-1 overflow-hidden">
         <Switch>
           <Route path="/" component={Dashboard} />
+          <Route path="/accounts" component={Accounts} />
+          <Route path="/envelopes" component={Envelopes} />
+          <Route path="/recurring" component={Recurring} />
+          <Route path="/subscriptions" component={Subscriptions} />
+          <Route path="/loans" component={Loans} />
           <Route path="/reports" component={Reports} />
+          <Route path="/upload" component={UploadStatements} />
+          <Route path="/household" component={Household} />
+          <Route path="/settlements" component={Settlements} />
           <Route path="/settings" component={Settings} />
           <Route component={NotFound} />
         </Switch>
@@ -24,11 +44,27 @@ function Router() {
   );
 }
 
+function Router() {
+  return (
+    <Switch>
+      <Route path="/login" component={Login} />
+      <Route path="/register" component={Register} />
+      <Route>
+        <ProtectedRoute>
+          <AppLayout />
+        </ProtectedRoute>
+      </Route>
+    </Switch>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,392 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, Lock, Plus, Trash2, Unlock } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/hooks/use-currency";
+import type { AccountWithBalance } from "@/hooks/use-accounts";
+import { insertAccountStatementSchema } from "@shared/schema";
+import type { AccountStatement, Transaction } from "@shared/schema";
+
+// A statement checked against the account's transactions in its period
+interface Reconciliation {
+  statement: AccountStatement;
+  transactions: Transaction[];
+  clearedTotal: number;
+  ledgerTotal: number;
+  statementChange: number | null;
+  difference: number | null;
+  ledgerDifference: number | null;
+}
+
+type StatementSummary = Omit<Reconciliation, 'transactions'>;
+
+// Both balances are needed to reconcile, so the form asks for them
+const formSchema = insertAccountStatementSchema.innerType().extend({
+  openingBalance: z.coerce.number(),
+  closingBalance: z.coerce.number(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+function DifferenceLabel({ difference, currency }: { difference: number | null; currency: string }) {
+  if (difference === null) {
+    return <span className="text-gray-500">Balances unknown</span>;
+  }
+  if (difference === 0) {
+    return <span className="text-green-600">Balanced</span>;
+  }
+  return <span className="font-medium text-red-600">Off by {formatMoney(difference, currency)}</span>;
+}
+
+function StatementReconciliation({ statementId, account }: { statementId: number; account: AccountWithBalance }) {
+  const [isSaving, setIsSaving] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: reconciliation, isLoading } = useQuery<Reconciliation>({
+    queryKey: [`/api/statements/${statementId}`],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/statements/${statementId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/accounts/${account.id}/statements`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/accounts/${account.id}/transactions`] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/transactions') });
+  };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setIsSaving(true);
+      await action();
+      refresh();
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || !reconciliation) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { statement, transactions } = reconciliation;
+  const locked = statement.reconciledAt !== null;
+  const unlocked = transactions.filter(transaction => transaction.status !== 'reconciled');
+  const allCleared = unlocked.length > 0 && unlocked.every(transaction => transaction.status === 'cleared');
+
+  const setCleared = (transactionIds: number[], cleared: boolean) =>
+    run(() => apiRequest('POST', `/api/statements/${statementId}/cleared`, { transactionIds, cleared }), "Failed to update transactions");
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-4">
+        {[
+          { label: "Opening balance", value: statement.openingBalance },
+          { label: "Closing balance", value: statement.closingBalance },
+          { label: "Cleared transactions", value: reconciliation.clearedTotal },
+        ].map(({ label, value }) => (
+          <div key={label} className="rounded-md border p-3">
+            <div className="text-xs text-gray-500">{label}</div>
+            <div className="font-semibold text-gray-900">
+              {value === null ? '—' : formatMoney(Number(value), account.currency)}
+            </div>
+          </div>
+        ))}
+        <div className={`rounded-md border p-3 ${reconciliation.difference ? 'border-red-300 bg-red-50' : ''}`}>
+          <div className="text-xs text-gray-500">Difference</div>
+          <div className="font-semibold">
+            <DifferenceLabel difference={reconciliation.difference} currency={account.currency} />
+          </div>
+        </div>
+      </div>
+
+      {/* Whether everything recorded in the period, cleared or not, adds up to the statement */}
+      {reconciliation.ledgerDifference !== null && reconciliation.ledgerDifference !== 0 && (
+        <p className="text-sm text-amber-700">
+          All {transactions.length} transactions in this period come to {formatMoney(reconciliation.ledgerTotal, account.currency)},
+          {' '}{formatMoney(Math.abs(reconciliation.ledgerDifference), account.currency)}
+          {reconciliation.ledgerDifference > 0 ? ' less' : ' more'} than the statement shows.
+        </p>
+      )}
+
+      {transactions.length === 0 ? (
+        <p className="text-sm text-gray-500">No transactions recorded in this period.</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-500">
+                <th className="py-2 pr-2">
+                  <Checkbox
+                    checked={allCleared}
+                    disabled={locked || isSaving || unlocked.length === 0}
+                    onCheckedChange={checked => setCleared(unlocked.map(transaction => transaction.id), checked === true)}
+                  />
+                </th>
+                <th className="py-2 pr-2 font-medium">Date</th>
+                <th className="py-2 pr-2 font-medium">Description</th>
+                <th className="py-2 text-right font-medium">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transactions.map(transaction => (
+                <tr key={transaction.id} className="border-b last:border-0">
+                  <td className="py-2 pr-2">
+                    <Checkbox
+                      checked={transaction.status !== 'uncleared'}
+                      disabled={locked || isSaving || transaction.status === 'reconciled'}
+                      onCheckedChange={checked => setCleared([transaction.id], checked === true)}
+                    />
+                  </td>
+                  <td className="py-2 pr-2 text-gray-500">{transaction.date}</td>
+                  <td className="py-2 pr-2 text-gray-900">
+                    {transaction.description}
+                    {transaction.status === 'reconciled' && <Lock className="ml-1 inline h-3 w-3 text-gray-400" />}
+                  </td>
+                  <td className={`py-2 text-right font-medium ${transaction.type === 'transfer' ? 'text-gray-600' : Number(transaction.amount) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatMoney(Number(transaction.amount), account.currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <DialogFooter>
+        {locked ? (
+          <Button
+            variant="outline"
+            disabled={isSaving}
+            onClick={() => run(() => apiRequest('POST', `/api/statements/${statementId}/unreconcile`), "Failed to undo reconciliation")}
+          >
+            <Unlock className="mr-2 h-4 w-4" />
+            Undo Reconciliation
+          </Button>
+        ) : (
+          <Button
+            disabled={isSaving || reconciliation.difference !== 0}
+            onClick={() => run(() => apiRequest('POST', `/api/statements/${statementId}/reconcile`), "Failed to reconcile")}
+          >
+            <Lock className="mr-2 h-4 w-4" />
+            Reconcile
+          </Button>
+        )}
+      </DialogFooter>
+    </div>
+  );
+}
+
+// An account's bank statements, and reconciling its cleared transactions against each one
+export function AccountStatements({ account }: { account: AccountWithBalance }) {
+  const [addOpen, setAddOpen] = useState(false);
+  const [reconcilingId, setReconcilingId] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: statements = [], isLoading } = useQuery<StatementSummary[]>({
+    queryKey: [`/api/accounts/${account.id}/statements`],
+  });
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+  });
+
+  useEffect(() => {
+    if (addOpen) {
+      form.reset({ fileName: null });
+    }
+  }, [addOpen]);
+
+  const onSubmit = async (values: FormValues) => {
+    if (values.periodStart > values.periodEnd) {
+      form.setError('periodEnd', { message: "The period must end after it starts" });
+      return;
+    }
+    try {
+      await apiRequest('POST', `/api/accounts/${account.id}/statements`, values);
+      queryClient.invalidateQueries({ queryKey: [`/api/accounts/${account.id}/statements`] });
+      setAddOpen(false);
+    } catch (error) {
+      toast({
+        title: "Failed to add statement",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (statement: AccountStatement) => {
+    if (!confirm("Delete this statement? Its transactions are kept.")) return;
+    try {
+      await apiRequest('DELETE', `/api/statements/${statement.id}`);
+      queryClient.invalidateQueries({ queryKey: [`/api/accounts/${account.id}/statements`] });
+    } catch (error) {
+      toast({
+        title: "Failed to delete statement",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">Statements</h3>
+        <Button variant="outline" size="sm" onClick={() => setAddOpen(true)}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add Statement
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-4 text-gray-500">Loading statements...</div>
+      ) : statements.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Statements imported with their balances appear here, ready to reconcile.
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-gray-500">
+              <th className="py-2 pr-2 font-medium">Period</th>
+              <th className="py-2 pr-2 text-right font-medium">Opening</th>
+              <th className="py-2 pr-2 text-right font-medium">Closing</th>
+              <th className="py-2 pr-2 font-medium">Status</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {statements.map(({ statement, difference }) => (
+              <tr key={statement.id} className="border-b last:border-0">
+                <td className="py-2 pr-2 text-gray-900">
+                  {statement.periodStart} – {statement.periodEnd}
+                  {statement.fileName && <div className="text-xs text-gray-500">{statement.fileName}</div>}
+                </td>
+                <td className="py-2 pr-2 text-right text-gray-700">
+                  {statement.openingBalance === null ? '—' : formatMoney(Number(statement.openingBalance), account.currency)}
+                </td>
+                <td className="py-2 pr-2 text-right text-gray-700">
+                  {statement.closingBalance === null ? '—' : formatMoney(Number(statement.closingBalance), account.currency)}
+                </td>
+                <td className="py-2 pr-2">
+                  {statement.reconciledAt !== null ? (
+                    <span className="flex items-center text-green-700">
+                      <Lock className="mr-1 h-3 w-3" />
+                      Reconciled
+                    </span>
+                  ) : (
+                    <DifferenceLabel difference={difference} currency={account.currency} />
+                  )}
+                </td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <Button variant="ghost" size="sm" onClick={() => setReconcilingId(statement.id)}>
+                    {statement.reconciledAt !== null ? 'View' : 'Reconcile'}
+                  </Button>
+                  {statement.reconciledAt === null && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(statement)}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <Dialog open={reconcilingId !== null} onOpenChange={open => !open && setReconcilingId(null)}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Reconcile Statement</DialogTitle>
+            <DialogDescription>
+              Tick the transactions that appear on the statement. Once the difference is zero, reconcile to lock the period.
+            </DialogDescription>
+          </DialogHeader>
+          {reconcilingId !== null && <StatementReconciliation statementId={reconcilingId} account={account} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Add Statement</DialogTitle>
+            <DialogDescription>Enter the period and balances printed on the statement.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                {(['periodStart', 'periodEnd'] as const).map(name => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{name === 'periodStart' ? 'From' : 'To'}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="date"
+                            value={field.value ? format(new Date(field.value), 'yyyy-MM-dd') : ''}
+                            onChange={e => field.onChange(new Date(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {(['openingBalance', 'closingBalance'] as const).map(name => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{name === 'openingBalance' ? 'Opening balance' : 'Closing balance'}</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.01" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <DialogFooter>
+                <Button type="submit">Add Statement</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CopyPlus, Pencil, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+
+type BudgetStatus = "ok" | "warning" | "over";
+
+// One category's budget for the month against what was spent in it
+interface BudgetRow {
+  budgetId: number;
+  category: string;
+  recurring: boolean;
+  budgeted: number;
+  spent: number;
+  remaining: number;
+  percentage: number;
+  status: BudgetStatus;
+}
+
+const STATUS_RANK: Record<BudgetStatus, number> = { ok: 0, warning: 1, over: 2 };
+
+const BAR_COLOURS: Record<BudgetStatus, string> = {
+  ok: "bg-green-500",
+  warning: "bg-amber-500",
+  over: "bg-red-500",
+};
+
+const formSchema = z.object({
+  category: z.string().min(1, "Choose a category"),
+  amount: z.coerce.number().positive("Budget must be positive"),
+  // Applies to every month without its own budget rather than this month only
+  recurring: z.boolean(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface BudgetProgressProps {
+  year: number;
+  month: number;
+}
+
+export function BudgetProgress({ year, month }: BudgetProgressProps) {
+  const [open, setOpen] = useState(false);
+  // The budget being edited; only its amount can change
+  const [editing, setEditing] = useState<BudgetRow | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { categories } = useCategories();
+  const { formatBase } = useCurrency();
+
+  const { data: rows = [], isLoading } = useQuery<BudgetRow[]>({
+    queryKey: [`/api/budgets/${year}/${month}`],
+  });
+
+  // Statuses last seen for this month, to alert when a category crosses 80% or 100%
+  const seen = useRef<{ key: string; statuses: Map<string, BudgetStatus> } | null>(null);
+  useEffect(() => {
+    if (isLoading) return;
+    const key = `${year}-${month}`;
+    const previous = seen.current?.key === key ? seen.current.statuses : null;
+    if (previous) {
+      for (const row of rows) {
+        const before = previous.get(row.category) ?? "ok";
+        if (STATUS_RANK[row.status] > STATUS_RANK[before]) {
+          toast({
+            title: row.status === "over" ? `${row.category} is over budget` : `${row.category} is nearly at its budget`,
+            description: `${formatBase(row.spent)} of ${formatBase(row.budgeted)} spent (${Math.round(row.percentage)}%)`,
+            variant: row.status === "over" ? "destructive" : "default",
+          });
+        }
+      }
+    }
+    seen.current = { key, statuses: new Map(rows.map(row => [row.category, row.status])) };
+  }, [rows, isLoading, year, month]);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { category: "", amount: 0, recurring: true },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const openDialog = (row: BudgetRow | null) => {
+    setEditing(row);
+    form.reset({
+      category: row?.category ?? "",
+      amount: row?.budgeted ?? 0,
+      recurring: row?.recurring ?? true,
+    });
+    setOpen(true);
+  };
+
+  const onSubmit = async (values: FormValues) => {
+    try {
+      if (editing) {
+        await apiRequest('PUT', `/api/budgets/${editing.budgetId}`, { amount: values.amount });
+      } else {
+        await apiRequest('POST', '/api/budgets', {
+          category: values.category,
+          amount: values.amount,
+          year: values.recurring ? null : year,
+          month: values.recurring ? null : month,
+        });
+      }
+      refresh();
+      setOpen(false);
+    } catch (error) {
+      showError("Failed to save budget", error);
+    }
+  };
+
+  const handleDelete = async (row: BudgetRow) => {
+    try {
+      await apiRequest('DELETE', `/api/budgets/${row.budgetId}`);
+      refresh();
+    } catch (error) {
+      showError("Failed to delete budget", error);
+    }
+  };
+
+  // Carry this month's budgets into the next one, keeping any it already has
+  const handleCopyForward = async () => {
+    const toYear = month === 12 ? year + 1 : year;
+    const toMonth = month === 12 ? 1 : month + 1;
+    try {
+      const response = await apiRequest('POST', '/api/budgets/copy', { fromYear: year, fromMonth: month, toYear, toMonth });
+      const { copied } = await response.json();
+      refresh();
+      toast({
+        title: "Budgets copied",
+        description: `Copied ${copied} budgets to next month`,
+      });
+    } catch (error) {
+      showError("Failed to copy budgets", error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="bg-white overflow-hidden shadow rounded-lg">
+        <CardHeader>
+          <Skeleton className="h-6 w-40" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const alerts = rows.filter(row => row.status !== "ok");
+  const budgeted = new Set(rows.map(row => row.category));
+  const available = categories.filter(category => !category.archived && !budgeted.has(category.name));
+
+  return (
+    <Card className="bg-white overflow-hidden shadow rounded-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-medium text-gray-900">Budgets</CardTitle>
+          <div className="flex gap-2">
+            {rows.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={handleCopyForward}>
+                <CopyPlus className="mr-1 h-4 w-4" />
+                Copy to next month
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+              <Plus className="mr-1 h-4 w-4" />
+              Set Budget
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {alerts.length > 0 && (
+          <div className="space-y-1 rounded-md bg-amber-50 px-3 py-2 text-sm">
+            {alerts.map(row => (
+              <div
+                key={row.budgetId}
+                className={`flex items-center ${row.status === "over" ? "text-red-700" : "text-amber-800"}`}
+              >
+                <AlertTriangle className="mr-2 h-4 w-4 flex-shrink-0" />
+                {row.status === "over"
+                  ? `${row.category} is ${formatBase(-row.remaining)} over budget`
+                  : `${row.category} has used ${Math.round(row.percentage)}% of its budget`}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {rows.length === 0 ? (
+          <div className="flex items-center justify-center h-40">
+            <p className="text-gray-500">No budgets set for this month</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rows.map(row => (
+              <div key={row.budgetId} className="group">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700">
+                    {row.category}
+                    {!row.recurring && <span className="ml-1 text-xs text-gray-400">(this month)</span>}
+                  </span>
+                  <div className="flex items-center">
+                    <span className="font-medium text-gray-900">{formatBase(row.spent)}</span>
+                    <span className="ml-1 text-gray-500">of {formatBase(row.budgeted)}</span>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-gray-400" onClick={() => openDialog(row)}>
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-gray-400 hover:text-red-600"
+                      onClick={() => handleDelete(row)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="mt-1 h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                  <div
+                    className={`h-full rounded-full ${BAR_COLOURS[row.status]}`}
+                    style={{ width: `${Math.min(row.percentage, 100)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.category} Budget` : "Set Budget"}</DialogTitle>
+            <DialogDescription>
+              A budget on a category with subcategories covers their spending too.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {!editing && (
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {available.map(category => (
+                            <SelectItem key={category.id} value={category.name}>{category.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Monthly amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {!editing && (
+                <FormField
+                  control={form.control}
+                  name="recurring"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+                      </FormControl>
+                      <FormLabel className="font-normal">Every month (otherwise this month only)</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              )}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Save</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle } from "lucide-react";
+import { formatMoney, useCurrency } from "@/hooks/use-currency";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+interface ForecastEvent {
+  date: string;
+  description: string;
+  amount: number;
+  currency: string;
+  accountId: number | null;
+  source: "recurring" | "subscription";
+}
+
+interface ForecastDay {
+  date: string;
+  total: number;
+  negativeAccountIds: number[];
+  events: ForecastEvent[];
+}
+
+interface ForecastAccount {
+  accountId: number;
+  name: string;
+  currency: string;
+  balances: number[];
+  lowestBalance: number;
+  firstNegativeDate: string | null;
+}
+
+interface Forecast {
+  days: ForecastDay[];
+  accounts: ForecastAccount[];
+  discretionary: { category: string; dailyAmount: number }[];
+}
+
+const RANGES = [30, 60, 90];
+
+// Projected balances over the coming weeks, from recurring transactions, detected
+// subscriptions and average day-to-day spending
+export function CashFlowForecast() {
+  const [range, setRange] = useState(30);
+  const { formatBase, formatBaseCompact } = useCurrency();
+
+  // Built from the whole ledger and today's date, so fetched afresh each visit
+  const { data, isLoading, error } = useQuery<Forecast>({
+    queryKey: ['/api/forecast'],
+    refetchOnMount: "always",
+  });
+
+  if (isLoading) {
+    return (
+      <Card className="bg-white rounded-lg shadow">
+        <CardHeader className="pb-0">
+          <Skeleton className="h-6 w-40" />
+        </CardHeader>
+        <CardContent className="p-6">
+          <Skeleton className="h-72 w-full rounded-lg" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card className="bg-white rounded-lg shadow">
+        <CardHeader>
+          <CardTitle>Cash-Flow Forecast</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center h-72">
+            <p className="text-red-500">Failed to load the forecast</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const days = data.days.slice(0, range + 1);
+  const chartData = days.map(day => ({
+    name: format(parseISO(day.date), "MMM d"),
+    total: day.total,
+    day,
+  }));
+  const warnings = data.accounts
+    .map(account => ({ account, date: days.find(day => day.negativeAccountIds.includes(account.accountId))?.date }))
+    .filter((warning): warning is { account: ForecastAccount; date: string } => warning.date !== undefined);
+  const dailySpending = data.discretionary.reduce((sum, entry) => sum + entry.dailyAmount, 0);
+
+  return (
+    <Card className="bg-white rounded-lg shadow">
+      <CardHeader className="pb-0">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-medium text-gray-900">Cash-Flow Forecast</CardTitle>
+          <div className="flex gap-1">
+            {RANGES.map(days => (
+              <Button
+                key={days}
+                variant={range === days ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setRange(days)}
+              >
+                {days} days
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6">
+        <div className="h-72 bg-gray-50 rounded-lg flex items-center justify-center relative overflow-hidden">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="name" minTickGap={24} />
+              <YAxis tickFormatter={(value) => formatBaseCompact(value)} width={80} />
+              <Tooltip
+                content={({ active, payload }) => {
+                  if (!active || !payload?.length) return null;
+                  const { day } = payload[0].payload as { day: ForecastDay };
+                  return (
+                    <div className="rounded border bg-white px-3 py-2 text-xs shadow">
+                      <div className="font-medium">{format(parseISO(day.date), "EEE, MMM d")}</div>
+                      <div>All accounts: {formatBase(day.total)}</div>
+                      {day.events.map((event, index) => (
+                        <div key={index} className={event.amount < 0 ? "text-red-600" : "text-green-600"}>
+                          {event.description}: {formatMoney(event.amount, event.currency)}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                }}
+              />
+              <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />
+              <Area
+                type="monotone"
+                dataKey="total"
+                stroke="hsl(222.2,47.4%,11.2%)"
+                fill="hsl(222.2,47.4%,11.2%)"
+                fillOpacity={0.1}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+        {warnings.length > 0 && (
+          <div className="mt-4 space-y-1 rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">
+            {warnings.map(({ account, date }) => (
+              <div key={account.accountId} className="flex items-center">
+                <AlertTriangle className="mr-2 h-4 w-4 flex-shrink-0" />
+                {account.name} is projected to go below zero on {format(parseISO(date), "MMM d")}
+                {" "}(lowest {formatMoney(Math.min(...account.balances.slice(0, range + 1)), account.currency)})
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="mt-4 text-sm text-gray-500">
+          Next {range} days, with {formatBase(dailySpending)} a day of everyday spending. Income counts only when it is set up as a recurring transaction.
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
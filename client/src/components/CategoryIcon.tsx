@@ -0,0 +1,50 @@
+import {
+  Baby,
+  Briefcase,
+  Car,
+  Film,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  PawPrint,
+  PiggyBank,
+  Plane,
+  ShoppingBag,
+  Tag,
+  Utensils,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { categoryIcons } from "@shared/schema";
+
+const ICONS: Record<typeof categoryIcons[number], LucideIcon> = {
+  "home": Home,
+  "car": Car,
+  "utensils": Utensils,
+  "zap": Zap,
+  "heart-pulse": HeartPulse,
+  "film": Film,
+  "graduation-cap": GraduationCap,
+  "shopping-bag": ShoppingBag,
+  "briefcase": Briefcase,
+  "baby": Baby,
+  "paw-print": PawPrint,
+  "gift": Gift,
+  "plane": Plane,
+  "piggy-bank": PiggyBank,
+  "tag": Tag,
+};
+
+interface CategoryIconProps {
+  icon?: string;
+  color?: string;
+  className?: string;
+}
+
+// Unknown icons (e.g. a category that has been deleted) fall back to a tag
+export function CategoryIcon({ icon, color, className }: CategoryIconProps) {
+  const Icon = ICONS[icon as typeof categoryIcons[number]] ?? Tag;
+  return <Icon className={cn("h-4 w-4", className)} style={{ color: color ?? "#6b7280" }} />;
+}
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Archive, ArchiveRestore, Loader2, Plus, Trash2 } from "lucide-react";
+import { CategoryIcon } from "@/components/CategoryIcon";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { categoryIcons } from "@shared/schema";
+import type { Category, UpdateCategory } from "@shared/schema";
+
+function IconSelect({ value, color, onChange }: { value: string; color: string; onChange: (icon: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-16">
+        <SelectValue>
+          <CategoryIcon icon={value} color={color} />
+        </SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {categoryIcons.map(icon => (
+          <SelectItem key={icon} value={icon}>
+            <CategoryIcon icon={icon} color={color} />
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ParentSelect({ value, parents, onChange }: { value: number | null; parents: Category[]; onChange: (parentId: number | null) => void }) {
+  return (
+    <Select
+      value={value !== null ? String(value) : "none"}
+      onValueChange={(parentId) => onChange(parentId === "none" ? null : Number(parentId))}
+    >
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">Top level</SelectItem>
+        {parents.map(parent => (
+          <SelectItem key={parent.id} value={String(parent.id)}>Under {parent.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function CategoryRow({ category, others, hasChildren }: { category: Category; others: Category[]; hasChildren: boolean }) {
+  const [name, setName] = useState(category.name);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Renames and merges rewrite transactions and their monthly summaries
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/summaries'] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+    queryClient.invalidateQueries({ queryKey: ['/api/imports'] });
+  };
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update category",
+      variant: "destructive",
+    });
+  };
+
+  const save = async (data: UpdateCategory) => {
+    try {
+      await apiRequest('PUT', `/api/categories/${category.id}`, data);
+      invalidate();
+    } catch (error) {
+      setName(category.name);
+      showError(error);
+    }
+  };
+
+  const handleMerge = async (targetId: string) => {
+    const target = others.find(other => other.id === Number(targetId));
+    try {
+      const response = await apiRequest('POST', `/api/categories/${category.id}/merge`, { targetId: Number(targetId) });
+      const result = await response.json();
+      invalidate();
+      toast({
+        title: "Categories merged",
+        description: `Moved ${result.moved} transactions from ${category.name} to ${target?.name}`,
+      });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await apiRequest('DELETE', `/api/categories/${category.id}`);
+      invalidate();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <li className={`flex flex-wrap items-center gap-2 py-2 ${category.parentId !== null ? 'pl-8' : ''} ${category.archived ? 'opacity-60' : ''}`}>
+      <input
+        type="color"
+        defaultValue={category.color}
+        onBlur={(e) => e.target.value !== category.color && save({ color: e.target.value })}
+        className="h-9 w-9 cursor-pointer rounded border"
+        aria-label="Colour"
+      />
+      <IconSelect value={category.icon} color={category.color} onChange={(icon) => save({ icon: icon as UpdateCategory["icon"] })} />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={() => name.trim() && name.trim() !== category.name && save({ name: name.trim() })}
+        className="w-48"
+      />
+      {/* Categories nest one level deep, so a parent stays at the top */}
+      {!hasChildren && (
+        <ParentSelect
+          value={category.parentId}
+          parents={others.filter(other => other.parentId === null)}
+          onChange={(parentId) => save({ parentId })}
+        />
+      )}
+      <Select value="" onValueChange={handleMerge}>
+        <SelectTrigger className="w-44">
+          <SelectValue placeholder="Merge into..." />
+        </SelectTrigger>
+        <SelectContent>
+          {others
+            .filter(other => !others.some(child => child.parentId === other.id))
+            .map(other => (
+              <SelectItem key={other.id} value={String(other.id)}>{other.name}</SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => save({ archived: !category.archived })}
+        title={category.archived ? "Restore" : "Archive"}
+      >
+        {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleDelete}
+        className="text-gray-400 hover:text-red-600"
+        title="Delete"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </li>
+  );
+}
+
+export function CategoryManager() {
+  const { categories, isLoading } = useCategories();
+  const [name, setName] = useState("");
+  const [color, setColor] = useState("#6b7280");
+  const [icon, setIcon] = useState<string>("tag");
+  const [parentId, setParentId] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const handleAdd = async () => {
+    try {
+      await apiRequest('POST', '/api/categories', { name: name.trim(), color, icon, parentId });
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+      setName("");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create category",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Each top-level category followed by its subcategories
+  const topLevel = categories.filter(category => category.parentId === null);
+  const ordered = topLevel.flatMap(parent => [
+    parent,
+    ...categories.filter(category => category.parentId === parent.id),
+  ]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Categories</CardTitle>
+        <CardDescription>
+          Rename, recolour, merge or archive your categories, and group them under a parent
+          such as Food. Archived categories keep their transactions but are no longer offered
+          for new ones.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {ordered.map(category => (
+              <CategoryRow
+                key={`${category.id}-${category.name}`}
+                category={category}
+                others={categories.filter(other => other.id !== category.id)}
+                hasChildren={categories.some(other => other.parentId === category.id)}
+              />
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            className="h-9 w-9 cursor-pointer rounded border"
+            aria-label="Colour"
+          />
+          <IconSelect value={icon} color={color} onChange={setIcon} />
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New category"
+            className="w-48"
+          />
+          <ParentSelect value={parentId} parents={topLevel} onChange={setParentId} />
+          <Button onClick={handleAdd} disabled={!name.trim()}>
+            <Plus className="mr-2 h-4 w-4" /> Add Category
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,354 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { csvMappingSchema, csvDelimiters, csvDateFormats } from "@shared/schema";
+import type { CsvProfile } from "@shared/schema";
+
+interface CsvPreview {
+  delimiter: string;
+  headers: string[];
+  rows: string[][];
+}
+
+interface CsvMappingWizardProps {
+  content: string;
+  fileName: string;
+  // Account the imported transactions will belong to
+  accountId: number | null;
+  // Receives the upload response with the new draft import
+  onImported: (result: any) => void;
+  onCancel: () => void;
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+};
+
+const DATE_FORMAT_LABELS: Record<string, string> = {
+  MDY: "MM/DD/YYYY",
+  DMY: "DD/MM/YYYY",
+  YMD: "YYYY-MM-DD",
+};
+
+const formSchema = csvMappingSchema.and(z.object({
+  // Save the mapping as a profile for next time
+  profileName: z.string().trim().optional(),
+}));
+
+type FormValues = z.infer<typeof formSchema>;
+
+function ColumnField({ name, label, columns, optional = false }: {
+  name: "dateColumn" | "descriptionColumn" | "amountColumn" | "debitColumn" | "creditColumn";
+  label: string;
+  columns: string[];
+  optional?: boolean;
+}) {
+  return (
+    <FormField
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select
+            onValueChange={value => field.onChange(value === "none" ? null : Number(value))}
+            value={field.value != null ? String(field.value) : "none"}
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {optional && <SelectItem value="none">Not in this file</SelectItem>}
+              {columns.map((column, index) => (
+                <SelectItem key={index} value={String(index)}>{column}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+export function CsvMappingWizard({ content, fileName, accountId, onImported, onCancel }: CsvMappingWizardProps) {
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [profileId, setProfileId] = useState("new");
+  const [isImporting, setIsImporting] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: profiles = [] } = useQuery<CsvProfile[]>({
+    queryKey: ['/api/csv-profiles'],
+  });
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      delimiter: ",",
+      hasHeader: true,
+      dateColumn: 0,
+      descriptionColumn: 1,
+      amountColumn: 2,
+      debitColumn: null,
+      creditColumn: null,
+      dateFormat: "MDY",
+      decimalSeparator: ".",
+      negateAmounts: false,
+      profileName: "",
+    },
+  });
+
+  useEffect(() => {
+    apiRequest('POST', '/api/import/csv/preview', { content })
+      .then(response => response.json())
+      .then((result: CsvPreview) => {
+        setPreview(result);
+        form.setValue("delimiter", result.delimiter as FormValues["delimiter"]);
+      })
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to read the CSV file",
+          variant: "destructive",
+        });
+      });
+  }, [content]);
+
+  const hasHeader = useWatch({ control: form.control, name: "hasHeader" });
+  const columnCount = preview ? Math.max(preview.headers.length, ...preview.rows.map(row => row.length)) : 0;
+  const columns = Array.from({ length: columnCount }, (_, index) =>
+    hasHeader && preview?.headers[index] ? preview.headers[index] : `Column ${index + 1}`
+  );
+
+  const runImport = async (body: Record<string, unknown>) => {
+    try {
+      setIsImporting(true);
+      const response = await apiRequest('POST', '/api/import/csv', { content, fileName, accountId, ...body });
+      onImported(await response.json());
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const onSubmit = async ({ profileName, ...mapping }: FormValues) => {
+    if (!profileName) {
+      return runImport({ mapping });
+    }
+
+    try {
+      const response = await apiRequest('POST', '/api/csv-profiles', { ...mapping, name: profileName });
+      const profile: CsvProfile = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/csv-profiles'] });
+      await runImport({ profileId: profile.id });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save the CSV profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!preview) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-600">Bank profile</span>
+        <Select value={profileId} onValueChange={setProfileId}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="new">New column mapping</SelectItem>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={String(profile.id)}>{profile.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b bg-gray-50 text-left">
+              {columns.map((column, index) => (
+                <th key={index} className="px-2 py-1 font-medium text-gray-600">{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {(hasHeader ? preview.rows : [preview.headers, ...preview.rows]).map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-b last:border-0">
+                {columns.map((_, index) => (
+                  <td key={index} className="px-2 py-1 text-gray-700">{row[index] ?? ""}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {profileId !== "new" ? (
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel} disabled={isImporting}>Cancel</Button>
+          <Button onClick={() => runImport({ profileId: Number(profileId) })} disabled={isImporting}>
+            {isImporting ? 'Processing...' : 'Import CSV'}
+          </Button>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+              <ColumnField name="dateColumn" label="Date column" columns={columns} />
+              <ColumnField name="descriptionColumn" label="Description column" columns={columns} />
+              <ColumnField name="amountColumn" label="Amount column" columns={columns} optional />
+              <ColumnField name="debitColumn" label="Debit (money out) column" columns={columns} optional />
+              <ColumnField name="creditColumn" label="Credit (money in) column" columns={columns} optional />
+
+              <FormField
+                control={form.control}
+                name="dateFormat"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date format</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {csvDateFormats.map(format => (
+                          <SelectItem key={format} value={format}>{DATE_FORMAT_LABELS[format]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="decimalSeparator"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amounts</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value=".">1,234.56</SelectItem>
+                        <SelectItem value=",">1.234,56</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="delimiter"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Separator</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {csvDelimiters.map(delimiter => (
+                          <SelectItem key={delimiter} value={delimiter}>{DELIMITER_LABELS[delimiter]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <FormField
+                control={form.control}
+                name="hasHeader"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel className="font-normal">First row is a header</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="negateAmounts"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Spending is shown as positive amounts</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="profileName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Save as bank profile</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. My Credit Union" {...field} />
+                  </FormControl>
+                  <FormDescription>Leave empty to use this mapping once.</FormDescription>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onCancel} disabled={isImporting}>Cancel</Button>
+              <Button type="submit" disabled={isImporting}>
+                {isImporting ? 'Processing...' : 'Import CSV'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+}
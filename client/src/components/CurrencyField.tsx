@@ -0,0 +1,54 @@
+import { useEffect } from "react";
+import { useFormContext, useWatch } from "react-hook-form";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useCurrency } from "@/hooks/use-currency";
+import { commonCurrencies } from "@shared/schema";
+
+// Currency picker for the transaction dialogs.
+// Must be rendered inside a <Form> whose schema has currency and accountId fields.
+// A transaction in an account always uses the account's currency, so the picker follows it.
+export function CurrencyField() {
+  const { control, setValue } = useFormContext();
+  const accountId = useWatch({ control, name: "accountId" });
+  const { getAccount } = useAccounts();
+  const { baseCurrency } = useCurrency();
+  const account = getAccount(accountId);
+
+  useEffect(() => {
+    if (account) {
+      setValue("currency", account.currency);
+    }
+  }, [account?.currency]);
+
+  return (
+    <FormField
+      control={control}
+      name="currency"
+      render={({ field }) => {
+        const value = field.value ?? baseCurrency;
+        const options = Array.from(new Set([...commonCurrencies, baseCurrency, value]));
+        return (
+          <FormItem>
+            <FormLabel>Currency</FormLabel>
+            <Select onValueChange={field.onChange} value={value} disabled={!!account}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {options.map(currency => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {account && <FormDescription>The currency of {account.name}</FormDescription>}
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
@@ -0,0 +1,98 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Copy, Loader2, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/hooks/use-currency";
+import type { Transaction } from "@shared/schema";
+
+interface DuplicateGroup {
+  confidence: "exact" | "likely";
+  transactions: Transaction[];
+}
+
+export function DuplicateScanner() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Only scanned on demand; the scan reads the whole ledger
+  const { data: groups, isFetching, refetch } = useQuery<DuplicateGroup[]>({
+    queryKey: ['/api/transactions/duplicates'],
+    enabled: false,
+  });
+
+  const handleDelete = async (transaction: Transaction) => {
+    try {
+      await apiRequest('DELETE', `/api/transactions/${transaction.id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/summaries'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+      refetch();
+      toast({
+        title: "Transaction deleted",
+        description: `Removed the duplicate "${transaction.description}"`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete transaction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg font-medium">Duplicate Transactions</CardTitle>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          {isFetching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Copy className="mr-2 h-4 w-4" />}
+          Scan
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!groups ? (
+          <p className="text-sm text-gray-500">
+            Check your transactions for entries that were imported more than once.
+          </p>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-gray-500">No duplicates found.</p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => (
+              <div key={group.transactions[0].id} className="rounded-md border p-3">
+                <p className="mb-2 text-xs font-medium uppercase text-gray-500">
+                  {group.confidence === "exact" ? "Identical" : "Likely the same"}
+                </p>
+                <ul className="space-y-1">
+                  {group.transactions.map(transaction => (
+                    <li key={transaction.id} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700">
+                        {transaction.date} &middot; {transaction.description}
+                      </span>
+                      <span className="flex items-center">
+                        <span className="mr-2 font-medium">
+                          {formatMoney(Math.abs(Number(transaction.amount)), transaction.currency)}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(transaction)}
+                          className="text-gray-400 hover:text-red-600"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
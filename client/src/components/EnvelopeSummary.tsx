@@ -0,0 +1,79 @@
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle } from "lucide-react";
+import { useCurrency } from "@/hooks/use-currency";
+import { useEnvelopeMonth } from "@/hooks/use-envelopes";
+
+interface EnvelopeSummaryProps {
+  year: number;
+  month: number;
+}
+
+// The Dashboard's budget card in envelope mode: money left to assign and overspent envelopes
+export function EnvelopeSummary({ year, month }: EnvelopeSummaryProps) {
+  const { data, overspent, isLoading } = useEnvelopeMonth(year, month);
+  const { formatBase } = useCurrency();
+
+  if (isLoading || !data) {
+    return (
+      <Card className="bg-white overflow-hidden shadow rounded-lg">
+        <CardHeader>
+          <Skeleton className="h-6 w-40" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-white overflow-hidden shadow rounded-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-medium text-gray-900">Envelopes</CardTitle>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/envelopes">Manage</Link>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-baseline justify-between">
+          <span className="text-sm text-gray-500">To assign</span>
+          <span className={`text-2xl font-semibold ${data.toAssign < 0 ? "text-red-600" : "text-gray-900"}`}>
+            {formatBase(data.toAssign)}
+          </span>
+        </div>
+
+        {overspent.length > 0 ? (
+          <div className="space-y-1 rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">
+            {overspent.map(envelope => (
+              <div key={envelope.envelopeId} className="flex items-center">
+                <AlertTriangle className="mr-2 h-4 w-4 flex-shrink-0" />
+                {envelope.category} is overspent by {formatBase(-envelope.available)}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            {data.envelopes.length === 0 ? "No envelopes yet" : "No envelope is overspent"}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {data.envelopes.map(envelope => (
+            <div key={envelope.envelopeId} className="flex items-center justify-between text-sm">
+              <span className="text-gray-700">{envelope.category}</span>
+              <span className={`font-medium ${envelope.available < 0 ? "text-red-600" : "text-gray-900"}`}>
+                {formatBase(envelope.available)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
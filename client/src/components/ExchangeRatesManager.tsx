@@ -0,0 +1,225 @@
+import { useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Plus, Trash2, Upload } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { insertExchangeRateSchema } from "@shared/schema";
+import type { ExchangeRate } from "@shared/schema";
+
+interface ExchangeRatesData {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+  // Currencies in use that no rate converts into the base currency
+  missingCurrencies: string[];
+}
+
+type RateFormValues = z.infer<typeof insertExchangeRateSchema>;
+
+// Exchange rates used to convert amounts into the base currency, entered one at a time
+// or imported from a CSV with date, currency and rate columns
+export function ExchangeRatesManager() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data } = useQuery<ExchangeRatesData>({
+    queryKey: ['/api/exchange-rates'],
+  });
+
+  const form = useForm<RateFormValues>({
+    resolver: zodResolver(insertExchangeRateSchema),
+    values: {
+      date: new Date(),
+      fromCurrency: "",
+      toCurrency: data?.baseCurrency ?? "USD",
+      rate: 1,
+    },
+  });
+
+  // Rates change every converted total
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/exchange-rates'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/transactions') });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/summaries') });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/reports') });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const onSubmit = async (values: RateFormValues) => {
+    try {
+      await apiRequest('POST', '/api/exchange-rates', values);
+      refresh();
+      form.reset();
+    } catch (error) {
+      showError("Failed to save exchange rate", error);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const response = await apiRequest('POST', '/api/exchange-rates/import', { content: await file.text() });
+      const result = await response.json();
+      refresh();
+      toast({
+        title: "Exchange rates imported",
+        description: `Saved ${result.imported} rates` +
+          (result.invalidRows.length > 0 ? `; rows ${result.invalidRows.join(', ')} could not be read` : ''),
+      });
+    } catch (error) {
+      showError("Failed to import exchange rates", error);
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    try {
+      await apiRequest('DELETE', `/api/exchange-rates/${rate.id}`);
+      refresh();
+    } catch (error) {
+      showError("Failed to delete exchange rate", error);
+    }
+  };
+
+  const rates = data?.rates ?? [];
+  const missingCurrencies = data?.missingCurrencies ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Exchange Rates</CardTitle>
+          <CardDescription>
+            Amounts in other currencies are converted into {data?.baseCurrency ?? "your base currency"} with
+            the latest rate on or before their date.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+          <Upload className="mr-1 h-4 w-4" />
+          Import CSV
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={e => handleImport(e.target.files?.[0])}
+        />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {missingCurrencies.length > 0 && (
+          <p className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-900">
+            No rate converts {missingCurrencies.join(', ')} into {data?.baseCurrency}; those amounts are counted unconverted.
+          </p>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-2 gap-3 sm:grid-cols-5 sm:items-end">
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      value={field.value ? format(new Date(field.value), 'yyyy-MM-dd') : ''}
+                      onChange={e => field.onChange(new Date(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="fromCurrency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>1 unit of</FormLabel>
+                  <FormControl>
+                    <Input maxLength={3} placeholder="EUR" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="rate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>is worth</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" step="any" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="toCurrency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>in</FormLabel>
+                  <FormControl>
+                    <Input maxLength={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit">
+              <Plus className="mr-1 h-4 w-4" />
+              Add Rate
+            </Button>
+          </form>
+        </Form>
+
+        {rates.length === 0 ? (
+          <p className="text-sm text-gray-500">No exchange rates yet.</p>
+        ) : (
+          <ul className="max-h-72 space-y-1 overflow-y-auto">
+            {rates.map(rate => (
+              <li key={rate.id} className="flex items-center justify-between rounded-md border px-3 py-1 text-sm">
+                <span className="text-gray-500">{rate.date}</span>
+                <span className="text-gray-900">
+                  1 {rate.fromCurrency} = {Number(rate.rate)} {rate.toCurrency}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(rate)}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,14 @@
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from "recharts";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
 
+// Fallback for categories without a colour, e.g. ones deleted since the summary was built
 const COLORS = ["#ef4444", "#3b82f6", "#22c55e", "#eab308", "#a855f7", "#ec4899", "#14b8a6", "#f97316"];
 
 interface ExpenseCategoriesChartProps {
@@ -11,11 +17,18 @@ interface ExpenseCategoriesChartProps {
 }
 
 export function ExpenseCategoriesChart({ year, month }: ExpenseCategoriesChartProps) {
+  // Top-level category being drilled into, if any
+  const [parent, setParent] = useState<string | null>(null);
+  const query = parent ? `parent=${encodeURIComponent(parent)}` : 'level=parent';
   const { data, isLoading, error } = useQuery({
-    queryKey: [`/api/summaries/${year}/${month}`],
+    queryKey: [`/api/summaries/${year}/${month}?${query}`],
     // Don't throw on 404 errors since we want to display an empty chart for months with no data
     throwOnError: false,
   });
+  const { getCategory } = useCategories();
+  const { formatBase } = useCurrency();
+
+  useEffect(() => setParent(null), [year, month]);
 
   if (isLoading) {
     return <ExpenseCategoriesChartSkeleton />;
@@ -26,6 +39,7 @@ export function ExpenseCategoriesChart({ year, month }: ExpenseCategoriesChartPr
     category: string;
     amount: number;
     percentage: number;
+    hasChildren: boolean;
   }
   
   // Use empty breakdowns array if there's no data (or no breakdowns)
@@ -44,7 +58,8 @@ export function ExpenseCategoriesChart({ year, month }: ExpenseCategoriesChartPr
       name: b.category,
       value: Number(b.amount),
       percentage: Number(b.percentage).toFixed(0),
-      color: COLORS[index % COLORS.length]
+      hasChildren: b.hasChildren,
+      color: getCategory(b.category)?.color ?? COLORS[index % COLORS.length]
     }));
 
   const CustomTooltip = ({ active, payload }: any) => {
@@ -52,7 +67,7 @@ export function ExpenseCategoriesChart({ year, month }: ExpenseCategoriesChartPr
       return (
         <div className="bg-white p-2 border rounded shadow text-sm">
           <p className="font-medium">{payload[0].name}</p>
-          <p className="text-gray-700">${payload[0].value.toLocaleString()}</p>
+          <p className="text-gray-700">{formatBase(payload[0].value)}</p>
           <p className="text-gray-500">{payload[0].payload.percentage}%</p>
         </div>
       );
@@ -63,7 +78,14 @@ export function ExpenseCategoriesChart({ year, month }: ExpenseCategoriesChartPr
   return (
     <Card className="bg-white overflow-hidden shadow rounded-lg">
       <CardHeader>
-        <CardTitle className="text-lg font-medium text-gray-900">Expense Categories</CardTitle>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-medium text-gray-900">{parent ?? "Expense Categories"}</CardTitle>
+          {parent && (
+            <Button variant="ghost" size="sm" onClick={() => setParent(null)}>
+              <ChevronLeft className="mr-1 h-4 w-4" /> All categories
+            </Button>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
         {expenseCategories.length > 0 ? (
@@ -79,6 +101,7 @@ export function ExpenseCategoriesChart({ year, month }: ExpenseCategoriesChartPr
                     outerRadius={70}
                     paddingAngle={2}
                     dataKey="value"
+                    onClick={(entry: any) => entry.hasChildren && setParent(entry.name)}
                   >
                     {expenseCategories.map((entry: any, index: number) => (
                       <Cell key={`cell-${index}`} fill={entry.color} />
@@ -90,17 +113,22 @@ export function ExpenseCategoriesChart({ year, month }: ExpenseCategoriesChartPr
             </div>
             <div className="space-y-2">
               {expenseCategories.map((category: any, index: number) => (
-                <div key={index} className="flex items-center justify-between text-sm">
+                <div
+                  key={index}
+                  className={`flex items-center justify-between text-sm ${category.hasChildren ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                  onClick={() => category.hasChildren && setParent(category.name)}
+                >
                   <div className="flex items-center">
                     <div 
                       className="h-3 w-3 rounded-full mr-2" 
                       style={{ backgroundColor: category.color }}
                     ></div>
                     <span className="text-gray-700">{category.name}</span>
+                    {category.hasChildren && <ChevronRight className="ml-1 h-3 w-3 text-gray-400" />}
                   </div>
                   <div>
                     <span className="font-medium text-gray-900">
-                      ${Number(category.value).toLocaleString()}
+                      {formatBase(Number(category.value))}
                     </span>
                     <span className="text-gray-500 ml-1">{category.percentage}%</span>
                   </div>
@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useCategories } from "@/hooks/use-categories";
+import { csvDateFormats, csvDelimiters, exportFormats } from "@shared/schema";
+
+// Select value for leaving a filter off
+const ALL = "all";
+
+const FORMAT_LABELS: Record<typeof exportFormats[number], string> = {
+  csv: "CSV",
+  json: "JSON",
+  xlsx: "Excel workbook (XLSX)",
+  qif: "QIF (Quicken)",
+  ofx: "OFX",
+  beancount: "Beancount",
+  ledger: "Ledger",
+};
+
+const DATE_FORMAT_LABELS: Record<string, string> = {
+  MDY: "MM/DD/YYYY",
+  DMY: "DD/MM/YYYY",
+  YMD: "YYYY-MM-DD",
+};
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+};
+
+const formSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  format: z.enum(exportFormats),
+  category: z.string(),
+  type: z.string(),
+  accountId: z.string(),
+  dateFormat: z.enum(csvDateFormats),
+  decimalSeparator: z.enum([".", ","]),
+  delimiter: z.enum(csvDelimiters),
+}).refine(values => !values.from || !values.to || values.from <= values.to, {
+  message: "The start date must not be after the end date",
+  path: ["to"],
+}).refine(values => values.delimiter !== values.decimalSeparator, {
+  message: "Choose a delimiter other than the decimal separator",
+  path: ["delimiter"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The date range to start from, as YYYY-MM-DD
+  from?: string;
+  to?: string;
+}
+
+// Download transactions over a date range, filtered and in the format of the user's choosing
+export function ExportDialog({ open, onOpenChange, from, to }: ExportDialogProps) {
+  const { toast } = useToast();
+  const { accounts } = useAccounts();
+  const { categories, getLabel } = useCategories();
+  const [downloading, setDownloading] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+  });
+  const exportFormat = form.watch("format");
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        from: from ?? "",
+        to: to ?? "",
+        format: "csv",
+        category: ALL,
+        type: ALL,
+        accountId: ALL,
+        dateFormat: "YMD",
+        decimalSeparator: ".",
+        delimiter: ",",
+      });
+    }
+  }, [open, from, to]);
+
+  const onSubmit = async (values: FormValues) => {
+    const params = new URLSearchParams({ format: values.format });
+    if (values.from) params.set("from", values.from);
+    if (values.to) params.set("to", values.to);
+    if (values.category !== ALL) params.set("category", values.category);
+    if (values.type !== ALL) params.set("type", values.type);
+    if (values.accountId !== ALL) params.set("accountId", values.accountId);
+    if (values.format === "csv" || values.format === "qif") {
+      params.set("dateFormat", values.dateFormat);
+      params.set("decimalSeparator", values.decimalSeparator);
+    }
+    if (values.format === "csv") params.set("delimiter", values.delimiter);
+
+    setDownloading(true);
+    try {
+      const res = await apiRequest('GET', `/api/export?${params}`);
+      const filename = res.headers.get('Content-Disposition')?.match(/filename=([^;]+)/)?.[1] ?? `transactions.${values.format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Failed to export transactions",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const selectField = (name: "format" | "category" | "type" | "accountId" | "dateFormat" | "decimalSeparator" | "delimiter", label: string, options: { value: string; label: string }[]) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select
+            onValueChange={value => {
+              field.onChange(value);
+              // A decimal comma needs another delimiter
+              if (name === "decimalSeparator" && value === "," && form.getValues("delimiter") === ",") {
+                form.setValue("delimiter", ";");
+              }
+            }}
+            value={field.value}
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Transactions</DialogTitle>
+          <DialogDescription>Leave the dates blank to export everything from the first transaction to the last.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="from"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="to"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>To</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {selectField("category", "Category", [
+                { value: ALL, label: "All categories" },
+                ...categories
+                  .map(category => ({ value: category.name, label: getLabel(category) }))
+                  .sort((a, b) => a.label.localeCompare(b.label)),
+              ])}
+              {selectField("type", "Type", [
+                { value: ALL, label: "All types" },
+                { value: "income", label: "Income" },
+                { value: "expense", label: "Expenses" },
+                { value: "transfer", label: "Transfers" },
+              ])}
+            </div>
+            {selectField("accountId", "Account", [
+              { value: ALL, label: "All accounts" },
+              ...accounts.map(account => ({ value: String(account.id), label: account.name })),
+            ])}
+            {selectField("format", "Format", exportFormats.map(value => ({ value, label: FORMAT_LABELS[value] })))}
+            {(exportFormat === "csv" || exportFormat === "qif") && (
+              <div className="grid grid-cols-2 gap-4">
+                {selectField("dateFormat", "Date format", csvDateFormats.map(value => ({ value, label: DATE_FORMAT_LABELS[value] })))}
+                {selectField("decimalSeparator", "Decimal separator", [
+                  { value: ".", label: "Point (1234.56)" },
+                  { value: ",", label: "Comma (1234,56)" },
+                ])}
+              </div>
+            )}
+            {exportFormat === "csv" && selectField("delimiter", "Delimiter", csvDelimiters.map(value => ({ value, label: DELIMITER_LABELS[value] })))}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={downloading}>
+                {downloading ? "Exporting..." : "Export"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight, Copy, Loader2, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { useAccounts } from "@/hooks/use-accounts";
+import { formatMoney } from "@/hooks/use-currency";
+import type { StatementImport, StatementImportRow, Transaction } from "@shared/schema";
+
+type ReviewRow = StatementImportRow & {
+  // Existing transaction the row probably duplicates
+  duplicateOf: Transaction | null;
+  // Transaction in another account that may be the other leg of a transfer
+  transferOf: Transaction | null;
+};
+
+export type StatementImportDetails = StatementImport & {
+  parserName: string;
+  rows: ReviewRow[];
+};
+
+interface ImportReviewProps {
+  importId: number;
+  onFinished?: () => void;
+}
+
+function ImportRowEditor({ importId, row }: { importId: number; row: ReviewRow }) {
+  const [date, setDate] = useState(row.date);
+  const [description, setDescription] = useState(row.description);
+  const [amount, setAmount] = useState(Math.abs(Number(row.amount)).toFixed(2));
+  const queryClient = useQueryClient();
+  const { activeCategories, getLabel } = useCategories();
+  const { getAccount } = useAccounts();
+  const { toast } = useToast();
+  const queryKey = [`/api/imports/${importId}`];
+
+  // Every edit is saved straight away so the draft survives a reload
+  const save = async (changes: Partial<Record<keyof StatementImportRow, string>>) => {
+    try {
+      const response = await apiRequest('PUT', `/api/imports/${importId}/rows/${row.id}`, changes);
+      const updatedRow: StatementImportRow = await response.json();
+      queryClient.setQueryData<StatementImportDetails>(queryKey, (current) => current && {
+        ...current,
+        rows: current.rows.map(r => r.id === updatedRow.id ? { ...updatedRow, duplicateOf: r.duplicateOf, transferOf: r.transferOf } : r),
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the change",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const remove = async () => {
+    try {
+      await apiRequest('DELETE', `/api/imports/${importId}/rows/${row.id}`);
+      queryClient.setQueryData<StatementImportDetails>(queryKey, (current) => current && {
+        ...current,
+        rows: current.rows.filter(r => r.id !== row.id),
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove the row",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <tr className={row.duplicateOf || row.transferOf ? "" : "border-b"}>
+        <td className="py-2 pr-2">
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            onBlur={() => date && date !== row.date && save({ date })}
+            className="w-36"
+          />
+        </td>
+        <td className="py-2 pr-2">
+          <Input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            onBlur={() => description.trim() && description !== row.description && save({ description })}
+          />
+        </td>
+        <td className="py-2 pr-2">
+          <Select value={row.category} onValueChange={(category) => save({ category })} disabled={row.type === 'transfer'}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {activeCategories.map(category => (
+                <SelectItem key={category.id} value={category.name}>{getLabel(category)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </td>
+        <td className="py-2 pr-2">
+          <Select value={row.type} onValueChange={(type) => save({ type })}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="expense">Expense</SelectItem>
+              <SelectItem value="income">Income</SelectItem>
+              {row.transferOf && <SelectItem value="transfer">Transfer</SelectItem>}
+            </SelectContent>
+          </Select>
+        </td>
+        <td className="py-2 pr-2">
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            onBlur={() => amount !== '' && Number(amount) !== Math.abs(Number(row.amount)) && save({ amount })}
+            className="w-28 text-right"
+          />
+        </td>
+        <td className="py-2 text-right">
+          <Button variant="ghost" size="icon" onClick={remove} className="text-gray-400 hover:text-red-600">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </td>
+      </tr>
+      {row.duplicateOf && (
+        <tr className="border-b">
+          <td colSpan={6} className="pb-2">
+            <div className="flex items-center justify-between rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-900">
+              <span className="flex items-center">
+                <Copy className="mr-2 h-3 w-3" />
+                Looks like {row.duplicateOf.description} on {row.duplicateOf.date} ({formatMoney(Math.abs(Number(row.duplicateOf.amount)), row.duplicateOf.currency)}), already in your transactions{row.duplicateOf.transferId !== null && " as part of a transfer; merging only updates its date and description"}
+              </span>
+              <Select value={row.resolution ?? "skip"} onValueChange={(resolution) => save({ resolution })}>
+                <SelectTrigger className="h-8 w-48 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip">Skip this row</SelectItem>
+                  <SelectItem value="keep">Keep both</SelectItem>
+                  <SelectItem value="merge">Merge into existing</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </td>
+        </tr>
+      )}
+      {row.transferOf && (
+        <tr className="border-b">
+          <td colSpan={6} className="pb-2">
+            <div className="flex items-center rounded-md bg-blue-50 px-3 py-2 text-xs text-blue-900">
+              <ArrowLeftRight className="mr-2 h-3 w-3" />
+              {row.type === 'transfer' ? 'Transfer with' : 'Could be a transfer with'} {row.transferOf.description} on {row.transferOf.date} in {getAccount(row.transferOf.accountId)?.name ?? 'another account'}
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+export function ImportReview({ importId, onFinished }: ImportReviewProps) {
+  const [isCommitting, setIsCommitting] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: statementImport, isLoading } = useQuery<StatementImportDetails>({
+    queryKey: [`/api/imports/${importId}`],
+  });
+
+  const handleCommit = async () => {
+    try {
+      setIsCommitting(true);
+      const response = await apiRequest('POST', `/api/imports/${importId}/commit`);
+      const result = await response.json();
+
+      queryClient.invalidateQueries({ queryKey: ['/api/imports'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/summaries'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/accounts/') });
+      queryClient.removeQueries({ queryKey: [`/api/imports/${importId}`] });
+
+      const details = [
+        result.merged > 0 ? `${result.merged} merged` : null,
+        result.skipped > 0 ? `${result.skipped} duplicates skipped` : null,
+      ].filter(Boolean).join(', ');
+      toast({
+        title: "Statement Imported",
+        description: `Saved ${result.transactions.length - result.merged} new transactions${details ? ` (${details})` : ''}`,
+      });
+      onFinished?.();
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    try {
+      await apiRequest('DELETE', `/api/imports/${importId}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/imports'] });
+      queryClient.removeQueries({ queryKey: [`/api/imports/${importId}`] });
+      onFinished?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to discard the import",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading || !statementImport) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const duplicateCount = statementImport.rows.filter(row => row.duplicateOf).length;
+  // Whether the rows account for the balance change printed on the statement
+  const discrepancy = statementImport.openingBalance !== null && statementImport.closingBalance !== null
+    ? Math.round((Number(statementImport.closingBalance) - Number(statementImport.openingBalance) -
+        statementImport.rows.reduce((total, row) => total + Number(row.amount), 0)) * 100) / 100
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Review the {statementImport.rows.length} transactions read from
+        {statementImport.fileName ? ` ${statementImport.fileName}` : " your statement"} ({statementImport.parserName}).
+        Changes are saved as you go; nothing is added to your transactions until you import them.
+      </p>
+      {duplicateCount > 0 && (
+        <p className="text-sm text-amber-700">
+          {duplicateCount} {duplicateCount === 1 ? 'row looks' : 'rows look'} like transactions you already have.
+          Choose whether to skip, keep or merge each one.
+        </p>
+      )}
+      {discrepancy !== null && (
+        discrepancy === 0 ? (
+          <p className="text-sm text-green-700">
+            The transactions add up from the opening balance of {Number(statementImport.openingBalance).toFixed(2)} to
+            the closing balance of {Number(statementImport.closingBalance).toFixed(2)}.
+          </p>
+        ) : (
+          <p className="text-sm text-red-600">
+            The transactions do not add up to the statement: they are {Math.abs(discrepancy).toFixed(2)}
+            {discrepancy > 0 ? ' short of' : ' over'} the closing balance of {Number(statementImport.closingBalance).toFixed(2)}.
+            A transaction may be missing or misread.
+          </p>
+        )
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-xs uppercase text-gray-500">
+              <th className="py-2 pr-2 font-medium">Date</th>
+              <th className="py-2 pr-2 font-medium">Description</th>
+              <th className="py-2 pr-2 font-medium">Category</th>
+              <th className="py-2 pr-2 font-medium">Type</th>
+              <th className="py-2 pr-2 font-medium">Amount</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {statementImport.rows.map(row => (
+              <ImportRowEditor key={row.id} importId={importId} row={row} />
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={handleDiscard} disabled={isCommitting}>
+          Discard
+        </Button>
+        <Button onClick={handleCommit} disabled={isCommitting || statementImport.rows.length === 0}>
+          {isCommitting ? 'Importing...' : `Import ${statementImport.rows.length} Transactions`}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrency } from "@/hooks/use-currency";
 import {
   Bar,
   BarChart,
@@ -25,6 +26,7 @@ export function MonthlyTrendsChart({ year, month }: MonthlyTrendsChartProps) {
   const { data, isLoading, error } = useQuery({
     queryKey: ['/api/summaries'],
   }) as { data: any[], isLoading: boolean, error: any };
+  const { formatBase, formatBaseCompact } = useCurrency();
 
   if (isLoading) {
     return <MonthlyTrendsChartSkeleton />;
@@ -112,11 +114,11 @@ export function MonthlyTrendsChart({ year, month }: MonthlyTrendsChartProps) {
               <CartesianGrid strokeDasharray="3 3" vertical={false} />
               <XAxis dataKey="name" />
               <YAxis 
-                tickFormatter={(value) => `$${value.toLocaleString()}`}
+                tickFormatter={(value) => formatBaseCompact(value)}
                 width={80}
               />
               <Tooltip 
-                formatter={(value: number) => [`$${value.toLocaleString()}`, '']}
+                formatter={(value: number) => [formatBase(value), '']}
                 contentStyle={{ borderRadius: '4px' }}
               />
               <Legend />
@@ -0,0 +1,530 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Landmark, Pencil, Plus, Trash2 } from "lucide-react";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney, useCurrency } from "@/hooks/use-currency";
+import { CurrencyField } from "@/components/CurrencyField";
+import { assetTypes, liabilityTypes } from "@shared/schema";
+import type { Asset, AssetKind, AssetValuation } from "@shared/schema";
+
+type AssetWithValuations = Asset & {
+  valuations: AssetValuation[];
+  value: number | null;
+  valuedOn: string | null;
+};
+
+interface NetWorthItem {
+  source: "account" | "asset";
+  id: number;
+  name: string;
+  type: string;
+  currency: string;
+  value: number;
+  baseValue: number | null;
+  valuedOn: string | null;
+}
+
+interface NetWorthSummary {
+  currency: string;
+  current: {
+    date: string;
+    assets: number;
+    liabilities: number;
+    netWorth: number;
+    items: NetWorthItem[];
+  };
+  history: { year: number; month: number; date: string; assets: number; liabilities: number; netWorth: number }[];
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const TYPE_LABELS: Record<string, string> = {
+  property: "Property",
+  vehicle: "Vehicle",
+  investment: "Investment",
+  valuables: "Valuables",
+  mortgage: "Mortgage",
+  loan: "Loan",
+  other: "Other",
+  checking: "Checking",
+  savings: "Savings",
+  credit_card: "Credit card",
+  cash: "Cash",
+};
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+const assetFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  kind: z.enum(["asset", "liability"]),
+  type: z.string().min(1, "Choose a type"),
+  currency: z.string(),
+  // Only asked for when adding; it becomes the first valuation
+  value: z.coerce.number().nonnegative("Cannot be negative"),
+  date: z.string().min(1, "Date is required"),
+});
+
+const valuationFormSchema = z.object({
+  value: z.coerce.number().nonnegative("Cannot be negative"),
+  date: z.string().min(1, "Date is required"),
+});
+
+type AssetFormValues = z.infer<typeof assetFormSchema>;
+type ValuationFormValues = z.infer<typeof valuationFormSchema>;
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+// Net worth over time, what makes it up today, and the assets and liabilities valued by hand
+export function NetWorth() {
+  const [editing, setEditing] = useState<AssetWithValuations | null>(null);
+  const [assetDialogOpen, setAssetDialogOpen] = useState(false);
+  const [valuing, setValuing] = useState<AssetWithValuations | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { baseCurrency, formatBase, formatBaseCompact } = useCurrency();
+
+  // Account balances move with every transaction, so it is worked out afresh each visit
+  const { data: netWorth, isLoading } = useQuery<NetWorthSummary>({
+    queryKey: ['/api/net-worth'],
+    refetchOnMount: "always",
+  });
+  const { data: assets = [] } = useQuery<AssetWithValuations[]>({
+    queryKey: ['/api/assets'],
+  });
+
+  const assetForm = useForm<AssetFormValues>({
+    resolver: zodResolver(assetFormSchema),
+  });
+  const kind = assetForm.watch("kind");
+
+  const valuationForm = useForm<ValuationFormValues>({
+    resolver: zodResolver(valuationFormSchema),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/assets'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/net-worth'] });
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const openAssetDialog = (asset: AssetWithValuations | null, newKind: AssetKind = "asset") => {
+    setEditing(asset);
+    assetForm.reset({
+      name: asset?.name ?? "",
+      kind: (asset?.kind as AssetKind | undefined) ?? newKind,
+      type: asset?.type ?? "",
+      currency: asset?.currency ?? baseCurrency,
+      value: 0,
+      date: todayString(),
+    });
+    setAssetDialogOpen(true);
+  };
+
+  const openValuationDialog = (asset: AssetWithValuations) => {
+    setValuing(asset);
+    valuationForm.reset({ value: asset.value ?? 0, date: todayString() });
+  };
+
+  const onSubmitAsset = async (values: AssetFormValues) => {
+    const data = { name: values.name, kind: values.kind, type: values.type, currency: values.currency };
+    try {
+      if (editing) {
+        await apiRequest('PUT', `/api/assets/${editing.id}`, data);
+      } else {
+        const response = await apiRequest('POST', '/api/assets', data);
+        const asset: AssetWithValuations = await response.json();
+        await apiRequest('POST', `/api/assets/${asset.id}/valuations`, { value: values.value, date: values.date });
+      }
+      refresh();
+      setAssetDialogOpen(false);
+    } catch (error) {
+      showError("Failed to save", error);
+    }
+  };
+
+  const onSubmitValuation = async (values: ValuationFormValues) => {
+    if (!valuing) return;
+    try {
+      const response = await apiRequest('POST', `/api/assets/${valuing.id}/valuations`, values);
+      setValuing(await response.json());
+      refresh();
+    } catch (error) {
+      showError("Failed to save valuation", error);
+    }
+  };
+
+  const handleDeleteValuation = async (valuation: AssetValuation) => {
+    if (!valuing) return;
+    try {
+      const response = await apiRequest('DELETE', `/api/assets/${valuing.id}/valuations/${valuation.id}`);
+      setValuing(await response.json());
+      refresh();
+    } catch (error) {
+      showError("Failed to delete valuation", error);
+    }
+  };
+
+  const handleDeleteAsset = async (asset: AssetWithValuations) => {
+    if (!window.confirm(`Delete ${asset.name} and its valuations?`)) return;
+    try {
+      await apiRequest('DELETE', `/api/assets/${asset.id}`);
+      refresh();
+    } catch (error) {
+      showError("Failed to delete", error);
+    }
+  };
+
+  if (isLoading || !netWorth) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-40" />
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-80 w-full rounded-lg" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const chartData = netWorth.history.map(snapshot => ({
+    name: `${MONTHS[snapshot.month - 1]} ${snapshot.year}`,
+    netWorth: snapshot.netWorth,
+    assets: snapshot.assets,
+    liabilities: snapshot.liabilities,
+  }));
+  const { current } = netWorth;
+  const owned = current.items.filter(item => item.value >= 0);
+  const owed = current.items.filter(item => item.value < 0);
+  const unconverted = current.items.filter(item => item.baseValue === null).length;
+
+  const renderItems = (items: NetWorthItem[]) => (
+    <div className="space-y-2">
+      {items.map(item => (
+        <div key={`${item.source}-${item.id}`} className="flex items-center justify-between text-sm">
+          <div>
+            <div className="font-medium text-gray-900">{item.name}</div>
+            <div className="text-xs text-gray-500">
+              {TYPE_LABELS[item.type] ?? item.type}
+              {item.valuedOn && ` · valued ${formatDate(item.valuedOn)}`}
+            </div>
+          </div>
+          <div className="text-right">
+            <div>{formatMoney(Math.abs(item.value), item.currency)}</div>
+            {item.currency !== netWorth.currency && (
+              <div className="text-xs text-gray-500">
+                {item.baseValue !== null ? formatBase(Math.abs(item.baseValue)) : "No exchange rate"}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        {[
+          { label: "Net worth", value: current.netWorth },
+          { label: "Assets", value: current.assets },
+          { label: "Liabilities", value: current.liabilities },
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardContent className="p-4">
+              <div className="text-sm text-gray-500">{label}</div>
+              <div className="text-xl font-semibold text-gray-900">{formatBase(value)}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      {unconverted > 0 && (
+        <p className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          {unconverted} item{unconverted === 1 ? " is" : "s are"} left out of the totals for want of an exchange rate.
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Net Worth Over Time</CardTitle>
+          <CardDescription>Taken at the end of each month; this month's is kept up to date until it ends.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-80">
+            {chartData.length === 0 ? (
+              <div className="flex h-full items-center justify-center text-gray-500">
+                Add an account or an asset to start tracking your net worth
+              </div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="name" minTickGap={24} />
+                  <YAxis tickFormatter={(value) => formatBaseCompact(value)} width={80} />
+                  <Tooltip formatter={(value: number) => formatBase(value)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="netWorth" name="Net worth" stroke="hsl(222.2,47.4%,11.2%)" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="assets" name="Assets" stroke="#22c55e" dot={false} />
+                  <Line type="monotone" dataKey="liabilities" name="Liabilities" stroke="#ef4444" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>What You Own</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {owned.length === 0 ? <p className="text-sm text-gray-500">Nothing yet</p> : renderItems(owned)}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>What You Owe</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {owed.length === 0 ? <p className="text-sm text-gray-500">Nothing owed</p> : renderItems(owed)}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Assets and Liabilities</CardTitle>
+              <CardDescription>Things outside your accounts, such as a home, a car or a mortgage, valued by hand.</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => openAssetDialog(null, "asset")}>
+                <Plus className="mr-1 h-4 w-4" /> Asset
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => openAssetDialog(null, "liability")}>
+                <Plus className="mr-1 h-4 w-4" /> Liability
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {assets.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-6 text-gray-500">
+              <Landmark className="mb-2 h-8 w-8" />
+              <p>Your accounts are counted already; add anything else you own or owe</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {assets.map(asset => (
+                <div key={asset.id} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <div className="font-medium text-gray-900">{asset.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {asset.kind === "liability" ? "Liability" : "Asset"} · {TYPE_LABELS[asset.type] ?? asset.type}
+                      {asset.valuedOn && ` · valued ${formatDate(asset.valuedOn)}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className={asset.kind === "liability" ? "text-red-600" : "text-gray-900"}>
+                      {asset.value !== null ? formatMoney(asset.value, asset.currency) : "Not valued"}
+                    </span>
+                    <Button variant="outline" size="sm" className="ml-2" onClick={() => openValuationDialog(asset)}>
+                      Update value
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-400" onClick={() => openAssetDialog(asset)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-gray-400 hover:text-red-600"
+                      onClick={() => handleDeleteAsset(asset)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={assetDialogOpen} onOpenChange={setAssetDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? `Edit ${editing.name}` : kind === "liability" ? "Add Liability" : "Add Asset"}
+            </DialogTitle>
+          </DialogHeader>
+          <Form {...assetForm}>
+            <form onSubmit={assetForm.handleSubmit(onSubmitAsset)} className="space-y-4">
+              <FormField
+                control={assetForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder={kind === "liability" ? "e.g. Home mortgage" : "e.g. Family car"} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={assetForm.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(kind === "liability" ? liabilityTypes : assetTypes).map(type => (
+                          <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <CurrencyField />
+              {!editing && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={assetForm.control}
+                    name="value"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{kind === "liability" ? "Still owed" : "Worth"}</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={assetForm.control}
+                    name="date"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>As of</FormLabel>
+                        <FormControl>
+                          <Input type="date" max={todayString()} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setAssetDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Save</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={valuing !== null} onOpenChange={open => !open && setValuing(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{valuing?.name}</DialogTitle>
+            <DialogDescription>
+              {valuing?.kind === "liability"
+                ? "Record what is still owed. A date in the past fills in the history from then."
+                : "Record what it is worth. A date in the past fills in the history from then."}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...valuationForm}>
+            <form onSubmit={valuationForm.handleSubmit(onSubmitValuation)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={valuationForm.control}
+                  name="value"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Value ({valuing?.currency})</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={valuationForm.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>As of</FormLabel>
+                      <FormControl>
+                        <Input type="date" max={todayString()} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="submit">Save valuation</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+          {valuing && valuing.valuations.length > 0 && (
+            <div className="max-h-48 overflow-y-auto border-t pt-2">
+              {[...valuing.valuations].reverse().map(valuation => (
+                <div key={valuation.id} className="flex items-center justify-between py-1 text-sm">
+                  <span className="text-gray-500">{formatDate(valuation.date)}</span>
+                  <div className="flex items-center">
+                    {formatMoney(Number(valuation.value), valuing.currency)}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="ml-1 h-6 w-6 text-gray-400 hover:text-red-600"
+                      onClick={() => handleDeleteValuation(valuation)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
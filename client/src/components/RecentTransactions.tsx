@@ -1,46 +1,42 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DataTable } from "@/components/ui/data-table";
-import { ArrowDown, ArrowUp, Check, Home, Car, ShoppingBag, Zap, Building } from "lucide-react";
+import { ArrowDown, ArrowUp, Check, Clock, Lock } from "lucide-react";
 import { ColumnDef } from "@tanstack/react-table";
-import { categories } from "@shared/schema";
+import { CategoryIcon } from "@/components/CategoryIcon";
+import { TransactionAmount } from "@/components/TransactionAmount";
+import { useCategories } from "@/hooks/use-categories";
+import { useAccounts } from "@/hooks/use-accounts";
 import { formatDistanceToNow } from "date-fns";
 
+// Select value for "all accounts" in the account filter
+const ALL_ACCOUNTS = "all";
+
 interface RecentTransactionsProps {
   year: number;
   month: number;
+  // Only this list is filtered by account; the rest of the dashboard covers all accounts
+  accountId?: number | null;
+  onAccountChange?: (accountId: number | null) => void;
 }
 
-export function RecentTransactions({ year, month }: RecentTransactionsProps) {
+export function RecentTransactions({ year, month, accountId, onAccountChange }: RecentTransactionsProps) {
+  const accountQuery = accountId ? `?accountId=${accountId}` : '';
   const { data, isLoading, error } = useQuery({
-    queryKey: [`/api/transactions/month/${year}/${month}`],
+    queryKey: [`/api/transactions/month/${year}/${month}${accountQuery}`],
     throwOnError: false, // Don't throw errors so we can handle empty months gracefully
   });
 
+  const { categories, getCategory } = useCategories();
+  const { openAccounts, getAccount } = useAccounts();
+
   const categoryOptions = categories.map(category => ({
-    label: category,
-    value: category,
+    label: category.name,
+    value: category.name,
   }));
 
-  // Icon mapping for different categories
-  const getCategoryIcon = (category: string) => {
-    switch (category) {
-      case 'Housing':
-        return <Home className="text-blue-500" />;
-      case 'Transportation':
-        return <Car className="text-purple-500" />;
-      case 'Food':
-        return <ShoppingBag className="text-yellow-500" />;
-      case 'Utilities':
-        return <Zap className="text-red-500" />;
-      case 'Income':
-        return <Building className="text-green-500" />;
-      default:
-        return <ShoppingBag className="text-gray-500" />;
-    }
-  };
-
   const columns: ColumnDef<any>[] = [
     {
       accessorKey: "date",
@@ -58,16 +54,18 @@ export function RecentTransactions({ year, month }: RecentTransactionsProps) {
       accessorKey: "description",
       header: "Description",
       cell: ({ row }) => {
-        const category = row.original.category;
+        const category = getCategory(row.original.category);
+        const account = getAccount(row.original.accountId);
         return (
           <div className="flex items-center">
             <div className="flex-shrink-0 h-8 w-8 rounded bg-blue-100 flex items-center justify-center">
-              {getCategoryIcon(category)}
+              <CategoryIcon icon={category?.icon} color={category?.color} className="h-5 w-5" />
             </div>
             <div className="ml-4">
               <div className="text-sm font-medium text-gray-900">
                 {row.original.description}
               </div>
+              {account && <div className="text-xs text-gray-500">{account.name}</div>}
             </div>
           </div>
         );
@@ -83,24 +81,39 @@ export function RecentTransactions({ year, month }: RecentTransactionsProps) {
     {
       accessorKey: "amount",
       header: "Amount",
-      cell: ({ row }) => {
-        const amount = Number(row.original.amount);
-        const isIncome = row.original.type === "income";
-        return (
-          <div className={`text-sm font-medium ${isIncome ? 'text-green-600' : 'text-red-600'}`}>
-            {isIncome ? '+' : '-'}${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-          </div>
-        );
-      },
+      cell: ({ row }) => (
+        <TransactionAmount
+          transaction={row.original}
+          baseAmount={row.original.baseAmount}
+          className="text-sm font-medium"
+        />
+      ),
     },
     {
       accessorKey: "status",
       header: "Status",
-      cell: () => (
-        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-          <Check className="h-3 w-3 mr-1" /> Processed
-        </span>
-      ),
+      cell: ({ row }) => {
+        switch (row.original.status) {
+          case "reconciled":
+            return (
+              <span className="px-2 inline-flex items-center text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                <Lock className="h-3 w-3 mr-1" /> Reconciled
+              </span>
+            );
+          case "cleared":
+            return (
+              <span className="px-2 inline-flex items-center text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                <Check className="h-3 w-3 mr-1" /> Cleared
+              </span>
+            );
+          default:
+            return (
+              <span className="px-2 inline-flex items-center text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-700">
+                <Clock className="h-3 w-3 mr-1" /> Uncleared
+              </span>
+            );
+        }
+      },
     },
   ];
 
@@ -129,6 +142,22 @@ export function RecentTransactions({ year, month }: RecentTransactionsProps) {
       <CardHeader className="px-6 py-5 border-b border-gray-200">
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg font-medium text-gray-900">Recent Transactions</CardTitle>
+          {onAccountChange && openAccounts.length > 0 && (
+            <Select
+              value={accountId ? String(accountId) : ALL_ACCOUNTS}
+              onValueChange={value => onAccountChange(value === ALL_ACCOUNTS ? null : Number(value))}
+            >
+              <SelectTrigger className="w-[160px]" aria-label="Show transactions from">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+                {openAccounts.map(account => (
+                  <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
       </CardHeader>
       <CardContent className="p-0">
@@ -0,0 +1,420 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Key, Loader2, Pencil, RefreshCw, Save, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import type { CategoryRule, Transaction } from "@shared/schema";
+
+interface RuleChange {
+  transaction: Transaction;
+  category: string;
+  ruleId: number;
+}
+
+// Form fields are strings; empty ones become null when the rule is saved
+const ruleFormSchema = z.object({
+  category: z.string().min(1, "Choose a category"),
+  matchType: z.enum(["contains", "regex"]),
+  pattern: z.string(),
+  type: z.enum(["any", "income", "expense"]),
+  minAmount: z.string(),
+  maxAmount: z.string(),
+});
+
+type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
+const EMPTY_RULE: RuleFormValues = {
+  category: "",
+  matchType: "contains",
+  pattern: "",
+  type: "any",
+  minAmount: "",
+  maxAmount: "",
+};
+
+// Request body for a rule; the server expects every field on update
+function toRuleBody(values: RuleFormValues, priority: number) {
+  return {
+    category: values.category,
+    priority,
+    matchType: values.matchType,
+    pattern: values.pattern.trim() || null,
+    type: values.type === "any" ? null : values.type,
+    minAmount: values.minAmount.trim() || null,
+    maxAmount: values.maxAmount.trim() || null,
+  };
+}
+
+function toFormValues(rule: CategoryRule): RuleFormValues {
+  return {
+    category: rule.category,
+    matchType: rule.matchType as RuleFormValues["matchType"],
+    pattern: rule.pattern ?? "",
+    type: (rule.type ?? "any") as RuleFormValues["type"],
+    minAmount: rule.minAmount ?? "",
+    maxAmount: rule.maxAmount ?? "",
+  };
+}
+
+function describeRule(rule: CategoryRule): string {
+  const conditions = [];
+  if (rule.pattern) {
+    conditions.push(rule.matchType === "regex" ? `description matches /${rule.pattern}/` : `description contains ${rule.pattern}`);
+  }
+  if (rule.type) {
+    conditions.push(`is ${rule.type}`);
+  }
+  if (rule.minAmount && rule.maxAmount) {
+    conditions.push(`amount ${rule.minAmount}–${rule.maxAmount}`);
+  } else if (rule.minAmount) {
+    conditions.push(`amount at least ${rule.minAmount}`);
+  } else if (rule.maxAmount) {
+    conditions.push(`amount up to ${rule.maxAmount}`);
+  }
+  return conditions.join(", ");
+}
+
+function ReapplyRules() {
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Only computed on demand; the preview reads the whole ledger
+  const { data: changes, isFetching, refetch } = useQuery<RuleChange[]>({
+    queryKey: ['/api/rules/preview'],
+    enabled: false,
+  });
+
+  const handleApply = async () => {
+    const transactionIds = (changes ?? [])
+      .map(change => change.transaction.id)
+      .filter(id => !excluded.has(id));
+
+    try {
+      setIsApplying(true);
+      const response = await apiRequest('POST', '/api/rules/apply', { transactionIds });
+      const result = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/summaries'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+      setExcluded(new Set());
+      refetch();
+      toast({
+        title: "Rules applied",
+        description: `Recategorised ${result.updated} transactions`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to apply rules",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const toggle = (id: number, included: boolean) => {
+    const next = new Set(excluded);
+    if (included) next.delete(id); else next.add(id);
+    setExcluded(next);
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+        {isFetching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+        Re-apply rules to existing transactions
+      </Button>
+
+      {changes && (changes.length === 0 ? (
+        <p className="text-sm text-gray-500">Your transactions already match your rules.</p>
+      ) : (
+        <>
+          <ul className="max-h-72 space-y-1 overflow-y-auto">
+            {changes.map(change => (
+              <li key={change.transaction.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={!excluded.has(change.transaction.id)}
+                  onCheckedChange={checked => toggle(change.transaction.id, checked === true)}
+                />
+                <span className="text-gray-500">{change.transaction.date}</span>
+                <span className="flex-1 truncate text-gray-700">{change.transaction.description}</span>
+                <span className="text-gray-500">{change.transaction.category} → </span>
+                <span className="font-medium">{change.category}</span>
+              </li>
+            ))}
+          </ul>
+          <Button onClick={handleApply} disabled={isApplying || excluded.size === changes.length}>
+            {isApplying ? 'Applying...' : `Apply to ${changes.length - excluded.size} transactions`}
+          </Button>
+        </>
+      ))}
+    </div>
+  );
+}
+
+export function RulesManager() {
+  const [editing, setEditing] = useState<CategoryRule | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { activeCategories, getLabel } = useCategories();
+
+  const { data: rules = [], isLoading } = useQuery<CategoryRule[]>({
+    queryKey: ['/api/rules'],
+  });
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: EMPTY_RULE,
+  });
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to save rule",
+      variant: "destructive",
+    });
+  };
+
+  const onSubmit = async (values: RuleFormValues) => {
+    try {
+      if (editing) {
+        await apiRequest('PUT', `/api/rules/${editing.id}`, toRuleBody(values, editing.priority));
+      } else {
+        // New rules go last
+        const lastPriority = rules.length > 0 ? rules[rules.length - 1].priority : 0;
+        await apiRequest('POST', '/api/rules', toRuleBody(values, lastPriority + 10));
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/rules'] });
+      setEditing(null);
+      form.reset(EMPTY_RULE);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleEdit = (rule: CategoryRule) => {
+    setEditing(rule);
+    form.reset(toFormValues(rule));
+  };
+
+  const handleDelete = async (rule: CategoryRule) => {
+    try {
+      await apiRequest('DELETE', `/api/rules/${rule.id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/rules'] });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  // Swap a rule with its neighbour, renumbering priorities so the order is unambiguous
+  const handleMove = async (index: number, offset: number) => {
+    const reordered = [...rules];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+
+    try {
+      await Promise.all(reordered.map((rule, position) => {
+        const priority = (position + 1) * 10;
+        return rule.priority === priority
+          ? null
+          : apiRequest('PUT', `/api/rules/${rule.id}`, toRuleBody(toFormValues(rule), priority));
+      }));
+    } catch (error) {
+      showError(error);
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['/api/rules'] });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Categorisation Rules</CardTitle>
+        <CardDescription>
+          Rules pick a category for imported statements and for transactions you add without one.
+          They are tried from the top; the first rule that matches wins.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ol className="divide-y">
+            {rules.map((rule, index) => (
+              <li key={rule.id} className="flex items-center gap-2 py-2 text-sm">
+                <span className="flex-1 text-gray-700">
+                  If {describeRule(rule)} <span className="text-gray-400">→</span>{" "}
+                  <span className="font-medium">{rule.category}</span>
+                </span>
+                <Button variant="ghost" size="icon" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleMove(index, 1)} disabled={index === rules.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleEdit(rule)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(rule)}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="matchType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="contains">Contains any of</SelectItem>
+                        <SelectItem value="regex">Matches pattern</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pattern"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Keywords or pattern</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Enter keywords separated by commas" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="any">Income or expense</SelectItem>
+                        <SelectItem value="expense">Expense</SelectItem>
+                        <SelectItem value="income">Income</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="minAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount from</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount to</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {activeCategories.map(category => (
+                          <SelectItem key={category.id} value={category.name}>{getLabel(category)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit">
+                <Save className="mr-2 h-4 w-4" /> {editing ? "Save Rule" : "Add Rule"}
+              </Button>
+              {editing && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setEditing(null);
+                    form.reset(EMPTY_RULE);
+                  }}
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </Form>
+
+        <ReapplyRules />
+      </CardContent>
+      <CardFooter className="bg-muted/50 mt-4">
+        <div className="flex items-center text-xs text-muted-foreground gap-2">
+          <Key className="h-3 w-3" />
+          <span>Amounts are compared without their sign. Keywords and patterns ignore case.</span>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
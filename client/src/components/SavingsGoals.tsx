@@ -0,0 +1,416 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, PiggyBank, Plus, Trash2 } from "lucide-react";
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis } from "recharts";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useCategories } from "@/hooks/use-categories";
+import { formatMoney, useCurrency } from "@/hooks/use-currency";
+import { CurrencyField } from "@/components/CurrencyField";
+
+type GoalStatus = "complete" | "on_track" | "behind" | "no_target_date";
+
+interface GoalProgress {
+  goalId: number;
+  name: string;
+  currency: string;
+  targetAmount: number;
+  targetDate: string | null;
+  accountId: number | null;
+  category: string | null;
+  saved: number;
+  remaining: number;
+  percentage: number;
+  requiredMonthly: number | null;
+  recentMonthlyRate: number;
+  projectedCompletion: string | null;
+  status: GoalStatus;
+  monthlyContributions: { year: number; month: number; amount: number }[];
+}
+
+const STATUS_LABELS: Record<GoalStatus, string> = {
+  complete: "Reached",
+  on_track: "On track",
+  behind: "Behind",
+  no_target_date: "No target date",
+};
+
+const BAR_COLOURS: Record<GoalStatus, string> = {
+  complete: "bg-green-500",
+  on_track: "bg-primary",
+  behind: "bg-amber-500",
+  no_target_date: "bg-primary",
+};
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  targetAmount: z.coerce.number().positive("Target must be positive"),
+  targetDate: z.string(),
+  trackBy: z.enum(["account", "category"]),
+  accountId: z.number().nullable(),
+  category: z.string(),
+  currency: z.string(),
+  initialAmount: z.coerce.number().nonnegative("Cannot be negative"),
+}).refine(data => data.trackBy === "category" || data.accountId !== null, {
+  message: "Choose an account",
+  path: ["accountId"],
+}).refine(data => data.trackBy === "account" || data.category !== "", {
+  message: "Choose a category",
+  path: ["category"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+interface SavingsGoalsProps {
+  // Adds each goal's contributions over the last year
+  detailed?: boolean;
+}
+
+// Savings goals with their progress and when they will be reached at the recent rate
+export function SavingsGoals({ detailed = false }: SavingsGoalsProps) {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<GoalProgress | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { openAccounts, getAccount } = useAccounts();
+  const { activeCategories, getLabel } = useCategories();
+  const { baseCurrency } = useCurrency();
+
+  // Progress comes from the ledger, which most screens can change, so it is fetched afresh each visit
+  const { data: goals = [], isLoading } = useQuery<GoalProgress[]>({
+    queryKey: ['/api/goals'],
+    refetchOnMount: "always",
+  });
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+  });
+  const trackBy = form.watch("trackBy");
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const openDialog = (goal: GoalProgress | null) => {
+    setEditing(goal);
+    form.reset({
+      name: goal?.name ?? "",
+      targetAmount: goal?.targetAmount ?? 0,
+      targetDate: goal?.targetDate ?? "",
+      trackBy: goal?.category ? "category" : "account",
+      accountId: goal?.accountId ?? null,
+      category: goal?.category ?? "",
+      currency: goal?.currency ?? baseCurrency,
+      // Only category goals keep what was saved before tracking; saved less contributions gives it back
+      initialAmount: goal?.category
+        ? Math.max(0, goal.saved - goal.monthlyContributions.reduce((sum, entry) => sum + entry.amount, 0))
+        : 0,
+    });
+    setOpen(true);
+  };
+
+  const onSubmit = async (values: FormValues) => {
+    const data = {
+      name: values.name,
+      targetAmount: values.targetAmount,
+      targetDate: values.targetDate || null,
+      accountId: values.trackBy === "account" ? values.accountId : null,
+      category: values.trackBy === "category" ? values.category : null,
+      currency: values.trackBy === "category" ? values.currency : undefined,
+      initialAmount: values.trackBy === "category" ? values.initialAmount : 0,
+    };
+    try {
+      if (editing) {
+        await apiRequest('PUT', `/api/goals/${editing.goalId}`, data);
+      } else {
+        await apiRequest('POST', '/api/goals', data);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+      setOpen(false);
+    } catch (error) {
+      showError("Failed to save goal", error);
+    }
+  };
+
+  const handleDelete = async (goal: GoalProgress) => {
+    if (!window.confirm(`Delete the goal "${goal.name}"? Its transactions are kept.`)) return;
+    try {
+      await apiRequest('DELETE', `/api/goals/${goal.goalId}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+    } catch (error) {
+      showError("Failed to delete goal", error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="bg-white overflow-hidden shadow rounded-lg">
+        <CardHeader>
+          <Skeleton className="h-6 w-40" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-12 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-white overflow-hidden shadow rounded-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-medium text-gray-900">Savings Goals</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add Goal
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {goals.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-32 text-gray-500">
+            <PiggyBank className="mb-2 h-8 w-8" />
+            <p>Set a goal for a holiday, an emergency fund or anything else you are saving for</p>
+          </div>
+        ) : (
+          <div className={detailed ? "grid grid-cols-1 gap-6 lg:grid-cols-2" : "space-y-5"}>
+            {goals.map(goal => (
+              <div key={goal.goalId}>
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center">
+                    <span className="font-medium text-gray-900">{goal.name}</span>
+                    <Badge variant={goal.status === "behind" ? "destructive" : "secondary"} className="ml-2">
+                      {STATUS_LABELS[goal.status]}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center">
+                    <span className="font-medium text-gray-900">{formatMoney(goal.saved, goal.currency)}</span>
+                    <span className="ml-1 text-gray-500">of {formatMoney(goal.targetAmount, goal.currency)}</span>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-gray-400" onClick={() => openDialog(goal)}>
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-gray-400 hover:text-red-600"
+                      onClick={() => handleDelete(goal)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="mt-1 h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                  <div className={`h-full rounded-full ${BAR_COLOURS[goal.status]}`} style={{ width: `${goal.percentage}%` }} />
+                </div>
+                <div className="mt-1 space-y-0.5 text-xs text-gray-500">
+                  <div>
+                    {goal.accountId !== null ? `Balance of ${getAccount(goal.accountId)?.name ?? "a closed account"}` : `Contributions to ${goal.category}`}
+                    {goal.targetDate && ` · Target ${formatDate(goal.targetDate)}`}
+                    {goal.requiredMonthly !== null && ` · Needs ${formatMoney(goal.requiredMonthly, goal.currency)} a month`}
+                  </div>
+                  {goal.status !== "complete" && (
+                    <div>
+                      {goal.projectedCompletion
+                        ? `At ${formatMoney(goal.recentMonthlyRate, goal.currency)} a month, reached around ${formatDate(goal.projectedCompletion)}`
+                        : "Nothing saved towards it in the last three months"}
+                    </div>
+                  )}
+                </div>
+                {detailed && (
+                  <div className="mt-2 h-24">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={goal.monthlyContributions.map(entry => ({ ...entry, name: MONTHS[entry.month - 1] }))}>
+                        <XAxis dataKey="name" tick={{ fontSize: 10 }} interval={0} />
+                        <Tooltip formatter={(value: number) => [formatMoney(value, goal.currency), "Contributed"]} />
+                        <Bar dataKey="amount" fill="#22c55e" radius={[2, 2, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : "Add Savings Goal"}</DialogTitle>
+            <DialogDescription>
+              Track a goal by the balance of a savings account, or by what you put into a category.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Emergency fund" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="targetAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Target</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="targetDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>By (optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="trackBy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Track with</FormLabel>
+                    <Select
+                      onValueChange={value => {
+                        field.onChange(value);
+                        // A category goal's currency is chosen freely rather than following an account
+                        if (value === "category") form.setValue("accountId", null);
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="account">An account's balance</SelectItem>
+                        <SelectItem value="category">Contributions to a category</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {trackBy === "account" ? (
+                <FormField
+                  control={form.control}
+                  name="accountId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account</FormLabel>
+                      <Select
+                        onValueChange={value => field.onChange(Number(value))}
+                        value={field.value !== null ? String(field.value) : undefined}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select an account" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {openAccounts.map(account => (
+                            <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a category" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {activeCategories.map(category => (
+                              <SelectItem key={category.id} value={category.name}>{getLabel(category)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Money spent in this category counts as saved.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="initialAmount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Already saved</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <CurrencyField />
+                </>
+              )}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Save</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -9,15 +9,25 @@ import {
   User,
   Menu,
   X,
+  LogOut,
+  Users,
+  FileUp,
+  Landmark,
+  Mail,
+  Repeat,
+  CreditCard,
+  HandCoins,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Sidebar() {
   const [location] = useLocation();
   const [isOpen, setIsOpen] = useState(false);
   const isMobile = useIsMobile();
+  const { user, logoutMutation } = useAuth();
 
   // Close mobile sidebar on navigation
   useEffect(() => {
@@ -26,7 +36,15 @@ export default function Sidebar() {
 
   const navItems = [
     { href: "/", label: "Dashboard", icon: Home },
+    { href: "/accounts", label: "Accounts", icon: Landmark },
+    // Envelopes replace category budgets for users who budget that way
+    ...(user?.budgetMode === "envelope" ? [{ href: "/envelopes", label: "Envelopes", icon: Mail }] : []),
+    { href: "/recurring", label: "Recurring", icon: Repeat },
+    { href: "/subscriptions", label: "Subscriptions", icon: CreditCard },
+    { href: "/loans", label: "Loans", icon: HandCoins },
     { href: "/reports", label: "Reports", icon: FileBarChart },
+    { href: "/upload", label: "Import Statements", icon: FileUp },
+    { href: "/household", label: "Household", icon: Users },
     { href: "/settings", label: "Settings", icon: Settings },
   ];
 
@@ -73,7 +91,7 @@ export default function Sidebar() {
           <NavItems />
         </div>
       </nav>
-      <div className="flex-shrink-0 flex border-t border-[hsl(222.2,47.4%,15.2%)] p-4">
+      <div className="flex-shrink-0 flex items-center justify-between border-t border-[hsl(222.2,47.4%,15.2%)] p-4">
         <div className="flex items-center">
           <div className="flex-shrink-0">
             <div className="h-10 w-10 rounded-full bg-[hsl(222.2,47.4%,15.2%)] flex items-center justify-center">
@@ -81,10 +99,22 @@ export default function Sidebar() {
             </div>
           </div>
           <div className="ml-3">
-            <p className="text-sm font-medium text-white">Demo User</p>
-            <p className="text-xs font-medium text-[hsl(222.2,47.4%,55.2%)]">View Profile</p>
+            <p className="text-sm font-medium text-white">{user?.username}</p>
+            <Link href="/settings" className="text-xs font-medium text-[hsl(222.2,47.4%,55.2%)]">
+              View Profile
+            </Link>
           </div>
         </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+          className="text-gray-300 hover:bg-[hsl(222.2,47.4%,15.2%)] hover:text-white"
+          title="Log out"
+        >
+          <LogOut className="h-5 w-5" />
+        </Button>
       </div>
     </>
   );
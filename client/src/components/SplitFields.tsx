@@ -0,0 +1,77 @@
+import { useFormContext, useWatch } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Household sharing controls for the transaction dialogs.
+// Must be rendered inside a <Form> whose schema has splitType and splitValue fields.
+export function SplitFields() {
+  const { control } = useFormContext();
+  const splitType = useWatch({ control, name: "splitType" });
+
+  // A 404 means the user has no household, in which case sharing is not offered
+  const { data: household } = useQuery({
+    queryKey: ['/api/household'],
+    throwOnError: false,
+  });
+
+  if (!household) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <FormField
+        control={control}
+        name="splitType"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Shared</FormLabel>
+            <Select
+              onValueChange={value => field.onChange(value === "none" ? null : value)}
+              value={field.value ?? "none"}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Not shared" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="none">Not shared</SelectItem>
+                <SelectItem value="equal">Split equally</SelectItem>
+                <SelectItem value="percentage">My share (%)</SelectItem>
+                <SelectItem value="fixed">My share (amount)</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {(splitType === "percentage" || splitType === "fixed") && (
+        <FormField
+          control={control}
+          name="splitValue"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{splitType === "percentage" ? "My share %" : "My share"}</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min="0"
+                  max={splitType === "percentage" ? "100" : undefined}
+                  step="0.01"
+                  placeholder={splitType === "percentage" ? "50" : "0.00"}
+                  value={field.value ?? ""}
+                  onChange={e => field.onChange(e.target.value === "" ? null : e.target.value)}
+                />
+              </FormControl>
+              <FormDescription>The rest is split among the other members.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+    </div>
+  );
+}
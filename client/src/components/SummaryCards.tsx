@@ -1,20 +1,36 @@
 import { Card, CardContent } from "@/components/ui/card";
-import { ArrowDown, ArrowUp, Wallet } from "lucide-react";
+import { ArrowDown, ArrowUp, Wallet, User, Users } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
+import { formatMoney, useCurrency } from "@/hooks/use-currency";
 
 interface SummaryProps {
   year: number;
   month: number;
 }
 
+interface SharedSummaryData {
+  personalExpenses: number;
+  sharedExpenses: number;
+  yourShare: number;
+  // The household's currency, which shared amounts are converted into
+  currency: string;
+}
+
 export function SummaryCards({ year, month }: SummaryProps) {
+  const { formatBase } = useCurrency();
   const { data, isLoading, error } = useQuery({
     queryKey: [`/api/summaries/${year}/${month}`],
     // Don't throw on 404 errors since we want to display zeros for months with no data
     throwOnError: false,
   });
 
+  // Only returns data when the user belongs to a household
+  const { data: sharedData } = useQuery<SharedSummaryData>({
+    queryKey: [`/api/household/summary/${year}/${month}`],
+    throwOnError: false,
+  });
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
@@ -53,91 +69,137 @@ export function SummaryCards({ year, month }: SummaryProps) {
   const balanceChange = 25.3; // Example value, would be dynamic in real implementation
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-      {/* Total Income Card */}
-      <Card className="bg-white shadow rounded-lg overflow-hidden">
-        <CardContent className="p-5">
-          <div className="flex items-center">
-            <div className="flex-shrink-0 bg-green-100 rounded-md p-3">
-              <ArrowDown className="text-green-600 h-5 w-5" />
-            </div>
-            <div className="ml-5 w-0 flex-1">
-              <dl>
-                <dt className="text-sm font-medium text-gray-500 truncate">
-                  Total Income
-                </dt>
-                <dd className="flex items-baseline">
-                  <div className="text-2xl font-semibold text-gray-900">
-                    ${Number(summary.totalIncome || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                  </div>
-                  <div className="ml-2 flex items-baseline text-sm font-semibold text-green-600">
-                    <ArrowUp className="mr-0.5 flex-shrink-0 self-center h-4 w-4" />
-                    <span>{incomeChange}%</span>
-                  </div>
-                </dd>
-              </dl>
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {/* Total Income Card */}
+        <Card className="bg-white shadow rounded-lg overflow-hidden">
+          <CardContent className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0 bg-green-100 rounded-md p-3">
+                <ArrowDown className="text-green-600 h-5 w-5" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="text-sm font-medium text-gray-500 truncate">
+                    Total Income
+                  </dt>
+                  <dd className="flex items-baseline">
+                    <div className="text-2xl font-semibold text-gray-900">
+                      {formatBase(Number(summary.totalIncome || 0))}
+                    </div>
+                    <div className="ml-2 flex items-baseline text-sm font-semibold text-green-600">
+                      <ArrowUp className="mr-0.5 flex-shrink-0 self-center h-4 w-4" />
+                      <span>{incomeChange}%</span>
+                    </div>
+                  </dd>
+                </dl>
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
 
-      {/* Total Expenses Card */}
-      <Card className="bg-white shadow rounded-lg overflow-hidden">
-        <CardContent className="p-5">
-          <div className="flex items-center">
-            <div className="flex-shrink-0 bg-red-100 rounded-md p-3">
-              <ArrowUp className="text-red-600 h-5 w-5" />
-            </div>
-            <div className="ml-5 w-0 flex-1">
-              <dl>
-                <dt className="text-sm font-medium text-gray-500 truncate">
-                  Total Expenses
-                </dt>
-                <dd className="flex items-baseline">
-                  <div className="text-2xl font-semibold text-gray-900">
-                    ${Number(summary.totalExpenses || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                  </div>
-                  <div className="ml-2 flex items-baseline text-sm font-semibold text-red-600">
-                    <ArrowUp className="mr-0.5 flex-shrink-0 self-center h-4 w-4" />
-                    <span>{expenseChange}%</span>
-                  </div>
-                </dd>
-              </dl>
+        {/* Total Expenses Card */}
+        <Card className="bg-white shadow rounded-lg overflow-hidden">
+          <CardContent className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0 bg-red-100 rounded-md p-3">
+                <ArrowUp className="text-red-600 h-5 w-5" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="text-sm font-medium text-gray-500 truncate">
+                    Total Expenses
+                  </dt>
+                  <dd className="flex items-baseline">
+                    <div className="text-2xl font-semibold text-gray-900">
+                      {formatBase(Number(summary.totalExpenses || 0))}
+                    </div>
+                    <div className="ml-2 flex items-baseline text-sm font-semibold text-red-600">
+                      <ArrowUp className="mr-0.5 flex-shrink-0 self-center h-4 w-4" />
+                      <span>{expenseChange}%</span>
+                    </div>
+                  </dd>
+                </dl>
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
 
-      {/* Net Balance Card */}
-      <Card className="bg-white shadow rounded-lg overflow-hidden">
-        <CardContent className="p-5">
-          <div className="flex items-center">
-            <div className="flex-shrink-0 bg-blue-100 rounded-md p-3">
-              <Wallet className="text-blue-600 h-5 w-5" />
+        {/* Net Balance Card */}
+        <Card className="bg-white shadow rounded-lg overflow-hidden">
+          <CardContent className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0 bg-blue-100 rounded-md p-3">
+                <Wallet className="text-blue-600 h-5 w-5" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="text-sm font-medium text-gray-500 truncate">
+                    Net Balance
+                  </dt>
+                  <dd className="flex items-baseline">
+                    <div className="text-2xl font-semibold text-gray-900">
+                      {formatBase(Number(summary.netBalance || 0))}
+                    </div>
+                    <div className="ml-2 flex items-baseline text-sm font-semibold text-green-600">
+                      <ArrowUp className="mr-0.5 flex-shrink-0 self-center h-4 w-4" />
+                      <span>{balanceChange}%</span>
+                    </div>
+                  </dd>
+                </dl>
+              </div>
             </div>
-            <div className="ml-5 w-0 flex-1">
-              <dl>
-                <dt className="text-sm font-medium text-gray-500 truncate">
-                  Net Balance
-                </dt>
-                <dd className="flex items-baseline">
-                  <div className="text-2xl font-semibold text-gray-900">
-                    ${Number(summary.netBalance || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                  </div>
-                  <div className="ml-2 flex items-baseline text-sm font-semibold text-green-600">
-                    <ArrowUp className="mr-0.5 flex-shrink-0 self-center h-4 w-4" />
-                    <span>{balanceChange}%</span>
-                  </div>
-                </dd>
-              </dl>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Personal vs. shared spending for household members */}
+      {sharedData && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <SharedAmountCard
+            icon={<User className="text-gray-600 h-5 w-5" />}
+            label="Personal Expenses"
+            amount={sharedData.personalExpenses}
+            currency={sharedData.currency}
+          />
+          <SharedAmountCard
+            icon={<Users className="text-purple-600 h-5 w-5" />}
+            label="Shared Household Expenses"
+            amount={sharedData.sharedExpenses}
+            currency={sharedData.currency}
+          />
+          <SharedAmountCard
+            icon={<Users className="text-purple-600 h-5 w-5" />}
+            label="Your Share of Shared"
+            amount={sharedData.yourShare}
+            currency={sharedData.currency}
+          />
+        </div>
+      )}
     </div>
   );
 }
 
+function SharedAmountCard({ icon, label, amount, currency }: { icon: React.ReactNode; label: string; amount: number; currency: string }) {
+  return (
+    <Card className="bg-white shadow rounded-lg overflow-hidden">
+      <CardContent className="p-4">
+        <div className="flex items-center">
+          <div className="flex-shrink-0 bg-gray-100 rounded-md p-2">
+            {icon}
+          </div>
+          <div className="ml-4 w-0 flex-1">
+            <dl>
+              <dt className="text-sm font-medium text-gray-500 truncate">{label}</dt>
+              <dd className="text-lg font-semibold text-gray-900">{formatMoney(Number(amount || 0), currency)}</dd>
+            </dl>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function SummaryCardSkeleton() {
   return (
     <Card className="bg-white shadow rounded-lg overflow-hidden">
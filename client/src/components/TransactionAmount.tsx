@@ -0,0 +1,29 @@
+import { formatMoney, useCurrency } from "@/hooks/use-currency";
+import type { Transaction } from "@shared/schema";
+
+interface TransactionAmountProps {
+  transaction: Pick<Transaction, "amount" | "currency" | "type">;
+  // Amount in the user's base currency, as returned by the transaction list endpoints
+  baseAmount?: number | null;
+  className?: string;
+}
+
+// A signed amount in the transaction's own currency, with its value in the base currency
+// underneath when the two differ
+export function TransactionAmount({ transaction, baseAmount, className = "" }: TransactionAmountProps) {
+  const { baseCurrency, formatBase } = useCurrency();
+  const amount = Number(transaction.amount);
+  // Transfers only move money between accounts, so they get a neutral colour
+  const colour = transaction.type === "transfer" ? "text-gray-600" : amount > 0 ? "text-green-600" : "text-red-600";
+
+  return (
+    <div className={`${colour} ${className}`}>
+      {amount > 0 ? "+" : "-"}{formatMoney(Math.abs(amount), transaction.currency)}
+      {transaction.currency !== baseCurrency && (
+        <div className="text-xs font-normal text-gray-500">
+          {baseAmount != null ? `≈ ${formatBase(Math.abs(baseAmount))}` : `No ${transaction.currency} rate`}
+        </div>
+      )}
+    </div>
+  );
+}
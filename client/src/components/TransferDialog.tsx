@@ -0,0 +1,163 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAccounts } from "@/hooks/use-accounts";
+import { insertTransferSchema } from "@shared/schema";
+
+type FormValues = z.infer<typeof insertTransferSchema>;
+
+interface TransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function AccountSelect({ value, onChange }: { value?: number; onChange: (id: number) => void }) {
+  const { openAccounts } = useAccounts();
+  return (
+    <Select value={value ? String(value) : undefined} onValueChange={id => onChange(Number(id))}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue placeholder="Select an account" />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        {openAccounts.map(account => (
+          <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Move money between two of the user's accounts, e.g. into savings or to pay off a card
+export function TransferDialog({ open, onOpenChange }: TransferDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(insertTransferSchema),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ date: new Date(), description: "Transfer", amount: 0 });
+    }
+  }, [open]);
+
+  const onSubmit = async (values: FormValues) => {
+    try {
+      await apiRequest('POST', '/api/transfers', values);
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/accounts/') });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/transactions') });
+      toast({
+        title: "Transfer recorded",
+        description: "The money has been moved between your accounts",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Failed to record transfer",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Transfer Between Accounts</DialogTitle>
+          <DialogDescription>Transfers are not counted as income or spending.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="fromAccountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From</FormLabel>
+                    <AccountSelect value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="toAccountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>To</FormLabel>
+                    <AccountSelect value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        value={field.value ? format(new Date(field.value), 'yyyy-MM-dd') : ''}
+                        onChange={e => field.onChange(new Date(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit">Record Transfer</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,9 +4,28 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { FileUp, Lock, X } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import { useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { processPdfFile } from "@/lib/pdf-parser";
 import { PDF_CONFIG } from "@/lib/config";
+import { ImportReview, type StatementImportDetails } from "@/components/ImportReview";
+import { CsvMappingWizard } from "@/components/CsvMappingWizard";
+import { useAccounts } from "@/hooks/use-accounts";
+
+type StatementFileKind = 'pdf' | 'csv' | 'ofx' | 'beancount';
+
+// Account select value for imports that are not tied to an account
+const NO_ACCOUNT = "none";
+
+// PDF statements, CSV exports and OFX/QFX downloads are all accepted, as are Beancount ledgers
+function getFileKind(file: File): StatementFileKind | null {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'pdf' || file.type === 'application/pdf') return 'pdf';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'beancount' || extension === 'bean') return 'beancount';
+  return null;
+}
 
 interface UploadWidgetProps {
   onClose?: () => void;
@@ -18,8 +37,22 @@ export function UploadWidget({ onClose, showCloseButton = true }: UploadWidgetPr
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [parserId, setParserId] = useState("auto");
+  const [accountId, setAccountId] = useState<number | null>(null);
+  const [activeImportId, setActiveImportId] = useState<number | null>(null);
+  const [csvFile, setCsvFile] = useState<{ content: string; fileName: string } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { openAccounts } = useAccounts();
+
+  const { data: parsers = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['/api/statement-parsers'],
+  });
+
+  // Drafts left unfinished, e.g. by a page reload mid-review
+  const { data: pendingImports = [] } = useQuery<StatementImportDetails[]>({
+    queryKey: ['/api/imports'],
+  });
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -48,10 +81,10 @@ export function UploadWidget({ onClose, showCloseButton = true }: UploadWidgetPr
   };
 
   const handleFileSelection = (file: File) => {
-    if (file.type !== 'application/pdf') {
+    if (!getFileKind(file)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a PDF file",
+        description: "Please upload a PDF, CSV, OFX, QFX or Beancount file",
         variant: "destructive",
       });
       return;
@@ -74,58 +107,107 @@ export function UploadWidget({ onClose, showCloseButton = true }: UploadWidgetPr
     if (!selectedFile) {
       toast({
         title: "No file selected",
-        description: "Please select a PDF file to process",
+        description: "Please select a statement file to process",
         variant: "destructive",
       });
       return;
     }
 
+    const kind = getFileKind(selectedFile);
+
+    // CSV columns have to be mapped before anything can be imported
+    if (kind === 'csv') {
+      setCsvFile({ content: await selectedFile.text(), fileName: selectedFile.name });
+      return;
+    }
+
+    if (kind === 'beancount') {
+      await handleImportBeancount(selectedFile);
+      return;
+    }
+
+    let progressInterval: ReturnType<typeof setInterval> | undefined;
     try {
       setIsUploading(true);
       
       // Mock upload progress
-      const progressInterval = setInterval(() => {
+      progressInterval = setInterval(() => {
         setUploadProgress(prev => {
           const newProgress = prev + 10;
           return newProgress > 90 ? 90 : newProgress;
         });
       }, 300);
 
-      // Process PDF file
-      const { base64 } = await processPdfFile(selectedFile);
+      let response: Response;
+      if (kind === 'ofx') {
+        response = await apiRequest('POST', '/api/import/ofx', {
+          content: await selectedFile.text(),
+          fileName: selectedFile.name,
+          accountId,
+        });
+      } else {
+        // Process PDF file
+        const { base64 } = await processPdfFile(selectedFile);
+
+        // Send to server
+        response = await apiRequest('POST', '/api/upload-statement', {
+          pdfContent: base64,
+          fileName: selectedFile.name,
+          parser: parserId === "auto" ? undefined : parserId,
+          accountId,
+        });
+      }
 
-      // Send to server
-      const response = await apiRequest('POST', '/api/upload-statement', {
-        pdfContent: base64
+      setUploadProgress(100);
+      openDraft(await response.json());
+    } catch (error) {
+      console.error('Error processing statement:', error);
+      toast({
+        title: "Processing Failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
       });
-
+    } finally {
       clearInterval(progressInterval);
-      setUploadProgress(100);
+      setIsUploading(false);
+    }
+  };
 
+  // A Beancount ledger is saved straight away, into the accounts and categories it names
+  const handleImportBeancount = async (file: File) => {
+    try {
+      setIsUploading(true);
+      const response = await apiRequest('POST', '/api/import/beancount', {
+        content: await file.text(),
+        fileName: file.name,
+      });
       const result = await response.json();
 
-      // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
       queryClient.invalidateQueries({ queryKey: ['/api/summaries'] });
-      
-      // Show success toast
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/accounts/') });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+
+      const notes = [
+        result.skipped > 0 ? `${result.skipped} already recorded were skipped` : null,
+        result.accounts.length > 0 ? `New accounts: ${result.accounts.join(', ')}` : null,
+        result.categories.length > 0 ? `New categories: ${result.categories.join(', ')}` : null,
+        result.ignored.length > 0 ? `${result.ignored.length} entries could not be imported (line ${result.ignored.map((entry: { line: number }) => entry.line).join(', ')})` : null,
+      ].filter(Boolean);
       toast({
-        title: "Statement Processed Successfully",
-        description: `Extracted ${result.transactions.length} transactions`,
+        title: result.message,
+        description: notes.length > 0 ? notes.join('. ') : undefined,
       });
 
-      // Reset the form
       setSelectedFile(null);
-      setUploadProgress(0);
-      
-      // Close the widget if provided
-      if (onClose) {
-        onClose();
-      }
+      onClose?.();
     } catch (error) {
-      console.error('Error processing PDF:', error);
+      console.error('Error importing Beancount file:', error);
       toast({
-        title: "Processing Failed",
+        title: "Import Failed",
         description: error instanceof Error ? error.message : "An unknown error occurred",
         variant: "destructive",
       });
@@ -134,11 +216,30 @@ export function UploadWidget({ onClose, showCloseButton = true }: UploadWidgetPr
     }
   };
 
+  // Open a freshly created draft import for review
+  const openDraft = (result: any) => {
+    queryClient.setQueryData([`/api/imports/${result.import.id}`], result.import);
+    queryClient.invalidateQueries({ queryKey: ['/api/imports'] });
+    setActiveImportId(result.import.id);
+    setCsvFile(null);
+    
+    toast({
+      title: "Statement Processed Successfully",
+      description: `Extracted ${result.import.rows.length} transactions (${result.parser.name}) for review`,
+    });
+
+    // Reset the form
+    setSelectedFile(null);
+    setUploadProgress(0);
+  };
+
   return (
     <Card className="col-span-1 lg:col-span-3 bg-white rounded-lg shadow">
       <CardContent className="p-6">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-lg font-medium text-gray-900">Upload Monthly Statement</h2>
+          <h2 className="text-lg font-medium text-gray-900">
+            {activeImportId ? 'Review Imported Transactions' : csvFile ? 'Map CSV Columns' : 'Upload Monthly Statement'}
+          </h2>
           {showCloseButton && (
             <Button 
               variant="ghost" 
@@ -150,80 +251,156 @@ export function UploadWidget({ onClose, showCloseButton = true }: UploadWidgetPr
             </Button>
           )}
         </div>
-        <div 
-          className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
-            isDragActive 
-              ? 'border-primary bg-primary/5' 
-              : 'border-gray-300 hover:border-primary'
-          }`}
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          onDrop={handleDrop}
-          onClick={() => document.getElementById('file-upload')?.click()}
-        >
-          <div className="space-y-3">
-            <FileUp className="mx-auto h-12 w-12 text-gray-400" />
-            <div className="text-sm text-gray-600">
-              <label htmlFor="file-upload" className="relative cursor-pointer rounded-md font-medium text-primary hover:text-primary/80 focus-within:outline-none">
-                <span>Upload a PDF file</span>
-                <input 
-                  id="file-upload" 
-                  name="file-upload" 
-                  type="file" 
-                  accept=".pdf" 
-                  className="sr-only"
-                  onChange={handleFileInputChange}
-                />
-              </label>
-              <p className="pl-1">or drag and drop</p>
+        {activeImportId ? (
+          <ImportReview
+            importId={activeImportId}
+            onFinished={() => {
+              setActiveImportId(null);
+              onClose?.();
+            }}
+          />
+        ) : csvFile ? (
+          <CsvMappingWizard
+            content={csvFile.content}
+            fileName={csvFile.fileName}
+            accountId={accountId}
+            onImported={openDraft}
+            onCancel={() => setCsvFile(null)}
+          />
+        ) : (
+          <>
+            {pendingImports.length > 0 && (
+              <div className="mb-4 rounded-md border border-amber-200 bg-amber-50 p-3">
+                <p className="text-sm font-medium text-amber-800">Unfinished imports</p>
+                <ul className="mt-2 space-y-1">
+                  {pendingImports.map(pending => (
+                    <li key={pending.id} className="flex items-center justify-between text-sm text-amber-900">
+                      <span>
+                        {pending.fileName || 'Statement'} &middot; {pending.rows.length} transactions
+                      </span>
+                      <Button variant="outline" size="sm" onClick={() => setActiveImportId(pending.id)}>
+                        Resume review
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div 
+              className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+                isDragActive 
+                  ? 'border-primary bg-primary/5' 
+                  : 'border-gray-300 hover:border-primary'
+              }`}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+              onClick={() => document.getElementById('file-upload')?.click()}
+            >
+              <div className="space-y-3">
+                <FileUp className="mx-auto h-12 w-12 text-gray-400" />
+                <div className="text-sm text-gray-600">
+                  <label htmlFor="file-upload" className="relative cursor-pointer rounded-md font-medium text-primary hover:text-primary/80 focus-within:outline-none">
+                    <span>Upload a statement</span>
+                    <input 
+                      id="file-upload" 
+                      name="file-upload" 
+                      type="file" 
+                      accept=".pdf,.csv,.ofx,.qfx,.beancount,.bean" 
+                      className="sr-only"
+                      onChange={handleFileInputChange}
+                    />
+                  </label>
+                  <p className="pl-1">or drag and drop</p>
+                </div>
+                <p className="text-xs text-gray-500">
+                  PDF, CSV, OFX, QFX or Beancount up to {PDF_CONFIG.maxSizeBytes / (1024 * 1024)}MB
+                </p>
+              </div>
             </div>
-            <p className="text-xs text-gray-500">
-              Supported file: PDF up to {PDF_CONFIG.maxSizeBytes / (1024 * 1024)}MB
-            </p>
-          </div>
-        </div>
-        
-        {selectedFile && (
-          <div className="mt-3 px-1">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center">
-                <FileUp className="h-5 w-5 text-gray-400 mr-2" />
-                <span className="text-sm font-medium text-gray-700 truncate max-w-xs">
-                  {selectedFile.name}
-                </span>
+          
+            {/* A Beancount ledger names its own accounts */}
+            {openAccounts.length > 0 && (!selectedFile || getFileKind(selectedFile) !== 'beancount') && (
+              <div className="mt-3 flex items-center gap-2">
+                <span className="text-sm text-gray-600">Account</span>
+                <Select
+                  value={accountId === null ? NO_ACCOUNT : String(accountId)}
+                  onValueChange={value => setAccountId(value === NO_ACCOUNT ? null : Number(value))}
+                >
+                  <SelectTrigger className="w-72">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                    {openAccounts.map(account => (
+                      <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* Only PDF statements need their layout detected */}
+            {(!selectedFile || getFileKind(selectedFile) === 'pdf') && (
+              <div className="mt-3 flex items-center gap-2">
+                <span className="text-sm text-gray-600">Bank format</span>
+                <Select value={parserId} onValueChange={setParserId}>
+                  <SelectTrigger className="w-72">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Auto-detect</SelectItem>
+                    {parsers.map(parser => (
+                      <SelectItem key={parser.id} value={parser.id}>{parser.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          
+            {selectedFile && (
+              <div className="mt-3 px-1">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <FileUp className="h-5 w-5 text-gray-400 mr-2" />
+                    <span className="text-sm font-medium text-gray-700 truncate max-w-xs">
+                      {selectedFile.name}
+                    </span>
+                  </div>
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    onClick={() => setSelectedFile(null)}
+                    className="text-gray-400 hover:text-gray-500"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {uploadProgress > 0 && (
+                  <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                    <div 
+                      className="bg-primary h-1.5 rounded-full transition-all duration-300" 
+                      style={{ width: `${uploadProgress}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+          
+            <div className="mt-4 flex justify-between">
+              <div className="text-sm text-gray-500 flex items-center">
+                <Lock className="mr-1 h-3 w-3" /> Your data is encrypted and secure
               </div>
               <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => setSelectedFile(null)}
-                className="text-gray-400 hover:text-gray-500"
+                onClick={handleProcessStatement}
+                disabled={!selectedFile || isUploading}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary hover:bg-primary/90"
               >
-                <X className="h-4 w-4" />
+                {isUploading ? 'Processing...' : 'Process Statement'}
               </Button>
             </div>
-            {uploadProgress > 0 && (
-              <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
-                <div 
-                  className="bg-primary h-1.5 rounded-full transition-all duration-300" 
-                  style={{ width: `${uploadProgress}%` }}
-                />
-              </div>
-            )}
-          </div>
+          </>
         )}
-        
-        <div className="mt-4 flex justify-between">
-          <div className="text-sm text-gray-500 flex items-center">
-            <Lock className="mr-1 h-3 w-3" /> Your data is encrypted and secure
-          </div>
-          <Button 
-            onClick={handleProcessStatement}
-            disabled={!selectedFile || isUploading}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary hover:bg-primary/90"
-          >
-            {isUploading ? 'Processing...' : 'Process Statement'}
-          </Button>
-        </div>
       </CardContent>
     </Card>
   );
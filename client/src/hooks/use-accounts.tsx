@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Account } from "@shared/schema";
+
+export type AccountWithBalance = Account & { balance: number; baseBalance: number | null };
+
+// Accounts the signed-in user can use: their own and their household's joint
+// accounts. `openAccounts` leaves out archived ones and is what pickers offer.
+export function useAccounts() {
+  const { data: accounts = [], isLoading } = useQuery<AccountWithBalance[]>({
+    queryKey: ['/api/accounts'],
+  });
+
+  const openAccounts = accounts.filter(account => !account.archived);
+  const getAccount = (id: number | null | undefined) => accounts.find(account => account.id === id);
+
+  return { accounts, openAccounts, getAccount, isLoading };
+}
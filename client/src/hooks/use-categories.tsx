@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Category } from "@shared/schema";
+
+// The signed-in user's categories. Archived ones stay in `categories` so old
+// transactions can still show their colour and icon. `activeCategories` is what
+// pickers offer: transactions are tagged with leaves, so it leaves out archived
+// categories and parents that have subcategories.
+export function useCategories() {
+  const { data: categories = [], isLoading } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const parentIds = new Set(categories.map(category => category.parentId));
+  const activeCategories = categories.filter(category => !category.archived && !parentIds.has(category.id));
+  const getCategory = (name: string) => categories.find(category => category.name === name);
+
+  // "Food › Groceries" for subcategories, the plain name otherwise
+  const getLabel = (category: Category) => {
+    const parent = categories.find(other => other.id === category.parentId);
+    return parent ? `${parent.name} › ${category.name}` : category.name;
+  };
+
+  return { categories, activeCategories, getCategory, getLabel, isLoading };
+}
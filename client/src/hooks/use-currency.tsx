@@ -0,0 +1,32 @@
+import { useAuth } from "@/hooks/use-auth";
+
+export const formatMoney = (value: number, currency = "USD") => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2
+  }).format(value);
+};
+
+// Short form for chart axes, e.g. "$12k" or "€950"
+export const formatMoneyCompact = (value: number, currency = "USD") => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumFractionDigits: 1
+  }).format(value);
+};
+
+// The signed-in user's base currency, which summaries and reports are converted into.
+// `formatBase` formats an amount already in it.
+export function useCurrency() {
+  const { user } = useAuth();
+  const baseCurrency = user?.baseCurrency ?? "USD";
+
+  return {
+    baseCurrency,
+    formatBase: (value: number) => formatMoney(value, baseCurrency),
+    formatBaseCompact: (value: number) => formatMoneyCompact(value, baseCurrency),
+  };
+}
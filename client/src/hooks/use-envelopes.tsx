@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import type { EnvelopeAllocation } from "@shared/schema";
+
+export interface EnvelopeMonth {
+  envelopeId: number;
+  category: string;
+  rollover: boolean;
+  carriedOver: number;
+  assigned: number;
+  moved: number;
+  spent: number;
+  available: number;
+}
+
+export interface EnvelopeBudgetMonth {
+  year: number;
+  month: number;
+  income: number;
+  carriedOver: number;
+  overspentLastMonth: number;
+  unenvelopedSpending: number;
+  toAssign: number;
+  envelopes: EnvelopeMonth[];
+  sweptToSavings: number;
+  totalSwept: number;
+  allocations: EnvelopeAllocation[];
+}
+
+// A month of envelope budgeting, as worked out by the server from every month since
+// money was first assigned. `overspent` lists the envelopes with a negative balance.
+export function useEnvelopeMonth(year: number, month: number) {
+  const { data, isLoading } = useQuery<EnvelopeBudgetMonth>({
+    queryKey: [`/api/envelopes/${year}/${month}`],
+  });
+
+  const overspent = (data?.envelopes ?? []).filter(envelope => envelope.available < 0);
+
+  return { data, overspent, isLoading };
+}
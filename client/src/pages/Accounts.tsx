@@ -0,0 +1,390 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Archive, ArchiveRestore, ArrowLeftRight, Landmark, Pencil, Plus, Trash2, Users } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useAccounts, type AccountWithBalance } from "@/hooks/use-accounts";
+import { TransferDialog } from "@/components/TransferDialog";
+import { AccountStatements } from "@/components/AccountStatements";
+import { formatMoney, useCurrency } from "@/hooks/use-currency";
+import { accountTypes, insertAccountSchema } from "@shared/schema";
+import type { Transaction } from "@shared/schema";
+
+export const ACCOUNT_TYPE_LABELS: Record<string, string> = {
+  checking: "Checking",
+  savings: "Savings",
+  credit_card: "Credit card",
+  cash: "Cash",
+  loan: "Loan",
+  investment: "Investment",
+};
+
+const formSchema = insertAccountSchema.extend({
+  institution: z.string().trim(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const EMPTY_ACCOUNT: FormValues = {
+  name: "",
+  type: "checking",
+  institution: "",
+  currency: "USD",
+  openingBalance: 0,
+  joint: false,
+};
+
+function AccountTransactions({ account }: { account: AccountWithBalance }) {
+  const { data: transactions = [], isLoading } = useQuery<(Transaction & { balance: number })[]>({
+    queryKey: [`/api/accounts/${account.id}/transactions`],
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-6 text-gray-500">Loading transactions...</div>;
+  }
+
+  if (transactions.length === 0) {
+    return <p className="text-sm text-gray-500">No transactions recorded against this account yet.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-gray-500">
+          <th className="py-2 pr-2 font-medium">Date</th>
+          <th className="py-2 pr-2 font-medium">Description</th>
+          <th className="py-2 pr-2 font-medium">Category</th>
+          <th className="py-2 pr-2 text-right font-medium">Amount</th>
+          <th className="py-2 text-right font-medium">Balance</th>
+        </tr>
+      </thead>
+      <tbody>
+        {transactions.map(transaction => (
+          <tr key={transaction.id} className="border-b last:border-0">
+            <td className="py-2 pr-2 text-gray-500">{transaction.date}</td>
+            <td className="py-2 pr-2 text-gray-900">{transaction.description}</td>
+            <td className="py-2 pr-2 text-gray-700">{transaction.category}</td>
+            <td className={`py-2 pr-2 text-right font-medium ${transaction.type === 'transfer' ? 'text-gray-600' : Number(transaction.amount) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatMoney(Number(transaction.amount), account.currency)}
+            </td>
+            <td className="py-2 text-right text-gray-900">{formatMoney(transaction.balance, account.currency)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function Accounts() {
+  const [open, setOpen] = useState(false);
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [editing, setEditing] = useState<AccountWithBalance | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { accounts, openAccounts, isLoading } = useAccounts();
+  const { baseCurrency, formatBase } = useCurrency();
+
+  const selected = accounts.find(account => account.id === selectedId) ?? accounts[0];
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: EMPTY_ACCOUNT,
+  });
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const handleAdd = () => {
+    setEditing(null);
+    form.reset({ ...EMPTY_ACCOUNT, currency: baseCurrency });
+    setOpen(true);
+  };
+
+  const handleEdit = (account: AccountWithBalance) => {
+    setEditing(account);
+    form.reset({
+      name: account.name,
+      type: account.type as FormValues["type"],
+      institution: account.institution ?? "",
+      currency: account.currency,
+      openingBalance: Number(account.openingBalance),
+      joint: account.householdId !== null,
+    });
+    setOpen(true);
+  };
+
+  const onSubmit = async (values: FormValues) => {
+    const data = { ...values, institution: values.institution || null };
+    try {
+      if (editing) {
+        await apiRequest('PUT', `/api/accounts/${editing.id}`, data);
+      } else {
+        await apiRequest('POST', '/api/accounts', data);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+      setOpen(false);
+    } catch (error) {
+      showError("Failed to save account", error);
+    }
+  };
+
+  const handleArchive = async (account: AccountWithBalance) => {
+    try {
+      await apiRequest('PUT', `/api/accounts/${account.id}`, { archived: !account.archived });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+    } catch (error) {
+      showError("Failed to update account", error);
+    }
+  };
+
+  const handleDelete = async (account: AccountWithBalance) => {
+    if (!window.confirm(`Delete the account "${account.name}"?`)) {
+      return;
+    }
+
+    try {
+      await apiRequest('DELETE', `/api/accounts/${account.id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+    } catch (error) {
+      showError("Failed to delete account", error);
+    }
+  };
+
+  return (
+    <>
+      {/* Top Navbar */}
+      <div className="bg-white shadow-sm z-10">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <h1 className="text-lg font-semibold">Accounts</h1>
+            <div className="flex items-center gap-2">
+              {openAccounts.length > 1 && (
+                <Button variant="outline" onClick={() => setTransferOpen(true)}>
+                  <ArrowLeftRight className="mr-2 h-4 w-4" /> Transfer
+                </Button>
+              )}
+              <Button onClick={handleAdd}>
+                <Plus className="mr-2 h-4 w-4" /> Add Account
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto bg-gray-100 p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="text-center py-10">Loading accounts...</div>
+        ) : accounts.length === 0 ? (
+          <div className="text-center py-10 text-gray-500">
+            <Landmark className="mx-auto mb-2 h-8 w-8" />
+            <p>Add your bank accounts and cards to track a balance for each.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Accounts</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {accounts.map(account => (
+                  <div
+                    key={account.id}
+                    onClick={() => setSelectedId(account.id)}
+                    className={`flex cursor-pointer items-center justify-between rounded-md border p-3 ${account.id === selected?.id ? 'border-primary bg-primary/5' : ''} ${account.archived ? 'opacity-60' : ''}`}
+                  >
+                    <div>
+                      <div className="flex items-center text-sm font-medium text-gray-900">
+                        {account.name}
+                        {account.householdId !== null && <Users className="ml-2 h-3 w-3 text-gray-400" />}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {ACCOUNT_TYPE_LABELS[account.type]}{account.institution ? ` · ${account.institution}` : ''}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <span className={`text-sm font-semibold ${account.balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {formatMoney(account.balance, account.currency)}
+                      </span>
+                      {account.currency !== baseCurrency && account.baseBalance !== null && (
+                        <div className="text-xs text-gray-500">≈ {formatBase(account.baseBalance)}</div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {selected && (
+              <Card className="lg:col-span-2">
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle>{selected.name}</CardTitle>
+                    <CardDescription>
+                      Opening balance {formatMoney(Number(selected.openingBalance), selected.currency)}
+                    </CardDescription>
+                  </div>
+                  {/* Joint accounts can only be changed by the member who added them */}
+                  {selected.userId === user?.id && (
+                    <div className="flex">
+                      <Button variant="ghost" size="icon" onClick={() => handleEdit(selected)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleArchive(selected)}
+                        title={selected.archived ? "Reopen" : "Archive"}
+                      >
+                        {selected.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(selected)}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <AccountTransactions account={selected} />
+                  <AccountStatements account={selected} />
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </main>
+
+      <TransferDialog open={transferOpen} onOpenChange={setTransferOpen} />
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Account" : "Add Account"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Joint checking" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {accountTypes.map(type => (
+                            <SelectItem key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="institution"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Institution</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Chase" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <FormControl>
+                        <Input maxLength={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="openingBalance"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Opening balance</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="joint"
+                render={({ field }) => (
+                  <FormItem className="flex items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+                    </FormControl>
+                    <div className="space-y-1">
+                      <FormLabel className="font-normal">Joint account</FormLabel>
+                      <FormDescription>Everyone in your household can record transactions against it.</FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <FormDescription>Enter money owed, such as a credit card balance, as a negative amount.</FormDescription>
+              <DialogFooter>
+                <Button type="submit">{editing ? "Save" : "Add Account"}</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
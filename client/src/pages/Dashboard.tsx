@@ -1,24 +1,40 @@
 import { useState } from "react";
 import { SummaryCards } from "@/components/SummaryCards";
 import { MonthlyTrendsChart } from "@/components/MonthlyTrendsChart";
+import { CashFlowForecast } from "@/components/CashFlowForecast";
 import { ExpenseCategoriesChart } from "@/components/ExpenseCategoriesChart";
+import { BudgetProgress } from "@/components/BudgetProgress";
+import { EnvelopeSummary } from "@/components/EnvelopeSummary";
+import { SavingsGoals } from "@/components/SavingsGoals";
 import { RecentTransactions } from "@/components/RecentTransactions";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight, Plus, Calendar, PencilIcon } from "lucide-react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useCategories } from "@/hooks/use-categories";
+import { useAccounts } from "@/hooks/use-accounts";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { SplitFields } from "@/components/SplitFields";
+import { CurrencyField } from "@/components/CurrencyField";
+import { useCurrency } from "@/hooks/use-currency";
+import { useAuth } from "@/hooks/use-auth";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertTransactionSchema, categories } from "@shared/schema";
+import { insertTransactionSchema } from "@shared/schema";
 import { format } from "date-fns";
 
+// Category select value that lets the server's rules categorise a new transaction
+const AUTO_CATEGORY = "auto";
+
+// Select value for "no account" in the form
+const NO_ACCOUNT = "none";
+
 const MONTHS = [
   "January", "February", "March", "April", "May", "June",
   "July", "August", "September", "October", "November", "December"
@@ -31,7 +47,12 @@ export default function Dashboard() {
   const [currentYear, setCurrentYear] = useState(today.getFullYear());
   const [open, setOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<any>(null);
+  const [accountFilter, setAccountFilter] = useState<number | null>(null);
   const queryClient = useQueryClient();
+  const { activeCategories, getLabel } = useCategories();
+  const { openAccounts } = useAccounts();
+  const { baseCurrency } = useCurrency();
+  const { user } = useAuth();
   const { toast } = useToast();
   const isMobile = useIsMobile();
 
@@ -54,9 +75,13 @@ export default function Dashboard() {
     defaultValues: {
       date: new Date(),
       description: "",
-      category: "Other",
+      category: AUTO_CATEGORY,
       amount: 0,
       type: "expense",
+      splitType: null,
+      splitValue: null,
+      accountId: null,
+      currency: baseCurrency,
     },
   });
 
@@ -66,9 +91,13 @@ export default function Dashboard() {
     transactionForm.reset({
       date: new Date(),
       description: "",
-      category: "Other",
+      category: AUTO_CATEGORY,
       amount: 0,
       type: "expense",
+      splitType: null,
+      splitValue: null,
+      accountId: accountFilter,
+      currency: baseCurrency,
     });
     
     setOpen(true);
@@ -78,7 +107,8 @@ export default function Dashboard() {
     try {
       // Adjust amount based on type
       const amount = data.type === "expense" ? -data.amount : data.amount;
-      const submitData = { ...data, amount };
+      const { category, ...rest } = data;
+      const submitData = category === AUTO_CATEGORY ? { ...rest, amount } : { ...data, amount };
       
       if (selectedTransaction) {
         // Update existing transaction
@@ -98,8 +128,22 @@ export default function Dashboard() {
       
       queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
       queryClient.invalidateQueries({ queryKey: [`/api/transactions/month/${currentYear}/${currentMonth}`] });
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith(`/api/transactions/month/${currentYear}/${currentMonth}?`),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
       queryClient.invalidateQueries({ queryKey: ['/api/summaries'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+      queryClient.invalidateQueries({ queryKey: ['/api/forecast'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/household/balances'] });
       queryClient.invalidateQueries({ queryKey: [`/api/summaries/${currentYear}/${currentMonth}`] });
+      // The category chart asks for rolled-up or drilled-down breakdowns of the month
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith(`/api/summaries/${currentYear}/${currentMonth}?`),
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/household/summary/${currentYear}/${currentMonth}`] });
       setOpen(false);
     } catch (error) {
       toast({
@@ -202,16 +246,29 @@ export default function Dashboard() {
           </div>
 
           {/* Charts */}
-          <div className="lg:col-span-2 md:col-span-2">
+          <div className="lg:col-span-1 md:col-span-2">
             <MonthlyTrendsChart year={currentYear} month={currentMonth} />
           </div>
+          <div className="lg:col-span-2 md:col-span-2">
+            <CashFlowForecast />
+          </div>
           <div className="lg:col-span-1 md:col-span-1">
             <ExpenseCategoriesChart year={currentYear} month={currentMonth} />
           </div>
+          <div className="lg:col-span-2 md:col-span-1">
+            {user?.budgetMode === "envelope" ? (
+              <EnvelopeSummary year={currentYear} month={currentMonth} />
+            ) : (
+              <BudgetProgress year={currentYear} month={currentMonth} />
+            )}
+          </div>
+          <div className="lg:col-span-3 md:col-span-2">
+            <SavingsGoals />
+          </div>
 
           {/* Transactions Table */}
           <div className="lg:col-span-3 md:col-span-2">
-            <RecentTransactions year={currentYear} month={currentMonth} />
+            <RecentTransactions year={currentYear} month={currentMonth} accountId={accountFilter} onAccountChange={setAccountFilter} />
           </div>
         </div>
       </main>
@@ -270,8 +327,11 @@ export default function Dashboard() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {categories.map(category => (
-                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        {!selectedTransaction && (
+                          <SelectItem value={AUTO_CATEGORY}>Choose automatically</SelectItem>
+                        )}
+                        {activeCategories.map(category => (
+                          <SelectItem key={category.id} value={category.name}>{getLabel(category)}</SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
@@ -321,6 +381,36 @@ export default function Dashboard() {
                   )}
                 />
               </div>
+              {openAccounts.length > 0 && (
+                <FormField
+                  control={transactionForm.control}
+                  name="accountId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account</FormLabel>
+                      <Select
+                        onValueChange={value => field.onChange(value === NO_ACCOUNT ? null : Number(value))}
+                        value={field.value ? String(field.value) : NO_ACCOUNT}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                          {openAccounts.map(account => (
+                            <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <CurrencyField />
+              <SplitFields />
               <DialogFooter>
                 <Button type="submit">Save</Button>
               </DialogFooter>
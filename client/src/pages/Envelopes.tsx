@@ -0,0 +1,498 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRightLeft, ChevronLeft, ChevronRight, Mail, Plus, Trash2, Undo2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+import { useEnvelopeMonth, type EnvelopeMonth } from "@/hooks/use-envelopes";
+import type { EnvelopeAllocation } from "@shared/schema";
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"
+];
+
+// Select value for the month's income still to be assigned
+const TO_ASSIGN = "none";
+
+const allocationFormSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  amount: z.coerce.number().positive("Amount must be positive"),
+  note: z.string().trim().max(200),
+}).refine(data => data.from !== data.to, {
+  message: "Choose where the money comes from and where it goes",
+  path: ["to"],
+});
+
+type AllocationFormValues = z.infer<typeof allocationFormSchema>;
+
+const envelopeFormSchema = z.object({
+  category: z.string().min(1, "Choose a category"),
+  rollover: z.boolean(),
+});
+
+type EnvelopeFormValues = z.infer<typeof envelopeFormSchema>;
+
+function describeAllocation(allocation: EnvelopeAllocation, format: (value: number) => string) {
+  const amount = format(Number(allocation.amount));
+  if (allocation.fromCategory === null) return `Assigned ${amount} to ${allocation.toCategory}`;
+  if (allocation.toCategory === null) return `Returned ${amount} from ${allocation.fromCategory}`;
+  return `Moved ${amount} from ${allocation.fromCategory} to ${allocation.toCategory}`;
+}
+
+export default function Envelopes() {
+  const today = new Date();
+  const [currentMonth, setCurrentMonth] = useState(today.getMonth() + 1); // 1-12
+  const [currentYear, setCurrentYear] = useState(today.getFullYear());
+  const [allocationOpen, setAllocationOpen] = useState(false);
+  const [envelopeOpen, setEnvelopeOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { categories } = useCategories();
+  const { formatBase } = useCurrency();
+
+  const { data, isLoading } = useEnvelopeMonth(currentYear, currentMonth);
+
+  const allocationForm = useForm<AllocationFormValues>({
+    resolver: zodResolver(allocationFormSchema),
+    defaultValues: { from: TO_ASSIGN, to: TO_ASSIGN, amount: 0, note: "" },
+  });
+
+  const envelopeForm = useForm<EnvelopeFormValues>({
+    resolver: zodResolver(envelopeFormSchema),
+    defaultValues: { category: "", rollover: true },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const prevMonth = () => {
+    if (currentMonth === 1) {
+      setCurrentMonth(12);
+      setCurrentYear(currentYear - 1);
+    } else {
+      setCurrentMonth(currentMonth - 1);
+    }
+  };
+
+  const nextMonth = () => {
+    if (currentMonth === 12) {
+      setCurrentMonth(1);
+      setCurrentYear(currentYear + 1);
+    } else {
+      setCurrentMonth(currentMonth + 1);
+    }
+  };
+
+  const openAllocation = (values: Partial<AllocationFormValues>) => {
+    allocationForm.reset({ from: TO_ASSIGN, to: TO_ASSIGN, amount: 0, note: "", ...values });
+    setAllocationOpen(true);
+  };
+
+  const onAllocate = async (values: AllocationFormValues) => {
+    try {
+      await apiRequest('POST', '/api/envelopes/allocations', {
+        year: currentYear,
+        month: currentMonth,
+        fromCategory: values.from === TO_ASSIGN ? null : values.from,
+        toCategory: values.to === TO_ASSIGN ? null : values.to,
+        amount: values.amount,
+        note: values.note || null,
+      });
+      refresh();
+      setAllocationOpen(false);
+    } catch (error) {
+      showError("Failed to move money", error);
+    }
+  };
+
+  const handleUndo = async (allocation: EnvelopeAllocation) => {
+    try {
+      await apiRequest('DELETE', `/api/envelopes/allocations/${allocation.id}`);
+      refresh();
+    } catch (error) {
+      showError("Failed to undo allocation", error);
+    }
+  };
+
+  const onAddEnvelope = async (values: EnvelopeFormValues) => {
+    try {
+      await apiRequest('POST', '/api/envelopes', values);
+      refresh();
+      setEnvelopeOpen(false);
+    } catch (error) {
+      showError("Failed to add envelope", error);
+    }
+  };
+
+  const handleRollover = async (envelope: EnvelopeMonth, rollover: boolean) => {
+    try {
+      await apiRequest('PUT', `/api/envelopes/${envelope.envelopeId}`, { rollover });
+      refresh();
+    } catch (error) {
+      showError("Failed to update envelope", error);
+    }
+  };
+
+  const handleDeleteEnvelope = async (envelope: EnvelopeMonth) => {
+    try {
+      await apiRequest('DELETE', `/api/envelopes/${envelope.envelopeId}`);
+      refresh();
+    } catch (error) {
+      showError("Failed to delete envelope", error);
+    }
+  };
+
+  const envelopes = data?.envelopes ?? [];
+  const withEnvelope = new Set(envelopes.map(envelope => envelope.category));
+  const available = categories.filter(category => !category.archived && !withEnvelope.has(category.name));
+  const toAssign = data?.toAssign ?? 0;
+
+  const envelopeOptions = (
+    <>
+      <SelectItem value={TO_ASSIGN}>To assign</SelectItem>
+      {envelopes.map(envelope => (
+        <SelectItem key={envelope.envelopeId} value={envelope.category}>{envelope.category}</SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <>
+      {/* Top Navbar */}
+      <div className="bg-white shadow-sm z-10">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <h1 className="text-lg font-semibold">Envelopes</h1>
+            <div className="flex items-center gap-2">
+              <div className="flex items-center">
+                <Button variant="ghost" size="icon" onClick={prevMonth} className="rounded-full text-gray-400">
+                  <ChevronLeft className="h-5 w-5" />
+                </Button>
+                <span className="mx-4 text-sm font-medium">
+                  {MONTHS[currentMonth - 1]} {currentYear}
+                </span>
+                <Button variant="ghost" size="icon" onClick={nextMonth} className="rounded-full text-gray-400">
+                  <ChevronRight className="h-5 w-5" />
+                </Button>
+              </div>
+              <Button variant="outline" onClick={() => openAllocation({})} disabled={envelopes.length === 0}>
+                <ArrowRightLeft className="mr-2 h-4 w-4" /> Move Money
+              </Button>
+              <Button onClick={() => { envelopeForm.reset({ category: "", rollover: true }); setEnvelopeOpen(true); }}>
+                <Plus className="mr-2 h-4 w-4" /> Add Envelope
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto bg-gray-100 p-4 sm:p-6 lg:p-8">
+        {user?.budgetMode !== "envelope" && (
+          <p className="mb-4 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-900">
+            The Dashboard shows category budgets. Switch to envelope budgeting in <Link href="/settings" className="underline">Settings</Link> to see envelopes there instead.
+          </p>
+        )}
+
+        {isLoading || !data ? (
+          <div className="text-center py-10">Loading envelopes...</div>
+        ) : envelopes.length === 0 ? (
+          <div className="text-center py-10 text-gray-500">
+            <Mail className="mx-auto mb-2 h-8 w-8" />
+            <p>Add an envelope for each category you budget for, then assign your income to them.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {[
+                { label: "Income this month", value: data.income },
+                { label: "Carried over", value: data.carriedOver },
+                { label: "Swept to savings", value: data.sweptToSavings },
+              ].map(({ label, value }) => (
+                <Card key={label}>
+                  <CardContent className="p-4">
+                    <div className="text-sm text-gray-500">{label}</div>
+                    <div className="text-xl font-semibold text-gray-900">{formatBase(value)}</div>
+                  </CardContent>
+                </Card>
+              ))}
+              <Card className={toAssign === 0 ? "border-green-300" : toAssign > 0 ? "border-amber-300" : "border-red-300"}>
+                <CardContent className="p-4">
+                  <div className="text-sm text-gray-500">To assign</div>
+                  <div className={`text-xl font-semibold ${toAssign < 0 ? "text-red-600" : "text-gray-900"}`}>
+                    {formatBase(toAssign)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {toAssign === 0 ? "Every unit of income is assigned" : toAssign > 0 ? "Assign the rest to envelopes" : "More is assigned than there is"}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {(data.overspentLastMonth > 0 || data.unenvelopedSpending > 0) && (
+              <p className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                {data.overspentLastMonth > 0 && `${formatBase(data.overspentLastMonth)} of uncovered overspending last month came out of this month's money. `}
+                {data.unenvelopedSpending > 0 && `${formatBase(data.unenvelopedSpending)} was spent in categories without an envelope.`}
+              </p>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Envelopes</CardTitle>
+                <CardDescription>
+                  Unspent money rolls over at month end, or is swept to savings when rollover is off.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-500">
+                      <th className="py-2 pr-2 font-medium">Envelope</th>
+                      <th className="py-2 pr-2 text-right font-medium">Carried over</th>
+                      <th className="py-2 pr-2 text-right font-medium">Assigned</th>
+                      <th className="py-2 pr-2 text-right font-medium">Moved</th>
+                      <th className="py-2 pr-2 text-right font-medium">Spent</th>
+                      <th className="py-2 pr-2 text-right font-medium">Available</th>
+                      <th className="py-2 pr-2 font-medium">Rollover</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {envelopes.map(envelope => (
+                      <tr key={envelope.envelopeId} className="border-b last:border-0">
+                        <td className="py-2 pr-2 text-gray-900">{envelope.category}</td>
+                        <td className="py-2 pr-2 text-right text-gray-700">{formatBase(envelope.carriedOver)}</td>
+                        <td className="py-2 pr-2 text-right text-gray-700">{formatBase(envelope.assigned)}</td>
+                        <td className="py-2 pr-2 text-right text-gray-700">{formatBase(envelope.moved)}</td>
+                        <td className="py-2 pr-2 text-right text-gray-700">{formatBase(envelope.spent)}</td>
+                        <td className={`py-2 pr-2 text-right font-medium ${envelope.available < 0 ? "text-red-600" : "text-gray-900"}`}>
+                          {formatBase(envelope.available)}
+                        </td>
+                        <td className="py-2 pr-2">
+                          <Checkbox
+                            checked={envelope.rollover}
+                            onCheckedChange={checked => handleRollover(envelope, checked === true)}
+                          />
+                        </td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          {envelope.available < 0 ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openAllocation({ to: envelope.category, amount: -envelope.available, note: "Cover overspending" })}
+                            >
+                              Cover
+                            </Button>
+                          ) : (
+                            <Button variant="ghost" size="sm" onClick={() => openAllocation({ to: envelope.category })}>
+                              Assign
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteEnvelope(envelope)}
+                            className="text-gray-400 hover:text-red-600"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Allocations in {MONTHS[currentMonth - 1]}</CardTitle>
+                <CardDescription>Undo an allocation to put the money back where it came from.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {data.allocations.length === 0 ? (
+                  <p className="text-sm text-gray-500">No money assigned or moved this month yet.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {data.allocations.map(allocation => (
+                      <li key={allocation.id} className="flex items-center justify-between rounded-md border px-3 py-1 text-sm">
+                        <span className="text-gray-900">
+                          {describeAllocation(allocation, formatBase)}
+                          {allocation.note && <span className="ml-2 text-gray-500">{allocation.note}</span>}
+                        </span>
+                        <Button variant="ghost" size="icon" onClick={() => handleUndo(allocation)} className="text-gray-400">
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      {/* Move Money Dialog */}
+      <Dialog open={allocationOpen} onOpenChange={setAllocationOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Move Money</DialogTitle>
+          </DialogHeader>
+          <Form {...allocationForm}>
+            <form onSubmit={allocationForm.handleSubmit(onAllocate)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={allocationForm.control}
+                  name="from"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>From</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>{envelopeOptions}</SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={allocationForm.control}
+                  name="to"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>To</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>{envelopeOptions}</SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={allocationForm.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={allocationForm.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Note</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setAllocationOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Move</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add Envelope Dialog */}
+      <Dialog open={envelopeOpen} onOpenChange={setEnvelopeOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Add Envelope</DialogTitle>
+          </DialogHeader>
+          <Form {...envelopeForm}>
+            <form onSubmit={envelopeForm.handleSubmit(onAddEnvelope)} className="space-y-4">
+              <FormField
+                control={envelopeForm.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {available.map(category => (
+                          <SelectItem key={category.id} value={category.name}>{category.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={envelopeForm.control}
+                name="rollover"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Roll unspent money over (otherwise sweep it to savings)</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEnvelopeOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Add</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
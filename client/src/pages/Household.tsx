@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/hooks/use-currency";
+import { useAuth } from "@/hooks/use-auth";
+import { ArrowRight, HandCoins, Home, Trash2, UserPlus, Users } from "lucide-react";
+
+interface HouseholdMemberData {
+  userId: number;
+  username: string;
+  role: string;
+}
+
+interface HouseholdData {
+  household: { id: number; name: string; currency: string };
+  members: HouseholdMemberData[];
+}
+
+interface InvitationData {
+  id: number;
+  householdName: string;
+  invitedBy: string;
+}
+
+interface BalancesData {
+  balances: { userId: number; net: number }[];
+  debts: { fromUserId: number; toUserId: number; amount: number }[];
+}
+
+export default function Household() {
+  const [householdName, setHouseholdName] = useState("");
+  const [newMember, setNewMember] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+
+  // A 404 means the user has not created or joined a household yet
+  const { data, isLoading } = useQuery<HouseholdData>({
+    queryKey: ['/api/household'],
+    throwOnError: false,
+  });
+
+  // Only someone outside a household can accept an invitation
+  const { data: invitations = [] } = useQuery<InvitationData[]>({
+    queryKey: ['/api/household/invitations'],
+    enabled: !isLoading && !data,
+  });
+
+  const { data: balances } = useQuery<BalancesData>({
+    queryKey: ['/api/household/balances'],
+    enabled: !!data,
+  });
+
+  // Balances are in the household's currency
+  const formatCurrency = (value: number) => formatMoney(value, data?.household.currency ?? "USD");
+
+  const refreshHousehold = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/household'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/household/invitations'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/household/balances'] });
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const handleCreateHousehold = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await apiRequest('POST', '/api/household', { name: householdName });
+      toast({
+        title: "Household created",
+        description: "You can now invite your partner and share expenses.",
+      });
+      setHouseholdName("");
+      refreshHousehold();
+    } catch (error) {
+      showError("Failed to create household", error);
+    }
+  };
+
+  const handleInviteMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await apiRequest('POST', '/api/household/invitations', { username: newMember });
+      const result = await response.json();
+      toast({
+        title: "Invitation sent",
+        description: result.message,
+      });
+      setNewMember("");
+    } catch (error) {
+      showError("Failed to send invitation", error);
+    }
+  };
+
+  const handleAcceptInvitation = async (invitation: InvitationData) => {
+    try {
+      await apiRequest('POST', `/api/household/invitations/${invitation.id}/accept`);
+      toast({
+        title: "Household joined",
+        description: `You are now a member of ${invitation.householdName}.`,
+      });
+      refreshHousehold();
+    } catch (error) {
+      showError("Failed to accept invitation", error);
+    }
+  };
+
+  const handleDeclineInvitation = async (invitation: InvitationData) => {
+    try {
+      await apiRequest('DELETE', `/api/household/invitations/${invitation.id}`);
+      refreshHousehold();
+    } catch (error) {
+      showError("Failed to decline invitation", error);
+    }
+  };
+
+  const handleRemoveMember = async (member: HouseholdMemberData) => {
+    const isSelf = member.userId === user?.id;
+    const question = isSelf
+      ? "Are you sure you want to leave this household?"
+      : `Remove ${member.username} from the household?`;
+
+    if (!window.confirm(question)) {
+      return;
+    }
+
+    try {
+      await apiRequest('DELETE', `/api/household/members/${member.userId}`);
+      refreshHousehold();
+    } catch (error) {
+      showError(isSelf ? "Failed to leave household" : "Failed to remove member", error);
+    }
+  };
+
+  const usernameFor = (userId: number) =>
+    data?.members.find(member => member.userId === userId)?.username ?? 'Former member';
+
+  const isOwner = data?.members.some(member => member.userId === user?.id && member.role === 'owner');
+
+  return (
+    <>
+      {/* Top Navbar */}
+      <div className="bg-white shadow-sm z-10">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center">
+            <h1 className="text-lg font-semibold">{data ? data.household.name : "Household"}</h1>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto bg-gray-100 p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="text-center py-10">Loading household...</div>
+        ) : !data ? (
+          <div className="space-y-6">
+            {invitations.length > 0 && (
+              <Card className="max-w-lg">
+                <CardHeader>
+                  <CardTitle>Invitations</CardTitle>
+                  <CardDescription>
+                    Joining a household shares your joint accounts and the transactions you mark as shared with its members.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {invitations.map(invitation => (
+                    <div key={invitation.id} className="flex items-center justify-between border-b pb-3">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{invitation.householdName}</p>
+                        <p className="text-xs text-gray-500">Invited by {invitation.invitedBy}</p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleDeclineInvitation(invitation)}>
+                          Decline
+                        </Button>
+                        <Button size="sm" onClick={() => handleAcceptInvitation(invitation)}>
+                          Accept
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+            <Card className="max-w-lg">
+              <CardHeader>
+                <CardTitle>Create a Household</CardTitle>
+                <CardDescription>
+                  A household lets you and your partner mark transactions as shared and see who owes whom.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleCreateHousehold} className="flex gap-2">
+                  <Input
+                    placeholder="e.g. Our Flat"
+                    value={householdName}
+                    onChange={e => setHouseholdName(e.target.value)}
+                  />
+                  <Button type="submit" disabled={!householdName.trim()}>
+                    <Home className="mr-2 h-4 w-4" /> Create
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {/* Balances */}
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between">
+                <div className="space-y-1.5">
+                  <CardTitle>Who Owes Whom</CardTitle>
+                  <CardDescription>Based on shared transactions, their splits and settlements.</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => navigate('/settlements')}>
+                  <HandCoins className="mr-2 h-4 w-4" /> Settle Up
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {balances && balances.debts.length > 0 ? (
+                  balances.debts.map((debt, index) => (
+                    <div key={index} className="flex items-center justify-between border-b pb-3">
+                      <div className="flex items-center text-sm font-medium text-gray-900">
+                        {usernameFor(debt.fromUserId)}
+                        <ArrowRight className="mx-2 h-4 w-4 text-gray-400" />
+                        {usernameFor(debt.toUserId)}
+                      </div>
+                      <span className="text-sm font-semibold text-red-600">{formatCurrency(debt.amount)}</span>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-gray-500">Everyone is settled up.</p>
+                )}
+                {balances && (
+                  <div className="space-y-1 pt-2">
+                    {balances.balances.map(balance => (
+                      <div key={balance.userId} className="flex justify-between text-sm text-gray-600">
+                        <span>{usernameFor(balance.userId)}</span>
+                        <span className={balance.net >= 0 ? "text-green-600" : "text-red-600"}>
+                          {balance.net >= 0 ? "is owed " : "owes "}{formatCurrency(Math.abs(balance.net))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Members */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Members</CardTitle>
+                <CardDescription>Invite your partner by their username; they join once they accept.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {data.members.map(member => (
+                  <div key={member.userId} className="flex items-center justify-between border-b pb-3">
+                    <div className="flex items-center">
+                      <div className="h-10 w-10 rounded-full bg-blue-100 flex items-center justify-center">
+                        <Users className="h-5 w-5 text-blue-600" />
+                      </div>
+                      <div className="ml-4">
+                        <p className="text-sm font-medium text-gray-900">{member.username}</p>
+                        <p className="text-xs text-gray-500 capitalize">{member.role}</p>
+                      </div>
+                    </div>
+                    {(member.userId === user?.id || isOwner) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveMember(member)}
+                        title={member.userId === user?.id ? "Leave household" : "Remove member"}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                <form onSubmit={handleInviteMember} className="flex gap-2 pt-2">
+                  <Input
+                    placeholder="Username"
+                    value={newMember}
+                    onChange={e => setNewMember(e.target.value)}
+                  />
+                  <Button type="submit" disabled={!newMember.trim()}>
+                    <UserPlus className="mr-2 h-4 w-4" /> Invite
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
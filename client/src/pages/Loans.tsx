@@ -0,0 +1,622 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronUp, HandCoins, Pencil, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useCategories } from "@/hooks/use-categories";
+import { formatMoney, useCurrency } from "@/hooks/use-currency";
+import { CurrencyField } from "@/components/CurrencyField";
+
+interface AmortizationRow {
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+  transactionId: number | null;
+  projected: boolean;
+}
+
+interface LoanSchedule {
+  loanId: number;
+  name: string;
+  currency: string;
+  principal: number;
+  annualRate: number;
+  termMonths: number;
+  firstPaymentDate: string;
+  accountId: number | null;
+  category: string | null;
+  // The agreed payment, or the one that repays the loan over its term
+  scheduledPayment: number;
+  fixedPayment: boolean;
+  extraPayment: number;
+  tracked: boolean;
+  balance: number;
+  paidPrincipal: number;
+  paidInterest: number;
+  rows: AmortizationRow[];
+  // Null when the payments never repay the loan
+  payoffDate: string | null;
+  projectedInterest: number | null;
+  withoutExtra: { payoffDate: string | null; interest: number | null };
+  interestSaved: number | null;
+  monthsSaved: number | null;
+}
+
+type PayoffStrategy = "minimum" | "avalanche" | "snowball";
+
+interface StrategyResult {
+  strategy: PayoffStrategy;
+  payoffDate: string | null;
+  months: number | null;
+  totalInterest: number | null;
+  interestSaved: number | null;
+  payoffs: { loanId: number; name: string; payoffDate: string | null }[];
+}
+
+interface StrategyComparison {
+  currency: string;
+  extraMonthly: number;
+  // Loans left out for want of an exchange rate
+  excluded: string[];
+  strategies: StrategyResult[];
+}
+
+const STRATEGY_LABELS: Record<PayoffStrategy, { name: string; description: string }> = {
+  minimum: { name: "Scheduled payments", description: "Each loan paid as agreed, nothing extra" },
+  avalanche: { name: "Avalanche", description: "Extra goes to the highest interest rate first" },
+  snowball: { name: "Snowball", description: "Extra goes to the smallest balance first" },
+};
+
+// Select values for how payments are tracked
+const TRACK_NONE = "none";
+const TRACK_ACCOUNT = "account";
+const TRACK_CATEGORY = "category";
+
+const loanFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  principal: z.coerce.number().positive("Amount borrowed must be positive"),
+  annualRate: z.coerce.number().min(0, "Rate cannot be negative").max(100),
+  termMonths: z.coerce.number().int().min(1, "Term must be at least a month"),
+  firstPaymentDate: z.string().min(1, "Choose the first payment date"),
+  payment: z.string(),
+  extraPayment: z.coerce.number().nonnegative("Cannot be negative"),
+  trackBy: z.enum([TRACK_NONE, TRACK_ACCOUNT, TRACK_CATEGORY]),
+  accountId: z.number().nullable(),
+  category: z.string(),
+  currency: z.string(),
+}).refine(data => !data.payment || Number(data.payment) > 0, {
+  message: "Payment must be positive",
+  path: ["payment"],
+}).refine(data => data.trackBy !== TRACK_ACCOUNT || data.accountId !== null, {
+  message: "Choose an account",
+  path: ["accountId"],
+}).refine(data => data.trackBy !== TRACK_CATEGORY || data.category !== "", {
+  message: "Choose a category",
+  path: ["category"],
+});
+
+type LoanFormValues = z.infer<typeof loanFormSchema>;
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+const formatMonth = (date: string) => format(parseISO(date), "MMM yyyy");
+
+function describeMonths(months: number) {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return [years > 0 ? `${years} yr` : "", rest > 0 ? `${rest} mo` : ""].filter(Boolean).join(" ") || "0 mo";
+}
+
+export default function Loans() {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<LoanSchedule | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  // Blank compares with the extra payments set on the loans themselves
+  const [extra, setExtra] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { openAccounts, getAccount } = useAccounts();
+  const { activeCategories, getLabel } = useCategories();
+  const { baseCurrency } = useCurrency();
+
+  // Payments come from the ledger, which most screens can change, so these are fetched afresh each visit
+  const { data: loans = [], isLoading } = useQuery<LoanSchedule[]>({
+    queryKey: ['/api/loans'],
+    refetchOnMount: "always",
+  });
+  const validExtra = extra !== "" && !isNaN(Number(extra)) && Number(extra) >= 0;
+  const { data: comparison } = useQuery<StrategyComparison>({
+    queryKey: [`/api/loans/strategies${validExtra ? `?extra=${Number(extra)}` : ''}`],
+    enabled: loans.length > 0,
+    refetchOnMount: "always",
+  });
+
+  const form = useForm<LoanFormValues>({
+    resolver: zodResolver(loanFormSchema),
+  });
+  const trackBy = form.watch("trackBy");
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/loans') });
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const openDialog = (loan: LoanSchedule | null) => {
+    setEditing(loan);
+    form.reset({
+      name: loan?.name ?? "",
+      principal: loan?.principal ?? 0,
+      annualRate: loan?.annualRate ?? 0,
+      termMonths: loan?.termMonths ?? 60,
+      firstPaymentDate: loan?.firstPaymentDate ?? "",
+      payment: loan?.fixedPayment ? String(loan.scheduledPayment) : "",
+      extraPayment: loan?.extraPayment ?? 0,
+      trackBy: loan?.accountId != null ? TRACK_ACCOUNT : loan?.category ? TRACK_CATEGORY : TRACK_NONE,
+      accountId: loan?.accountId ?? null,
+      category: loan?.category ?? "",
+      currency: loan?.currency ?? baseCurrency,
+    });
+    setOpen(true);
+  };
+
+  const onSubmit = async (values: LoanFormValues) => {
+    const data = {
+      name: values.name,
+      principal: values.principal,
+      annualRate: values.annualRate,
+      termMonths: values.termMonths,
+      firstPaymentDate: values.firstPaymentDate,
+      payment: values.payment ? Number(values.payment) : null,
+      extraPayment: values.extraPayment,
+      accountId: values.trackBy === TRACK_ACCOUNT ? values.accountId : null,
+      category: values.trackBy === TRACK_CATEGORY ? values.category : null,
+      currency: values.trackBy === TRACK_ACCOUNT ? undefined : values.currency,
+    };
+    try {
+      if (editing) {
+        await apiRequest('PUT', `/api/loans/${editing.loanId}`, data);
+      } else {
+        await apiRequest('POST', '/api/loans', data);
+      }
+      refresh();
+      setOpen(false);
+    } catch (error) {
+      showError("Failed to save loan", error);
+    }
+  };
+
+  const handleDelete = async (loan: LoanSchedule) => {
+    if (!window.confirm(`Delete ${loan.name}? Its payment transactions are kept.`)) return;
+    try {
+      await apiRequest('DELETE', `/api/loans/${loan.loanId}`);
+      refresh();
+    } catch (error) {
+      showError("Failed to delete loan", error);
+    }
+  };
+
+  const describeTracking = (loan: LoanSchedule) => {
+    if (loan.accountId !== null) return `Payments into ${getAccount(loan.accountId)?.name ?? "a closed account"}`;
+    if (loan.category !== null) return `Payments in ${loan.category}`;
+    return "Payments taken as made on schedule";
+  };
+
+  return (
+    <>
+      {/* Top Navbar */}
+      <div className="bg-white shadow-sm z-10">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <h1 className="text-lg font-semibold">Loans</h1>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" /> Add Loan
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto bg-gray-100 p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="text-center py-10">Loading loans...</div>
+        ) : loans.length === 0 ? (
+          <div className="text-center py-10 text-gray-500">
+            <HandCoins className="mx-auto mb-2 h-8 w-8" />
+            <p>Add a mortgage, car loan or other debt to see how it is repaid and when it will be paid off.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {loans.map(loan => {
+              const paidShare = loan.principal > 0 ? Math.min(100, Math.max(0, (1 - loan.balance / loan.principal) * 100)) : 0;
+              return (
+                <Card key={loan.loanId}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle>{loan.name}</CardTitle>
+                        <CardDescription>
+                          {formatMoney(loan.principal, loan.currency)} at {loan.annualRate}% over {describeMonths(loan.termMonths)} · {describeTracking(loan)}
+                        </CardDescription>
+                      </div>
+                      <div className="flex items-center">
+                        {loan.balance <= 0 && <Badge variant="secondary" className="mr-2">Repaid</Badge>}
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(loan)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="hover:text-red-600" onClick={() => handleDelete(loan)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+                      <div>
+                        <div className="text-gray-500">Left to repay</div>
+                        <div className="text-lg font-semibold text-gray-900">{formatMoney(loan.balance, loan.currency)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">Monthly payment</div>
+                        <div className="text-lg font-semibold text-gray-900">
+                          {formatMoney(loan.scheduledPayment + loan.extraPayment, loan.currency)}
+                        </div>
+                        {loan.extraPayment > 0 && (
+                          <div className="text-xs text-gray-500">incl. {formatMoney(loan.extraPayment, loan.currency)} extra</div>
+                        )}
+                      </div>
+                      <div>
+                        <div className="text-gray-500">Paid off</div>
+                        <div className="text-lg font-semibold text-gray-900">
+                          {loan.payoffDate ? formatMonth(loan.payoffDate) : "Never"}
+                        </div>
+                        {loan.payoffDate === null && (
+                          <div className="text-xs text-red-600">The payment does not cover the interest</div>
+                        )}
+                      </div>
+                      <div>
+                        <div className="text-gray-500">Interest still to pay</div>
+                        <div className="text-lg font-semibold text-gray-900">
+                          {loan.projectedInterest !== null ? formatMoney(loan.projectedInterest, loan.currency) : "—"}
+                        </div>
+                        <div className="text-xs text-gray-500">{formatMoney(loan.paidInterest, loan.currency)} paid so far</div>
+                      </div>
+                    </div>
+
+                    <div className="h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                      <div className="h-full rounded-full bg-primary" style={{ width: `${paidShare}%` }} />
+                    </div>
+
+                    {loan.interestSaved !== null && loan.monthsSaved !== null && (
+                      <p className="rounded-md bg-green-50 px-3 py-2 text-sm text-green-800">
+                        The extra {formatMoney(loan.extraPayment, loan.currency)} a month saves {formatMoney(loan.interestSaved, loan.currency)} in
+                        interest and pays the loan off {describeMonths(loan.monthsSaved)} sooner
+                        {loan.withoutExtra.payoffDate && ` than ${formatMonth(loan.withoutExtra.payoffDate)}`}.
+                      </p>
+                    )}
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpanded(expanded === loan.loanId ? null : loan.loanId)}
+                    >
+                      {expanded === loan.loanId ? <ChevronUp className="mr-1 h-4 w-4" /> : <ChevronDown className="mr-1 h-4 w-4" />}
+                      Amortisation schedule
+                    </Button>
+                    {expanded === loan.loanId && (
+                      <div className="max-h-96 overflow-y-auto">
+                        <table className="w-full text-sm">
+                          <thead className="sticky top-0 bg-white">
+                            <tr className="border-b text-left text-gray-500">
+                              <th className="py-2 pr-2 font-medium">Date</th>
+                              <th className="py-2 pr-2 text-right font-medium">Payment</th>
+                              <th className="py-2 pr-2 text-right font-medium">Interest</th>
+                              <th className="py-2 pr-2 text-right font-medium">Principal</th>
+                              <th className="py-2 pr-2 text-right font-medium">Balance</th>
+                              <th className="py-2" />
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {loan.rows.map((row, index) => (
+                              <tr key={index} className={`border-b last:border-0 ${row.projected ? "text-gray-500" : "text-gray-900"}`}>
+                                <td className="py-1 pr-2 whitespace-nowrap">{formatDate(row.date)}</td>
+                                <td className="py-1 pr-2 text-right">{formatMoney(row.payment, loan.currency)}</td>
+                                <td className="py-1 pr-2 text-right">{formatMoney(row.interest, loan.currency)}</td>
+                                <td className="py-1 pr-2 text-right">{formatMoney(row.principal, loan.currency)}</td>
+                                <td className="py-1 pr-2 text-right">{formatMoney(row.balance, loan.currency)}</td>
+                                <td className="py-1 text-right text-xs">
+                                  {row.projected ? "Projected" : row.transactionId !== null ? "Paid" : "Scheduled"}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Payoff Strategies</CardTitle>
+                <CardDescription>
+                  Put the same amount towards your loans every month. Once a loan is repaid, its payment goes to the next one.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-2 text-sm">
+                  <label htmlFor="extra-payment" className="text-gray-700">Extra each month</label>
+                  <Input
+                    id="extra-payment"
+                    type="number"
+                    min="0"
+                    step="10"
+                    className="w-32"
+                    placeholder={comparison ? String(comparison.extraMonthly) : "0"}
+                    value={extra}
+                    onChange={event => setExtra(event.target.value)}
+                  />
+                  {comparison && <span className="text-gray-500">{comparison.currency}</span>}
+                </div>
+                {comparison && comparison.excluded.length > 0 && (
+                  <p className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                    Left out for want of an exchange rate: {comparison.excluded.join(", ")}
+                  </p>
+                )}
+                {comparison && comparison.strategies.length > 0 && (
+                  <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                    {comparison.strategies.map(result => (
+                      <div key={result.strategy} className="rounded-md border p-4 text-sm">
+                        <div className="font-medium text-gray-900">{STRATEGY_LABELS[result.strategy].name}</div>
+                        <div className="mb-3 text-xs text-gray-500">{STRATEGY_LABELS[result.strategy].description}</div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Debt-free</span>
+                          <span>{result.payoffDate ? formatMonth(result.payoffDate) : "Never"}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Total interest</span>
+                          <span>{result.totalInterest !== null ? formatMoney(result.totalInterest, comparison.currency) : "—"}</span>
+                        </div>
+                        {result.interestSaved !== null && (
+                          <div className="flex justify-between text-green-700">
+                            <span>Interest saved</span>
+                            <span>{formatMoney(result.interestSaved, comparison.currency)}</span>
+                          </div>
+                        )}
+                        <ol className="mt-3 space-y-1 border-t pt-2 text-xs">
+                          {result.payoffs.map((payoff, index) => (
+                            <li key={payoff.loanId} className="flex justify-between">
+                              <span>{index + 1}. {payoff.name}</span>
+                              <span className="text-gray-500">{payoff.payoffDate ? formatMonth(payoff.payoffDate) : "Never"}</span>
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : "Add Loan"}</DialogTitle>
+            <DialogDescription>
+              Link the loan's account or the category you pay it from, and each payment is split into interest and principal.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Mortgage" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="principal"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount borrowed</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="annualRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Interest rate (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.001" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="termMonths"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Term (months)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="firstPaymentDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>First payment</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="payment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Monthly payment</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" placeholder="Worked out" {...field} />
+                      </FormControl>
+                      <FormDescription>Leave blank to repay over the term.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="extraPayment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Extra each month</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="trackBy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payments</FormLabel>
+                    <Select
+                      onValueChange={value => {
+                        field.onChange(value);
+                        // Only a loan tracked with an account takes the account's currency
+                        if (value !== TRACK_ACCOUNT) form.setValue("accountId", null);
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={TRACK_NONE}>Assume they are made on schedule</SelectItem>
+                        <SelectItem value={TRACK_ACCOUNT}>Money paid into a loan account</SelectItem>
+                        <SelectItem value={TRACK_CATEGORY}>Spending in a category</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {trackBy === TRACK_ACCOUNT && (
+                <FormField
+                  control={form.control}
+                  name="accountId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account</FormLabel>
+                      <Select
+                        onValueChange={value => field.onChange(Number(value))}
+                        value={field.value !== null ? String(field.value) : undefined}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select an account" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {openAccounts.map(account => (
+                            <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {trackBy === TRACK_CATEGORY && (
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {activeCategories.map(category => (
+                            <SelectItem key={category.id} value={category.name}>{getLabel(category)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <CurrencyField />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Save</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
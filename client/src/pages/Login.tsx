@@ -0,0 +1,92 @@
+import { Link, Redirect } from "wouter";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { BarChart3, LogIn } from "lucide-react";
+
+const loginFormSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export default function Login() {
+  const { user, loginMutation } = useAuth();
+
+  const loginForm = useForm<z.infer<typeof loginFormSchema>>({
+    resolver: zodResolver(loginFormSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+    },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const onSubmit = (data: z.infer<typeof loginFormSchema>) => {
+    loginMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-100">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <div className="flex items-center mb-2">
+            <BarChart3 className="mr-3 h-6 w-6" />
+            <span className="text-xl font-semibold">Finance Dashboard</span>
+          </div>
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>Log in to see your transactions and reports.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...loginForm}>
+            <form onSubmit={loginForm.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={loginForm.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={loginForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                <LogIn className="mr-2 h-4 w-4" />
+                {loginMutation.isPending ? "Signing in..." : "Sign in"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+        <CardFooter className="text-sm text-gray-500">
+          No account yet?
+          <Link href="/register" className="ml-1 font-medium text-primary hover:text-primary/80">
+            Create one
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
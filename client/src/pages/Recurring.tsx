@@ -0,0 +1,656 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, Repeat, Trash2, Undo2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useCategories } from "@/hooks/use-categories";
+import { formatMoney, useCurrency } from "@/hooks/use-currency";
+import { CurrencyField } from "@/components/CurrencyField";
+import { SplitFields } from "@/components/SplitFields";
+import { recurringFrequencies, splitTypes } from "@shared/schema";
+import type { RecurringTemplate } from "@shared/schema";
+
+// One upcoming occurrence, with any change made to it alone already applied
+interface UpcomingOccurrence {
+  date: string;
+  description: string;
+  category: string;
+  amount: string;
+  skipped: boolean;
+  edited: boolean;
+  // Fell due but could not be posted, e.g. because its category was archived
+  overdue: boolean;
+}
+
+type RecurringRow = RecurringTemplate & { upcoming: UpcomingOccurrence[] };
+
+// Select values for "no account" and "the start date's day"
+const NO_ACCOUNT = "none";
+const START_DAY = "start";
+
+const FREQUENCY_UNITS: Record<string, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+const templateFormSchema = z.object({
+  description: z.string().trim().min(1, "Description is required"),
+  category: z.string().min(1, "Choose a category"),
+  amount: z.coerce.number().positive("Amount must be positive"),
+  type: z.enum(["income", "expense"]),
+  accountId: z.number().nullable(),
+  currency: z.string(),
+  splitType: z.enum(splitTypes).nullable(),
+  splitValue: z.coerce.number().nonnegative().nullable(),
+  frequency: z.enum(recurringFrequencies),
+  interval: z.coerce.number().int().min(1, "Must be at least 1"),
+  dayOfMonth: z.string(),
+  startDate: z.string().min(1, "Choose a start date"),
+  endDate: z.string(),
+}).refine(data => !data.endDate || data.endDate >= data.startDate, {
+  message: "The end date must be after the start date",
+  path: ["endDate"],
+});
+
+type TemplateFormValues = z.infer<typeof templateFormSchema>;
+
+const occurrenceFormSchema = z.object({
+  description: z.string().trim().min(1, "Description is required"),
+  category: z.string().min(1, "Choose a category"),
+  amount: z.coerce.number().positive("Amount must be positive"),
+});
+
+type OccurrenceFormValues = z.infer<typeof occurrenceFormSchema>;
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+function describeSchedule(template: RecurringTemplate) {
+  const unit = FREQUENCY_UNITS[template.frequency] ?? template.frequency;
+  let schedule = template.interval === 1 ? `Every ${unit}` : `Every ${template.interval} ${unit}s`;
+  if (template.dayOfMonth !== null && (template.frequency === "monthly" || template.frequency === "yearly")) {
+    schedule += ` on day ${template.dayOfMonth}`;
+  }
+  if (template.endDate) {
+    schedule += ` until ${formatDate(template.endDate)}`;
+  }
+  return schedule;
+}
+
+function SignedAmount({ amount, currency }: { amount: string | number; currency: string }) {
+  const value = Number(amount);
+  return (
+    <span className={value > 0 ? "text-green-600" : "text-red-600"}>
+      {value > 0 ? "+" : "-"}{formatMoney(Math.abs(value), currency)}
+    </span>
+  );
+}
+
+export default function Recurring() {
+  const [templateOpen, setTemplateOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<RecurringRow | null>(null);
+  // The single occurrence being edited, and the template it belongs to
+  const [editingOccurrence, setEditingOccurrence] = useState<{ template: RecurringRow; occurrence: UpcomingOccurrence } | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { accounts, openAccounts, getAccount } = useAccounts();
+  const { activeCategories, getLabel } = useCategories();
+  const { baseCurrency } = useCurrency();
+
+  const { data: templates = [], isLoading } = useQuery<RecurringRow[]>({
+    queryKey: ['/api/recurring'],
+  });
+
+  const templateForm = useForm<TemplateFormValues>({
+    resolver: zodResolver(templateFormSchema),
+  });
+
+  const occurrenceForm = useForm<OccurrenceFormValues>({
+    resolver: zodResolver(occurrenceFormSchema),
+  });
+
+  const frequency = templateForm.watch("frequency");
+
+  // Saving a template or occurrence can post transactions that fell due
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/recurring'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/forecast'] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/transactions') });
+    queryClient.invalidateQueries({ queryKey: ['/api/summaries'] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+    queryClient.invalidateQueries({ queryKey: ['/api/household/balances'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const openTemplate = (template: RecurringRow | null) => {
+    setEditingTemplate(template);
+    templateForm.reset({
+      description: template?.description ?? "",
+      category: template?.category ?? "",
+      amount: template ? Math.abs(Number(template.amount)) : 0,
+      type: (template?.type as "income" | "expense" | undefined) ?? "expense",
+      accountId: template?.accountId ?? null,
+      currency: template?.currency ?? baseCurrency,
+      splitType: (template?.splitType as TemplateFormValues["splitType"] | undefined) ?? null,
+      splitValue: template?.splitValue != null ? Number(template.splitValue) : null,
+      frequency: (template?.frequency as TemplateFormValues["frequency"] | undefined) ?? "monthly",
+      interval: template?.interval ?? 1,
+      dayOfMonth: template?.dayOfMonth != null ? String(template.dayOfMonth) : START_DAY,
+      startDate: template?.startDate ?? format(new Date(), "yyyy-MM-dd"),
+      endDate: template?.endDate ?? "",
+    });
+    setTemplateOpen(true);
+  };
+
+  const onSaveTemplate = async (values: TemplateFormValues) => {
+    const dayOfMonth = values.frequency === "monthly" || values.frequency === "yearly"
+      ? (values.dayOfMonth === START_DAY ? null : Number(values.dayOfMonth))
+      : null;
+    const data = {
+      ...values,
+      amount: values.type === "expense" ? -values.amount : values.amount,
+      dayOfMonth,
+      endDate: values.endDate || null,
+    };
+    try {
+      if (editingTemplate) {
+        await apiRequest('PUT', `/api/recurring/${editingTemplate.id}`, data);
+      } else {
+        await apiRequest('POST', '/api/recurring', data);
+      }
+      refresh();
+      setTemplateOpen(false);
+    } catch (error) {
+      showError("Failed to save recurring transaction", error);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: RecurringRow) => {
+    if (!window.confirm(`Stop "${template.description}"? Transactions already posted are kept.`)) return;
+    try {
+      await apiRequest('DELETE', `/api/recurring/${template.id}`);
+      refresh();
+    } catch (error) {
+      showError("Failed to delete recurring transaction", error);
+    }
+  };
+
+  const openOccurrence = (template: RecurringRow, occurrence: UpcomingOccurrence) => {
+    setEditingOccurrence({ template, occurrence });
+    occurrenceForm.reset({
+      description: occurrence.description,
+      category: occurrence.category,
+      amount: Math.abs(Number(occurrence.amount)),
+    });
+  };
+
+  // Only what differs from the template is kept as a change to this occurrence
+  const onSaveOccurrence = async (values: OccurrenceFormValues) => {
+    if (!editingOccurrence) return;
+    const { template, occurrence } = editingOccurrence;
+    const amount = template.type === "expense" ? -values.amount : values.amount;
+    try {
+      await apiRequest('PUT', `/api/recurring/${template.id}/occurrences/${occurrence.date}`, {
+        description: values.description !== template.description ? values.description : null,
+        category: values.category !== template.category ? values.category : null,
+        amount: amount !== Number(template.amount) ? amount : null,
+      });
+      refresh();
+      setEditingOccurrence(null);
+    } catch (error) {
+      showError("Failed to update occurrence", error);
+    }
+  };
+
+  const handleSkip = async (template: RecurringRow, occurrence: UpcomingOccurrence) => {
+    try {
+      await apiRequest('PUT', `/api/recurring/${template.id}/occurrences/${occurrence.date}`, { skipped: true });
+      refresh();
+    } catch (error) {
+      showError("Failed to skip occurrence", error);
+    }
+  };
+
+  const handleRestore = async (template: RecurringRow, occurrence: UpcomingOccurrence) => {
+    try {
+      await apiRequest('DELETE', `/api/recurring/${template.id}/occurrences/${occurrence.date}`);
+      refresh();
+    } catch (error) {
+      showError("Failed to restore occurrence", error);
+    }
+  };
+
+  return (
+    <>
+      {/* Top Navbar */}
+      <div className="bg-white shadow-sm z-10">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <h1 className="text-lg font-semibold">Recurring Transactions</h1>
+            <Button onClick={() => openTemplate(null)}>
+              <Plus className="mr-2 h-4 w-4" /> Add Recurring
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto bg-gray-100 p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="text-center py-10">Loading recurring transactions...</div>
+        ) : templates.length === 0 ? (
+          <div className="text-center py-10 text-gray-500">
+            <Repeat className="mx-auto mb-2 h-8 w-8" />
+            <p>Add rent, salary or subscriptions once and they are posted to your transactions when due.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {templates.map(template => (
+              <Card key={template.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <CardTitle className="text-base">{template.description}</CardTitle>
+                      <CardDescription>
+                        {describeSchedule(template)} · {template.category}
+                        {template.accountId !== null && ` · ${getAccount(template.accountId)?.name ?? "Unknown account"}`}
+                      </CardDescription>
+                    </div>
+                    <div className="flex items-center">
+                      <SignedAmount amount={template.amount} currency={template.currency} />
+                      <Button variant="ghost" size="icon" className="ml-2 text-gray-400" onClick={() => openTemplate(template)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-gray-400 hover:text-red-600"
+                        onClick={() => handleDeleteTemplate(template)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {template.upcoming.length === 0 ? (
+                    <p className="text-sm text-gray-500">This series has ended.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-gray-500">
+                          <th className="py-2 pr-2 font-medium">Upcoming</th>
+                          <th className="py-2 pr-2 font-medium">Description</th>
+                          <th className="py-2 pr-2 font-medium">Category</th>
+                          <th className="py-2 pr-2 text-right font-medium">Amount</th>
+                          <th className="py-2" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {template.upcoming.map(occurrence => (
+                          <tr
+                            key={occurrence.date}
+                            className={`border-b last:border-0 ${occurrence.skipped ? "text-gray-400 line-through" : "text-gray-700"}`}
+                          >
+                            <td className="py-2 pr-2 whitespace-nowrap">
+                              {formatDate(occurrence.date)}
+                              {occurrence.overdue && <Badge variant="destructive" className="ml-2">Overdue</Badge>}
+                              {occurrence.skipped && <Badge variant="outline" className="ml-2">Skipped</Badge>}
+                              {occurrence.edited && !occurrence.skipped && <Badge variant="secondary" className="ml-2">Edited</Badge>}
+                            </td>
+                            <td className="py-2 pr-2">{occurrence.description}</td>
+                            <td className="py-2 pr-2">{occurrence.category}</td>
+                            <td className="py-2 pr-2 text-right">
+                              <SignedAmount amount={occurrence.amount} currency={template.currency} />
+                            </td>
+                            <td className="py-2 text-right whitespace-nowrap">
+                              {occurrence.skipped || occurrence.edited ? (
+                                <Button variant="ghost" size="sm" onClick={() => handleRestore(template, occurrence)}>
+                                  <Undo2 className="mr-1 h-3 w-3" /> Restore
+                                </Button>
+                              ) : null}
+                              {!occurrence.skipped && (
+                                <>
+                                  <Button variant="ghost" size="sm" onClick={() => openOccurrence(template, occurrence)}>
+                                    Edit
+                                  </Button>
+                                  <Button variant="ghost" size="sm" onClick={() => handleSkip(template, occurrence)}>
+                                    Skip
+                                  </Button>
+                                </>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  {template.upcoming.some(occurrence => occurrence.overdue) && (
+                    <p className="mt-3 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                      An overdue occurrence could not be posted. Check that its category and account are still in use, or skip it.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {/* Add/Edit Recurring Transaction Dialog */}
+      <Dialog open={templateOpen} onOpenChange={setTemplateOpen}>
+        <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? "Edit Recurring Transaction" : "Add Recurring Transaction"}</DialogTitle>
+            <DialogDescription>
+              {editingTemplate
+                ? "Changes apply from the next occurrence on; transactions already posted are left alone."
+                : "Occurrences from the start date on are posted to your transactions as they fall due."}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...templateForm}>
+            <form onSubmit={templateForm.handleSubmit(onSaveTemplate)} className="space-y-4">
+              <FormField
+                control={templateForm.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Rent" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={templateForm.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {activeCategories.map(category => (
+                          <SelectItem key={category.id} value={category.name}>{getLabel(category)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={templateForm.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" placeholder="0.00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={templateForm.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="income">Income</SelectItem>
+                          <SelectItem value="expense">Expense</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={templateForm.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repeats</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                          <SelectItem value="monthly">Monthly</SelectItem>
+                          <SelectItem value="yearly">Yearly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={templateForm.control}
+                  name="interval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Every</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" step="1" {...field} />
+                      </FormControl>
+                      <FormDescription>{FREQUENCY_UNITS[frequency] ?? "period"}(s)</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {(frequency === "monthly" || frequency === "yearly") && (
+                <FormField
+                  control={templateForm.control}
+                  name="dayOfMonth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Day of month</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={START_DAY}>Same day as the start date</SelectItem>
+                          {Array.from({ length: 31 }, (_, index) => String(index + 1)).map(day => (
+                            <SelectItem key={day} value={day}>{day}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Months without that day use their last day.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={templateForm.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starts</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={templateForm.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends (optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {openAccounts.length > 0 && (
+                <FormField
+                  control={templateForm.control}
+                  name="accountId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account</FormLabel>
+                      <Select
+                        onValueChange={value => field.onChange(value === NO_ACCOUNT ? null : Number(value))}
+                        value={field.value ? String(field.value) : NO_ACCOUNT}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                          {accounts
+                            .filter(account => !account.archived || account.id === field.value)
+                            .map(account => (
+                              <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <CurrencyField />
+              <SplitFields />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setTemplateOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Save</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Single Occurrence Dialog */}
+      <Dialog open={editingOccurrence !== null} onOpenChange={open => !open && setEditingOccurrence(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              Edit {editingOccurrence ? formatDate(editingOccurrence.occurrence.date) : ""} Occurrence
+            </DialogTitle>
+            <DialogDescription>
+              Only this occurrence changes; the rest of the series stays as it is.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...occurrenceForm}>
+            <form onSubmit={occurrenceForm.handleSubmit(onSaveOccurrence)} className="space-y-4">
+              <FormField
+                control={occurrenceForm.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={occurrenceForm.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {activeCategories.map(category => (
+                          <SelectItem key={category.id} value={category.name}>{getLabel(category)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={occurrenceForm.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingOccurrence(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Save</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+import { Link, Redirect } from "wouter";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { BarChart3, UserPlus } from "lucide-react";
+
+const registerFormSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine(
+  (data) => data.password === data.confirmPassword,
+  {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  }
+);
+
+export default function Register() {
+  const { user, registerMutation } = useAuth();
+
+  const registerForm = useForm<z.infer<typeof registerFormSchema>>({
+    resolver: zodResolver(registerFormSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const onSubmit = ({ username, password }: z.infer<typeof registerFormSchema>) => {
+    registerMutation.mutate({ username, password });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-100">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <div className="flex items-center mb-2">
+            <BarChart3 className="mr-3 h-6 w-6" />
+            <span className="text-xl font-semibold">Finance Dashboard</span>
+          </div>
+          <CardTitle>Create an account</CardTitle>
+          <CardDescription>Each account keeps its own transactions and reports.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...registerForm}>
+            <form onSubmit={registerForm.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={registerForm.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={registerForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={registerForm.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                {registerMutation.isPending ? "Creating account..." : "Create account"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+        <CardFooter className="text-sm text-gray-500">
+          Already registered?
+          <Link href="/login" className="ml-1 font-medium text-primary hover:text-primary/80">
+            Sign in
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -1,10 +1,16 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useQuery } from "@tanstack/react-query";
 import { BarChart, PieChart, Pie, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Cell, ResponsiveContainer, Legend } from "recharts";
-import { Download, FileDown, Calendar } from "lucide-react";
+import { Download, FileDown, Calendar, ChevronLeft } from "lucide-react";
 import { useState } from "react";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+import { SavingsGoals } from "@/components/SavingsGoals";
+import { NetWorth } from "@/components/NetWorth";
+import { ExportDialog } from "@/components/ExportDialog";
 
 const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 const FULL_MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
@@ -20,6 +26,17 @@ export default function Reports() {
     queryKey: ['/api/summaries'],
   });
 
+  // Yearly spending per top-level category, or per subcategory of `parentCategory`
+  const [parentCategory, setParentCategory] = useState<string | null>(null);
+  // The date range the export dialog opens with; null while it is closed
+  const [exportRange, setExportRange] = useState<{ from?: string; to?: string } | null>(null);
+  const { data: categoryTotals = [] } = useQuery<{ category: string; amount: number; hasChildren: boolean }[]>({
+    queryKey: [`/api/reports/${selectedYear}/categories${parentCategory ? `?parent=${encodeURIComponent(parentCategory)}` : ''}`],
+  });
+  const { getCategory } = useCategories();
+  // Amounts in summaries are in the user's base currency
+  const { formatBase: formatCurrency, formatBaseCompact } = useCurrency();
+
   if (isLoading) {
     return (
       <div className="flex-1 overflow-y-auto bg-gray-100 p-4 sm:p-6 lg:p-8">
@@ -48,45 +65,16 @@ export default function Reports() {
   const annualSavings = annualData.reduce((sum, month) => sum + month.savings, 0);
   const savingsRate = annualIncome > 0 ? (annualSavings / annualIncome) * 100 : 0;
 
-  // Get category breakdown for the year
-  const categorySums: Record<string, number> = {};
-  
-  summaries?.forEach((summary: any) => {
-    if (summary.year === selectedYear) {
-      // For each month summary, get its category breakdowns
-      fetch(`/api/summaries/${summary.year}/${summary.month}`)
-        .then(res => res.json())
-        .then(data => {
-          if (data && data.breakdowns) {
-            data.breakdowns.forEach((breakdown: any) => {
-              const category = breakdown.category;
-              const amount = Number(breakdown.amount);
-              categorySums[category] = (categorySums[category] || 0) + amount;
-            });
-          }
-        });
-    }
-  });
-
-  const categoryData = Object.entries(categorySums).map(([category, amount], index) => ({
-    name: category,
-    value: amount,
-    color: COLORS[index % COLORS.length]
+  const categoryData = categoryTotals.map((total, index) => ({
+    name: total.category,
+    value: total.amount,
+    hasChildren: total.hasChildren,
+    color: getCategory(total.category)?.color ?? COLORS[index % COLORS.length]
   }));
 
-  // Format currency
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2
-    }).format(value);
-  };
-
-  // Handle export
-  const handleExportAnnual = () => {
-    // This would generate a PDF or CSV report in a real app
-    alert('Annual report export would be implemented here');
+  // The server builds the report file; the browser downloads it
+  const handleExportAnnual = (format: 'pdf' | 'xlsx') => {
+    window.open(`/api/reports/${selectedYear}/annual.${format}`, '_blank');
   };
 
   return (
@@ -102,7 +90,10 @@ export default function Reports() {
                 <select 
                   className="bg-white border border-gray-300 rounded-md py-1 px-3 text-sm"
                   value={selectedYear}
-                  onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+                  onChange={(e) => {
+                    setSelectedYear(parseInt(e.target.value));
+                    setParentCategory(null);
+                  }}
                 >
                   {[...Array(5)].map((_, i) => (
                     <option key={i} value={currentYear - i}>
@@ -111,6 +102,10 @@ export default function Reports() {
                   ))}
                 </select>
               </div>
+              <Button variant="outline" size="sm" onClick={() => setExportRange({})}>
+                <Download className="mr-2 h-4 w-4" />
+                Export Transactions
+              </Button>
             </div>
           </div>
         </div>
@@ -119,9 +114,11 @@ export default function Reports() {
       {/* Main Content */}
       <main className="flex-1 overflow-y-auto bg-gray-100 p-4 sm:p-6 lg:p-8">
         <Tabs defaultValue="annual" className="space-y-6">
-          <TabsList className="grid w-full max-w-md mx-auto grid-cols-2">
+          <TabsList className="grid w-full max-w-2xl mx-auto grid-cols-4">
             <TabsTrigger value="annual">Annual Overview</TabsTrigger>
             <TabsTrigger value="monthly">Monthly Breakdown</TabsTrigger>
+            <TabsTrigger value="goals">Savings Goals</TabsTrigger>
+            <TabsTrigger value="net-worth">Net Worth</TabsTrigger>
           </TabsList>
 
           <TabsContent value="annual" className="space-y-6">
@@ -173,10 +170,18 @@ export default function Reports() {
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between">
                   <CardTitle>Income vs. Expenses ({selectedYear})</CardTitle>
-                  <Button variant="outline" size="sm" onClick={handleExportAnnual}>
-                    <FileDown className="mr-2 h-4 w-4" />
-                    Export
-                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        <FileDown className="mr-2 h-4 w-4" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => handleExportAnnual('pdf')}>PDF report</DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => handleExportAnnual('xlsx')}>Excel workbook (XLSX)</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </CardHeader>
                 <CardContent>
                   <div className="h-80">
@@ -193,7 +198,7 @@ export default function Reports() {
                         <CartesianGrid strokeDasharray="3 3" vertical={false} />
                         <XAxis dataKey="name" />
                         <YAxis 
-                          tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                          tickFormatter={(value) => formatBaseCompact(value)}
                           width={60}
                         />
                         <Tooltip 
@@ -210,8 +215,13 @@ export default function Reports() {
               </Card>
 
               <Card>
-                <CardHeader>
-                  <CardTitle>Expense Categories ({selectedYear})</CardTitle>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle>{parentCategory ?? "Expense Categories"} ({selectedYear})</CardTitle>
+                  {parentCategory && (
+                    <Button variant="ghost" size="sm" onClick={() => setParentCategory(null)}>
+                      <ChevronLeft className="mr-1 h-4 w-4" /> All categories
+                    </Button>
+                  )}
                 </CardHeader>
                 <CardContent>
                   <div className="h-80">
@@ -227,6 +237,8 @@ export default function Reports() {
                           dataKey="value"
                           label={({ name, percent }) => `${name} (${(percent * 100).toFixed(0)}%)`}
                           labelLine={false}
+                          // Click a category with subcategories to drill down into it
+                          onClick={(entry: any) => entry.hasChildren && setParentCategory(entry.name)}
                         >
                           {categoryData.map((entry, index) => (
                             <Cell key={`cell-${index}`} fill={entry.color} />
@@ -274,7 +286,11 @@ export default function Reports() {
                           variant="outline" 
                           size="sm"
                           disabled={!monthData}
-                          onClick={() => window.open(`/api/export/${selectedYear}/${index + 1}`, '_blank')}
+                          onClick={() => {
+                            const month = String(index + 1).padStart(2, '0');
+                            const lastDay = new Date(selectedYear, index + 1, 0).getDate();
+                            setExportRange({ from: `${selectedYear}-${month}-01`, to: `${selectedYear}-${month}-${lastDay}` });
+                          }}
                         >
                           <Download className="h-4 w-4 mr-2" /> 
                           Export
@@ -286,8 +302,23 @@ export default function Reports() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="goals" className="space-y-6">
+            <SavingsGoals detailed />
+          </TabsContent>
+
+          <TabsContent value="net-worth" className="space-y-6">
+            <NetWorth />
+          </TabsContent>
         </Tabs>
       </main>
+
+      <ExportDialog
+        open={exportRange !== null}
+        onOpenChange={open => !open && setExportRange(null)}
+        from={exportRange?.from}
+        to={exportRange?.to}
+      />
     </>
   );
 }
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -7,10 +7,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { CategoryManager } from "@/components/CategoryManager";
+import { RulesManager } from "@/components/RulesManager";
+import { ExchangeRatesManager } from "@/components/ExchangeRatesManager";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { budgetModes, commonCurrencies } from "@shared/schema";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Save, RefreshCw, Key } from "lucide-react";
+import { Save } from "lucide-react";
 
 // Settings form schema
 const accountFormSchema = z.object({
@@ -50,31 +56,23 @@ const accountFormSchema = z.object({
 // Display preferences schema
 const displayFormSchema = z.object({
   theme: z.enum(["light", "dark", "system"]),
-  currency: z.enum(["USD", "EUR", "GBP", "CAD", "AUD"]),
+  currency: z.enum(commonCurrencies),
+  budgetMode: z.enum(budgetModes),
   showTutorials: z.boolean(),
   emailNotifications: z.boolean(),
 });
 
-// Category mapping schema
-const categoryMappingSchema = z.object({
-  housingKeywords: z.string(),
-  transportationKeywords: z.string(),
-  foodKeywords: z.string(),
-  utilitiesKeywords: z.string(),
-  healthcareKeywords: z.string(),
-  entertainmentKeywords: z.string(),
-});
-
 export default function Settings() {
   const [activeTab, setActiveTab] = useState("account");
   const { toast } = useToast();
+  const { user } = useAuth();
 
   // Account settings form
   const accountForm = useForm<z.infer<typeof accountFormSchema>>({
     resolver: zodResolver(accountFormSchema),
     defaultValues: {
-      username: "demo",
-      email: "demo@example.com",
+      username: user?.username ?? "",
+      email: "",
       password: "",
       newPassword: "",
       confirmPassword: "",
@@ -86,25 +84,15 @@ export default function Settings() {
     resolver: zodResolver(displayFormSchema),
     defaultValues: {
       theme: "light",
-      currency: "USD",
+      currency: (commonCurrencies as readonly string[]).includes(user?.baseCurrency ?? "")
+        ? user!.baseCurrency as typeof commonCurrencies[number]
+        : "USD",
+      budgetMode: user?.budgetMode === "envelope" ? "envelope" : "limits",
       showTutorials: true,
       emailNotifications: false,
     },
   });
 
-  // Category mapping form
-  const categoryForm = useForm<z.infer<typeof categoryMappingSchema>>({
-    resolver: zodResolver(categoryMappingSchema),
-    defaultValues: {
-      housingKeywords: "rent, mortgage, home, property, housing",
-      transportationKeywords: "gas, car, uber, lyft, transport, fuel",
-      foodKeywords: "grocery, restaurant, food, meal, dining",
-      utilitiesKeywords: "electric, water, phone, internet, utility",
-      healthcareKeywords: "doctor, medical, health, insurance, pharmacy",
-      entertainmentKeywords: "movie, cinema, netflix, spotify, subscription",
-    },
-  });
-
   // Handle form submissions
   const onAccountSubmit = (data: z.infer<typeof accountFormSchema>) => {
     toast({
@@ -113,18 +101,26 @@ export default function Settings() {
     });
   };
 
-  const onDisplaySubmit = (data: z.infer<typeof displayFormSchema>) => {
-    toast({
-      title: "Display preferences updated",
-      description: "Your display preferences have been saved successfully.",
-    });
-  };
-
-  const onCategorySubmit = (data: z.infer<typeof categoryMappingSchema>) => {
-    toast({
-      title: "Category mappings updated",
-      description: "Your category keyword mappings have been saved successfully.",
-    });
+  // Summaries and reports are converted into the chosen currency
+  const onDisplaySubmit = async (data: z.infer<typeof displayFormSchema>) => {
+    try {
+      const response = await apiRequest('PUT', '/api/user/preferences', {
+        baseCurrency: data.currency,
+        budgetMode: data.budgetMode,
+      });
+      queryClient.setQueryData(['/api/user'], await response.json());
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]) !== '/api/user' });
+      toast({
+        title: "Display preferences updated",
+        description: "Your display preferences have been saved successfully.",
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to save display preferences",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -294,7 +290,31 @@ export default function Settings() {
                             </SelectContent>
                           </Select>
                           <FormDescription>
-                            Select your preferred currency for displaying amounts.
+                            Summaries and reports are converted into this currency.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={displayForm.control}
+                      name="budgetMode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Budgeting</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="limits">Spending limits per category</SelectItem>
+                              <SelectItem value="envelope">Envelopes (assign every unit of income)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            Which budget the Dashboard shows.
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -347,102 +367,13 @@ export default function Settings() {
                 </Form>
               </CardContent>
             </Card>
+            <ExchangeRatesManager />
           </TabsContent>
 
-          {/* Category Mapping */}
+          {/* Categories and categorisation rules */}
           <TabsContent value="categories" className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Category Mapping</CardTitle>
-                <CardDescription>
-                  Configure keywords that help categorize your transactions when importing statements.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <Form {...categoryForm}>
-                  <form onSubmit={categoryForm.handleSubmit(onCategorySubmit)} className="space-y-4">
-                    <FormField
-                      control={categoryForm.control}
-                      name="housingKeywords"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Housing Keywords</FormLabel>
-                          <FormControl>
-                            <Input {...field} placeholder="Enter keywords separated by commas" />
-                          </FormControl>
-                          <FormDescription>
-                            Keywords that will map transactions to the Housing category.
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={categoryForm.control}
-                      name="transportationKeywords"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Transportation Keywords</FormLabel>
-                          <FormControl>
-                            <Input {...field} placeholder="Enter keywords separated by commas" />
-                          </FormControl>
-                          <FormDescription>
-                            Keywords that will map transactions to the Transportation category.
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={categoryForm.control}
-                      name="foodKeywords"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Food Keywords</FormLabel>
-                          <FormControl>
-                            <Input {...field} placeholder="Enter keywords separated by commas" />
-                          </FormControl>
-                          <FormDescription>
-                            Keywords that will map transactions to the Food category.
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={categoryForm.control}
-                      name="utilitiesKeywords"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Utilities Keywords</FormLabel>
-                          <FormControl>
-                            <Input {...field} placeholder="Enter keywords separated by commas" />
-                          </FormControl>
-                          <FormDescription>
-                            Keywords that will map transactions to the Utilities category.
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div className="flex gap-4 justify-between">
-                      <Button type="submit">
-                        <Save className="mr-2 h-4 w-4" /> Save Category Mappings
-                      </Button>
-                      <Button type="button" variant="outline" onClick={() => categoryForm.reset()}>
-                        <RefreshCw className="mr-2 h-4 w-4" /> Reset to Defaults
-                      </Button>
-                    </div>
-                  </form>
-                </Form>
-              </CardContent>
-              <CardFooter className="bg-muted/50 mt-4">
-                <div className="flex items-center text-xs text-muted-foreground gap-2">
-                  <Key className="h-3 w-3" />
-                  <span>Keywords are used to automatically categorize transactions when processing PDF statements.</span>
-                </div>
-              </CardFooter>
-            </Card>
+            <CategoryManager />
+            <RulesManager />
           </TabsContent>
         </Tabs>
       </main>
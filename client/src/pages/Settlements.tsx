@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney, formatMoneyCompact } from "@/hooks/use-currency";
+import { useAuth } from "@/hooks/use-auth";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { ArrowLeft, ArrowRight, CheckCircle2, HandCoins, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+const COLORS = ["#3b82f6", "#ef4444", "#22c55e", "#eab308", "#a855f7", "#ec4899"];
+
+interface HouseholdData {
+  household: { id: number; name: string; currency: string };
+  members: { userId: number; username: string; role: string }[];
+}
+
+interface BalancesData {
+  balances: { userId: number; net: number }[];
+  debts: { fromUserId: number; toUserId: number; amount: number }[];
+}
+
+interface SettlementData {
+  id: number;
+  fromUserId: number;
+  toUserId: number;
+  amount: string;
+  date: string;
+  note: string | null;
+  createdBy: number;
+}
+
+interface BalanceHistoryEntry {
+  date: string;
+  kind: 'transaction' | 'settlement';
+  id: number;
+  description: string;
+  amount: number;
+  balances: Record<number, number>;
+}
+
+export default function Settlements() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const [fromUserId, setFromUserId] = useState<string>("");
+  const [toUserId, setToUserId] = useState<string>("");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [note, setNote] = useState("");
+
+  const { data: household, isLoading } = useQuery<HouseholdData>({
+    queryKey: ['/api/household'],
+    throwOnError: false,
+  });
+
+  // Balances and settlements are in the household's currency
+  const currency = household?.household.currency ?? "USD";
+  const formatCurrency = (value: number) => formatMoney(value, currency);
+
+  const { data: balances } = useQuery<BalancesData>({
+    queryKey: ['/api/household/balances'],
+    enabled: !!household,
+  });
+
+  const { data: settlements = [] } = useQuery<SettlementData[]>({
+    queryKey: ['/api/household/settlements'],
+    enabled: !!household,
+  });
+
+  const { data: history = [] } = useQuery<BalanceHistoryEntry[]>({
+    queryKey: ['/api/household/balance-history'],
+    enabled: !!household,
+  });
+
+  const refreshBalances = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/household/balances'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/household/settlements'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/household/balance-history'] });
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const usernameFor = (userId: number) =>
+    household?.members.find(member => member.userId === userId)?.username ?? 'Former member';
+
+  const myDebts = (balances?.debts ?? [])
+    .filter(debt => debt.fromUserId === user?.id || debt.toUserId === user?.id);
+
+  const handleSettleAll = async () => {
+    const total = myDebts.reduce((sum, debt) => sum + debt.amount, 0);
+    if (!window.confirm(`Record settlements for the full outstanding ${formatCurrency(total)}?`)) {
+      return;
+    }
+
+    try {
+      await apiRequest('POST', '/api/household/settlements/settle-all');
+      toast({
+        title: "All settled up",
+        description: "Settlements have been recorded for every outstanding balance.",
+      });
+      refreshBalances();
+    } catch (error) {
+      showError("Failed to settle balances", error);
+    }
+  };
+
+  const handleRecordSettlement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await apiRequest('POST', '/api/household/settlements', {
+        fromUserId: Number(fromUserId),
+        toUserId: Number(toUserId),
+        amount,
+        date,
+        note: note || null,
+      });
+      toast({
+        title: "Settlement recorded",
+        description: `${usernameFor(Number(fromUserId))} paid ${usernameFor(Number(toUserId))} ${formatCurrency(Number(amount))}`,
+      });
+      setAmount("");
+      setNote("");
+      refreshBalances();
+    } catch (error) {
+      showError("Failed to record settlement", error);
+    }
+  };
+
+  const handleDeleteSettlement = async (id: number) => {
+    if (!window.confirm("Are you sure you want to delete this settlement?")) {
+      return;
+    }
+
+    try {
+      await apiRequest('DELETE', `/api/household/settlements/${id}`);
+      refreshBalances();
+    } catch (error) {
+      showError("Failed to delete settlement", error);
+    }
+  };
+
+  // One point per event, one line per member
+  const chartData = history.map(entry => {
+    const point: Record<string, string | number> = {
+      date: format(new Date(entry.date), 'MMM d'),
+      description: entry.description,
+    };
+    household?.members.forEach(member => {
+      point[member.username] = entry.balances[member.userId] ?? 0;
+    });
+    return point;
+  });
+
+  return (
+    <>
+      {/* Top Navbar */}
+      <div className="bg-white shadow-sm z-10">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <div className="flex items-center">
+              <Link href="/household" className="mr-3 text-gray-400 hover:text-gray-500">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+              <h1 className="text-lg font-semibold">Settle Up</h1>
+            </div>
+            {household && (
+              <Button onClick={handleSettleAll} disabled={myDebts.length === 0}>
+                <CheckCircle2 className="mr-2 h-4 w-4" /> Settle Full Balance
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto bg-gray-100 p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="text-center py-10">Loading settlements...</div>
+        ) : !household ? (
+          <div className="text-center py-10 text-gray-500">
+            <p>You need a household before you can settle up.</p>
+            <Link href="/household" className="text-primary hover:text-primary/80">Create one</Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            {/* Running balance */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Running Balance</CardTitle>
+                <CardDescription>Above zero means the member is owed money.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {chartData.length > 0 ? (
+                  <div className="h-72">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                        <XAxis dataKey="date" />
+                        <YAxis width={70} tickFormatter={(value) => formatMoneyCompact(value, currency)} />
+                        <Tooltip
+                          formatter={(value: number) => formatCurrency(value)}
+                          labelFormatter={(label, payload) => payload?.[0]?.payload.description
+                            ? `${label} - ${payload[0].payload.description}`
+                            : label}
+                          contentStyle={{ borderRadius: '4px' }}
+                        />
+                        <Legend />
+                        {household.members.map((member, index) => (
+                          <Line
+                            key={member.userId}
+                            type="stepAfter"
+                            dataKey={member.username}
+                            stroke={COLORS[index % COLORS.length]}
+                            dot={false}
+                            strokeWidth={2}
+                          />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-center h-72">
+                    <p className="text-gray-500">No shared transactions yet</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Outstanding */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Outstanding</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {balances && balances.debts.length > 0 ? (
+                  balances.debts.map((debt, index) => (
+                    <div key={index} className="flex items-center justify-between border-b pb-3">
+                      <div className="flex items-center text-sm font-medium text-gray-900">
+                        {usernameFor(debt.fromUserId)}
+                        <ArrowRight className="mx-2 h-4 w-4 text-gray-400" />
+                        {usernameFor(debt.toUserId)}
+                      </div>
+                      <span className="text-sm font-semibold text-red-600">{formatCurrency(debt.amount)}</span>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-gray-500">Everyone is settled up.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Record a settlement */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Record a Settlement</CardTitle>
+                <CardDescription>For example, your partner paying you back.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleRecordSettlement} className="space-y-3">
+                  <Select value={fromUserId} onValueChange={setFromUserId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Who paid" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {household.members.map(member => (
+                        <SelectItem key={member.userId} value={String(member.userId)}>{member.username}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={toUserId} onValueChange={setToUserId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Who received it" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {household.members.map(member => (
+                        <SelectItem key={member.userId} value={String(member.userId)}>{member.username}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder={`0.00 ${currency}`}
+                      value={amount}
+                      onChange={e => setAmount(e.target.value)}
+                    />
+                    <Input type="date" value={date} onChange={e => setDate(e.target.value)} />
+                  </div>
+                  <Input placeholder="Note (optional)" value={note} onChange={e => setNote(e.target.value)} />
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={!fromUserId || !toUserId || fromUserId === toUserId || !(Number(amount) > 0)}
+                  >
+                    <HandCoins className="mr-2 h-4 w-4" /> Record Settlement
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {/* Settlement history */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Settlement History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {settlements.length > 0 ? (
+                  <div className="space-y-3">
+                    {settlements.map(settlement => (
+                      <div key={settlement.id} className="flex items-center justify-between border-b pb-3">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {usernameFor(settlement.fromUserId)} paid {usernameFor(settlement.toUserId)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {format(new Date(settlement.date), 'PPP')}
+                            {settlement.note && ` · ${settlement.note}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center">
+                          <span className="text-sm font-semibold text-gray-900 mr-2">
+                            {formatCurrency(Number(settlement.amount))}
+                          </span>
+                          {settlement.createdBy === user?.id && (
+                            <Button variant="ghost" size="icon" onClick={() => handleDeleteSettlement(settlement.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No settlements recorded yet.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,225 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CreditCard, Repeat, TrendingDown, TrendingUp } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney, useCurrency } from "@/hooks/use-currency";
+import type { RecurringFrequency } from "@shared/schema";
+
+interface PriceChange {
+  date: string;
+  from: number;
+  to: number;
+}
+
+// A recurring charge found in the transaction history; amounts are in its own currency
+interface Subscription {
+  merchantKey: string;
+  description: string;
+  category: string;
+  accountId: number | null;
+  currency: string;
+  frequency: RecurringFrequency;
+  interval: number;
+  dayOfMonth: number | null;
+  amount: number;
+  monthlyCost: number;
+  annualCost: number;
+  // Null when no exchange rate converts it
+  baseMonthlyCost: number | null;
+  chargeCount: number;
+  firstCharge: string;
+  lastCharge: string;
+  nextCharge: string;
+  active: boolean;
+  priceChanges: PriceChange[];
+  transactionIds: number[];
+  // The recurring transaction it has been turned into
+  templateId: number | null;
+}
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+function describeCycle(subscription: Subscription) {
+  if (subscription.frequency === "weekly") return subscription.interval === 1 ? "Weekly" : "Every 2 weeks";
+  if (subscription.frequency === "yearly") return "Yearly";
+  if (subscription.interval === 3) return "Quarterly";
+  if (subscription.interval === 6) return "Every 6 months";
+  return "Monthly";
+}
+
+export default function Subscriptions() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { formatBase } = useCurrency();
+
+  // Worked out from the whole ledger, which most screens can change, so fetched afresh each visit
+  const { data: subscriptions = [], isLoading } = useQuery<Subscription[]>({
+    queryKey: ['/api/subscriptions'],
+    refetchOnMount: "always",
+  });
+
+  const active = subscriptions.filter(subscription => subscription.active);
+  const monthlyTotal = active.reduce((sum, subscription) => sum + (subscription.baseMonthlyCost ?? 0), 0);
+  const unconverted = active.filter(subscription => subscription.baseMonthlyCost === null).length;
+
+  // Future charges are posted from the next expected one, so none already in the ledger is repeated
+  const handleConvert = async (subscription: Subscription) => {
+    try {
+      await apiRequest('POST', '/api/recurring', {
+        description: subscription.description,
+        category: subscription.category,
+        amount: -subscription.amount,
+        type: "expense",
+        accountId: subscription.accountId,
+        currency: subscription.currency,
+        frequency: subscription.frequency,
+        interval: subscription.interval,
+        dayOfMonth: subscription.dayOfMonth,
+        startDate: subscription.nextCharge,
+        endDate: null,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recurring'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/forecast'] });
+      toast({
+        title: "Recurring transaction added",
+        description: `${subscription.description} will be posted from ${formatDate(subscription.nextCharge)}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to add recurring transaction",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      {/* Top Navbar */}
+      <div className="bg-white shadow-sm z-10">
+        <div className="px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center">
+            <h1 className="text-lg font-semibold">Subscriptions</h1>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto bg-gray-100 p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="text-center py-10">Looking for subscriptions...</div>
+        ) : subscriptions.length === 0 ? (
+          <div className="text-center py-10 text-gray-500">
+            <CreditCard className="mx-auto mb-2 h-8 w-8" />
+            <p>No recurring charges found yet. Subscriptions show up once a merchant has charged a similar amount at least three times on a regular cycle.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              {[
+                { label: "Active subscriptions", value: String(active.length) },
+                { label: "Per month", value: formatBase(monthlyTotal) },
+                { label: "Per year", value: formatBase(monthlyTotal * 12) },
+              ].map(({ label, value }) => (
+                <Card key={label}>
+                  <CardContent className="p-4">
+                    <div className="text-sm text-gray-500">{label}</div>
+                    <div className="text-xl font-semibold text-gray-900">{value}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            {unconverted > 0 && (
+              <p className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                {unconverted} subscription{unconverted === 1 ? " is" : "s are"} left out of the totals for want of an exchange rate.
+              </p>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recurring charges</CardTitle>
+                <CardDescription>
+                  Found in your transactions: the same merchant charging a similar amount on a regular cycle.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-500">
+                      <th className="py-2 pr-2 font-medium">Merchant</th>
+                      <th className="py-2 pr-2 font-medium">Billed</th>
+                      <th className="py-2 pr-2 text-right font-medium">Amount</th>
+                      <th className="py-2 pr-2 text-right font-medium">Per month</th>
+                      <th className="py-2 pr-2 text-right font-medium">Per year</th>
+                      <th className="py-2 pr-2 font-medium">Last charge</th>
+                      <th className="py-2 pr-2 font-medium">Price changes</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {subscriptions.map(subscription => (
+                      <tr
+                        key={`${subscription.merchantKey}|${subscription.currency}`}
+                        className={`border-b last:border-0 align-top ${subscription.active ? "text-gray-700" : "text-gray-400"}`}
+                      >
+                        <td className="py-2 pr-2">
+                          <div className="font-medium text-gray-900">{subscription.description}</div>
+                          <div className="text-xs text-gray-500">
+                            {subscription.category} · {subscription.chargeCount} charges since {formatDate(subscription.firstCharge)}
+                          </div>
+                        </td>
+                        <td className="py-2 pr-2 whitespace-nowrap">
+                          {describeCycle(subscription)}
+                          {!subscription.active && <Badge variant="outline" className="ml-2">Lapsed</Badge>}
+                        </td>
+                        <td className="py-2 pr-2 text-right">{formatMoney(subscription.amount, subscription.currency)}</td>
+                        <td className="py-2 pr-2 text-right">{formatMoney(subscription.monthlyCost, subscription.currency)}</td>
+                        <td className="py-2 pr-2 text-right">{formatMoney(subscription.annualCost, subscription.currency)}</td>
+                        <td className="py-2 pr-2 whitespace-nowrap">
+                          {formatDate(subscription.lastCharge)}
+                          {subscription.active && (
+                            <div className="text-xs text-gray-500">Next around {formatDate(subscription.nextCharge)}</div>
+                          )}
+                        </td>
+                        <td className="py-2 pr-2">
+                          {subscription.priceChanges.length === 0 ? (
+                            <span className="text-gray-400">None</span>
+                          ) : (
+                            subscription.priceChanges.map(change => (
+                              <div key={change.date} className="flex items-center whitespace-nowrap text-xs">
+                                {change.to > change.from
+                                  ? <TrendingUp className="mr-1 h-3 w-3 text-red-600" />
+                                  : <TrendingDown className="mr-1 h-3 w-3 text-green-600" />}
+                                {formatMoney(change.from, subscription.currency)} → {formatMoney(change.to, subscription.currency)}
+                                <span className="ml-1 text-gray-500">{formatDate(change.date)}</span>
+                              </div>
+                            ))
+                          )}
+                        </td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          {subscription.templateId !== null ? (
+                            <Link href="/recurring" className="text-xs text-gray-500 underline">Recurring</Link>
+                          ) : subscription.active && (
+                            <Button variant="outline" size="sm" onClick={() => handleConvert(subscription)}>
+                              <Repeat className="mr-1 h-3 w-3" /> Make recurring
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
@@ -3,8 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { DataTable } from "@/components/ui/data-table";
-import { Calendar, Download, Filter, PencilIcon, Plus, Trash2 } from "lucide-react";
-import { categories } from "@shared/schema";
+import { Calendar, Download, Filter, Lock, PencilIcon, Plus, Trash2, Unlink } from "lucide-react";
+import { useCategories } from "@/hooks/use-categories";
+import { useAccounts } from "@/hooks/use-accounts";
 import { ColumnDef } from "@tanstack/react-table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -13,21 +14,32 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { format } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { SplitFields } from "@/components/SplitFields";
+import { TransactionAmount } from "@/components/TransactionAmount";
+import { CurrencyField } from "@/components/CurrencyField";
+import { useCurrency } from "@/hooks/use-currency";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { insertTransactionSchema } from "@shared/schema";
 import { useIsMobile } from "@/hooks/use-mobile";
 
+// Select value for "all accounts" in the filter and "no account" in the form
+const NO_ACCOUNT = "none";
+
 export default function TransactionHistory() {
   const [open, setOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<any>(null);
+  const [accountFilter, setAccountFilter] = useState<number | null>(null);
   const queryClient = useQueryClient();
+  const { categories, activeCategories, getLabel } = useCategories();
+  const { accounts, openAccounts, getAccount } = useAccounts();
+  const { baseCurrency } = useCurrency();
   const { toast } = useToast();
 
-  // Fetch all transactions
+  // Fetch all transactions, or only those in the chosen account
   const { data: transactions = [], isLoading, error } = useQuery<any[]>({
-    queryKey: ['/api/transactions'],
+    queryKey: [accountFilter === null ? '/api/transactions' : `/api/transactions?accountId=${accountFilter}`],
   });
 
   const formSchema = insertTransactionSchema.extend({
@@ -44,21 +56,32 @@ export default function TransactionHistory() {
       category: "Other",
       amount: 0,
       type: "expense",
+      splitType: null,
+      splitValue: null,
+      accountId: null,
+      currency: baseCurrency,
     },
   });
 
-  const handleDeleteTransaction = async (id: number) => {
-    if (window.confirm("Are you sure you want to delete this transaction?")) {
+  const handleDeleteTransaction = async (transaction: any) => {
+    const message = transaction.type === "transfer"
+      ? "Are you sure you want to delete this transfer? Both of its transactions will be deleted."
+      : "Are you sure you want to delete this transaction?";
+    if (window.confirm(message)) {
       try {
-        await apiRequest('DELETE', `/api/transactions/${id}`);
+        await apiRequest('DELETE', `/api/transactions/${transaction.id}`);
         
         toast({
           title: "Transaction deleted",
           description: "The transaction has been successfully deleted",
         });
         
-        queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+        queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/transactions') });
         queryClient.invalidateQueries({ queryKey: ['/api/summaries'] });
+        queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+        queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+      queryClient.invalidateQueries({ queryKey: ['/api/household/balances'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
       } catch (error) {
         toast({
           title: "Error",
@@ -69,6 +92,23 @@ export default function TransactionHistory() {
     }
   };
 
+  // Turn a transfer back into an ordinary expense and income
+  const handleUnlinkTransfer = async (transaction: any) => {
+    try {
+      await apiRequest('POST', `/api/transfers/${transaction.id}/unlink`);
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/transactions') });
+      queryClient.invalidateQueries({ queryKey: ['/api/summaries'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to unlink transfer",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleEditTransaction = (transaction: any) => {
     setSelectedTransaction(transaction);
     
@@ -78,6 +118,10 @@ export default function TransactionHistory() {
       category: transaction.category,
       amount: Math.abs(Number(transaction.amount)),
       type: transaction.type,
+      splitType: transaction.splitType,
+      splitValue: transaction.splitValue != null ? Number(transaction.splitValue) : null,
+      accountId: transaction.accountId,
+      currency: transaction.currency,
     });
     
     setOpen(true);
@@ -92,6 +136,10 @@ export default function TransactionHistory() {
       category: "Other",
       amount: 0,
       type: "expense",
+      splitType: null,
+      splitValue: null,
+      accountId: accountFilter,
+      currency: baseCurrency,
     });
     
     setOpen(true);
@@ -119,8 +167,12 @@ export default function TransactionHistory() {
         });
       }
       
-      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/transactions') });
       queryClient.invalidateQueries({ queryKey: ['/api/summaries'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/budgets') });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/envelopes') });
+      queryClient.invalidateQueries({ queryKey: ['/api/household/balances'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
       setOpen(false);
     } catch (error) {
       toast({
@@ -149,36 +201,54 @@ export default function TransactionHistory() {
       accessorKey: "category",
       header: "Category",
     },
+    {
+      accessorKey: "accountId",
+      header: "Account",
+      cell: ({ row }) => getAccount(row.original.accountId)?.name ?? "",
+    },
     {
       accessorKey: "amount",
       header: "Amount",
-      cell: ({ row }) => {
-        const amount = Number(row.original.amount);
-        const isIncome = amount > 0;
-        return (
-          <span className={isIncome ? "text-green-600" : "text-red-600"}>
-            {isIncome ? "+" : "-"}${Math.abs(amount).toFixed(2)}
-          </span>
-        );
-      },
+      cell: ({ row }) => (
+        <TransactionAmount transaction={row.original} baseAmount={row.original.baseAmount} />
+      ),
     },
     {
       id: "actions",
       header: "Actions",
       cell: ({ row }) => {
+        // Reconciled transactions are locked until the statement's reconciliation is undone
+        if (row.original.status === "reconciled") {
+          return (
+            <span className="flex items-center text-xs text-gray-500" title="Reconciled against a statement">
+              <Lock className="h-4 w-4 mr-1" /> Reconciled
+            </span>
+          );
+        }
         return (
           <div className="flex items-center space-x-2">
+            {row.original.type === "transfer" ? (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Unlink transfer"
+                onClick={() => handleUnlinkTransfer(row.original)}
+              >
+                <Unlink className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button
+                variant="ghost" 
+                size="icon"
+                onClick={() => handleEditTransaction(row.original)}
+              >
+                <PencilIcon className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               variant="ghost" 
               size="icon"
-              onClick={() => handleEditTransaction(row.original)}
-            >
-              <PencilIcon className="h-4 w-4" />
-            </Button>
-            <Button
-              variant="ghost" 
-              size="icon"
-              onClick={() => handleDeleteTransaction(row.original.id)}
+              onClick={() => handleDeleteTransaction(row.original)}
             >
               <Trash2 className="h-4 w-4" />
             </Button>
@@ -190,8 +260,8 @@ export default function TransactionHistory() {
 
   // Create category options for filter
   const categoryOptions = categories.map(category => ({
-    label: category,
-    value: category,
+    label: category.name,
+    value: category.name,
   }));
 
   // Use our responsive hook instead of directly checking window
@@ -226,6 +296,22 @@ export default function TransactionHistory() {
           <CardHeader className="flex flex-row items-center justify-between flex-wrap gap-2">
             <CardTitle>Transactions</CardTitle>
             <div className="flex items-center space-x-2">
+              {accounts.length > 0 && (
+                <Select
+                  value={accountFilter === null ? NO_ACCOUNT : String(accountFilter)}
+                  onValueChange={value => setAccountFilter(value === NO_ACCOUNT ? null : Number(value))}
+                >
+                  <SelectTrigger className="h-9 w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ACCOUNT}>All accounts</SelectItem>
+                    {accounts.map(account => (
+                      <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
               {!isMobile && (
                 <Button variant="outline" size="sm">
                   <Filter className="h-4 w-4 mr-2" />
@@ -314,9 +400,13 @@ export default function TransactionHistory() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {categories.map(category => (
-                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        {activeCategories.map(category => (
+                          <SelectItem key={category.id} value={category.name}>{getLabel(category)}</SelectItem>
                         ))}
+                        {/* An archived category stays selectable on the transactions that already use it */}
+                        {field.value && !activeCategories.some(category => category.name === field.value) && (
+                          <SelectItem value={field.value}>{field.value}</SelectItem>
+                        )}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -365,6 +455,38 @@ export default function TransactionHistory() {
                   )}
                 />
               </div>
+              {openAccounts.length > 0 && (
+                <FormField
+                  control={transactionForm.control}
+                  name="accountId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account</FormLabel>
+                      <Select
+                        onValueChange={value => field.onChange(value === NO_ACCOUNT ? null : Number(value))}
+                        value={field.value ? String(field.value) : NO_ACCOUNT}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                          {accounts
+                            .filter(account => !account.archived || account.id === field.value)
+                            .map(account => (
+                              <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <CurrencyField />
+              <SplitFields />
               <DialogFooter>
                 <Button type="submit">Save</Button>
               </DialogFooter>
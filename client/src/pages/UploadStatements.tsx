@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { UploadWidget } from "@/components/UploadWidget";
+import { DuplicateScanner } from "@/components/DuplicateScanner";
 import { useQuery } from "@tanstack/react-query";
 import { ArrowDown, Calendar, FileUp } from "lucide-react";
 import { format } from "date-fns";
@@ -126,6 +127,11 @@ export default function UploadStatements() {
               </CardContent>
             </Card>
           </div>
+          
+          {/* Duplicate Scan */}
+          <div className="col-span-1 md:col-span-2 lg:col-span-3">
+            <DuplicateScanner />
+          </div>
         </div>
       </main>
     </div>
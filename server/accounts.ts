@@ -0,0 +1,28 @@
+import type { Account, Transaction } from "@shared/schema";
+import { roundCents } from "./duplicates";
+
+// A transaction with the account balance right after it
+export type TransactionWithBalance = Transaction & { balance: number };
+
+// Oldest first; transactions on the same day keep the order they were entered in
+const chronological = (a: Transaction, b: Transaction) => a.date.localeCompare(b.date) || a.id - b.id;
+
+// Current balance: the opening balance plus every transaction on the account
+export function accountBalance(account: Account, transactions: Transaction[]): number {
+  return roundCents(transactions.reduce(
+    (balance, transaction) => balance + Number(transaction.amount),
+    Number(account.openingBalance),
+  ));
+}
+
+// The account's transactions, newest first, each with the balance after it
+export function withRunningBalances(account: Account, transactions: Transaction[]): TransactionWithBalance[] {
+  let balance = Number(account.openingBalance);
+  return [...transactions]
+    .sort(chronological)
+    .map(transaction => {
+      balance += Number(transaction.amount);
+      return { ...transaction, balance: roundCents(balance) };
+    })
+    .reverse();
+}
@@ -0,0 +1,80 @@
+import type { Budget, Category } from "@shared/schema";
+import { parentNames } from "./categories";
+import { roundCents } from "./duplicates";
+
+// Share of a budget spent before a category is flagged as nearly used up
+export const BUDGET_WARNING_PERCENTAGE = 80;
+
+export type BudgetStatus = "ok" | "warning" | "over";
+
+// One category's budget for a month against what was spent in it
+export interface BudgetProgress {
+  budgetId: number;
+  category: string;
+  // Whether the budget applies to every month rather than this one only
+  recurring: boolean;
+  budgeted: number;
+  spent: number;
+  remaining: number;
+  percentage: number;
+  status: BudgetStatus;
+}
+
+export function budgetStatus(percentage: number): BudgetStatus {
+  if (percentage >= 100) return "over";
+  if (percentage >= BUDGET_WARNING_PERCENTAGE) return "warning";
+  return "ok";
+}
+
+// The budgets in force in a month: each category's budget for that month if it has one,
+// otherwise its recurring budget
+export function budgetsForMonth(budgets: Budget[], year: number, month: number): Budget[] {
+  const byCategory = new Map<string, Budget>();
+  for (const budget of budgets) {
+    if (budget.year === null) {
+      if (!byCategory.has(budget.category)) byCategory.set(budget.category, budget);
+    } else if (budget.year === year && budget.month === month) {
+      byCategory.set(budget.category, budget);
+    }
+  }
+  return Array.from(byCategory.values());
+}
+
+// Compare a month's budgets with its category breakdowns. Spending in a subcategory
+// counts against its own budget and against its parent's.
+export function budgetProgress(
+  budgets: Budget[],
+  breakdowns: { category: string; amount: string | number }[],
+  categories: Category[],
+  year: number,
+  month: number,
+): BudgetProgress[] {
+  const parentOf = parentNames(categories);
+  const spent = new Map<string, number>();
+  for (const breakdown of breakdowns) {
+    const amount = Number(breakdown.amount);
+    spent.set(breakdown.category, (spent.get(breakdown.category) ?? 0) + amount);
+    const parent = parentOf.get(breakdown.category);
+    if (parent !== undefined && parent !== breakdown.category) {
+      spent.set(parent, (spent.get(parent) ?? 0) + amount);
+    }
+  }
+
+  return budgetsForMonth(budgets, year, month)
+    .map(budget => {
+      const budgeted = Number(budget.amount);
+      const categorySpent = roundCents(spent.get(budget.category) ?? 0);
+      const percentage = roundCents((categorySpent / budgeted) * 100);
+      return {
+        budgetId: budget.id,
+        category: budget.category,
+        recurring: budget.year === null,
+        budgeted,
+        spent: categorySpent,
+        remaining: roundCents(budgeted - categorySpent),
+        percentage,
+        status: budgetStatus(percentage),
+      };
+    })
+    .sort((a, b) => b.percentage - a.percentage);
+}
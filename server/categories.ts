@@ -0,0 +1,62 @@
+import type { Category } from "@shared/schema";
+import { roundCents } from "./duplicates";
+
+// Spending in one category, as shown in the breakdown charts
+export interface CategoryTotal {
+  category: string;
+  amount: number;
+  percentage: number;
+  // Whether the category has subcategories to drill down into
+  hasChildren: boolean;
+}
+
+// Map each category name to the name of its parent; top-level categories map to themselves.
+// Names missing from the list (e.g. deleted categories) are treated as top-level.
+export function parentNames(categories: Category[]): Map<string, string> {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  return new Map(categories.map(category => {
+    const parent = category.parentId !== null ? byId.get(category.parentId) : undefined;
+    return [category.name, parent?.name ?? category.name];
+  }));
+}
+
+// Categories that have subcategories; transactions are tagged with the others
+export function parentCategoryIds(categories: Category[]): Set<number> {
+  return new Set(
+    categories.map(category => category.parentId).filter((id): id is number => id !== null)
+  );
+}
+
+// Roll leaf-level breakdowns up into their top-level categories or, given a parent,
+// drill down into the parent's subcategories. Spending tagged directly on the parent
+// shows under its own name when drilling down.
+export function rollUpBreakdowns(
+  breakdowns: { category: string; amount: string | number }[],
+  categories: Category[],
+  parent?: string,
+): CategoryTotal[] {
+  const parentOf = parentNames(categories);
+  const topOf = (name: string) => parentOf.get(name) ?? name;
+  const parentIds = parentCategoryIds(categories);
+  const withChildren = new Set(categories
+    .filter(category => parentIds.has(category.id))
+    .map(category => category.name));
+
+  const totals = new Map<string, number>();
+  for (const breakdown of breakdowns) {
+    if (parent !== undefined && topOf(breakdown.category) !== parent) continue;
+    const key = parent === undefined ? topOf(breakdown.category) : breakdown.category;
+    totals.set(key, (totals.get(key) ?? 0) + Number(breakdown.amount));
+  }
+
+  const total = Array.from(totals.values()).reduce((sum, amount) => sum + amount, 0);
+  return Array.from(totals.entries())
+    .filter(([_, amount]) => amount > 0)
+    .map(([category, amount]) => ({
+      category,
+      amount: roundCents(amount),
+      percentage: roundCents((amount / total) * 100),
+      hasChildren: parent === undefined && withChildren.has(category),
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
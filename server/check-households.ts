@@ -0,0 +1,104 @@
+// Replays household histories in which members join and leave, and checks that doing so
+// leaves the balances of everyone else where they were.
+//
+//   npm run check:households
+import type { HouseholdMember, Settlement, Transaction } from '@shared/schema';
+import { computeNetBalances, participantsOf, participantsOn } from './households';
+
+const at = (date: string) => new Date(`${date}T12:00:00Z`);
+
+const member = (userId: number, joined: string): HouseholdMember =>
+  ({ id: userId, householdId: 1, userId, role: userId === 1 ? 'owner' : 'member', joinedAt: at(joined) });
+
+let transactionId = 0;
+const expense = (userId: number, date: string, amount: number, participantIds: number[] | null): Transaction => ({
+  id: ++transactionId,
+  userId,
+  date,
+  description: `Expense ${transactionId}`,
+  category: 'Food',
+  amount: String(-amount),
+  currency: 'USD',
+  type: 'expense',
+  pdfSource: null,
+  householdId: 1,
+  splitType: 'equal',
+  splitValue: null,
+  participantIds,
+  externalId: null,
+  accountId: null,
+  transferId: null,
+  status: 'uncleared',
+  createdAt: at(date),
+});
+
+let settlementId = 0;
+const settlement = (fromUserId: number, toUserId: number, date: string, amount: number): Settlement => ({
+  id: ++settlementId,
+  householdId: 1,
+  fromUserId,
+  toUserId,
+  amount: String(amount),
+  date,
+  note: null,
+  createdBy: fromUserId,
+  createdAt: at(date),
+});
+
+// Balances as the routes compute them: each transaction split between its participants
+function balances(transactions: Transaction[], members: HouseholdMember[], settlements: Settlement[] = []) {
+  const withParticipants = transactions.map(transaction => ({ ...transaction, participantIds: participantsOf(transaction, members) }));
+  return Object.fromEntries(computeNetBalances(withParticipants, members.map(m => m.userId), settlements));
+}
+
+const checks: { name: string; actual: unknown; expected: unknown }[] = [];
+const check = (name: string, actual: unknown, expected: unknown) => checks.push({ name, actual, expected });
+
+// 1 and 2 share a dinner and settle it; then 3 joins
+const founders = [member(1, '2026-01-01'), member(2, '2026-01-01')];
+const dinner = expense(1, '2026-01-10', 100, [1, 2]);
+const settled = [settlement(2, 1, '2026-01-15', 50)];
+check('settled history stays settled when someone joins',
+  balances([dinner], [...founders, member(3, '2026-02-01')], settled),
+  { 1: 0, 2: 0, 3: 0 });
+
+// After 3 joins, new expenses are split three ways
+const groceries = expense(1, '2026-02-05', 90, [1, 2, 3]);
+check('expenses after joining include the new member',
+  balances([dinner, groceries], [...founders, member(3, '2026-02-01')], settled),
+  { 1: 60, 2: -30, 3: -30 });
+
+// 2 settles up and leaves: what 1 and 3 owe each other is unchanged
+const leaving = [...settled, settlement(2, 1, '2026-02-10', 30)];
+check('a settled member leaving leaves the others where they were',
+  balances([dinner, groceries], [member(1, '2026-01-01'), member(3, '2026-02-01')], leaving),
+  { 1: 30, 3: -30 });
+
+// 2 paid for something 3 shared before leaving; it still counts for 3
+const taxi = expense(2, '2026-02-06', 60, [1, 2, 3]);
+check('what a former member paid still counts for the others',
+  balances([dinner, groceries, taxi], [member(1, '2026-01-01'), member(3, '2026-02-01')], [...leaving, settlement(1, 2, '2026-02-10', 20), settlement(3, 2, '2026-02-10', 20)]),
+  { 1: 30, 3: -30 });
+
+// A bill dated before 3 accepted, but entered afterwards, is not theirs to share
+const household = [...founders, member(3, '2026-02-01')];
+check('a backdated expense leaves out members who joined after its date',
+  balances([expense(1, '2026-01-20', 100, participantsOn(1, '2026-01-20', household))], household),
+  { 1: 50, 2: -50, 3: 0 });
+
+// Transactions shared before participants were recorded are split between the members of the time
+check('older transactions leave out members who joined after them',
+  balances([expense(1, '2026-01-10', 100, null)], [...founders, member(3, '2026-02-01')]),
+  { 1: 50, 2: -50, 3: 0 });
+
+let failures = 0;
+for (const { name, actual, expected } of checks) {
+  if (JSON.stringify(actual) === JSON.stringify(expected)) {
+    console.log(`ok    ${name}`);
+    continue;
+  }
+  failures++;
+  console.log(`FAIL  ${name}\n    expected ${JSON.stringify(expected)}\n    actual   ${JSON.stringify(actual)}`);
+}
+
+process.exitCode = failures > 0 ? 1 : 0;
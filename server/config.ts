@@ -28,17 +28,40 @@ export const SERVER_CONFIG = {
   environment: getOptionalEnv('NODE_ENV', 'development'),
 };
 
+// Authentication configuration
+export const AUTH_CONFIG = {
+  sessionSecret: getOptionalEnv('SESSION_SECRET', 'dev-session-secret'),
+  sessionMaxAgeMs: parseInt(getOptionalEnv('SESSION_MAX_AGE_MS', (30 * 24 * 60 * 60 * 1000).toString())), // 30 days default
+};
+
 // PDF Processing configuration
 export const PDF_CONFIG = {
   // Currently using local processing, but prepared for potential future API integration
   maxSizeBytes: parseInt(getOptionalEnv('MAX_PDF_SIZE_BYTES', (10 * 1024 * 1024).toString())), // 10MB default
 };
 
+// Recurring transaction configuration
+export const RECURRING_CONFIG = {
+  // How often the server posts recurring transactions that have fallen due
+  postIntervalMs: parseInt(getOptionalEnv('RECURRING_POST_INTERVAL_MS', (60 * 60 * 1000).toString())), // 1 hour default
+};
+
+// Net worth configuration
+export const NET_WORTH_CONFIG = {
+  // How often the server takes the monthly net worth snapshots that are due
+  snapshotIntervalMs: parseInt(getOptionalEnv('NET_WORTH_SNAPSHOT_INTERVAL_MS', (6 * 60 * 60 * 1000).toString())), // 6 hours default
+};
+
 // Export a function to validate all required configuration at startup
 export function validateConfig(): void {
   // Currently this just accesses DATABASE_CONFIG.url which will throw if missing
   // Additional validation can be added here as needed
   const dbUrl = DATABASE_CONFIG.url;
   
+  // Sessions signed with the development secret could be forged in production
+  if (SERVER_CONFIG.environment === 'production' && !process.env.SESSION_SECRET) {
+    throw new Error('Required environment variable SESSION_SECRET is missing. Please add it to your secrets.');
+  }
+  
   console.log('Configuration validated successfully');
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import type { ExchangeRate, InsertExchangeRate } from "@shared/schema";
+import { insertExchangeRateSchema } from "@shared/schema";
+import { roundCents, toDateString } from "./duplicates";
+import { parseCsvRows, detectDelimiter } from "./parsers/csv";
+import { parseNumericDate } from "./parsers/common";
+
+// What one unit of `from` is worth in `to` on `date`, from the latest rate on or before that
+// day, or the earliest one after it when the rates start later. A rate entered for the
+// opposite direction is inverted. Null when the user has no rate for the pair.
+export function findRate(rates: ExchangeRate[], from: string, to: string, date: string | Date): number | null {
+  if (from === to) return 1;
+
+  const day = toDateString(date);
+  const candidates = rates
+    .map(rate => {
+      if (rate.fromCurrency === from && rate.toCurrency === to) return { date: rate.date, value: Number(rate.rate) };
+      if (rate.fromCurrency === to && rate.toCurrency === from) return { date: rate.date, value: 1 / Number(rate.rate) };
+      return null;
+    })
+    .filter((rate): rate is { date: string; value: number } => rate !== null);
+
+  const before = candidates.filter(rate => rate.date <= day).sort((a, b) => b.date.localeCompare(a.date));
+  if (before.length > 0) return before[0].value;
+
+  const after = candidates.sort((a, b) => a.date.localeCompare(b.date));
+  return after.length > 0 ? after[0].value : null;
+}
+
+// An amount in `to`, rounded to cents; null when no rate converts it
+export function convertAmount(
+  amount: string | number,
+  from: string,
+  to: string,
+  date: string | Date,
+  rates: ExchangeRate[],
+): number | null {
+  const rate = findRate(rates, from, to, date);
+  return rate === null ? null : roundCents(Number(amount) * rate);
+}
+
+export interface ExchangeRateCsvResult {
+  rates: InsertExchangeRate[];
+  // Row numbers (1-based, counting the header) that could not be read
+  invalidRows: number[];
+}
+
+// Read a CSV of rates with a header row naming its columns: date, from (or currency),
+// to and rate. Without a "to" column every rate is into `baseCurrency`.
+export function parseExchangeRateCsv(text: string, baseCurrency: string): ExchangeRateCsvResult | { error: string } {
+  const [header, ...rows] = parseCsvRows(text.trim(), detectDelimiter(text));
+  if (!header) {
+    return { error: 'The file is empty' };
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const find = (...names: string[]) => columns.findIndex(name => names.includes(name));
+  const dateColumn = find('date');
+  const fromColumn = find('from', 'currency', 'from_currency');
+  const toColumn = find('to', 'to_currency');
+  const rateColumn = find('rate');
+  if (dateColumn < 0 || fromColumn < 0 || rateColumn < 0) {
+    return { error: 'The first row must name the date, currency and rate columns' };
+  }
+
+  const rates: InsertExchangeRate[] = [];
+  const invalidRows: number[] = [];
+  rows.forEach((row, index) => {
+    if (row.every(field => field.trim() === '')) return;
+    const rawDate = row[dateColumn]?.trim() ?? '';
+    const date = parseNumericDate(rawDate, 'YMD') ?? parseNumericDate(rawDate, 'DMY');
+    const parsed = date && insertExchangeRateSchema.safeParse({
+      date,
+      fromCurrency: row[fromColumn] ?? '',
+      toCurrency: toColumn >= 0 ? row[toColumn] ?? '' : baseCurrency,
+      rate: row[rateColumn]?.trim().replace(',', '.'),
+    });
+    if (parsed && parsed.success) {
+      rates.push(parsed.data);
+    } else {
+      invalidRows.push(index + 2);
+    }
+  });
+
+  return { rates, invalidRows };
+}
@@ -1,5 +1,7 @@
-import { and, eq, sql } from 'drizzle-orm';
-import { db } from './db';
+import { and, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import session from 'express-session';
+import connectPg from 'connect-pg-simple';
+import { db, pool } from './db';
 import {
   User,
   InsertUser,
@@ -9,12 +11,81 @@ import {
   InsertMonthlySummary,
   CategoryBreakdown,
   InsertCategoryBreakdown,
+  Household,
+  InsertHousehold,
+  HouseholdMember,
+  HouseholdInvitation,
+  Settlement,
+  InsertSettlement,
+  StatementImport,
+  InsertStatementImport,
+  StatementImportRow,
+  InsertStatementImportRow,
+  CsvProfile,
+  InsertCsvProfile,
+  Category,
+  InsertCategory,
+  UpdateCategory,
+  CategoryRule,
+  InsertCategoryRule,
+  Account,
+  InsertAccount,
+  UpdateAccount,
+  AccountStatement,
+  InsertAccountStatement,
+  ExchangeRate,
+  InsertExchangeRate,
+  Budget,
+  InsertBudget,
+  Envelope,
+  InsertEnvelope,
+  EnvelopeAllocation,
+  InsertEnvelopeAllocation,
+  RecurringTemplate,
+  InsertRecurringTemplate,
+  RecurringOccurrence,
+  InsertRecurringOccurrence,
+  SavingsGoal,
+  InsertSavingsGoal,
+  Asset,
+  InsertAsset,
+  AssetValuation,
+  InsertAssetValuation,
+  NetWorthSnapshot,
+  InsertNetWorthSnapshot,
+  Loan,
+  InsertLoan,
+  UpdateUserPreferences,
+  TransactionStatus,
+  TRANSFER_CATEGORY,
   users,
+  households,
+  householdMembers,
+  householdInvitations,
+  settlements,
+  statementImports,
+  statementImportRows,
+  csvProfiles,
+  accounts,
+  accountStatements,
+  exchangeRates,
+  categories,
+  categoryRules,
+  budgets,
+  envelopes,
+  envelopeAllocations,
+  recurringTemplates,
+  recurringOccurrences,
+  savingsGoals,
+  assets,
+  assetValuations,
+  netWorthSnapshots,
+  loans,
   transactions,
   monthlySummaries,
   categoryBreakdowns,
 } from '@shared/schema';
-import { IStorage } from './storage';
+import { IStorage, StatementImportRowCommit } from './storage';
 import { log } from './vite';
 
 // Helper function to convert JavaScript Date to database date format
@@ -22,43 +93,1749 @@ const dateToString = (date: Date): string => {
   return date.toISOString().split('T')[0];
 };
 
-export class PostgresStorage implements IStorage {
+// A database transaction, for helpers that run inside one
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Helper function to convert a transaction to database column values
+const toTransactionValues = (userId: number, transaction: InsertTransaction) => {
+  const { date, amount, splitValue, ...rest } = transaction;
+  return {
+    ...rest,
+    date: dateToString(date),
+    amount: String(amount),
+    splitValue: splitValue != null ? String(splitValue) : null,
+    userId,
+  };
+};
+
+// Helper function to convert the changed fields of a transaction to database column values
+const toTransactionUpdateValues = (updateData: Partial<InsertTransaction>) => {
+  const dbUpdateData: Record<string, any> = {};
+  
+  // Only copy properties we want to update
+  if (updateData.date) {
+    dbUpdateData.date = dateToString(updateData.date);
+  }
+  
+  if (updateData.amount !== undefined) {
+    dbUpdateData.amount = String(updateData.amount);
+  }
+  
+  if (updateData.currency !== undefined) {
+    dbUpdateData.currency = updateData.currency;
+  }
+  
+  if (updateData.description !== undefined) {
+    dbUpdateData.description = updateData.description;
+  }
+  
+  if (updateData.category !== undefined) {
+    dbUpdateData.category = updateData.category;
+  }
+  
+  if (updateData.type !== undefined) {
+    dbUpdateData.type = updateData.type;
+  }
   
+  if (updateData.pdfSource !== undefined) {
+    dbUpdateData.pdfSource = updateData.pdfSource;
+  }
+  
+  if (updateData.householdId !== undefined) {
+    dbUpdateData.householdId = updateData.householdId;
+  }
+  
+  if (updateData.splitType !== undefined) {
+    dbUpdateData.splitType = updateData.splitType;
+  }
+  
+  if (updateData.splitValue !== undefined) {
+    dbUpdateData.splitValue = updateData.splitValue != null ? String(updateData.splitValue) : null;
+  }
+  
+  if (updateData.participantIds !== undefined) {
+    dbUpdateData.participantIds = updateData.participantIds;
+  }
+  
+  if (updateData.externalId !== undefined) {
+    dbUpdateData.externalId = updateData.externalId;
+  }
+  
+  if (updateData.accountId !== undefined) {
+    dbUpdateData.accountId = updateData.accountId;
+  }
+  
+  return dbUpdateData;
+};
+
+// Helper function to link two transactions as the legs of a transfer
+async function linkTransferLegs(tx: DbTransaction, outgoingId: number, incomingId: number): Promise<Transaction[]> {
+  const linked: Transaction[] = [];
+  for (const [id, transferId] of [[outgoingId, incomingId], [incomingId, outgoingId]]) {
+    // Transfers are never shared: the money stays with the same person
+    const [result] = await tx.update(transactions)
+      .set({
+        type: 'transfer',
+        category: TRANSFER_CATEGORY,
+        transferId,
+        householdId: null,
+        splitType: null,
+        splitValue: null,
+        participantIds: null,
+      })
+      .where(eq(transactions.id, id))
+      .returning();
+    if (result) linked.push(result);
+  }
+  return linked;
+}
+
+// Helper function to convert a recurring template to database column values
+const toRecurringTemplateValues = (template: InsertRecurringTemplate, nextDate: string | null) => ({
+  ...template,
+  amount: String(template.amount),
+  splitValue: template.splitValue != null ? String(template.splitValue) : null,
+  startDate: dateToString(template.startDate),
+  endDate: template.endDate ? dateToString(template.endDate) : null,
+  nextDate,
+});
+
+// Helper function to convert a savings goal to database column values
+const toSavingsGoalValues = (goal: InsertSavingsGoal) => ({
+  ...goal,
+  targetAmount: String(goal.targetAmount),
+  targetDate: goal.targetDate ? dateToString(goal.targetDate) : null,
+  initialAmount: String(goal.initialAmount),
+});
+
+// Helper function to convert a loan to database column values
+const toLoanValues = (loan: InsertLoan) => ({
+  ...loan,
+  principal: String(loan.principal),
+  annualRate: String(loan.annualRate),
+  firstPaymentDate: dateToString(loan.firstPaymentDate),
+  payment: loan.payment !== null ? String(loan.payment) : null,
+  extraPayment: String(loan.extraPayment),
+});
+
+// Helper function to convert an account statement to database column values
+const toAccountStatementValues = (statement: InsertAccountStatement) => ({
+  periodStart: dateToString(statement.periodStart),
+  periodEnd: dateToString(statement.periodEnd),
+  openingBalance: statement.openingBalance !== null ? String(statement.openingBalance) : null,
+  closingBalance: statement.closingBalance !== null ? String(statement.closingBalance) : null,
+  fileName: statement.fileName ?? null,
+});
+
+const PostgresSessionStore = connectPg(session);
+
+export class PostgresStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     try {
-      const result = await db.query.users.findFirst({
-        where: eq(users.id, id),
+      const result = await db.query.users.findFirst({
+        where: eq(users.id, id),
+      });
+      return result;
+    } catch (error) {
+      log(`Error fetching user: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async getUsers(): Promise<User[]> {
+    try {
+      return await db.query.users.findMany();
+    } catch (error) {
+      log(`Error fetching users: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    try {
+      const result = await db.query.users.findFirst({
+        where: eq(users.username, username),
+      });
+      return result;
+    } catch (error) {
+      log(`Error fetching user by username: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    try {
+      const [result] = await db.insert(users).values(user).returning();
+      return result;
+    } catch (error) {
+      log(`Error creating user: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateUserPreferences(id: number, preferences: UpdateUserPreferences): Promise<User | undefined> {
+    try {
+      const [result] = await db.update(users)
+        .set(preferences)
+        .where(eq(users.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating user preferences: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  // Household methods
+  async getHouseholdByUser(userId: number): Promise<Household | undefined> {
+    try {
+      const membership = await db.query.householdMembers.findFirst({
+        where: eq(householdMembers.userId, userId),
+      });
+      if (!membership) {
+        return undefined;
+      }
+      return await db.query.households.findFirst({
+        where: eq(households.id, membership.householdId),
+      });
+    } catch (error) {
+      log(`Error fetching household: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async getHouseholdMembers(householdId: number): Promise<HouseholdMember[]> {
+    try {
+      return await db.query.householdMembers.findMany({
+        where: eq(householdMembers.householdId, householdId),
+        orderBy: (householdMembers, { asc }) => [asc(householdMembers.joinedAt)],
+      });
+    } catch (error) {
+      log(`Error fetching household members: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async createHousehold(ownerId: number, household: InsertHousehold): Promise<Household> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [result] = await tx.insert(households).values(household).returning();
+        await tx.insert(householdMembers).values({
+          householdId: result.id,
+          userId: ownerId,
+          role: 'owner',
+        });
+        return result;
+      });
+    } catch (error) {
+      log(`Error creating household: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async addHouseholdMember(householdId: number, userId: number, role: string): Promise<HouseholdMember> {
+    try {
+      const [result] = await db.insert(householdMembers)
+        .values({ householdId, userId, role })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error adding household member: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async removeHouseholdMember(householdId: number, userId: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(householdMembers)
+        .where(and(
+          eq(householdMembers.householdId, householdId),
+          eq(householdMembers.userId, userId),
+        ))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error removing household member: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  async getHouseholdInvitationById(id: number): Promise<HouseholdInvitation | undefined> {
+    try {
+      return await db.query.householdInvitations.findFirst({
+        where: eq(householdInvitations.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching household invitation: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async getHouseholdInvitationsForUser(userId: number): Promise<HouseholdInvitation[]> {
+    try {
+      return await db.query.householdInvitations.findMany({
+        where: eq(householdInvitations.userId, userId),
+        orderBy: (householdInvitations, { asc }) => [asc(householdInvitations.createdAt)],
+      });
+    } catch (error) {
+      log(`Error fetching household invitations: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async createHouseholdInvitation(householdId: number, userId: number, invitedBy: number): Promise<HouseholdInvitation> {
+    try {
+      // Inviting someone twice keeps the first invitation
+      const [result] = await db.insert(householdInvitations)
+        .values({ householdId, userId, invitedBy })
+        .onConflictDoNothing()
+        .returning();
+      return result ?? (await db.query.householdInvitations.findFirst({
+        where: and(
+          eq(householdInvitations.householdId, householdId),
+          eq(householdInvitations.userId, userId),
+        ),
+      }))!;
+    } catch (error) {
+      log(`Error creating household invitation: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async deleteHouseholdInvitation(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(householdInvitations)
+        .where(eq(householdInvitations.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting household invitation: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  async acceptHouseholdInvitation(id: number): Promise<HouseholdMember> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [invitation] = await tx.delete(householdInvitations)
+          .where(eq(householdInvitations.id, id))
+          .returning();
+        if (!invitation) {
+          throw new Error('Invitation not found');
+        }
+        const [member] = await tx.insert(householdMembers)
+          .values({ householdId: invitation.householdId, userId: invitation.userId, role: 'member' })
+          .returning();
+        await tx.delete(householdInvitations).where(eq(householdInvitations.userId, invitation.userId));
+        return member;
+      });
+    } catch (error) {
+      log(`Error accepting household invitation: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async getSharedTransactions(householdId: number): Promise<Transaction[]> {
+    try {
+      return await db.query.transactions.findMany({
+        where: eq(transactions.householdId, householdId),
+        orderBy: (transactions, { desc }) => [desc(transactions.date)],
+      });
+    } catch (error) {
+      log(`Error fetching shared transactions: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  // Settlement methods
+  async getSettlements(householdId: number): Promise<Settlement[]> {
+    try {
+      return await db.query.settlements.findMany({
+        where: eq(settlements.householdId, householdId),
+        orderBy: (settlements, { desc }) => [desc(settlements.date)],
+      });
+    } catch (error) {
+      log(`Error fetching settlements: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getSettlementById(id: number): Promise<Settlement | undefined> {
+    try {
+      return await db.query.settlements.findFirst({
+        where: eq(settlements.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching settlement: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createSettlement(householdId: number, createdBy: number, settlement: InsertSettlement): Promise<Settlement> {
+    try {
+      const { date, amount, ...rest } = settlement;
+      const [result] = await db.insert(settlements).values({
+        ...rest,
+        date: dateToString(date),
+        amount: String(amount),
+        householdId,
+        createdBy,
+      }).returning();
+      return result;
+    } catch (error) {
+      log(`Error creating settlement: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async deleteSettlement(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(settlements)
+        .where(eq(settlements.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting settlement: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  // Statement import methods
+  async getStatementImports(userId: number): Promise<StatementImport[]> {
+    try {
+      return await db.query.statementImports.findMany({
+        where: eq(statementImports.userId, userId),
+        orderBy: (statementImports, { desc }) => [desc(statementImports.createdAt)],
+      });
+    } catch (error) {
+      log(`Error fetching statement imports: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getStatementImportById(id: number): Promise<StatementImport | undefined> {
+    try {
+      return await db.query.statementImports.findFirst({
+        where: eq(statementImports.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching statement import: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createStatementImport(userId: number, statementImport: InsertStatementImport, rows: InsertStatementImportRow[]): Promise<StatementImport> {
+    try {
+      const { openingBalance, closingBalance, periodStart, periodEnd, ...rest } = statementImport;
+      return await db.transaction(async (tx) => {
+        const [result] = await tx.insert(statementImports)
+          .values({
+            ...rest,
+            userId,
+            openingBalance: openingBalance != null ? String(openingBalance) : null,
+            closingBalance: closingBalance != null ? String(closingBalance) : null,
+            periodStart: periodStart ? dateToString(periodStart) : null,
+            periodEnd: periodEnd ? dateToString(periodEnd) : null,
+          })
+          .returning();
+        if (rows.length > 0) {
+          await tx.insert(statementImportRows).values(rows.map(({ date, amount, ...rest }) => ({
+            ...rest,
+            importId: result.id,
+            date: dateToString(date),
+            amount: String(amount),
+          })));
+        }
+        return result;
+      });
+    } catch (error) {
+      log(`Error creating statement import: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async deleteStatementImport(id: number): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.delete(statementImportRows).where(eq(statementImportRows.importId, id));
+        const [result] = await tx.delete(statementImports)
+          .where(eq(statementImports.id, id))
+          .returning();
+        return !!result;
+      });
+    } catch (error) {
+      log(`Error deleting statement import: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  async getStatementImportRows(importId: number): Promise<StatementImportRow[]> {
+    try {
+      return await db.query.statementImportRows.findMany({
+        where: eq(statementImportRows.importId, importId),
+        orderBy: (statementImportRows, { asc }) => [asc(statementImportRows.date), asc(statementImportRows.id)],
+      });
+    } catch (error) {
+      log(`Error fetching statement import rows: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getStatementImportRowById(id: number): Promise<StatementImportRow | undefined> {
+    try {
+      return await db.query.statementImportRows.findFirst({
+        where: eq(statementImportRows.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching statement import row: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async updateStatementImportRow(id: number, updateData: Partial<InsertStatementImportRow>): Promise<StatementImportRow | undefined> {
+    try {
+      const dbUpdateData: Record<string, any> = {};
+
+      if (updateData.date) {
+        dbUpdateData.date = dateToString(updateData.date);
+      }
+
+      if (updateData.amount !== undefined) {
+        dbUpdateData.amount = String(updateData.amount);
+      }
+
+      if (updateData.description !== undefined) {
+        dbUpdateData.description = updateData.description;
+      }
+
+      if (updateData.category !== undefined) {
+        dbUpdateData.category = updateData.category;
+      }
+
+      if (updateData.type !== undefined) {
+        dbUpdateData.type = updateData.type;
+      }
+
+      if (updateData.resolution !== undefined) {
+        dbUpdateData.resolution = updateData.resolution;
+      }
+
+      const [result] = await db.update(statementImportRows)
+        .set(dbUpdateData)
+        .where(eq(statementImportRows.id, id))
+        .returning();
+
+      return result;
+    } catch (error) {
+      log(`Error updating statement import row: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async deleteStatementImportRow(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(statementImportRows)
+        .where(eq(statementImportRows.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting statement import row: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async commitStatementImportRow(id: number, userId: number, commit: StatementImportRowCommit): Promise<Transaction | null | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Deleting the row locks it: a commit running alongside waits, then finds it gone.
+        // Should the save below fail, the delete is rolled back and the row stays in the draft.
+        const [row] = await tx.delete(statementImportRows)
+          .where(eq(statementImportRows.id, id))
+          .returning();
+        if (!row) return undefined;
+        if (commit.action === 'skip') return null;
+        
+        if (commit.action === 'merge') {
+          const [merged] = await tx.update(transactions)
+            .set({ ...toTransactionUpdateValues(commit.update), status: 'cleared' })
+            .where(eq(transactions.id, commit.transactionId))
+            .returning();
+          return merged ?? null;
+        }
+        
+        const [created] = await tx.insert(transactions)
+          .values({ ...toTransactionValues(userId, commit.transaction), status: 'cleared' })
+          .returning();
+        if (commit.transferOfId === undefined) return created;
+        
+        const [outgoingId, incomingId] = Number(created.amount) < 0 ? [created.id, commit.transferOfId] : [commit.transferOfId, created.id];
+        const legs = await linkTransferLegs(tx, outgoingId, incomingId);
+        return legs.find(leg => leg.id === created.id) ?? created;
+      });
+    } catch (error) {
+      log(`Error committing statement import row: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  // CSV import profile methods
+  async getCsvProfiles(userId: number): Promise<CsvProfile[]> {
+    try {
+      return await db.query.csvProfiles.findMany({
+        where: eq(csvProfiles.userId, userId),
+        orderBy: (csvProfiles, { asc }) => [asc(csvProfiles.name)],
+      });
+    } catch (error) {
+      log(`Error fetching CSV profiles: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getCsvProfileById(id: number): Promise<CsvProfile | undefined> {
+    try {
+      return await db.query.csvProfiles.findFirst({
+        where: eq(csvProfiles.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching CSV profile: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createCsvProfile(userId: number, profile: InsertCsvProfile): Promise<CsvProfile> {
+    try {
+      const [result] = await db.insert(csvProfiles)
+        .values({ ...profile, userId })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error creating CSV profile: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateCsvProfile(id: number, profile: InsertCsvProfile): Promise<CsvProfile | undefined> {
+    try {
+      const [result] = await db.update(csvProfiles)
+        .set({
+          ...profile,
+          amountColumn: profile.amountColumn ?? null,
+          debitColumn: profile.debitColumn ?? null,
+          creditColumn: profile.creditColumn ?? null,
+        })
+        .where(eq(csvProfiles.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating CSV profile: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async deleteCsvProfile(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(csvProfiles)
+        .where(eq(csvProfiles.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting CSV profile: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  // Account methods
+  async getAccounts(userId: number): Promise<Account[]> {
+    try {
+      return await db.query.accounts.findMany({
+        where: eq(accounts.userId, userId),
+        orderBy: (accounts, { asc }) => [asc(accounts.name)],
+      });
+    } catch (error) {
+      log(`Error fetching accounts: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getHouseholdAccounts(householdId: number): Promise<Account[]> {
+    try {
+      return await db.query.accounts.findMany({
+        where: eq(accounts.householdId, householdId),
+        orderBy: (accounts, { asc }) => [asc(accounts.name)],
+      });
+    } catch (error) {
+      log(`Error fetching household accounts: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getAccountById(id: number): Promise<Account | undefined> {
+    try {
+      return await db.query.accounts.findFirst({
+        where: eq(accounts.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching account: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createAccount(userId: number, householdId: number | null, account: InsertAccount): Promise<Account> {
+    try {
+      const { joint, openingBalance, ...rest } = account;
+      const [result] = await db.insert(accounts)
+        .values({ ...rest, openingBalance: String(openingBalance), userId, householdId })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error creating account: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateAccount(id: number, updateData: UpdateAccount, householdId?: number | null): Promise<Account | undefined> {
+    try {
+      const { joint, openingBalance, ...rest } = updateData;
+      const [result] = await db.update(accounts)
+        .set({
+          ...rest,
+          ...(openingBalance !== undefined ? { openingBalance: String(openingBalance) } : {}),
+          ...(householdId !== undefined ? { householdId } : {}),
+        })
+        .where(eq(accounts.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating account: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async deleteAccount(id: number): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.delete(accountStatements).where(eq(accountStatements.accountId, id));
+        const [result] = await tx.delete(accounts)
+          .where(eq(accounts.id, id))
+          .returning();
+        return !!result;
+      });
+    } catch (error) {
+      log(`Error deleting account: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  async getTransactionsByAccount(accountId: number): Promise<Transaction[]> {
+    try {
+      return await db.query.transactions.findMany({
+        where: eq(transactions.accountId, accountId),
+        orderBy: (transactions, { desc }) => [desc(transactions.date)],
+      });
+    } catch (error) {
+      log(`Error fetching account transactions: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getTransactionsByAccountInRange(accountId: number, from?: string, to?: string): Promise<Transaction[]> {
+    try {
+      return await db.query.transactions.findMany({
+        where: and(
+          eq(transactions.accountId, accountId),
+          from ? gte(transactions.date, from) : undefined,
+          to ? lte(transactions.date, to) : undefined,
+        ),
+        orderBy: (transactions, { desc }) => [desc(transactions.date)],
+      });
+    } catch (error) {
+      log(`Error fetching account transactions in range: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+  // Account statement methods
+  async getAccountStatements(accountId: number): Promise<AccountStatement[]> {
+    try {
+      return await db.query.accountStatements.findMany({
+        where: eq(accountStatements.accountId, accountId),
+        orderBy: (accountStatements, { desc }) => [desc(accountStatements.periodEnd)],
+      });
+    } catch (error) {
+      log(`Error fetching account statements: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getAccountStatementById(id: number): Promise<AccountStatement | undefined> {
+    try {
+      return await db.query.accountStatements.findFirst({
+        where: eq(accountStatements.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching account statement: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createAccountStatement(userId: number, accountId: number, statement: InsertAccountStatement): Promise<AccountStatement> {
+    try {
+      const [result] = await db.insert(accountStatements)
+        .values({ ...toAccountStatementValues(statement), userId, accountId })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error creating account statement: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateAccountStatement(id: number, statement: InsertAccountStatement): Promise<AccountStatement | undefined> {
+    try {
+      const [result] = await db.update(accountStatements)
+        .set(toAccountStatementValues(statement))
+        .where(eq(accountStatements.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating account statement: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async deleteAccountStatement(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(accountStatements)
+        .where(eq(accountStatements.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting account statement: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  async setAccountStatementReconciled(id: number, transactionIds: number[], reconciled: boolean): Promise<AccountStatement | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        if (transactionIds.length > 0) {
+          await tx.update(transactions)
+            .set({ status: reconciled ? 'reconciled' : 'cleared' })
+            .where(inArray(transactions.id, transactionIds));
+        }
+        const [result] = await tx.update(accountStatements)
+          .set({ reconciledAt: reconciled ? new Date() : null })
+          .where(eq(accountStatements.id, id))
+          .returning();
+        return result;
+      });
+    } catch (error) {
+      log(`Error reconciling account statement: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+
+  // Category methods
+  async getCategories(userId: number): Promise<Category[]> {
+    try {
+      return await db.query.categories.findMany({
+        where: eq(categories.userId, userId),
+        orderBy: (categories, { asc }) => [asc(categories.name)],
+      });
+    } catch (error) {
+      log(`Error fetching categories: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getCategoryById(id: number): Promise<Category | undefined> {
+    try {
+      return await db.query.categories.findFirst({
+        where: eq(categories.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching category: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createCategory(userId: number, category: InsertCategory): Promise<Category> {
+    try {
+      const [result] = await db.insert(categories)
+        .values({ ...category, userId })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error creating category: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async createMissingCategories(userId: number, newCategories: InsertCategory[]): Promise<Category[]> {
+    try {
+      if (newCategories.length === 0) return [];
+      // The (user, name) unique constraint makes concurrent seeding harmless
+      return await db.insert(categories)
+        .values(newCategories.map(category => ({ ...category, userId })))
+        .onConflictDoNothing()
+        .returning();
+    } catch (error) {
+      log(`Error creating categories: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateCategory(id: number, updateData: UpdateCategory): Promise<Category | undefined> {
+    try {
+      const [result] = await db.update(categories)
+        .set(updateData)
+        .where(eq(categories.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating category: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async deleteCategory(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(categories)
+        .where(eq(categories.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting category: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  async reassignCategory(userId: number, fromName: string, toName: string): Promise<Transaction[]> {
+    try {
+      return await db.transaction(async (tx) => {
+        const changed = await tx.update(transactions)
+          .set({ category: toName })
+          .where(and(eq(transactions.userId, userId), eq(transactions.category, fromName)))
+          .returning();
+
+        const drafts = tx.select({ id: statementImports.id })
+          .from(statementImports)
+          .where(eq(statementImports.userId, userId));
+        await tx.update(statementImportRows)
+          .set({ category: toName })
+          .where(and(inArray(statementImportRows.importId, drafts), eq(statementImportRows.category, fromName)));
+
+        await tx.update(categoryRules)
+          .set({ category: toName })
+          .where(and(eq(categoryRules.userId, userId), eq(categoryRules.category, fromName)));
+
+        const userBudgets = await tx.select().from(budgets).where(eq(budgets.userId, userId));
+        const takenIds = userBudgets
+          .filter(budget => budget.category === fromName && userBudgets.some(other =>
+            other.category === toName && other.year === budget.year && other.month === budget.month
+          ))
+          .map(budget => budget.id);
+        if (takenIds.length > 0) {
+          await tx.delete(budgets).where(inArray(budgets.id, takenIds));
+        }
+        await tx.update(budgets)
+          .set({ category: toName })
+          .where(and(eq(budgets.userId, userId), eq(budgets.category, fromName)));
+
+        const userEnvelopes = await tx.select().from(envelopes).where(eq(envelopes.userId, userId));
+        if (userEnvelopes.some(envelope => envelope.category === toName)) {
+          await tx.delete(envelopes)
+            .where(and(eq(envelopes.userId, userId), eq(envelopes.category, fromName)));
+        } else {
+          await tx.update(envelopes)
+            .set({ category: toName })
+            .where(and(eq(envelopes.userId, userId), eq(envelopes.category, fromName)));
+        }
+        await tx.update(envelopeAllocations)
+          .set({ fromCategory: toName })
+          .where(and(eq(envelopeAllocations.userId, userId), eq(envelopeAllocations.fromCategory, fromName)));
+        await tx.update(envelopeAllocations)
+          .set({ toCategory: toName })
+          .where(and(eq(envelopeAllocations.userId, userId), eq(envelopeAllocations.toCategory, fromName)));
+
+        await tx.update(recurringTemplates)
+          .set({ category: toName })
+          .where(and(eq(recurringTemplates.userId, userId), eq(recurringTemplates.category, fromName)));
+        await tx.update(recurringOccurrences)
+          .set({ category: toName })
+          .where(and(
+            eq(recurringOccurrences.category, fromName),
+            inArray(
+              recurringOccurrences.templateId,
+              tx.select({ id: recurringTemplates.id }).from(recurringTemplates).where(eq(recurringTemplates.userId, userId)),
+            ),
+          ));
+
+        await tx.update(savingsGoals)
+          .set({ category: toName })
+          .where(and(eq(savingsGoals.userId, userId), eq(savingsGoals.category, fromName)));
+
+        await tx.update(loans)
+          .set({ category: toName })
+          .where(and(eq(loans.userId, userId), eq(loans.category, fromName)));
+
+        return changed;
+      });
+    } catch (error) {
+      log(`Error reassigning category: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  // Category rule methods
+  async getCategoryRules(userId: number): Promise<CategoryRule[]> {
+    try {
+      return await db.query.categoryRules.findMany({
+        where: eq(categoryRules.userId, userId),
+        orderBy: (categoryRules, { asc }) => [asc(categoryRules.priority), asc(categoryRules.id)],
+      });
+    } catch (error) {
+      log(`Error fetching category rules: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getCategoryRuleById(id: number): Promise<CategoryRule | undefined> {
+    try {
+      return await db.query.categoryRules.findFirst({
+        where: eq(categoryRules.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching category rule: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  // Numeric columns are stored as strings
+  private toCategoryRuleValues(rule: InsertCategoryRule) {
+    return {
+      ...rule,
+      pattern: rule.pattern ?? null,
+      minAmount: rule.minAmount != null ? String(rule.minAmount) : null,
+      maxAmount: rule.maxAmount != null ? String(rule.maxAmount) : null,
+      type: rule.type ?? null,
+    };
+  }
+
+  async createCategoryRule(userId: number, rule: InsertCategoryRule): Promise<CategoryRule> {
+    try {
+      const [result] = await db.insert(categoryRules)
+        .values({ ...this.toCategoryRuleValues(rule), userId })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error creating category rule: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateCategoryRule(id: number, rule: InsertCategoryRule): Promise<CategoryRule | undefined> {
+    try {
+      const [result] = await db.update(categoryRules)
+        .set(this.toCategoryRuleValues(rule))
+        .where(eq(categoryRules.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating category rule: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async deleteCategoryRule(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(categoryRules)
+        .where(eq(categoryRules.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting category rule: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  // Budget methods
+  async getBudgets(userId: number): Promise<Budget[]> {
+    try {
+      return await db.query.budgets.findMany({
+        where: eq(budgets.userId, userId),
+        orderBy: (budgets, { asc }) => [asc(budgets.category), asc(budgets.year), asc(budgets.month)],
+      });
+    } catch (error) {
+      log(`Error fetching budgets: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getBudgetById(id: number): Promise<Budget | undefined> {
+    try {
+      return await db.query.budgets.findFirst({
+        where: eq(budgets.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching budget: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async saveBudgets(userId: number, insertBudgets: InsertBudget[]): Promise<Budget[]> {
+    try {
+      if (insertBudgets.length === 0) {
+        return [];
+      }
+      return await db.insert(budgets)
+        .values(insertBudgets.map(budget => ({
+          ...budget,
+          amount: String(budget.amount),
+          userId,
+        })))
+        .onConflictDoUpdate({
+          target: [budgets.userId, budgets.category, budgets.year, budgets.month],
+          set: { amount: sql`excluded.amount` },
+        })
+        .returning();
+    } catch (error) {
+      log(`Error saving budgets: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async deleteBudget(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(budgets)
+        .where(eq(budgets.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting budget: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  // Envelope methods
+  async getEnvelopes(userId: number): Promise<Envelope[]> {
+    try {
+      return await db.query.envelopes.findMany({
+        where: eq(envelopes.userId, userId),
+        orderBy: (envelopes, { asc }) => [asc(envelopes.category)],
+      });
+    } catch (error) {
+      log(`Error fetching envelopes: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getEnvelopeById(id: number): Promise<Envelope | undefined> {
+    try {
+      return await db.query.envelopes.findFirst({
+        where: eq(envelopes.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching envelope: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createEnvelope(userId: number, envelope: InsertEnvelope): Promise<Envelope> {
+    try {
+      const [result] = await db.insert(envelopes)
+        .values({ ...envelope, userId })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error creating envelope: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateEnvelope(id: number, rollover: boolean): Promise<Envelope | undefined> {
+    try {
+      const [result] = await db.update(envelopes)
+        .set({ rollover })
+        .where(eq(envelopes.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating envelope: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async deleteEnvelope(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(envelopes)
+        .where(eq(envelopes.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting envelope: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  async getEnvelopeAllocations(userId: number): Promise<EnvelopeAllocation[]> {
+    try {
+      return await db.query.envelopeAllocations.findMany({
+        where: eq(envelopeAllocations.userId, userId),
+        orderBy: (envelopeAllocations, { asc }) => [asc(envelopeAllocations.id)],
+      });
+    } catch (error) {
+      log(`Error fetching envelope allocations: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getEnvelopeAllocationById(id: number): Promise<EnvelopeAllocation | undefined> {
+    try {
+      return await db.query.envelopeAllocations.findFirst({
+        where: eq(envelopeAllocations.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching envelope allocation: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createEnvelopeAllocation(userId: number, allocation: InsertEnvelopeAllocation): Promise<EnvelopeAllocation> {
+    try {
+      const [result] = await db.insert(envelopeAllocations)
+        .values({
+          ...allocation,
+          amount: String(allocation.amount),
+          note: allocation.note ?? null,
+          userId,
+        })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error creating envelope allocation: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async deleteEnvelopeAllocation(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(envelopeAllocations)
+        .where(eq(envelopeAllocations.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting envelope allocation: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  // Recurring template methods
+  async getRecurringTemplates(userId: number): Promise<RecurringTemplate[]> {
+    try {
+      return await db.query.recurringTemplates.findMany({
+        where: eq(recurringTemplates.userId, userId),
+        orderBy: (recurringTemplates, { asc }) => [asc(recurringTemplates.nextDate), asc(recurringTemplates.description)],
+      });
+    } catch (error) {
+      log(`Error fetching recurring templates: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getRecurringTemplateById(id: number): Promise<RecurringTemplate | undefined> {
+    try {
+      return await db.query.recurringTemplates.findFirst({
+        where: eq(recurringTemplates.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching recurring template: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async getDueRecurringTemplates(date: string): Promise<RecurringTemplate[]> {
+    try {
+      return await db.query.recurringTemplates.findMany({
+        where: lte(recurringTemplates.nextDate, date),
+      });
+    } catch (error) {
+      log(`Error fetching due recurring templates: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async createRecurringTemplate(userId: number, template: InsertRecurringTemplate, nextDate: string | null): Promise<RecurringTemplate> {
+    try {
+      const [result] = await db.insert(recurringTemplates)
+        .values({ ...toRecurringTemplateValues(template, nextDate), userId })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error creating recurring template: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateRecurringTemplate(id: number, template: InsertRecurringTemplate, nextDate: string | null): Promise<RecurringTemplate | undefined> {
+    try {
+      const [result] = await db.update(recurringTemplates)
+        .set(toRecurringTemplateValues(template, nextDate))
+        .where(eq(recurringTemplates.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating recurring template: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async setRecurringNextDate(id: number, nextDate: string | null): Promise<RecurringTemplate | undefined> {
+    try {
+      const [result] = await db.update(recurringTemplates)
+        .set({ nextDate })
+        .where(eq(recurringTemplates.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating recurring template: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async deleteRecurringTemplate(id: number): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.delete(recurringOccurrences).where(eq(recurringOccurrences.templateId, id));
+        const [result] = await tx.delete(recurringTemplates)
+          .where(eq(recurringTemplates.id, id))
+          .returning();
+        return !!result;
+      });
+    } catch (error) {
+      log(`Error deleting recurring template: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  async getRecurringOccurrences(templateId: number): Promise<RecurringOccurrence[]> {
+    try {
+      return await db.query.recurringOccurrences.findMany({
+        where: eq(recurringOccurrences.templateId, templateId),
+        orderBy: (recurringOccurrences, { asc }) => [asc(recurringOccurrences.date)],
+      });
+    } catch (error) {
+      log(`Error fetching recurring occurrences: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async saveRecurringOccurrence(templateId: number, occurrence: InsertRecurringOccurrence): Promise<RecurringOccurrence> {
+    try {
+      const [result] = await db.insert(recurringOccurrences)
+        .values({ ...occurrence, templateId })
+        .onConflictDoUpdate({
+          target: [recurringOccurrences.templateId, recurringOccurrences.date],
+          set: {
+            status: occurrence.status,
+            description: occurrence.description,
+            category: occurrence.category,
+            amount: occurrence.amount,
+            transactionId: occurrence.transactionId,
+          },
+        })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error saving recurring occurrence: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async postRecurringOccurrence(
+    templateId: number,
+    userId: number,
+    transaction: InsertTransaction,
+    occurrence: Pick<InsertRecurringOccurrence, 'date' | 'description' | 'category' | 'amount'>,
+    nextDate: string | null,
+  ): Promise<Transaction | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        // The occurrence row claims the date: a run posting it alongside waits on the row, then
+        // finds it posted. Should anything below fail, the claim is rolled back with the transaction.
+        const [claimed] = await tx.insert(recurringOccurrences)
+          .values({ ...occurrence, templateId, status: 'posted' })
+          .onConflictDoUpdate({
+            target: [recurringOccurrences.templateId, recurringOccurrences.date],
+            set: {
+              status: 'posted',
+              description: occurrence.description,
+              category: occurrence.category,
+              amount: occurrence.amount,
+            },
+            setWhere: eq(recurringOccurrences.status, 'scheduled'),
+          })
+          .returning();
+        if (!claimed) return undefined;
+        
+        const [created] = await tx.insert(transactions).values(toTransactionValues(userId, transaction)).returning();
+        await tx.update(recurringOccurrences)
+          .set({ transactionId: created.id })
+          .where(eq(recurringOccurrences.id, claimed.id));
+        await tx.update(recurringTemplates)
+          .set({ nextDate })
+          .where(eq(recurringTemplates.id, templateId));
+        return created;
+      });
+    } catch (error) {
+      log(`Error posting recurring occurrence: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async deleteRecurringOccurrence(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(recurringOccurrences)
+        .where(eq(recurringOccurrences.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting recurring occurrence: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  // Savings goal methods
+  async getSavingsGoals(userId: number): Promise<SavingsGoal[]> {
+    try {
+      return await db.query.savingsGoals.findMany({
+        where: eq(savingsGoals.userId, userId),
+        orderBy: (savingsGoals, { asc }) => [asc(savingsGoals.id)],
+      });
+    } catch (error) {
+      log(`Error fetching savings goals: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getSavingsGoalById(id: number): Promise<SavingsGoal | undefined> {
+    try {
+      return await db.query.savingsGoals.findFirst({
+        where: eq(savingsGoals.id, id),
       });
+    } catch (error) {
+      log(`Error fetching savings goal: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createSavingsGoal(userId: number, goal: InsertSavingsGoal): Promise<SavingsGoal> {
+    try {
+      const [result] = await db.insert(savingsGoals)
+        .values({ ...toSavingsGoalValues(goal), userId })
+        .returning();
       return result;
     } catch (error) {
-      log(`Error fetching user: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      log(`Error creating savings goal: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateSavingsGoal(id: number, goal: InsertSavingsGoal): Promise<SavingsGoal | undefined> {
+    try {
+      const [result] = await db.update(savingsGoals)
+        .set(toSavingsGoalValues(goal))
+        .where(eq(savingsGoals.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating savings goal: ${error instanceof Error ? error.message : String(error)}`, 'database');
       return undefined;
     }
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
+  async deleteSavingsGoal(id: number): Promise<boolean> {
     try {
-      const result = await db.query.users.findFirst({
-        where: eq(users.username, username),
+      const [result] = await db.delete(savingsGoals)
+        .where(eq(savingsGoals.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting savings goal: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  // Asset and liability methods
+  async getAssets(userId: number): Promise<Asset[]> {
+    try {
+      return await db.query.assets.findMany({
+        where: eq(assets.userId, userId),
+        orderBy: (assets, { asc }) => [asc(assets.id)],
+      });
+    } catch (error) {
+      log(`Error fetching assets: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getAssetById(id: number): Promise<Asset | undefined> {
+    try {
+      return await db.query.assets.findFirst({
+        where: eq(assets.id, id),
       });
+    } catch (error) {
+      log(`Error fetching asset: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createAsset(userId: number, asset: InsertAsset): Promise<Asset> {
+    try {
+      const [result] = await db.insert(assets)
+        .values({ ...asset, userId })
+        .returning();
       return result;
     } catch (error) {
-      log(`Error fetching user by username: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      log(`Error creating asset: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateAsset(id: number, asset: InsertAsset): Promise<Asset | undefined> {
+    try {
+      const [result] = await db.update(assets)
+        .set(asset)
+        .where(eq(assets.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating asset: ${error instanceof Error ? error.message : String(error)}`, 'database');
       return undefined;
     }
   }
 
-  async createUser(user: InsertUser): Promise<User> {
+  async deleteAsset(id: number): Promise<boolean> {
     try {
-      const [result] = await db.insert(users).values(user).returning();
+      return await db.transaction(async (tx) => {
+        await tx.delete(assetValuations).where(eq(assetValuations.assetId, id));
+        const [result] = await tx.delete(assets)
+          .where(eq(assets.id, id))
+          .returning();
+        return !!result;
+      });
+    } catch (error) {
+      log(`Error deleting asset: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  async getAssetValuations(assetId: number): Promise<AssetValuation[]> {
+    try {
+      return await db.query.assetValuations.findMany({
+        where: eq(assetValuations.assetId, assetId),
+        orderBy: (assetValuations, { asc }) => [asc(assetValuations.date)],
+      });
+    } catch (error) {
+      log(`Error fetching asset valuations: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async saveAssetValuation(assetId: number, valuation: InsertAssetValuation): Promise<AssetValuation> {
+    try {
+      const [result] = await db.insert(assetValuations)
+        .values({ assetId, date: dateToString(valuation.date), value: String(valuation.value) })
+        .onConflictDoUpdate({
+          target: [assetValuations.assetId, assetValuations.date],
+          set: { value: String(valuation.value) },
+        })
+        .returning();
       return result;
     } catch (error) {
-      log(`Error creating user: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      log(`Error saving asset valuation: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async deleteAssetValuation(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(assetValuations)
+        .where(eq(assetValuations.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting asset valuation: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  // Net worth snapshot methods
+  async getNetWorthSnapshots(userId: number): Promise<NetWorthSnapshot[]> {
+    try {
+      return await db.query.netWorthSnapshots.findMany({
+        where: eq(netWorthSnapshots.userId, userId),
+        orderBy: (netWorthSnapshots, { asc }) => [asc(netWorthSnapshots.year), asc(netWorthSnapshots.month)],
+      });
+    } catch (error) {
+      log(`Error fetching net worth snapshots: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async saveNetWorthSnapshot(userId: number, snapshot: InsertNetWorthSnapshot): Promise<NetWorthSnapshot> {
+    try {
+      const [result] = await db.insert(netWorthSnapshots)
+        .values({ ...snapshot, userId })
+        .onConflictDoUpdate({
+          target: [netWorthSnapshots.userId, netWorthSnapshots.year, netWorthSnapshots.month],
+          set: {
+            date: snapshot.date,
+            currency: snapshot.currency,
+            assets: snapshot.assets,
+            liabilities: snapshot.liabilities,
+            netWorth: snapshot.netWorth,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error saving net worth snapshot: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  // Loan methods
+  async getLoans(userId: number): Promise<Loan[]> {
+    try {
+      return await db.query.loans.findMany({
+        where: eq(loans.userId, userId),
+        orderBy: (loans, { asc }) => [asc(loans.id)],
+      });
+    } catch (error) {
+      log(`Error fetching loans: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getLoanById(id: number): Promise<Loan | undefined> {
+    try {
+      return await db.query.loans.findFirst({
+        where: eq(loans.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching loan: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async createLoan(userId: number, loan: InsertLoan): Promise<Loan> {
+    try {
+      const [result] = await db.insert(loans)
+        .values({ ...toLoanValues(loan), userId })
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error creating loan: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async updateLoan(id: number, loan: InsertLoan): Promise<Loan | undefined> {
+    try {
+      const [result] = await db.update(loans)
+        .set(toLoanValues(loan))
+        .where(eq(loans.id, id))
+        .returning();
+      return result;
+    } catch (error) {
+      log(`Error updating loan: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async deleteLoan(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(loans)
+        .where(eq(loans.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting loan: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
+  // Exchange rate methods
+  async getExchangeRates(userId: number): Promise<ExchangeRate[]> {
+    try {
+      return await db.query.exchangeRates.findMany({
+        where: eq(exchangeRates.userId, userId),
+        orderBy: (exchangeRates, { asc, desc }) => [desc(exchangeRates.date), asc(exchangeRates.fromCurrency)],
+      });
+    } catch (error) {
+      log(`Error fetching exchange rates: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
+  async getExchangeRateById(id: number): Promise<ExchangeRate | undefined> {
+    try {
+      return await db.query.exchangeRates.findFirst({
+        where: eq(exchangeRates.id, id),
+      });
+    } catch (error) {
+      log(`Error fetching exchange rate: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return undefined;
+    }
+  }
+
+  async saveExchangeRates(userId: number, rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    try {
+      if (rates.length === 0) {
+        return [];
+      }
+      return await db.insert(exchangeRates)
+        .values(rates.map(rate => ({
+          ...rate,
+          date: dateToString(rate.date),
+          rate: String(rate.rate),
+          userId,
+        })))
+        .onConflictDoUpdate({
+          target: [exchangeRates.userId, exchangeRates.fromCurrency, exchangeRates.toCurrency, exchangeRates.date],
+          set: { rate: sql`excluded.rate` },
+        })
+        .returning();
+    } catch (error) {
+      log(`Error saving exchange rates: ${error instanceof Error ? error.message : String(error)}`, 'database');
       throw error;
     }
   }
 
+  async deleteExchangeRate(id: number): Promise<boolean> {
+    try {
+      const [result] = await db.delete(exchangeRates)
+        .where(eq(exchangeRates.id, id))
+        .returning();
+      return !!result;
+    } catch (error) {
+      log(`Error deleting exchange rate: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return false;
+    }
+  }
+
   // Transaction methods
   async getTransactions(userId: number): Promise<Transaction[]> {
     try {
@@ -100,6 +1877,22 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  async getTransactionsInRange(userId: number, from?: string, to?: string): Promise<Transaction[]> {
+    try {
+      return await db.query.transactions.findMany({
+        where: and(
+          eq(transactions.userId, userId),
+          from ? gte(transactions.date, from) : undefined,
+          to ? lte(transactions.date, to) : undefined,
+        ),
+        orderBy: (transactions, { desc }) => [desc(transactions.date)],
+      });
+    } catch (error) {
+      log(`Error fetching transactions in range: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
   async getTransactionById(id: number): Promise<Transaction | undefined> {
     try {
       const result = await db.query.transactions.findFirst({
@@ -114,16 +1907,7 @@ export class PostgresStorage implements IStorage {
 
   async createTransaction(userId: number, transaction: InsertTransaction): Promise<Transaction> {
     try {
-      // Convert Date to string format and numbers to strings for database
-      const { date, amount, ...rest } = transaction;
-      
-      const [result] = await db.insert(transactions).values({
-        ...rest,
-        date: dateToString(date),
-        amount: String(amount),
-        userId,
-      }).returning();
-      
+      const [result] = await db.insert(transactions).values(toTransactionValues(userId, transaction)).returning();
       return result;
     } catch (error) {
       log(`Error creating transaction: ${error instanceof Error ? error.message : String(error)}`, 'database');
@@ -133,36 +1917,8 @@ export class PostgresStorage implements IStorage {
 
   async updateTransaction(id: number, updateData: Partial<InsertTransaction>): Promise<Transaction | undefined> {
     try {
-      // Handle date and amount conversion if present
-      const dbUpdateData: Record<string, any> = {};
-      
-      // Only copy properties we want to update
-      if (updateData.date) {
-        dbUpdateData.date = dateToString(updateData.date);
-      }
-      
-      if (updateData.amount !== undefined) {
-        dbUpdateData.amount = String(updateData.amount);
-      }
-      
-      if (updateData.description !== undefined) {
-        dbUpdateData.description = updateData.description;
-      }
-      
-      if (updateData.category !== undefined) {
-        dbUpdateData.category = updateData.category;
-      }
-      
-      if (updateData.type !== undefined) {
-        dbUpdateData.type = updateData.type;
-      }
-      
-      if (updateData.pdfSource !== undefined) {
-        dbUpdateData.pdfSource = updateData.pdfSource;
-      }
-      
       const [result] = await db.update(transactions)
-        .set(dbUpdateData)
+        .set(toTransactionUpdateValues(updateData))
         .where(eq(transactions.id, id))
         .returning();
         
@@ -185,6 +1941,49 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  async setTransactionStatus(ids: number[], status: TransactionStatus): Promise<Transaction[]> {
+    if (ids.length === 0) return [];
+    try {
+      return await db.update(transactions)
+        .set({ status })
+        .where(inArray(transactions.id, ids))
+        .returning();
+    } catch (error) {
+      log(`Error updating transaction status: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async linkTransfer(outgoingId: number, incomingId: number): Promise<Transaction[]> {
+    try {
+      return await db.transaction(tx => linkTransferLegs(tx, outgoingId, incomingId));
+    } catch (error) {
+      log(`Error linking transfer: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      throw error;
+    }
+  }
+
+  async unlinkTransfer(id: number): Promise<Transaction[]> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [transaction] = await tx.select().from(transactions).where(eq(transactions.id, id));
+        if (!transaction) return [];
+
+        const ids = transaction.transferId !== null ? [id, transaction.transferId] : [id];
+        return tx.update(transactions)
+          .set({
+            type: sql`case when ${transactions.amount} < 0 then 'expense' else 'income' end`,
+            transferId: null,
+          })
+          .where(inArray(transactions.id, ids))
+          .returning();
+      });
+    } catch (error) {
+      log(`Error unlinking transfer: ${error instanceof Error ? error.message : String(error)}`, 'database');
+      return [];
+    }
+  }
+
   // Monthly Summary methods
   async getMonthlySummaries(userId: number): Promise<MonthlySummary[]> {
     try {
@@ -0,0 +1,135 @@
+import type { Transaction } from "@shared/schema";
+
+// Posting dates on overlapping statements can drift by a few days
+const LIKELY_DUPLICATE_WINDOW_DAYS = 3;
+
+// Anything that can be fingerprinted: a saved transaction or a row of a draft import
+export interface FingerprintSource {
+  date: string | Date;
+  amount: string | number;
+  description: string;
+  // Account the money moved through, when known
+  accountId?: number | null;
+  // Bank-assigned id (OFX FITID), when the source has one
+  externalId?: string | null;
+}
+
+// How sure we are that two entries record the same real-world transaction
+export type DuplicateConfidence = 'exact' | 'likely';
+
+export interface DuplicateMatch {
+  transaction: Transaction;
+  confidence: DuplicateConfidence;
+}
+
+export interface DuplicateGroup {
+  confidence: DuplicateConfidence;
+  transactions: Transaction[];
+}
+
+export const toDateString = (date: string | Date) =>
+  typeof date === 'string' ? date.split('T')[0] : date.toISOString().split('T')[0];
+
+export const toCents = (amount: string | number) => Math.round(Number(amount) * 100);
+
+export const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const daysBetween = (a: string, b: string) =>
+  Math.abs(Date.parse(a) - Date.parse(b)) / (24 * 60 * 60 * 1000);
+
+// Reduce a description to the words that identify the payee: banks add
+// reference numbers, card suffixes and punctuation that differ between statements
+export function normaliseDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\d{4,}/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Identity of a transaction: date + amount + normalised description.
+// The account is compared separately, as older transactions may not record one.
+export function transactionFingerprint(source: FingerprintSource): string {
+  return [
+    toDateString(source.date),
+    toCents(source.amount),
+    normaliseDescription(source.description),
+  ].join('|');
+}
+
+// Two entries carrying different bank ids, or recorded against different accounts,
+// are distinct even if everything else matches
+const areDistinct = (a: FingerprintSource, b: FingerprintSource) =>
+  (!!a.externalId && !!b.externalId && a.externalId !== b.externalId) ||
+  (a.accountId != null && b.accountId != null && a.accountId !== b.accountId);
+
+// Same amount, close dates, and one description containing the other
+function isLikelyDuplicate(a: FingerprintSource, b: FingerprintSource): boolean {
+  if (areDistinct(a, b)) {
+    return false;
+  }
+  if (toCents(a.amount) !== toCents(b.amount)) {
+    return false;
+  }
+  if (daysBetween(toDateString(a.date), toDateString(b.date)) > LIKELY_DUPLICATE_WINDOW_DAYS) {
+    return false;
+  }
+
+  const descriptionA = normaliseDescription(a.description);
+  const descriptionB = normaliseDescription(b.description);
+  return descriptionA.length > 0 && descriptionB.length > 0 &&
+    (descriptionA.includes(descriptionB) || descriptionB.includes(descriptionA));
+}
+
+// Find the existing transaction a candidate most likely duplicates, preferring exact matches
+export function findDuplicate(candidate: FingerprintSource, existing: Transaction[]): DuplicateMatch | undefined {
+  const sameId = candidate.externalId
+    ? existing.find(transaction => transaction.externalId === candidate.externalId)
+    : undefined;
+  if (sameId) {
+    return { transaction: sameId, confidence: 'exact' };
+  }
+
+  const fingerprint = transactionFingerprint(candidate);
+  const exact = existing.find(transaction =>
+    transactionFingerprint(transaction) === fingerprint && !areDistinct(candidate, transaction)
+  );
+  if (exact) {
+    return { transaction: exact, confidence: 'exact' };
+  }
+
+  const likely = existing.find(transaction => isLikelyDuplicate(candidate, transaction));
+  return likely ? { transaction: likely, confidence: 'likely' } : undefined;
+}
+
+// Group transactions already in the ledger that look like copies of each other
+export function findDuplicateGroups(transactions: Transaction[]): DuplicateGroup[] {
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  const groupOf = new Map<number, DuplicateGroup>();
+  const groups: DuplicateGroup[] = [];
+
+  sorted.forEach((transaction, index) => {
+    for (let i = index - 1; i >= 0; i--) {
+      const earlier = sorted[i];
+      if (daysBetween(earlier.date, transaction.date) > LIKELY_DUPLICATE_WINDOW_DAYS) break;
+
+      if (areDistinct(earlier, transaction)) continue;
+      const exact = transactionFingerprint(earlier) === transactionFingerprint(transaction);
+      if (!exact && !isLikelyDuplicate(earlier, transaction)) continue;
+
+      let group = groupOf.get(earlier.id);
+      if (!group) {
+        group = { confidence: 'exact', transactions: [earlier] };
+        groupOf.set(earlier.id, group);
+        groups.push(group);
+      }
+      group.transactions.push(transaction);
+      if (!exact) group.confidence = 'likely';
+      groupOf.set(transaction.id, group);
+      return;
+    }
+  });
+
+  return groups;
+}
@@ -0,0 +1,180 @@
+import type { Category, Envelope, EnvelopeAllocation } from "@shared/schema";
+import { parentNames } from "./categories";
+import { roundCents } from "./duplicates";
+
+// One month's income and spending, from its monthly summary and category breakdowns
+export interface MonthActivity {
+  year: number;
+  month: number;
+  income: number;
+  spending: { category: string; amount: string | number }[];
+}
+
+// One envelope in a month
+export interface EnvelopeMonth {
+  envelopeId: number;
+  category: string;
+  rollover: boolean;
+  // Unspent money carried over from last month
+  carriedOver: number;
+  // Money assigned from income, less any returned
+  assigned: number;
+  // Money moved in from other envelopes, less money moved out to them
+  moved: number;
+  spent: number;
+  // Negative when the envelope is overspent
+  available: number;
+}
+
+export interface EnvelopeBudgetMonth {
+  year: number;
+  month: number;
+  income: number;
+  // Money left unassigned at the end of last month, less last month's uncovered overspending
+  carriedOver: number;
+  overspentLastMonth: number;
+  // Spending in categories without an envelope, which comes out of the money to assign
+  unenvelopedSpending: number;
+  // Zero once every unit of income is assigned; negative when more is assigned than there is
+  toAssign: number;
+  envelopes: EnvelopeMonth[];
+  // Unspent money in envelopes without rollover, swept to savings at the end of last month
+  sweptToSavings: number;
+  // Everything swept to savings up to the start of this month
+  totalSwept: number;
+  // This month's allocations, oldest first
+  allocations: EnvelopeAllocation[];
+}
+
+const monthIndex = (year: number, month: number) => year * 12 + month - 1;
+
+// Work out a month of envelope budgeting by replaying every month from the first one with
+// an allocation: envelope budgeting starts when money is first assigned, so earlier income
+// and spending are left out. At each month end an envelope's unspent money rolls over or
+// is swept to savings, and its overspending comes out of next month's money to assign.
+export function buildEnvelopeMonth(
+  envelopes: Envelope[],
+  allocations: EnvelopeAllocation[],
+  activity: MonthActivity[],
+  categories: Category[],
+  year: number,
+  month: number,
+): EnvelopeBudgetMonth {
+  const target = monthIndex(year, month);
+  const start = Math.min(target, ...allocations.map(allocation => monthIndex(allocation.year, allocation.month)));
+  const activityByMonth = new Map(activity.map(entry => [monthIndex(entry.year, entry.month), entry]));
+
+  const states = new Map<string, EnvelopeMonth>(envelopes.map(envelope => [envelope.category, {
+    envelopeId: envelope.id,
+    category: envelope.category,
+    rollover: envelope.rollover,
+    carriedOver: 0,
+    assigned: 0,
+    moved: 0,
+    spent: 0,
+    available: 0,
+  }]));
+  // Money moved to or from a category that is no longer an envelope counts as unassigned
+  const side = (category: string | null) => category !== null && states.has(category) ? category : null;
+
+  // Spending in a category without an envelope comes out of its parent's, if that has one
+  const parentOf = parentNames(categories);
+  const envelopeFor = (category: string) => {
+    if (states.has(category)) return category;
+    const parent = parentOf.get(category);
+    return parent !== undefined && states.has(parent) ? parent : null;
+  };
+
+  let toAssign = 0;
+  let income = 0;
+  let carriedOver = 0;
+  let overspentLastMonth = 0;
+  let unenvelopedSpending = 0;
+  let sweptToSavings = 0;
+  let totalSwept = 0;
+
+  for (let index = start; index <= target; index++) {
+    // Close last month: roll over or sweep what is left, and take overspending out of
+    // the money to assign
+    sweptToSavings = 0;
+    overspentLastMonth = 0;
+    if (index > start) {
+      for (const state of Array.from(states.values())) {
+        if (state.available > 0 && !state.rollover) {
+          sweptToSavings += state.available;
+        } else if (state.available < 0) {
+          overspentLastMonth -= state.available;
+        }
+        state.carriedOver = state.available > 0 && state.rollover ? state.available : 0;
+      }
+    }
+    totalSwept += sweptToSavings;
+
+    for (const state of Array.from(states.values())) {
+      state.assigned = 0;
+      state.moved = 0;
+      state.spent = 0;
+    }
+
+    carriedOver = toAssign - overspentLastMonth;
+    const monthActivity = activityByMonth.get(index);
+    income = monthActivity?.income ?? 0;
+    toAssign = carriedOver + income;
+
+    for (const allocation of allocations) {
+      if (monthIndex(allocation.year, allocation.month) !== index) continue;
+      const amount = Number(allocation.amount);
+      const from = side(allocation.fromCategory);
+      const to = side(allocation.toCategory);
+      if (from === to) continue;
+      if (from === null) {
+        toAssign -= amount;
+        states.get(to!)!.assigned += amount;
+      } else if (to === null) {
+        toAssign += amount;
+        states.get(from)!.assigned -= amount;
+      } else {
+        states.get(from)!.moved -= amount;
+        states.get(to)!.moved += amount;
+      }
+    }
+
+    unenvelopedSpending = 0;
+    for (const entry of monthActivity?.spending ?? []) {
+      const envelope = envelopeFor(entry.category);
+      if (envelope !== null) {
+        states.get(envelope)!.spent += Number(entry.amount);
+      } else {
+        unenvelopedSpending += Number(entry.amount);
+      }
+    }
+    toAssign -= unenvelopedSpending;
+
+    for (const state of Array.from(states.values())) {
+      state.available = state.carriedOver + state.assigned + state.moved - state.spent;
+    }
+  }
+
+  return {
+    year,
+    month,
+    income: roundCents(income),
+    carriedOver: roundCents(carriedOver),
+    overspentLastMonth: roundCents(overspentLastMonth),
+    unenvelopedSpending: roundCents(unenvelopedSpending),
+    toAssign: roundCents(toAssign),
+    envelopes: Array.from(states.values())
+      .map(state => ({
+        ...state,
+        carriedOver: roundCents(state.carriedOver),
+        assigned: roundCents(state.assigned),
+        moved: roundCents(state.moved),
+        spent: roundCents(state.spent),
+        available: roundCents(state.available),
+      }))
+      .sort((a, b) => a.category.localeCompare(b.category)),
+    sweptToSavings: roundCents(sweptToSavings),
+    totalSwept: roundCents(totalSwept),
+    allocations: allocations.filter(allocation => monthIndex(allocation.year, allocation.month) === target),
+  };
+}
@@ -0,0 +1,311 @@
+import ExcelJS from "exceljs";
+import type { Writable } from "stream";
+import type { Account, Category, ExportQuery, Transaction } from "@shared/schema";
+import { parentNames } from "./categories";
+
+// One transaction to export, with the account it went through and, for a transfer, the
+// account on the other side
+export interface ExportRow {
+  transaction: Transaction;
+  account: Account | null;
+  transferAccount: Account | null;
+}
+
+export type ExportFormatting = Pick<ExportQuery, "dateFormat" | "decimalSeparator" | "delimiter">;
+
+// Where an export is written. Resolves once the chunk is taken, so a slow download holds
+// the export back instead of it piling up in memory.
+export type ExportSink = (chunk: string) => Promise<void>;
+
+// Rows written per chunk of a streamed export
+const CHUNK_ROWS = 500;
+
+// OFX limits payee names to 32 characters
+const OFX_NAME_LENGTH = 32;
+
+const COLUMNS = ["ID", "Date", "Description", "Category", "Amount", "Currency", "Type", "Account ID", "Account", "Status", "Transfer ID"];
+
+// The transactions an export covers, oldest first. `from` and `to` are YYYY-MM-DD and
+// inclusive; a parent category takes in its subcategories.
+export function filterForExport(
+  transactions: Transaction[],
+  filters: { from?: string; to?: string; category?: string; type?: string; accountId?: number },
+  categories: Category[],
+): Transaction[] {
+  const parentOf = parentNames(categories);
+  return transactions
+    .filter(transaction =>
+      (!filters.from || transaction.date >= filters.from)
+      && (!filters.to || transaction.date <= filters.to)
+      && (!filters.category || transaction.category === filters.category || parentOf.get(transaction.category) === filters.category)
+      && (!filters.type || transaction.type === filters.type)
+      && (filters.accountId === undefined || transaction.accountId === filters.accountId))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+}
+
+// A YYYY-MM-DD date in the chosen field order
+function formatDate(date: string, order: ExportFormatting["dateFormat"]): string {
+  const [year, month, day] = date.split('-');
+  if (order === "MDY") return `${month}/${day}/${year}`;
+  if (order === "DMY") return `${day}/${month}/${year}`;
+  return date;
+}
+
+const formatAmount = (amount: string | number, decimalSeparator: string) =>
+  Number(amount).toFixed(2).replace('.', decimalSeparator);
+
+// Write rows a chunk at a time so a large export goes out as it is produced
+export async function writeChunked<T>(sink: ExportSink, items: T[], render: (item: T) => string): Promise<void> {
+  for (let start = 0; start < items.length; start += CHUNK_ROWS) {
+    await sink(items.slice(start, start + CHUNK_ROWS).map(render).join(''));
+  }
+}
+
+function csvField(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// A CSV file with a header row, readable by the CSV import with the same options
+export async function writeCsv(rows: ExportRow[], formatting: ExportFormatting, sink: ExportSink): Promise<void> {
+  const line = (fields: string[]) => fields.map(field => csvField(field, formatting.delimiter)).join(formatting.delimiter) + '\r\n';
+  await sink(line(COLUMNS));
+  await writeChunked(sink, rows, ({ transaction, account }) => line([
+    String(transaction.id),
+    formatDate(transaction.date, formatting.dateFormat),
+    transaction.description,
+    transaction.category,
+    formatAmount(transaction.amount, formatting.decimalSeparator),
+    transaction.currency,
+    transaction.type,
+    transaction.accountId !== null ? String(transaction.accountId) : '',
+    account?.name ?? '',
+    transaction.status,
+    transaction.transferId !== null ? String(transaction.transferId) : '',
+  ]));
+}
+
+// A JSON array of transactions with ISO dates and signed numeric amounts
+export async function writeJson(rows: ExportRow[], sink: ExportSink): Promise<void> {
+  await sink('[');
+  let first = true;
+  await writeChunked(sink, rows, ({ transaction, account }) => {
+    const item = JSON.stringify({
+      id: transaction.id,
+      date: transaction.date,
+      description: transaction.description,
+      category: transaction.category,
+      amount: Number(transaction.amount),
+      currency: transaction.currency,
+      type: transaction.type,
+      accountId: transaction.accountId,
+      account: account?.name ?? null,
+      status: transaction.status,
+      transferId: transaction.transferId,
+    });
+    const separator = first ? '\n' : ',\n';
+    first = false;
+    return separator + item;
+  });
+  await sink('\n]\n');
+}
+
+// An XLSX workbook with one sheet of transactions, streamed row by row
+export async function writeXlsx(rows: ExportRow[], stream: Writable): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream, useStyles: true });
+  const sheet = workbook.addWorksheet("Transactions", { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = [
+    { header: "ID", key: 'id', width: 8 },
+    { header: "Date", key: 'date', width: 12, style: { numFmt: 'yyyy-mm-dd' } },
+    { header: "Description", key: 'description', width: 40 },
+    { header: "Category", key: 'category', width: 20 },
+    { header: "Amount", key: 'amount', width: 14, style: { numFmt: '#,##0.00' } },
+    { header: "Currency", key: 'currency', width: 10 },
+    { header: "Type", key: 'type', width: 10 },
+    { header: "Account ID", key: 'accountId', width: 11 },
+    { header: "Account", key: 'account', width: 20 },
+    { header: "Status", key: 'status', width: 12 },
+    { header: "Transfer ID", key: 'transferId', width: 11 },
+  ];
+  sheet.getRow(1).font = { bold: true };
+
+  for (const { transaction, account } of rows) {
+    sheet.addRow({
+      id: transaction.id,
+      date: new Date(`${transaction.date}T00:00:00Z`),
+      description: transaction.description,
+      category: transaction.category,
+      amount: Number(transaction.amount),
+      currency: transaction.currency,
+      type: transaction.type,
+      accountId: transaction.accountId,
+      account: account?.name ?? null,
+      status: transaction.status,
+      transferId: transaction.transferId,
+    }).commit();
+  }
+
+  sheet.commit();
+  await workbook.commit();
+}
+
+// Rows grouped by account in the order the accounts first appear; rows without an
+// account come first, under the null key
+function byAccount(rows: ExportRow[]): Map<number | null, ExportRow[]> {
+  const groups = new Map<number | null, ExportRow[]>();
+  for (const row of rows) {
+    const key = row.account?.id ?? null;
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+  return new Map(Array.from(groups.entries()).sort(([a], [b]) => Number(a !== null) - Number(b !== null)));
+}
+
+const QIF_ACCOUNT_TYPES: Record<string, string> = {
+  checking: "Bank",
+  savings: "Bank",
+  credit_card: "CCard",
+  cash: "Cash",
+  loan: "Oth L",
+  investment: "Bank",
+};
+
+const QIF_CLEARED: Record<string, string> = { cleared: "c", reconciled: "R" };
+
+// A QIF file with a section per account. Transfers name the other account in brackets,
+// as Quicken does, so both legs pair up again on import.
+export async function writeQif(rows: ExportRow[], formatting: ExportFormatting, sink: ExportSink): Promise<void> {
+  // Line breaks would end a QIF field early
+  const field = (code: string, value: string) => `${code}${value.replace(/[\r\n]+/g, ' ')}\n`;
+
+  for (const [accountId, group] of Array.from(byAccount(rows).entries())) {
+    const account = group[0].account;
+    const type = account ? QIF_ACCOUNT_TYPES[account.type] ?? "Bank" : "Bank";
+    if (accountId !== null && account) {
+      await sink(`!Account\n${field('N', account.name)}${field('T', type)}^\n`);
+    }
+    await sink(`!Type:${type}\n`);
+    await writeChunked(sink, group, ({ transaction, transferAccount }) => [
+      field('D', formatDate(transaction.date, formatting.dateFormat)),
+      field('T', formatAmount(transaction.amount, formatting.decimalSeparator)),
+      field('P', transaction.description),
+      field('L', transferAccount ? `[${transferAccount.name}]` : transaction.category),
+      QIF_CLEARED[transaction.status] ? field('C', QIF_CLEARED[transaction.status]) : '',
+      '^\n',
+    ].join(''));
+  }
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+const ofxDate = (date: string) => date.replace(/-/g, '');
+
+// Split a description into an OFX NAME of at most 32 characters and a MEMO with the rest,
+// breaking at a space where possible so the importer can join them back up
+function ofxNameAndMemo(description: string): { name: string; memo: string | null } {
+  if (description.length <= OFX_NAME_LENGTH) return { name: description, memo: null };
+  const space = description.lastIndexOf(' ', OFX_NAME_LENGTH);
+  const cut = space > 0 ? space : OFX_NAME_LENGTH;
+  return { name: description.slice(0, cut).trim(), memo: description.slice(cut).trim() };
+}
+
+function ofxTransaction({ transaction }: ExportRow): string {
+  const amount = Number(transaction.amount);
+  const type = transaction.type === 'transfer' ? 'XFER' : amount < 0 ? 'DEBIT' : 'CREDIT';
+  const { name, memo } = ofxNameAndMemo(transaction.description);
+  return '<STMTTRN>'
+    + `<TRNTYPE>${type}</TRNTYPE>`
+    + `<DTPOSTED>${ofxDate(transaction.date)}</DTPOSTED>`
+    + `<TRNAMT>${amount.toFixed(2)}</TRNAMT>`
+    + `<FITID>${escapeXml(transaction.externalId ?? String(transaction.id))}</FITID>`
+    + `<NAME>${escapeXml(name)}</NAME>`
+    + (memo ? `<MEMO>${escapeXml(memo)}</MEMO>` : '')
+    + '</STMTTRN>\n';
+}
+
+interface OfxStatement {
+  account: Account | null;
+  currency: string;
+  rows: ExportRow[];
+  // At the end of the period
+  balance: number;
+}
+
+// One account's statement: the bank or card aggregate around its transactions, and the
+// ledger balance at the end of the period
+async function writeOfxStatement(statement: OfxStatement, period: { from: string; to: string }, index: number, sink: ExportSink): Promise<void> {
+  const { account, currency } = statement;
+  const creditCard = account?.type === 'credit_card';
+  const accountId = escapeXml(account ? String(account.id) : `UNASSIGNED-${currency}`);
+  const accountType = account?.type === 'savings' ? 'SAVINGS' : account?.type === 'loan' ? 'CREDITLINE' : 'CHECKING';
+  const [transactionsTag, statementTag] = creditCard ? ['CCSTMTTRNRS', 'CCSTMTRS'] : ['STMTTRNRS', 'STMTRS'];
+
+  await sink(
+    `<${transactionsTag}><TRNUID>${index + 1}</TRNUID><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>\n`
+    + `<${statementTag}><CURDEF>${escapeXml(currency)}</CURDEF>\n`
+    + (creditCard
+      ? `<CCACCTFROM><ACCTID>${accountId}</ACCTID></CCACCTFROM>\n`
+      : `<BANKACCTFROM><BANKID>000000000</BANKID><ACCTID>${accountId}</ACCTID><ACCTTYPE>${accountType}</ACCTTYPE></BANKACCTFROM>\n`)
+    + `<BANKTRANLIST><DTSTART>${ofxDate(period.from)}</DTSTART><DTEND>${ofxDate(period.to)}</DTEND>\n`,
+  );
+  await writeChunked(sink, statement.rows, ofxTransaction);
+  await sink(
+    '</BANKTRANLIST>\n'
+    + `<LEDGERBAL><BALAMT>${statement.balance.toFixed(2)}</BALAMT><DTASOF>${ofxDate(period.to)}</DTASOF></LEDGERBAL>\n`
+    + `</${statementTag}></${transactionsTag}>\n`,
+  );
+}
+
+// An OFX 2 file with a statement per account: bank accounts under the banking message
+// set and credit cards under their own. Transactions without an account get a statement
+// per currency. `balances` gives each account's balance at the end of the period; other
+// statements balance to the sum of what they contain.
+export async function writeOfx(
+  rows: ExportRow[],
+  period: { from: string; to: string },
+  balances: Map<number, number>,
+  today: string,
+  sink: ExportSink,
+): Promise<void> {
+  const total = (group: ExportRow[]) => group.reduce((sum, row) => sum + Number(row.transaction.amount), 0);
+  const statements: OfxStatement[] = [];
+  for (const [accountId, group] of Array.from(byAccount(rows).entries())) {
+    const account = group[0].account;
+    if (accountId !== null && account) {
+      statements.push({ account, currency: account.currency, rows: group, balance: balances.get(account.id) ?? total(group) });
+      continue;
+    }
+    for (const currency of Array.from(new Set(group.map(row => row.transaction.currency)))) {
+      const inCurrency = group.filter(row => row.transaction.currency === currency);
+      statements.push({ account: null, currency, rows: inCurrency, balance: total(inCurrency) });
+    }
+  }
+
+  await sink(
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n'
+    + '<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>\n'
+    + '<OFX>\n'
+    + `<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS><DTSERVER>${ofxDate(today)}</DTSERVER><LANGUAGE>ENG</LANGUAGE></SONRS></SIGNONMSGSRSV1>\n`,
+  );
+
+  const messageSets = [
+    { tag: 'BANKMSGSRSV1', statements: statements.filter(statement => statement.account?.type !== 'credit_card') },
+    { tag: 'CREDITCARDMSGSRSV1', statements: statements.filter(statement => statement.account?.type === 'credit_card') },
+  ];
+  let index = 0;
+  for (const messageSet of messageSets) {
+    if (messageSet.statements.length === 0) continue;
+    await sink(`<${messageSet.tag}>\n`);
+    for (const statement of messageSet.statements) {
+      await writeOfxStatement(statement, period, index++, sink);
+    }
+    await sink(`</${messageSet.tag}>\n`);
+  }
+  await sink('</OFX>\n');
+}
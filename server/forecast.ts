@@ -0,0 +1,224 @@
+import type { Account, RecurringOccurrence, RecurringTemplate, Transaction } from "@shared/schema";
+import { roundCents, toDateString } from "./duplicates";
+import { occurrenceAfter, occurrenceOnOrAfter } from "./recurring";
+import type { RecurringSchedule } from "./recurring";
+import type { DetectedSubscription } from "./subscriptions";
+
+// How far ahead the forecast runs
+export const FORECAST_DAYS = 90;
+
+// How much history the average day-to-day spending is taken from
+const DISCRETIONARY_HISTORY_DAYS = 90;
+
+// Money owed on these is a negative balance as a matter of course, so it is not flagged
+const LIABILITY_ACCOUNT_TYPES = ["credit_card", "loan"];
+
+// A charge or payment expected on a day, in its own currency
+export interface ForecastEvent {
+  date: string;
+  description: string;
+  category: string;
+  amount: number;
+  currency: string;
+  accountId: number | null;
+  source: "recurring" | "subscription";
+}
+
+export interface ForecastAccount {
+  accountId: number;
+  name: string;
+  currency: string;
+  // Today's balance, then one per day of the forecast, in the account's currency
+  balances: number[];
+  lowestBalance: number;
+  // The first day the balance is projected to fall below zero; always null for credit cards and loans
+  firstNegativeDate: string | null;
+}
+
+export interface ForecastDay {
+  date: string;
+  // Every open account together, in the base currency
+  total: number;
+  // Accounts projected to be below zero that day
+  negativeAccountIds: number[];
+  events: ForecastEvent[];
+}
+
+export interface CashFlowForecast {
+  days: ForecastDay[];
+  accounts: ForecastAccount[];
+  // Average daily spending per category outside recurring charges, in the base currency
+  discretionary: { category: string; dailyAmount: number }[];
+}
+
+export interface ForecastInput {
+  today: string;
+  accounts: { account: Account; balance: number }[];
+  templates: { template: RecurringTemplate; occurrences: RecurringOccurrence[] }[];
+  // Recurring charges found in the ledger; those turned into a template are projected through it
+  subscriptions: (DetectedSubscription & { templateId: number | null })[];
+  // Recent transactions, from which day-to-day spending is averaged
+  transactions: Transaction[];
+  // Converts an amount to the base currency; amounts without a rate are counted as they are
+  toBase: (amount: number, currency: string) => number | null;
+}
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().split('T')[0];
+
+// Every occurrence of a schedule from `from` to `to`, inclusive
+function occurrencesBetween(schedule: RecurringSchedule, from: string, to: string): string[] {
+  const dates: string[] = [];
+  let next = occurrenceOnOrAfter(schedule, from);
+  while (next !== null && next <= to) {
+    dates.push(next);
+    next = occurrenceAfter(schedule, next);
+  }
+  return dates;
+}
+
+// Project account balances day by day: recurring templates and the subscriptions found in
+// the ledger on the days they fall, and average day-to-day spending every day. Income
+// that is not set up as a recurring transaction is left out, so the forecast errs low.
+export function buildForecast(input: ForecastInput, days = FORECAST_DAYS): CashFlowForecast {
+  const { today, toBase } = input;
+  const end = addDays(today, days);
+  const inBase = (amount: number, currency: string) => toBase(amount, currency) ?? amount;
+
+  const events: ForecastEvent[] = [];
+  // Transactions already covered by a recurring charge, left out of day-to-day spending
+  const recurringTransactionIds = new Set<number>();
+
+  for (const { template, occurrences } of input.templates) {
+    const overrides = new Map(occurrences.map(occurrence => [occurrence.date, occurrence]));
+    occurrences.forEach(occurrence => {
+      if (occurrence.transactionId !== null) recurringTransactionIds.add(occurrence.transactionId);
+    });
+    if (template.nextDate === null) continue;
+
+    // Occurrences that fell due but could not be posted are not counted on
+    const from = template.nextDate > today ? template.nextDate : today;
+    for (const date of occurrencesBetween(template, from, end)) {
+      const override = overrides.get(date);
+      if (override?.status === 'skipped') continue;
+      events.push({
+        date,
+        description: override?.description ?? template.description,
+        category: override?.category ?? template.category,
+        amount: Number(override?.amount ?? template.amount),
+        currency: template.currency,
+        accountId: template.accountId,
+        source: "recurring",
+      });
+    }
+  }
+
+  for (const subscription of input.subscriptions) {
+    subscription.transactionIds.forEach(id => recurringTransactionIds.add(id));
+    if (!subscription.active || subscription.templateId !== null) continue;
+    const schedule = {
+      frequency: subscription.frequency,
+      interval: subscription.interval,
+      dayOfMonth: subscription.dayOfMonth,
+      startDate: subscription.lastCharge,
+      endDate: null,
+    };
+    for (const date of occurrencesBetween(schedule, subscription.nextCharge, end)) {
+      events.push({
+        date,
+        description: subscription.description,
+        category: subscription.category,
+        amount: -subscription.amount,
+        currency: subscription.currency,
+        accountId: subscription.accountId,
+        source: "subscription",
+      });
+    }
+  }
+
+  // Day-to-day spending: the recent daily average, per category in the base currency and
+  // per account in the account's currency
+  const historyStart = addDays(today, -DISCRETIONARY_HISTORY_DAYS);
+  const byCategory = new Map<string, number>();
+  const byAccount = new Map<number, number>();
+  let dailyDiscretionary = 0;
+  for (const transaction of input.transactions) {
+    const date = toDateString(transaction.date);
+    if (transaction.type !== 'expense' || date < historyStart || date >= today) continue;
+    if (recurringTransactionIds.has(transaction.id)) continue;
+
+    const amount = Math.abs(Number(transaction.amount)) / DISCRETIONARY_HISTORY_DAYS;
+    const baseAmount = inBase(amount, transaction.currency);
+    byCategory.set(transaction.category, (byCategory.get(transaction.category) ?? 0) + baseAmount);
+    dailyDiscretionary += baseAmount;
+    if (transaction.accountId !== null) {
+      byAccount.set(transaction.accountId, (byAccount.get(transaction.accountId) ?? 0) + amount);
+    }
+  }
+
+  const eventsByDate = new Map<string, ForecastEvent[]>();
+  for (const event of events.sort((a, b) => a.date.localeCompare(b.date))) {
+    const dayEvents = eventsByDate.get(event.date);
+    if (dayEvents) {
+      dayEvents.push(event);
+    } else {
+      eventsByDate.set(event.date, [event]);
+    }
+  }
+
+  const accounts: ForecastAccount[] = input.accounts.map(({ account, balance }) => ({
+    accountId: account.id,
+    name: account.name,
+    currency: account.currency,
+    balances: [],
+    lowestBalance: balance,
+    firstNegativeDate: null,
+  }));
+  const running = new Map(input.accounts.map(({ account, balance }) => [account.id, balance]));
+  const flagged = new Set(input.accounts
+    .filter(({ account }) => !LIABILITY_ACCOUNT_TYPES.includes(account.type))
+    .map(({ account }) => account.id));
+  let total = input.accounts.reduce((sum, { account, balance }) => sum + inBase(balance, account.currency), 0);
+
+  const forecastDays: ForecastDay[] = [];
+  for (let index = 0; index <= days; index++) {
+    const date = addDays(today, index);
+
+    // Today's spending is already in the balances
+    if (index > 0) {
+      total -= dailyDiscretionary;
+      byAccount.forEach((amount, accountId) => {
+        if (running.has(accountId)) running.set(accountId, running.get(accountId)! - amount);
+      });
+    }
+
+    const dayEvents = eventsByDate.get(date) ?? [];
+    for (const event of dayEvents) {
+      total += inBase(event.amount, event.currency);
+      if (event.accountId !== null && running.has(event.accountId)) {
+        running.set(event.accountId, running.get(event.accountId)! + event.amount);
+      }
+    }
+
+    const negativeAccountIds: number[] = [];
+    for (const account of accounts) {
+      const balance = roundCents(running.get(account.accountId)!);
+      account.balances.push(balance);
+      account.lowestBalance = Math.min(account.lowestBalance, balance);
+      if (balance < 0 && flagged.has(account.accountId)) {
+        negativeAccountIds.push(account.accountId);
+        account.firstNegativeDate ??= date;
+      }
+    }
+
+    forecastDays.push({ date, total: roundCents(total), negativeAccountIds, events: dayEvents });
+  }
+
+  return {
+    days: forecastDays,
+    accounts,
+    discretionary: Array.from(byCategory.entries())
+      .map(([category, dailyAmount]) => ({ category, dailyAmount: roundCents(dailyAmount) }))
+      .sort((a, b) => b.dailyAmount - a.dailyAmount),
+  };
+}
@@ -0,0 +1,129 @@
+import type { SavingsGoal, Transaction } from "@shared/schema";
+import { roundCents, toDateString } from "./duplicates";
+
+// How many recent months the contribution rate is averaged over
+const CONTRIBUTION_RATE_MONTHS = 3;
+
+// How many months of contributions are listed, this one included
+const CONTRIBUTION_HISTORY_MONTHS = 12;
+
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+
+export type GoalStatus = "complete" | "on_track" | "behind" | "no_target_date";
+
+// Money put towards a goal on a day, in the goal's currency; negative when taken out
+export interface Contribution {
+  date: string;
+  amount: number;
+}
+
+export interface GoalProgress {
+  goalId: number;
+  name: string;
+  currency: string;
+  targetAmount: number;
+  targetDate: string | null;
+  accountId: number | null;
+  category: string | null;
+  saved: number;
+  remaining: number;
+  percentage: number;
+  // What has to be saved each month to reach the target by its date; null without a
+  // target date or once the target is reached
+  requiredMonthly: number | null;
+  // Average net contribution per month over the last few months
+  recentMonthlyRate: number;
+  // When the target will be reached at the recent rate; null once reached or while nothing is being saved
+  projectedCompletion: string | null;
+  status: GoalStatus;
+  // Net contributions per month, oldest first
+  monthlyContributions: { year: number; month: number; amount: number }[];
+}
+
+const monthIndex = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+
+// What counts as a contribution: every transaction on a linked account, or the transactions
+// in a linked category, where spending adds to the goal. `convert` brings an amount into
+// the goal's currency.
+export function goalContributions(
+  goal: SavingsGoal,
+  transactions: Transaction[],
+  convert: (amount: number, currency: string, date: string) => number,
+): Contribution[] {
+  if (goal.accountId !== null) {
+    return transactions
+      .filter(transaction => transaction.accountId === goal.accountId)
+      .map(transaction => ({ date: toDateString(transaction.date), amount: Number(transaction.amount) }));
+  }
+  return transactions
+    .filter(transaction => transaction.category === goal.category && transaction.type !== 'transfer')
+    .map(transaction => {
+      const date = toDateString(transaction.date);
+      return { date, amount: -convert(Number(transaction.amount), transaction.currency, date) };
+    });
+}
+
+// Progress towards a goal that has `saved` so far, and when it will be reached at the rate
+// contributions have come in recently
+export function goalProgress(goal: SavingsGoal, saved: number, contributions: Contribution[], today: string): GoalProgress {
+  const targetAmount = Number(goal.targetAmount);
+  const remaining = roundCents(Math.max(0, targetAmount - saved));
+  const current = monthIndex(today);
+
+  const byMonth = new Map<number, number>();
+  for (const contribution of contributions) {
+    const index = monthIndex(contribution.date);
+    if (index > current - CONTRIBUTION_HISTORY_MONTHS && index <= current) {
+      byMonth.set(index, (byMonth.get(index) ?? 0) + contribution.amount);
+    }
+  }
+  const monthlyContributions = Array.from({ length: CONTRIBUTION_HISTORY_MONTHS }, (_, i) => {
+    const index = current - CONTRIBUTION_HISTORY_MONTHS + 1 + i;
+    return { year: Math.floor(index / 12), month: index % 12 + 1, amount: roundCents(byMonth.get(index) ?? 0) };
+  });
+
+  // Counted back from today
+  const rateStart = new Date(`${today}T00:00:00Z`);
+  rateStart.setUTCMonth(rateStart.getUTCMonth() - CONTRIBUTION_RATE_MONTHS);
+  const rateFrom = rateStart.toISOString().split('T')[0];
+  const recentMonthlyRate = roundCents(contributions
+    .filter(contribution => contribution.date > rateFrom && contribution.date <= today)
+    .reduce((sum, contribution) => sum + contribution.amount, 0) / CONTRIBUTION_RATE_MONTHS);
+
+  let projectedCompletion: string | null = null;
+  if (remaining > 0 && recentMonthlyRate > 0) {
+    const days = Math.ceil((remaining / recentMonthlyRate) * AVERAGE_DAYS_PER_MONTH);
+    projectedCompletion = new Date(Date.parse(`${today}T00:00:00Z`) + days * 86400000).toISOString().split('T')[0];
+  }
+
+  let requiredMonthly: number | null = null;
+  let status: GoalStatus;
+  if (remaining === 0) {
+    status = "complete";
+  } else if (goal.targetDate === null) {
+    status = "no_target_date";
+  } else {
+    // A target date this month or already past leaves one month to save the rest in
+    const monthsLeft = Math.max(1, monthIndex(goal.targetDate) - current);
+    requiredMonthly = roundCents(remaining / monthsLeft);
+    status = projectedCompletion !== null && projectedCompletion <= goal.targetDate ? "on_track" : "behind";
+  }
+
+  return {
+    goalId: goal.id,
+    name: goal.name,
+    currency: goal.currency,
+    targetAmount,
+    targetDate: goal.targetDate,
+    accountId: goal.accountId,
+    category: goal.category,
+    saved: roundCents(saved),
+    remaining,
+    percentage: targetAmount > 0 ? roundCents(Math.min(100, Math.max(0, (saved / targetAmount) * 100))) : 0,
+    requiredMonthly,
+    recentMonthlyRate,
+    projectedCompletion,
+    status,
+    monthlyContributions,
+  };
+}
@@ -0,0 +1,250 @@
+import type { Transaction, Settlement, HouseholdMember } from "@shared/schema";
+import { roundCents, toDateString } from "./duplicates";
+
+// Net position of a household member: positive means the others owe them money
+export interface MemberBalance {
+  userId: number;
+  net: number;
+}
+
+// A single "who owes whom" payment that settles part of the balances
+export interface Debt {
+  fromUserId: number;
+  toUserId: number;
+  amount: number;
+}
+
+// Each member's net balance right after a shared transaction or settlement
+export interface BalanceHistoryEntry {
+  date: string;
+  kind: 'transaction' | 'settlement';
+  id: number;
+  description: string;
+  amount: number;
+  balances: Record<number, number>;
+}
+
+// Converts an amount into the household's currency; null when no rate converts it
+export type HouseholdCurrencyConverter = (amount: string | number, currency: string, date: string) => number | null;
+
+// Restate a transaction in the household's currency, so that amounts in different currencies can be added up.
+// Balances, splits and settlements are all counted in that currency. Without a rate an amount is counted as it is.
+export function inHouseholdCurrency(transaction: Transaction, currency: string, convert: HouseholdCurrencyConverter): Transaction {
+  if (transaction.currency === currency) {
+    return transaction;
+  }
+  const toHousehold = (amount: string) => String(convert(amount, transaction.currency, transaction.date) ?? Number(amount));
+  return {
+    ...transaction,
+    amount: toHousehold(transaction.amount),
+    // A fixed split is an amount in the transaction's currency; a percentage needs no converting
+    splitValue: transaction.splitType === 'fixed' && transaction.splitValue !== null
+      ? toHousehold(transaction.splitValue)
+      : transaction.splitValue,
+    currency,
+  };
+}
+
+// Portion of a shared transaction borne by the member who paid it
+export function payerShare(transaction: Transaction, memberCount: number): number {
+  const total = Math.abs(Number(transaction.amount));
+  const splitValue = Number(transaction.splitValue ?? 0);
+
+  switch (transaction.splitType) {
+    case 'percentage':
+      return total * Math.min(Math.max(splitValue, 0), 100) / 100;
+    case 'fixed':
+      return Math.min(Math.max(splitValue, 0), total);
+    case 'equal':
+    default:
+      return total / Math.max(memberCount, 1);
+  }
+}
+
+// Members a shared transaction is split between. Transactions shared before the participants were
+// recorded are split between the payer and the members who had joined by the time it was entered;
+// as before, one paid by someone who has since left is split between no one.
+export function participantsOf(transaction: Transaction, members: HouseholdMember[]): number[] {
+  if (transaction.participantIds !== null) {
+    return transaction.participantIds;
+  }
+  if (!members.some(member => member.userId === transaction.userId)) {
+    return [];
+  }
+  return members
+    .filter(member => member.userId === transaction.userId ||
+      !member.joinedAt || !transaction.createdAt || member.joinedAt <= transaction.createdAt)
+    .map(member => member.userId);
+}
+
+// Members a transaction dated `date` is split between when it is shared: the payer and whoever had
+// joined by then. Someone accepting an invitation only shares what happens from that day on.
+export function participantsOn(payerId: number, date: string | Date, members: HouseholdMember[]): number[] {
+  const day = toDateString(date);
+  return members
+    .filter(member => member.userId === payerId || !member.joinedAt || toDateString(member.joinedAt) <= day)
+    .map(member => member.userId);
+}
+
+// Split a shared transaction into the share owed by each of its participants, who may
+// since have left the household. Whatever the payer does not bear is divided equally
+// among the others. Without recorded participants it is split between `memberIds`.
+export function computeShares(transaction: Transaction, memberIds: number[]): Map<number, number> {
+  const shares = new Map<number, number>();
+  const participantIds = transaction.participantIds ?? memberIds;
+
+  if (!participantIds.includes(transaction.userId)) {
+    return shares;
+  }
+
+  const total = Math.abs(Number(transaction.amount));
+  const others = participantIds.filter(id => id !== transaction.userId);
+  const ownShare = others.length === 0 ? total : payerShare(transaction, participantIds.length);
+
+  shares.set(transaction.userId, ownShare);
+  others.forEach(id => shares.set(id, (total - ownShare) / others.length));
+
+  return shares;
+}
+
+// Apply one shared transaction to the running net balances.
+// For a shared expense the other participants owe the payer their share;
+// for shared income the payer owes the other participants theirs.
+function applyTransaction(net: Map<number, number>, transaction: Transaction, memberIds: number[]) {
+  const direction = transaction.type === 'income' ? -1 : 1;
+  const shares = computeShares(transaction, memberIds);
+
+  shares.forEach((share, userId) => {
+    if (userId === transaction.userId) return;
+    net.set(transaction.userId, (net.get(transaction.userId) || 0) + direction * share);
+    net.set(userId, (net.get(userId) || 0) - direction * share);
+  });
+}
+
+// Apply a settlement: the payer's debt shrinks by the amount, the recipient is owed that much less
+function applySettlement(net: Map<number, number>, settlement: Settlement) {
+  const amount = Number(settlement.amount);
+  net.set(settlement.fromUserId, (net.get(settlement.fromUserId) || 0) + amount);
+  net.set(settlement.toUserId, (net.get(settlement.toUserId) || 0) - amount);
+}
+
+// The current members' rounded balances. Former members are tracked while replaying the
+// history, so that what they paid or settled still counts for the others, but not shown.
+function memberBalances(net: Map<number, number>, memberIds: number[]): Map<number, number> {
+  return new Map(memberIds.map(id => [id, roundCents(net.get(id) || 0)]));
+}
+
+// Compute each member's net balance from the household's shared transactions and settlements
+export function computeNetBalances(
+  sharedTransactions: Transaction[],
+  memberIds: number[],
+  settlements: Settlement[] = [],
+): Map<number, number> {
+  const net = new Map<number, number>();
+
+  sharedTransactions.forEach(transaction => applyTransaction(net, transaction, memberIds));
+  settlements.forEach(settlement => applySettlement(net, settlement));
+
+  return memberBalances(net, memberIds);
+}
+
+// Replay shared transactions and settlements in date order to show how balances evolved
+export function buildBalanceHistory(
+  sharedTransactions: Transaction[],
+  settlements: Settlement[],
+  memberIds: number[],
+): BalanceHistoryEntry[] {
+  const events = [
+    ...sharedTransactions.map(transaction => ({ kind: 'transaction' as const, date: transaction.date, transaction })),
+    ...settlements.map(settlement => ({ kind: 'settlement' as const, date: settlement.date, settlement })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  const net = new Map<number, number>();
+
+  return events.map(event => {
+    if (event.kind === 'transaction') {
+      applyTransaction(net, event.transaction, memberIds);
+    } else {
+      applySettlement(net, event.settlement);
+    }
+
+    const balances: Record<number, number> = {};
+    memberBalances(net, memberIds).forEach((value, userId) => { balances[userId] = value; });
+
+    return event.kind === 'transaction'
+      ? {
+          date: event.date,
+          kind: event.kind,
+          id: event.transaction.id,
+          description: event.transaction.description,
+          amount: Math.abs(Number(event.transaction.amount)),
+          balances,
+        }
+      : {
+          date: event.date,
+          kind: event.kind,
+          id: event.settlement.id,
+          description: event.settlement.note || 'Settlement',
+          amount: Number(event.settlement.amount),
+          balances,
+        };
+  });
+}
+
+// Reduce net balances to the fewest payments needed to settle everyone up
+export function simplifyDebts(net: Map<number, number>): Debt[] {
+  const creditors = Array.from(net.entries())
+    .filter(([_, amount]) => amount > 0.005)
+    .map(([userId, amount]) => ({ userId, amount }))
+    .sort((a, b) => b.amount - a.amount);
+  const debtors = Array.from(net.entries())
+    .filter(([_, amount]) => amount < -0.005)
+    .map(([userId, amount]) => ({ userId, amount: -amount }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const debts: Debt[] = [];
+  let c = 0;
+  let d = 0;
+
+  while (c < creditors.length && d < debtors.length) {
+    const amount = Math.min(creditors[c].amount, debtors[d].amount);
+    debts.push({
+      fromUserId: debtors[d].userId,
+      toUserId: creditors[c].userId,
+      amount: roundCents(amount),
+    });
+
+    creditors[c].amount -= amount;
+    debtors[d].amount -= amount;
+    if (creditors[c].amount < 0.005) c++;
+    if (debtors[d].amount < 0.005) d++;
+  }
+
+  return debts;
+}
+
+// Personal vs. shared totals for one member in a given set of transactions, all in the household's currency
+export function summariseSharedSpending(
+  userId: number,
+  ownTransactions: Transaction[],
+  sharedTransactions: Transaction[],
+  memberIds: number[],
+) {
+  const personalExpenses = ownTransactions
+    .filter(t => t.type === 'expense' && !t.splitType)
+    .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0);
+
+  const sharedExpenseTransactions = sharedTransactions.filter(t => t.type === 'expense');
+
+  const sharedExpenses = sharedExpenseTransactions
+    .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0);
+
+  const yourShare = sharedExpenseTransactions
+    .reduce((sum, t) => sum + (computeShares(t, memberIds).get(userId) || 0), 0);
+
+  return {
+    personalExpenses: roundCents(personalExpenses),
+    sharedExpenses: roundCents(sharedExpenses),
+    yourShare: roundCents(yourShare),
+  };
+}
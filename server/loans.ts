@@ -0,0 +1,330 @@
+import type { Loan, Transaction } from "@shared/schema";
+import { daysBetween, roundCents, toDateString } from "./duplicates";
+import { daysInMonth, occurrenceAfter, occurrenceOnOrAfter } from "./recurring";
+import type { RecurringSchedule } from "./recurring";
+
+// Projections stop here: a payment that does not keep up with the interest never repays the loan
+const MAX_PROJECTED_MONTHS = 1200;
+
+// A payment made up to this many days before a due date is the payment for that date
+const EARLY_PAYMENT_DAYS = 15;
+
+export type PayoffStrategy = "minimum" | "avalanche" | "snowball";
+
+// A payment towards a loan, in the loan's currency
+export interface LoanPayment {
+  date: string;
+  amount: number;
+  transactionId: number | null;
+}
+
+// One payment, split into the interest it paid and what came off the balance
+export interface AmortizationRow {
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  // Left to repay after the payment
+  balance: number;
+  // The transaction the payment was made in; null when projected or taken as made on schedule
+  transactionId: number | null;
+  projected: boolean;
+}
+
+export interface LoanSchedule {
+  loanId: number;
+  name: string;
+  currency: string;
+  principal: number;
+  annualRate: number;
+  termMonths: number;
+  firstPaymentDate: string;
+  accountId: number | null;
+  category: string | null;
+  scheduledPayment: number;
+  // Whether the payment was set rather than worked out from the term
+  fixedPayment: boolean;
+  extraPayment: number;
+  // Whether the payments come from the ledger rather than being taken as made on schedule
+  tracked: boolean;
+  balance: number;
+  paidPrincipal: number;
+  paidInterest: number;
+  // The payments made so far, then those projected with the extra payment
+  rows: AmortizationRow[];
+  // Null when the payments never repay the loan
+  payoffDate: string | null;
+  projectedInterest: number | null;
+  // The same projection with the scheduled payment alone
+  withoutExtra: { payoffDate: string | null; interest: number | null };
+  // What paying the extra saves; null without an extra payment or when either projection never ends
+  interestSaved: number | null;
+  monthsSaved: number | null;
+}
+
+// A loan as the payoff strategies see it, converted to one currency
+export interface Debt {
+  loanId: number;
+  name: string;
+  balance: number;
+  annualRate: number;
+  // The monthly payment it needs, whatever the strategy
+  payment: number;
+}
+
+export interface StrategyResult {
+  strategy: PayoffStrategy;
+  // Null when the debts are never repaid
+  payoffDate: string | null;
+  months: number | null;
+  totalInterest: number | null;
+  // Compared with paying only what each loan needs; null for that strategy itself
+  interestSaved: number | null;
+  // In the order the loans are repaid
+  payoffs: { loanId: number; name: string; payoffDate: string | null }[];
+}
+
+interface Projection {
+  rows: AmortizationRow[];
+  payoffDate: string | null;
+  interest: number | null;
+}
+
+const monthlyRate = (annualRate: number) => annualRate / 100 / 12;
+
+// The same day `months` months on (or back), moved to the month's last day if it is shorter
+function addMonths(date: string, months: number): string {
+  const monthIndex = Number(date.slice(5, 7)) - 1 + months;
+  const year = Number(date.slice(0, 4)) + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+  const day = Math.min(Number(date.slice(8, 10)), daysInMonth(year, month));
+  return new Date(Date.UTC(year, month, day)).toISOString().split('T')[0];
+}
+
+const paymentSchedule = (loan: Loan): RecurringSchedule => ({
+  frequency: "monthly",
+  interval: 1,
+  dayOfMonth: null,
+  startDate: loan.firstPaymentDate,
+  endDate: null,
+});
+
+// The monthly payment that repays `principal` over `termMonths`
+export function standardPayment(principal: number, annualRate: number, termMonths: number): number {
+  const rate = monthlyRate(annualRate);
+  if (rate === 0) return roundCents(principal / termMonths);
+  return roundCents((principal * rate) / (1 - Math.pow(1 + rate, -termMonths)));
+}
+
+// The payments made towards a loan: money paid into its account, or spending in its
+// category converted to the loan's currency. Null when neither is linked.
+export function loanPayments(
+  loan: Loan,
+  transactions: Transaction[],
+  convert: (amount: number, currency: string, date: string) => number,
+): LoanPayment[] | null {
+  if (loan.accountId !== null) {
+    return transactions
+      .filter(transaction => transaction.accountId === loan.accountId && Number(transaction.amount) > 0)
+      .map(transaction => ({ date: toDateString(transaction.date), amount: Number(transaction.amount), transactionId: transaction.id }));
+  }
+  if (loan.category !== null) {
+    return transactions
+      .filter(transaction => transaction.category === loan.category && Number(transaction.amount) < 0)
+      .map(transaction => {
+        const date = toDateString(transaction.date);
+        return { date, amount: -convert(Number(transaction.amount), transaction.currency, date), transactionId: transaction.id };
+      });
+  }
+  return null;
+}
+
+// Monthly payments of `payment` from `from` until the balance is repaid, or until the day
+// before `until`. Interest is charged monthly on the balance.
+function project(balance: number, annualRate: number, payment: number, schedule: RecurringSchedule, from: string, until?: string): Projection {
+  const rate = monthlyRate(annualRate);
+  const rows: AmortizationRow[] = [];
+  if (balance > 0 && until === undefined && payment <= roundCents(balance * rate)) {
+    return { rows, payoffDate: null, interest: null };
+  }
+
+  let date: string | null = from;
+  let interestTotal = 0;
+  while (balance > 0 && date !== null && rows.length < MAX_PROJECTED_MONTHS && (until === undefined || date < until)) {
+    const interest = roundCents(balance * rate);
+    const paid = Math.min(payment, roundCents(balance + interest));
+    const principal = roundCents(paid - interest);
+    balance = roundCents(balance - principal);
+    interestTotal += interest;
+    rows.push({ date, payment: paid, interest, principal, balance, transactionId: null, projected: true });
+    date = occurrenceAfter(schedule, date);
+  }
+
+  const repaid = balance <= 0;
+  return { rows, payoffDate: repaid ? rows.at(-1)?.date ?? null : null, interest: repaid ? roundCents(interestTotal) : null };
+}
+
+// Split the payments actually made: each pays the interest charged daily since the one
+// before, and the rest comes off the balance. Interest starts a month before the first
+// scheduled payment.
+function splitPayments(loan: Loan, payments: LoanPayment[]): AmortizationRow[] {
+  const annualRate = Number(loan.annualRate);
+  const start = addMonths(loan.firstPaymentDate, -1);
+  const rows: AmortizationRow[] = [];
+  let balance = Number(loan.principal);
+  let previous = start;
+
+  const sorted = payments
+    .filter(payment => payment.date >= start)
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.transactionId ?? 0) - (b.transactionId ?? 0));
+  for (const payment of sorted) {
+    if (balance <= 0) break;
+    const interest = roundCents(balance * (annualRate / 100) * (daysBetween(previous, payment.date) / 365));
+    const principal = Math.min(roundCents(payment.amount - interest), balance);
+    balance = roundCents(balance - principal);
+    rows.push({
+      date: payment.date,
+      payment: payment.amount,
+      interest,
+      principal,
+      balance,
+      transactionId: payment.transactionId,
+      projected: false,
+    });
+    previous = payment.date;
+  }
+  return rows;
+}
+
+// A loan's amortisation schedule: the payments made so far, from the ledger or taken as
+// made on schedule, then those still to come with and without the extra payment
+export function buildLoanSchedule(loan: Loan, payments: LoanPayment[] | null, today: string): LoanSchedule {
+  const principal = Number(loan.principal);
+  const annualRate = Number(loan.annualRate);
+  const scheduledPayment = loan.payment !== null ? Number(loan.payment) : standardPayment(principal, annualRate, loan.termMonths);
+  const extraPayment = Number(loan.extraPayment);
+  const schedule = paymentSchedule(loan);
+
+  const history = payments === null
+    ? project(principal, annualRate, scheduledPayment, schedule, loan.firstPaymentDate, today).rows
+      .map(row => ({ ...row, projected: false }))
+    : splitPayments(loan, payments);
+  const balance = history.at(-1)?.balance ?? principal;
+  const lastPaid = history.at(-1)?.date ?? null;
+
+  // The next payment due, unless the last one was made early for it
+  let next = occurrenceOnOrAfter(schedule, today)!;
+  while (lastPaid !== null && next > lastPaid && daysBetween(lastPaid, next) < EARLY_PAYMENT_DAYS) {
+    next = occurrenceAfter(schedule, next)!;
+  }
+
+  const withExtra = project(balance, annualRate, scheduledPayment + extraPayment, schedule, next);
+  const withoutExtra = extraPayment > 0 ? project(balance, annualRate, scheduledPayment, schedule, next) : withExtra;
+  const repaid = balance <= 0;
+  const bothEnd = withExtra.interest !== null && withoutExtra.interest !== null;
+
+  return {
+    loanId: loan.id,
+    name: loan.name,
+    currency: loan.currency,
+    principal,
+    annualRate,
+    termMonths: loan.termMonths,
+    firstPaymentDate: loan.firstPaymentDate,
+    accountId: loan.accountId,
+    category: loan.category,
+    scheduledPayment,
+    fixedPayment: loan.payment !== null,
+    extraPayment,
+    tracked: payments !== null,
+    balance: Math.max(0, balance),
+    paidPrincipal: roundCents(history.reduce((sum, row) => sum + row.principal, 0)),
+    paidInterest: roundCents(history.reduce((sum, row) => sum + row.interest, 0)),
+    rows: [...history, ...withExtra.rows],
+    payoffDate: repaid ? lastPaid : withExtra.payoffDate,
+    projectedInterest: repaid ? 0 : withExtra.interest,
+    withoutExtra: {
+      payoffDate: repaid ? lastPaid : withoutExtra.payoffDate,
+      interest: repaid ? 0 : withoutExtra.interest,
+    },
+    interestSaved: extraPayment > 0 && !repaid && bothEnd ? roundCents(withoutExtra.interest! - withExtra.interest!) : null,
+    monthsSaved: extraPayment > 0 && !repaid && bothEnd ? withoutExtra.rows.length - withExtra.rows.length : null,
+  };
+}
+
+// Repay the debts month by month. Each gets its own payment; with a strategy, the extra and
+// the payments of debts already repaid go to one debt at a time: the highest rate first
+// (avalanche) or the smallest balance first (snowball).
+function simulate(debts: Debt[], strategy: PayoffStrategy, extraMonthly: number, today: string): Omit<StrategyResult, "interestSaved"> {
+  const order = debts.map((_, i) => i).sort((a, b) => {
+    if (strategy === "avalanche") return debts[b].annualRate - debts[a].annualRate || debts[a].balance - debts[b].balance;
+    if (strategy === "snowball") return debts[a].balance - debts[b].balance || debts[b].annualRate - debts[a].annualRate;
+    return a - b;
+  });
+  const budget = strategy === "minimum"
+    ? null
+    : debts.reduce((sum, debt) => sum + debt.payment, 0) + extraMonthly;
+  const balances = debts.map(debt => debt.balance);
+  const paidOffMonth: (number | null)[] = debts.map(debt => (debt.balance <= 0 ? 0 : null));
+  let interestTotal = 0;
+  let month = 0;
+
+  while (balances.some(balance => balance > 0) && month < MAX_PROJECTED_MONTHS) {
+    month++;
+    let available = budget ?? 0;
+    debts.forEach((debt, i) => {
+      if (balances[i] <= 0) return;
+      const interest = roundCents(balances[i] * monthlyRate(debt.annualRate));
+      interestTotal += interest;
+      const paid = Math.min(debt.payment, roundCents(balances[i] + interest));
+      balances[i] = roundCents(balances[i] + interest - paid);
+      available -= paid;
+    });
+    if (budget !== null) {
+      for (const i of order) {
+        if (available <= 0) break;
+        if (balances[i] <= 0) continue;
+        const paid = Math.min(available, balances[i]);
+        balances[i] = roundCents(balances[i] - paid);
+        available -= paid;
+      }
+    }
+    balances.forEach((balance, i) => {
+      if (balance <= 0 && paidOffMonth[i] === null) paidOffMonth[i] = month;
+    });
+  }
+
+  const repaid = balances.every(balance => balance <= 0);
+  const payoffs = debts.map((_, i) => i)
+    .sort((a, b) => (paidOffMonth[a] ?? Infinity) - (paidOffMonth[b] ?? Infinity) || order.indexOf(a) - order.indexOf(b))
+    .map(i => ({
+      loanId: debts[i].loanId,
+      name: debts[i].name,
+      payoffDate: paidOffMonth[i] !== null ? addMonths(today, paidOffMonth[i]!) : null,
+    }));
+  return {
+    strategy,
+    payoffDate: repaid ? addMonths(today, month) : null,
+    months: repaid ? month : null,
+    totalInterest: repaid ? roundCents(interestTotal) : null,
+    payoffs,
+  };
+}
+
+// Paying only what each loan needs, against putting `extraMonthly` more towards them
+// highest rate first and smallest balance first
+export function comparePayoffStrategies(debts: Debt[], extraMonthly: number, today: string): StrategyResult[] {
+  const minimum = simulate(debts, "minimum", 0, today);
+  return [
+    { ...minimum, interestSaved: null },
+    ...(["avalanche", "snowball"] as const).map(strategy => {
+      const result = simulate(debts, strategy, extraMonthly, today);
+      return {
+        ...result,
+        interestSaved: result.totalInterest !== null && minimum.totalInterest !== null
+          ? roundCents(minimum.totalInterest - result.totalInterest)
+          : null,
+      };
+    }),
+  ];
+}
@@ -0,0 +1,116 @@
+import type { Account, Asset, AssetValuation, Transaction } from "@shared/schema";
+import { roundCents, toDateString } from "./duplicates";
+
+// One account, asset or liability in a net worth
+export interface NetWorthItem {
+  source: "account" | "asset";
+  id: number;
+  name: string;
+  type: string;
+  currency: string;
+  // In its own currency; negative for what is owed
+  value: number;
+  // In the base currency; null when no rate converts it, which leaves it out of the totals
+  baseValue: number | null;
+  // The day of the valuation it comes from; null for accounts
+  valuedOn: string | null;
+}
+
+export interface NetWorth {
+  date: string;
+  // Totals in the base currency; liabilities as a positive amount
+  assets: number;
+  liabilities: number;
+  netWorth: number;
+  items: NetWorthItem[];
+}
+
+export interface NetWorthInput {
+  accounts: { account: Account; transactions: Transaction[] }[];
+  assets: { asset: Asset; valuations: AssetValuation[] }[];
+  // Converts an amount to the base currency with the rate in force on a date
+  toBase: (amount: number, currency: string, date: string) => number | null;
+}
+
+// The first day an account counts towards net worth: when it was added, or its first
+// transaction if that is earlier
+function accountStart(account: Account, transactions: Transaction[]): string | null {
+  const dates = transactions.map(transaction => toDateString(transaction.date));
+  if (account.createdAt) dates.push(toDateString(account.createdAt));
+  return dates.length > 0 ? dates.reduce((earliest, date) => (date < earliest ? date : earliest)) : null;
+}
+
+// The first day anything counts towards net worth; null when there is nothing yet
+export function netWorthStart(input: NetWorthInput): string | null {
+  const dates = [
+    ...input.accounts.map(({ account, transactions }) => accountStart(account, transactions)),
+    ...input.assets.map(({ valuations }) => valuations[0]?.date ?? null),
+  ].filter((date): date is string => date !== null);
+  return dates.length > 0 ? dates.reduce((earliest, date) => (date < earliest ? date : earliest)) : null;
+}
+
+// Everything owned and owed at the end of `date`: account balances, and each asset or
+// liability at its latest valuation by then. Accounts in credit are assets and those
+// overdrawn or owing (credit cards, loans) are liabilities.
+export function netWorthOn(input: NetWorthInput, date: string): NetWorth {
+  const items: NetWorthItem[] = [];
+
+  for (const { account, transactions } of input.accounts) {
+    const start = accountStart(account, transactions);
+    if (start === null || start > date) continue;
+    const value = roundCents(transactions
+      .filter(transaction => toDateString(transaction.date) <= date)
+      .reduce((balance, transaction) => balance + Number(transaction.amount), Number(account.openingBalance)));
+    items.push({
+      source: "account",
+      id: account.id,
+      name: account.name,
+      type: account.type,
+      currency: account.currency,
+      value,
+      baseValue: input.toBase(value, account.currency, date),
+      valuedOn: null,
+    });
+  }
+
+  for (const { asset, valuations } of input.assets) {
+    const valuation = valuations.filter(valuation => valuation.date <= date).at(-1);
+    if (!valuation) continue;
+    const value = asset.kind === "liability" ? -Number(valuation.value) : Number(valuation.value);
+    items.push({
+      source: "asset",
+      id: asset.id,
+      name: asset.name,
+      type: asset.type,
+      currency: asset.currency,
+      value,
+      baseValue: input.toBase(value, asset.currency, date),
+      valuedOn: valuation.date,
+    });
+  }
+
+  const assets = items.reduce((sum, item) => sum + Math.max(0, item.baseValue ?? 0), 0);
+  const liabilities = items.reduce((sum, item) => sum - Math.min(0, item.baseValue ?? 0), 0);
+  return {
+    date,
+    assets: roundCents(assets),
+    liabilities: roundCents(liabilities),
+    netWorth: roundCents(assets - liabilities),
+    items,
+  };
+}
+
+// The months from the one containing `from` to the one containing `today`, each with the
+// day it is valued on: its last day, or today for the current month
+export function snapshotMonths(from: string, today: string): { year: number; month: number; date: string }[] {
+  const months = [];
+  let year = Number(from.slice(0, 4));
+  let month = Number(from.slice(5, 7));
+  while (`${year}-${String(month).padStart(2, '0')}` <= today.slice(0, 7)) {
+    const lastDay = new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+    months.push({ year, month, date: lastDay < today ? lastDay : today });
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year++;
+  }
+  return months;
+}
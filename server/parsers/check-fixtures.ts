@@ -0,0 +1,73 @@
+// Runs every statement in ./fixtures through its parser and compares the result with the
+// matching .expected.json, which lists the transactions and the opening and closing balances
+// the parser should read. Each fixture is named after the parser that reads it; the CSV
+// fixture takes its column mapping from csv.mapping.json.
+//
+//   npm run check:parsers
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { detectParser, getParser, parseCsvTransactions, parseOfxBalances, parseOfxTransactions } from './index';
+import type { ParsedTransaction, StatementBalances } from './types';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+const readFixture = (name: string) => readFileSync(path.join(fixturesDir, name), 'utf8');
+
+// The JSON form of a parsed transaction, as the expected files write it
+const toJson = (transaction: ParsedTransaction) => ({
+  ...transaction,
+  date: transaction.date.toISOString().split('T')[0],
+});
+
+type FixtureBalances = Pick<StatementBalances, 'openingBalance' | 'closingBalance'>;
+
+interface ExpectedStatement extends FixtureBalances {
+  transactions: unknown[];
+}
+
+// CSV rows carry no statement balances, so its expected balances are null
+const noBalances: FixtureBalances = { openingBalance: null, closingBalance: null };
+
+function parseFixture(id: string, text: string): { transactions: ParsedTransaction[]; balances: FixtureBalances } {
+  if (id === 'csv') return { transactions: parseCsvTransactions(text, JSON.parse(readFixture('csv.mapping.json'))), balances: noBalances };
+  if (id === 'ofx') return { transactions: parseOfxTransactions(text), balances: parseOfxBalances(text) };
+
+  const parser = getParser(id);
+  if (!parser) throw new Error(`No statement parser is registered as "${id}"`);
+  const detected = detectParser(text);
+  if (detected?.id !== id) throw new Error(`Detected as "${detected?.id ?? 'nothing'}" instead`);
+  return { transactions: parser.parse(text), balances: parser.balances?.(text) ?? noBalances };
+}
+
+let failures = 0;
+for (const file of readdirSync(fixturesDir).filter(name => name.endsWith('.txt')).sort()) {
+  const id = file.replace(/\.txt$/, '');
+  try {
+    const parsed = parseFixture(id, readFixture(file));
+    const actual = parsed.transactions.map(toJson);
+    const expected: ExpectedStatement = JSON.parse(readFixture(`${id}.expected.json`));
+    const mismatches = Array.from({ length: Math.max(actual.length, expected.transactions.length) }, (_, index) => index)
+      .filter(index => JSON.stringify(actual[index]) !== JSON.stringify(expected.transactions[index]));
+    const balanceMismatches = (['openingBalance', 'closingBalance'] as const)
+      .filter(key => JSON.stringify(parsed.balances[key]) !== JSON.stringify(expected[key]));
+
+    if (mismatches.length === 0 && balanceMismatches.length === 0) {
+      console.log(`ok    ${id} (${actual.length} transactions)`);
+      continue;
+    }
+    failures++;
+    console.log(`FAIL  ${id}`);
+    for (const key of balanceMismatches) {
+      console.log(`  ${key}\n    expected ${JSON.stringify(expected[key])}\n    actual   ${JSON.stringify(parsed.balances[key])}`);
+    }
+    for (const index of mismatches) {
+      console.log(`  row ${index + 1}\n    expected ${JSON.stringify(expected.transactions[index])}\n    actual   ${JSON.stringify(actual[index])}`);
+    }
+  } catch (error) {
+    failures++;
+    console.log(`FAIL  ${id}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+process.exitCode = failures > 0 ? 1 : 0;
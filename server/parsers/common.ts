@@ -0,0 +1,148 @@
+import type { ParsedTransaction } from './types';
+
+// Shared helpers for the statement parsers
+
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+// Words that suggest money coming in when a statement gives no sign or column
+const INCOME_HINTS = /deposit|salary|payroll|refund|interest|dividend|transfer in|credit/i;
+
+// Split PDF text into trimmed, non-empty lines with runs of whitespace collapsed
+export function toLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0);
+}
+
+// Build a UTC date so it survives the toISOString() conversion used by storage
+export function makeDate(year: number, month: number, day: number): Date | null {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== fullYear ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+}
+
+// Parse a numeric date such as 05/01/2024, 05.01.24 or 2024-01-05 in the given field order
+export function parseNumericDate(raw: string, order: 'MDY' | 'DMY' | 'YMD'): Date | null {
+  const parts = raw.split(/[./-]/).map(part => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) {
+    return null;
+  }
+
+  const [a, b, c] = parts;
+  switch (order) {
+    case 'MDY': return makeDate(c, a, b);
+    case 'DMY': return makeDate(c, b, a);
+    case 'YMD': return makeDate(a, b, c);
+  }
+}
+
+// Parse a date with a month name such as "05 Jan 2024", "5-Jan-24" or "Jan 5, 2024"
+export function parseMonthNameDate(raw: string): Date | null {
+  const dayFirst = raw.match(/^(\d{1,2})[\s-]([A-Za-z]{3,4})[\s-](\d{2,4})$/);
+  if (dayFirst) {
+    const month = MONTH_NAMES[dayFirst[2].toLowerCase()];
+    return month ? makeDate(parseInt(dayFirst[3], 10), month, parseInt(dayFirst[1], 10)) : null;
+  }
+
+  const monthFirst = raw.match(/^([A-Za-z]{3,4})\.? (\d{1,2}),? (\d{4})$/);
+  if (monthFirst) {
+    const month = MONTH_NAMES[monthFirst[1].toLowerCase()];
+    return month ? makeDate(parseInt(monthFirst[3], 10), month, parseInt(monthFirst[2], 10)) : null;
+  }
+
+  return null;
+}
+
+// Parse an amount such as "$1,234.56", "(45.00)", "1.234,56-" or "-12,30 €".
+// Returns a signed number, or null when the text is not an amount.
+export function parseAmount(raw: string, decimalSeparator: '.' | ','): number | null {
+  let value = raw.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+
+  // Currency symbols and codes around the number
+  value = value.replace(/[$£€]|\b(?:USD|EUR|GBP|CAD|AUD)\b/g, '').trim();
+
+  if (/^[-−]/.test(value)) {
+    negative = true;
+    value = value.slice(1);
+  } else if (/^\+/.test(value)) {
+    value = value.slice(1);
+  }
+  if (/-$/.test(value)) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+
+  value = value.trim();
+  if (decimalSeparator === ',') {
+    if (!/^\d{1,3}(?:[. ']?\d{3})*(?:,\d{1,2})?$/.test(value)) return null;
+    value = value.replace(/[. ']/g, '').replace(',', '.');
+  } else {
+    if (!/^\d{1,3}(?:[, ']?\d{3})*(?:\.\d{1,2})?$/.test(value)) return null;
+    value = value.replace(/[, ']/g, '');
+  }
+
+  const amount = parseFloat(value);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+// Work out whether an unsigned amount was money in or out.
+// A running balance is the most reliable signal; keywords are the fallback.
+export function resolveDirection(
+  amount: number,
+  description: string,
+  balance: number | null,
+  previousBalance: number | null,
+): 'income' | 'expense' {
+  if (balance !== null && previousBalance !== null) {
+    const delta = Math.round((balance - previousBalance) * 100);
+    const cents = Math.round(Math.abs(amount) * 100);
+    if (delta === cents) return 'income';
+    if (delta === -cents) return 'expense';
+  }
+  return INCOME_HINTS.test(description) ? 'income' : 'expense';
+}
+
+// Build a parsed transaction with the sign matching its type
+export function toTransaction(date: Date, description: string, amount: number, type: 'income' | 'expense'): ParsedTransaction {
+  const magnitude = Math.abs(amount);
+  return {
+    date,
+    description: description.trim().substring(0, 100),
+    amount: type === 'income' ? magnitude : -magnitude,
+    type,
+  };
+}
+
+// Detection score from the number of rows that look like transactions
+// and the number of layout-specific keywords found in the text
+export function detectionScore(rowMatches: number, keywordMatches: number): number {
+  if (rowMatches === 0) return 0;
+  const rowScore = 0.6 * Math.min(rowMatches, 10) / 10;
+  const keywordScore = 0.4 * Math.min(keywordMatches, 3) / 3;
+  return rowScore + keywordScore;
+}
+
+// Count how many of the patterns occur somewhere in the text
+export function countKeywords(text: string, patterns: RegExp[]): number {
+  return patterns.filter(pattern => pattern.test(text)).length;
+}
@@ -0,0 +1,84 @@
+import type { ParsedTransaction, StatementBalances, StatementParser } from './types';
+import {
+  toLines,
+  parseNumericDate,
+  parseMonthNameDate,
+  parseAmount,
+  toTransaction,
+  detectionScore,
+  countKeywords,
+} from './common';
+
+// Layout that marks every amount with a CR (credit) or DR (debit) suffix,
+// common on Australian, Indian and some business statements:
+//   2024-01-05  SALARY ACME PTY LTD       3,200.00 CR    5,430.10 CR
+//   05-Jan-2024 BPAY ORIGIN ENERGY          182.45 DR    5,247.65 CR
+// Dates are ISO (YYYY-MM-DD) or DD-Mon-YYYY.
+const ROW = /^(\d{4}-\d{2}-\d{2}|\d{1,2}[-\s][A-Za-z]{3}[-\s]\d{2,4})\s+(.+?)\s+([\d,]+\.\d{2})\s?(CR|DR|Cr|Dr)\b(?:\s+[\d,]+\.\d{2}\s?(?:CR|DR|Cr|Dr)?)?$/;
+
+const KEYWORDS = [
+  /\bCR\b/,
+  /\bDR\b/,
+  /opening balance|closing balance/i,
+  /BSB|IFSC|account number/i,
+];
+
+function parseDate(raw: string): Date | null {
+  return /^\d{4}-/.test(raw) ? parseNumericDate(raw, 'YMD') : parseMonthNameDate(raw);
+}
+
+// Read the transactions and the opening and closing balance rows in one pass
+function read(text: string): { transactions: ParsedTransaction[]; balances: StatementBalances } {
+  const transactions: ParsedTransaction[] = [];
+  const balances: StatementBalances = { openingBalance: null, closingBalance: null, periodStart: null, periodEnd: null };
+
+  for (const line of toLines(text)) {
+    const match = line.match(ROW);
+    if (!match) continue;
+
+    const date = parseDate(match[1]);
+    const amount = parseAmount(match[3], '.');
+    if (!date || amount === null) continue;
+
+    // Opening and closing balance rows carry a CR/DR figure but are not transactions;
+    // a DR balance is money owed
+    const balance = /^(opening|closing) balance$/i.exec(match[2]);
+    if (balance) {
+      const signed = match[4].toUpperCase() === 'DR' ? -amount : amount;
+      if (balance[1].toLowerCase() === 'opening') {
+        balances.openingBalance = signed;
+        balances.periodStart = date;
+      } else {
+        balances.closingBalance = signed;
+        balances.periodEnd = date;
+      }
+      continue;
+    }
+
+    const type = match[4].toUpperCase() === 'CR' ? 'income' : 'expense';
+    transactions.push(toTransaction(date, match[2], amount, type));
+  }
+
+  return { transactions, balances };
+}
+
+export const crDrSuffixParser: StatementParser = {
+  id: 'cr-dr-suffix',
+  name: 'CR/DR suffix (YYYY-MM-DD, 1,234.56 DR)',
+
+  detect(text: string): number {
+    const rows = toLines(text).filter(line => {
+      const match = line.match(ROW);
+      return match !== null && parseDate(match[1]) !== null;
+    });
+    return detectionScore(rows.length, countKeywords(text, KEYWORDS));
+  },
+
+  parse(text: string): ParsedTransaction[] {
+    return read(text).transactions;
+  },
+
+  balances(text: string): StatementBalances {
+    return read(text).balances;
+  },
+};
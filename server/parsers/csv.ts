@@ -0,0 +1,109 @@
+import type { CsvMapping } from '@shared/schema';
+import type { ParsedTransaction } from './types';
+import { parseNumericDate, parseAmount, toTransaction } from './common';
+
+// Bank CSV exports. Layouts vary too much to detect reliably, so the user maps
+// the columns once per bank and the mapping is saved as a CSV profile.
+
+const PREVIEW_ROWS = 5;
+
+export interface CsvPreview {
+  delimiter: string;
+  headers: string[];
+  rows: string[][];
+}
+
+// Split CSV text into rows of fields, honouring quoted fields with embedded
+// delimiters, newlines and doubled quotes
+export function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(fields => fields.some(value => value.length > 0));
+}
+
+// Guess the delimiter from whichever candidate splits the first line most often
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+// First few rows, for the column-mapping wizard
+export function previewCsv(text: string): CsvPreview {
+  const delimiter = detectDelimiter(text);
+  const [headers = [], ...rows] = parseCsvRows(text, delimiter);
+  return { delimiter, headers, rows: rows.slice(0, PREVIEW_ROWS) };
+}
+
+function readAmount(mapping: CsvMapping, fields: string[]): number | null {
+  if (mapping.amountColumn != null) {
+    const amount = parseAmount(fields[mapping.amountColumn] ?? '', mapping.decimalSeparator);
+    return amount === null ? null : mapping.negateAmounts ? -amount : amount;
+  }
+
+  // Separate columns: only one of the two is filled on each row
+  const debit = parseAmount(fields[mapping.debitColumn!] ?? '', mapping.decimalSeparator);
+  const credit = parseAmount(fields[mapping.creditColumn!] ?? '', mapping.decimalSeparator);
+  if (debit) return -Math.abs(debit);
+  if (credit) return Math.abs(credit);
+  return debit ?? credit;
+}
+
+// Read transactions from CSV text using a column mapping.
+// Rows without a valid date or amount (totals, notes) are skipped.
+export function parseCsvTransactions(text: string, mapping: CsvMapping): ParsedTransaction[] {
+  const rows = parseCsvRows(text, mapping.delimiter);
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const transactions: ParsedTransaction[] = [];
+
+  for (const fields of dataRows) {
+    const date = parseNumericDate(fields[mapping.dateColumn] ?? '', mapping.dateFormat);
+    const amount = readAmount(mapping, fields);
+    const description = fields[mapping.descriptionColumn] ?? '';
+
+    if (!date || amount === null || description.length === 0) continue;
+
+    transactions.push(toTransaction(date, description, amount, amount < 0 ? 'expense' : 'income'));
+  }
+
+  return transactions;
+}
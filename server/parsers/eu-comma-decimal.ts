@@ -0,0 +1,163 @@
+import type { ParsedTransaction, StatementBalances, StatementParser } from './types';
+import {
+  toLines,
+  parseNumericDate,
+  parseAmount,
+  resolveDirection,
+  toTransaction,
+  detectionScore,
+  countKeywords,
+} from './common';
+
+// Continental European layout with "1.234,56" amounts:
+//   05.01.2024 05.01.2024 Lastschrift REWE Markt        45,20 S     1.204,80 H
+//   06/01/2024 Transferencia recibida Nómina        +2.500,00    3.704,80
+//   07.01.2024 Kartenzahlung Bäckerei                 -3,40      3.701,40 EUR
+// Dates are DD.MM.YYYY or DD/MM/YYYY with an optional value date after the
+// booking date. The sign comes from a leading/trailing minus, an S (Soll, debit)
+// or H (Haben, credit) marker, or failing that the running balance.
+const DATE_TOKEN = /^\d{1,2}[./]\d{1,2}[./]\d{2,4}$/;
+const AMOUNT_TOKEN = /^[+-]?(?:\d{1,3}(?:\.\d{3})*|\d+),\d{2}-?$/;
+const MARKER_TOKEN = /^(S|H|EUR|€)$/;
+
+// Balance lines at the top and bottom of the statement, with an optional S/H marker
+const BALANCE_AMOUNT = /\b.*?([+-]?(?:\d{1,3}(?:\.\d{3})*|\d+),\d{2}-?)\s?(S|H)?$/;
+const OPENING = new RegExp(/^(?:alter saldo|saldo anterior|saldo inicial|ancien solde|solde précédent|saldo iniziale)/.source + BALANCE_AMOUNT.source, 'i');
+const CLOSING = new RegExp(/^(?:neuer saldo|saldo final|saldo actual|nouveau solde|solde final|saldo finale)/.source + BALANCE_AMOUNT.source, 'i');
+
+const KEYWORDS = [
+  /saldo|solde/i,
+  /buchung|umsatz|wertstellung/i,
+  /fecha|concepto|importe|montant|libellé/i,
+  /EUR|€/,
+];
+
+interface Row {
+  date: Date;
+  description: string;
+  amount: number;
+  // Written with a leading "+"
+  explicitCredit: boolean;
+  amountMarker: string | null;
+  balance: number | null;
+}
+
+// French statements group thousands with spaces ("1 234,56"); join them into one token
+function joinSpacedThousands(line: string): string {
+  return line.replace(/(\d) (?=\d{3}(?: \d{3})*,\d{2}\b)/g, '$1');
+}
+
+function parseBalanceLine(match: RegExpMatchArray): number | null {
+  const balance = parseAmount(match[1], ',');
+  return balance !== null && match[2] === 'S' ? -Math.abs(balance) : balance;
+}
+
+function parseRow(line: string): Row | null {
+  const tokens = joinSpacedThousands(line).split(' ');
+  if (tokens.length < 3 || !DATE_TOKEN.test(tokens[0])) return null;
+
+  const date = parseNumericDate(tokens[0], 'DMY');
+  if (!date) return null;
+
+  // Skip the optional value date
+  let start = 1;
+  if (DATE_TOKEN.test(tokens[1])) start = 2;
+
+  // Read amounts (with their S/H markers) from the end of the line
+  const trailing: { value: number; raw: string; marker: string | null }[] = [];
+  let end = tokens.length;
+  while (end > start && trailing.length < 2) {
+    let marker: string | null = null;
+    if (MARKER_TOKEN.test(tokens[end - 1]) && end - 1 > start) {
+      marker = tokens[end - 1];
+      end--;
+    }
+    if (!AMOUNT_TOKEN.test(tokens[end - 1])) {
+      if (marker) end++;
+      break;
+    }
+    const value = parseAmount(tokens[end - 1], ',');
+    if (value === null) break;
+    trailing.unshift({ value, raw: tokens[end - 1], marker });
+    end--;
+  }
+
+  if (trailing.length === 0 || end <= start) return null;
+
+  const [first, second] = trailing;
+  return {
+    date,
+    description: tokens.slice(start, end).join(' '),
+    amount: first.value,
+    explicitCredit: first.raw.startsWith('+'),
+    amountMarker: first.marker,
+    balance: second ? (second.marker === 'S' ? -Math.abs(second.value) : second.value) : null,
+  };
+}
+
+// Read the transactions and the opening and closing balances in one pass
+function read(text: string): { transactions: ParsedTransaction[]; balances: StatementBalances } {
+  const transactions: ParsedTransaction[] = [];
+  let previousBalance: number | null = null;
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  let runningBalance: number | null = null;
+
+  for (const line of toLines(text)) {
+    const opening = joinSpacedThousands(line).match(OPENING);
+    if (opening) {
+      previousBalance = openingBalance = parseBalanceLine(opening);
+      continue;
+    }
+
+    const closing = joinSpacedThousands(line).match(CLOSING);
+    if (closing) {
+      closingBalance = parseBalanceLine(closing);
+      continue;
+    }
+
+    const row = parseRow(line);
+    if (!row) continue;
+
+    let type: 'income' | 'expense';
+    if (row.amount < 0 || row.amountMarker === 'S') {
+      type = 'expense';
+    } else if (row.amountMarker === 'H' || row.explicitCredit) {
+      type = 'income';
+    } else {
+      type = resolveDirection(row.amount, row.description, row.balance, previousBalance);
+    }
+
+    transactions.push(toTransaction(row.date, row.description, row.amount, type));
+    if (row.balance !== null) previousBalance = runningBalance = row.balance;
+  }
+
+  return {
+    transactions,
+    balances: {
+      openingBalance,
+      // Without a closing balance line, the last running balance is the closing one
+      closingBalance: closingBalance ?? runningBalance,
+      periodStart: null,
+      periodEnd: null,
+    },
+  };
+}
+
+export const euCommaDecimalParser: StatementParser = {
+  id: 'eu-comma-decimal',
+  name: 'European (DD.MM.YYYY, 1.234,56)',
+
+  detect(text: string): number {
+    const rows = toLines(text).filter(line => parseRow(line) !== null);
+    return detectionScore(rows.length, countKeywords(text, KEYWORDS));
+  },
+
+  parse(text: string): ParsedTransaction[] {
+    return read(text).transactions;
+  },
+
+  balances(text: string): StatementBalances {
+    return read(text).balances;
+  },
+};
@@ -0,0 +1,76 @@
+import type { ParsedTransaction, StatementBalances, StatementParser } from './types';
+import { usCheckingParser } from './us-checking';
+import { ukPaidInOutParser } from './uk-paid-in-out';
+import { euCommaDecimalParser } from './eu-comma-decimal';
+import { crDrSuffixParser } from './cr-dr-suffix';
+
+export type { ParsedTransaction, StatementBalances, StatementParser } from './types';
+export { previewCsv, parseCsvTransactions } from './csv';
+export type { CsvPreview } from './csv';
+export { isOfx, parseOfxTransactions, parseOfxBalances } from './ofx';
+
+// Below this score no parser is trusted with the statement
+const MIN_DETECTION_SCORE = 0.2;
+
+// Registered statement layouts; add new bank formats here
+const parsers: StatementParser[] = [
+  usCheckingParser,
+  ukPaidInOutParser,
+  euCommaDecimalParser,
+  crDrSuffixParser,
+];
+
+export function registerParser(parser: StatementParser) {
+  if (parsers.some(existing => existing.id === parser.id)) {
+    throw new Error(`A statement parser with id "${parser.id}" is already registered`);
+  }
+  parsers.push(parser);
+}
+
+export function listParsers(): { id: string; name: string }[] {
+  return parsers.map(({ id, name }) => ({ id, name }));
+}
+
+export function getParser(id: string): StatementParser | undefined {
+  return parsers.find(parser => parser.id === id);
+}
+
+// Pick the parser whose layout best matches the statement text
+export function detectParser(text: string): StatementParser | undefined {
+  let best: { parser: StatementParser; score: number } | undefined;
+
+  for (const parser of parsers) {
+    const score = parser.detect(text);
+    if (score >= MIN_DETECTION_SCORE && (!best || score > best.score)) {
+      best = { parser, score };
+    }
+  }
+
+  return best?.parser;
+}
+
+// Extract transactions and printed balances from statement text, either with the requested parser or by detection
+export function parseStatement(text: string, parserId?: string): {
+  parser: StatementParser | undefined;
+  transactions: ParsedTransaction[];
+  balances: StatementBalances;
+} {
+  const parser = parserId ? getParser(parserId) : detectParser(text);
+  const transactions = parser ? parser.parse(text) : [];
+  return {
+    parser,
+    transactions,
+    balances: withStatementPeriod(parser?.balances?.(text), transactions),
+  };
+}
+
+// Fill in a statement period the layout does not print from its first and last transactions
+export function withStatementPeriod(balances: StatementBalances | undefined, transactions: ParsedTransaction[]): StatementBalances {
+  const times = transactions.map(transaction => transaction.date.getTime());
+  return {
+    openingBalance: balances?.openingBalance ?? null,
+    closingBalance: balances?.closingBalance ?? null,
+    periodStart: balances?.periodStart ?? (times.length > 0 ? new Date(Math.min(...times)) : null),
+    periodEnd: balances?.periodEnd ?? (times.length > 0 ? new Date(Math.max(...times)) : null),
+  };
+}
@@ -0,0 +1,79 @@
+import type { ParsedTransaction, StatementBalances } from './types';
+import { makeDate, toTransaction } from './common';
+
+// OFX and QFX (Quicken's OFX variant) statement downloads. Both the SGML form
+// of OFX 1.x, where leaf elements have no closing tags, and the XML form of
+// OFX 2.x are handled: every transaction is a <STMTTRN> aggregate.
+//   <STMTTRN>
+//     <TRNTYPE>DEBIT
+//     <DTPOSTED>20240105120000[-5:EST]
+//     <TRNAMT>-45.20
+//     <FITID>2024010500001
+//     <NAME>TESCO STORES 2231
+//   </STMTTRN>
+
+const TRANSACTION_BLOCK = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+
+export function isOfx(text: string): boolean {
+  return /<OFX>/i.test(text) && /<STMTTRN>/i.test(text);
+}
+
+// Value of a leaf element, whether or not it has a closing tag
+function element(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// OFX dates are YYYYMMDD optionally followed by a time and timezone
+function parseOfxDate(raw: string | undefined): Date | null {
+  const match = raw?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return makeDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+}
+
+export function parseOfxTransactions(text: string): ParsedTransaction[] {
+  const transactions: ParsedTransaction[] = [];
+
+  for (const [, block] of Array.from(text.matchAll(TRANSACTION_BLOCK))) {
+    const date = parseOfxDate(element(block, 'DTPOSTED') ?? element(block, 'DTUSER'));
+    const amount = parseFloat((element(block, 'TRNAMT') ?? '').replace(',', '.'));
+    const name = element(block, 'NAME');
+    const memo = element(block, 'MEMO');
+
+    if (!date || isNaN(amount)) continue;
+
+    const description = name && memo && !name.includes(memo) ? `${name} ${memo}` : name ?? memo ?? element(block, 'TRNTYPE') ?? 'OFX transaction';
+    transactions.push({
+      ...toTransaction(date, description, amount, amount < 0 ? 'expense' : 'income'),
+      externalId: element(block, 'FITID'),
+    });
+  }
+
+  return transactions;
+}
+
+// OFX gives the ledger balance at the end of the download and the period it covers;
+// the opening balance is what the closing one was before these transactions
+export function parseOfxBalances(text: string): StatementBalances {
+  const ledgerBalance = text.match(/<LEDGERBAL>([\s\S]*?)(?:<\/LEDGERBAL>|$)/i)?.[1];
+  const closing = ledgerBalance ? parseFloat((element(ledgerBalance, 'BALAMT') ?? '').replace(',', '.')) : NaN;
+  const closingBalance = isNaN(closing) ? null : closing;
+  const total = parseOfxTransactions(text).reduce((sum, transaction) => sum + transaction.amount, 0);
+
+  return {
+    openingBalance: closingBalance === null ? null : Math.round((closingBalance - total) * 100) / 100,
+    closingBalance,
+    periodStart: parseOfxDate(element(text, 'DTSTART')),
+    periodEnd: parseOfxDate(element(text, 'DTEND')),
+  };
+}
@@ -0,0 +1,28 @@
+// A transaction read from a statement, before it is categorised and saved
+export interface ParsedTransaction {
+  date: Date;
+  description: string;
+  // Signed amount: negative for money going out, positive for money coming in
+  amount: number;
+  type: 'income' | 'expense';
+  // Bank-assigned id that stays the same across exports (e.g. OFX FITID)
+  externalId?: string;
+}
+
+// Balances and period printed on a statement; null where the statement does not show them
+export interface StatementBalances {
+  openingBalance: number | null;
+  closingBalance: number | null;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+}
+
+// One bank statement layout. Parsers are registered in ./index.ts.
+export interface StatementParser {
+  id: string;
+  name: string;
+  // How well the text matches this layout, from 0 (not at all) to 1 (certain)
+  detect(text: string): number;
+  parse(text: string): ParsedTransaction[];
+  balances?(text: string): StatementBalances;
+}
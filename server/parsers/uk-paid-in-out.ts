@@ -0,0 +1,126 @@
+import type { ParsedTransaction, StatementBalances, StatementParser } from './types';
+import {
+  toLines,
+  parseNumericDate,
+  parseMonthNameDate,
+  parseAmount,
+  resolveDirection,
+  toTransaction,
+  detectionScore,
+  countKeywords,
+} from './common';
+
+// UK current account layout with "Paid out" / "Paid in" / "Balance" columns:
+//   05 Jan 2024  CARD PAYMENT TESCO STORES     45.20           1,204.80
+//                DIRECT DEBIT COUNCIL TAX     120.00           1,084.80
+//   06/01/2024   FASTER PAYMENT J SMITH                250.00  1,334.80
+// Only one of the two amount columns is filled, and the PDF text loses which
+// one, so the direction comes from how the running balance moved.
+// The date is printed once per day; following rows reuse it.
+const DATE = /^(\d{1,2} [A-Za-z]{3,4} \d{2,4}|\d{1,2}\/\d{1,2}\/\d{2,4})\s+(.+)$/;
+const AMOUNTS = /^(.+?)\s+(£?[\d,]+\.\d{2})(?:\s+(£?-?[\d,]+\.\d{2})\s?(CR|DR|OD)?)?$/;
+
+const KEYWORDS = [
+  /£/,
+  /paid out|money out/i,
+  /paid in|money in/i,
+  /sort code|brought forward/i,
+];
+
+function parseDate(raw: string): Date | null {
+  return raw.includes('/') ? parseNumericDate(raw, 'DMY') : parseMonthNameDate(raw);
+}
+
+function parseBalance(raw: string | undefined, suffix: string | undefined): number | null {
+  if (!raw) return null;
+  const balance = parseAmount(raw, '.');
+  if (balance === null) return null;
+  // "OD" or "DR" marks an overdrawn balance
+  return suffix === 'OD' || suffix === 'DR' ? -Math.abs(balance) : balance;
+}
+
+// Read the transactions and the brought/carried forward balances in one pass
+function read(text: string): { transactions: ParsedTransaction[]; balances: StatementBalances } {
+  const transactions: ParsedTransaction[] = [];
+  let currentDate: Date | null = null;
+  let previousBalance: number | null = null;
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  let periodStart: Date | null = null;
+  let periodEnd: Date | null = null;
+  let runningBalance: number | null = null;
+
+  for (const line of toLines(text)) {
+    let rest = line;
+    const dated = line.match(DATE);
+    if (dated) {
+      const date = parseDate(dated[1]);
+      if (date) {
+        currentDate = date;
+        rest = dated[2];
+      }
+    }
+
+    const match = rest.match(AMOUNTS);
+    if (!match) continue;
+
+    const description = match[1];
+    const amount = parseAmount(match[2], '.');
+    const balance = parseBalance(match[3], match[4]);
+
+    if (/balance (brought|carried) forward|opening balance|closing balance/i.test(description)) {
+      // A lone figure on these rows is the balance itself
+      previousBalance = balance ?? amount;
+      // The dates on these rows bound the statement period
+      if (/brought forward|opening/i.test(description)) {
+        if (openingBalance === null) {
+          openingBalance = previousBalance;
+          periodStart = currentDate;
+        }
+      } else {
+        closingBalance = previousBalance;
+        periodEnd = currentDate;
+      }
+      continue;
+    }
+
+    // Rows before the first date are headers; totals rows are summaries
+    if (!currentDate || amount === null || /^totals?\b/i.test(description)) continue;
+
+    const type = resolveDirection(amount, description, balance, previousBalance);
+    transactions.push(toTransaction(currentDate, description, amount, type));
+    if (balance !== null) previousBalance = runningBalance = balance;
+  }
+
+  return {
+    transactions,
+    balances: {
+      openingBalance,
+      // Without a carried forward row, the last running balance is the closing one
+      closingBalance: closingBalance ?? runningBalance,
+      periodStart,
+      periodEnd,
+    },
+  };
+}
+
+export const ukPaidInOutParser: StatementParser = {
+  id: 'uk-paid-in-out',
+  name: 'UK paid in / paid out (DD/MM/YYYY, £)',
+
+  detect(text: string): number {
+    const rows = toLines(text).filter(line => {
+      const dated = line.match(DATE);
+      return dated !== null && parseDate(dated[1]) !== null && AMOUNTS.test(dated[2]);
+    });
+    return detectionScore(rows.length, countKeywords(text, KEYWORDS));
+  },
+
+  parse(text: string): ParsedTransaction[] {
+    return read(text).transactions;
+  },
+
+  balances(text: string): StatementBalances {
+    return read(text).balances;
+  },
+};
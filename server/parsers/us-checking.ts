@@ -0,0 +1,141 @@
+import type { ParsedTransaction, StatementBalances, StatementParser } from './types';
+import {
+  toLines,
+  makeDate,
+  parseNumericDate,
+  parseAmount,
+  resolveDirection,
+  toTransaction,
+  detectionScore,
+  countKeywords,
+} from './common';
+
+// US checking account layout:
+//   01/05/2024  PAYROLL ACME CORP           2,500.00    4,120.33
+//   01/07       AMAZON MKTPLACE            -$45.99
+// Dates are MM/DD with an optional year, amounts use "." decimals and may be
+// negative, in parentheses, or listed under "Withdrawals"/"Deposits" sections.
+const ROW = /^(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\s+(.+?)\s+(\(?-?\$?[\d,]+\.\d{2}\)?)(?:\s+(\(?-?\$?[\d,]+\.\d{2}\)?))?$/;
+
+const PERIOD = /(\d{1,2}\/\d{1,2}\/\d{2,4})\s*(?:-|–|to|through)\s*(\d{1,2}\/\d{1,2}\/\d{2,4})/i;
+
+const OPENING = /^(beginning|opening|previous) balance\s+(-?\$?[\d,]+\.\d{2})$/i;
+const CLOSING = /^(ending|closing|new) balance\s+(-?\$?[\d,]+\.\d{2})$/i;
+
+const KEYWORDS = [
+  /\$/,
+  /withdrawals|debits/i,
+  /deposits|credits/i,
+  /checking|routing number/i,
+];
+
+// Statement rows without a year take it from the statement period,
+// rolling back a year for December rows on a January statement
+function yearFor(month: number, day: number, periodEnd: Date | null): number {
+  if (!periodEnd) {
+    return new Date().getUTCFullYear();
+  }
+  const year = periodEnd.getUTCFullYear();
+  const candidate = makeDate(year, month, day);
+  return candidate && candidate > periodEnd ? year - 1 : year;
+}
+
+// Read the transactions and the printed balances in one pass
+function read(text: string): { transactions: ParsedTransaction[]; balances: StatementBalances } {
+  const lines = toLines(text);
+  const periodMatch = text.match(PERIOD);
+  const periodEnd = periodMatch ? parseNumericDate(periodMatch[2], 'MDY') : null;
+
+  const transactions: ParsedTransaction[] = [];
+  let section: 'debit' | 'credit' | null = null;
+  let previousBalance: number | null = null;
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  let runningBalance: number | null = null;
+
+  for (const line of lines) {
+    if (/^(withdrawals|debits|checks|purchases|other withdrawals)\b/i.test(line)) {
+      section = 'debit';
+      continue;
+    }
+    if (/^(deposits|credits|other deposits)\b/i.test(line)) {
+      section = 'credit';
+      continue;
+    }
+
+    const beginning = line.match(OPENING);
+    if (beginning) {
+      previousBalance = parseAmount(beginning[2], '.');
+      openingBalance = previousBalance;
+      continue;
+    }
+
+    const ending = line.match(CLOSING);
+    if (ending) {
+      closingBalance = parseAmount(ending[2], '.');
+      continue;
+    }
+
+    const match = line.match(ROW);
+    if (!match) continue;
+
+    const month = parseInt(match[1], 10);
+    const day = parseInt(match[2], 10);
+    const year = match[3] ? parseInt(match[3], 10) : yearFor(month, day, periodEnd);
+    const date = makeDate(year, month, day);
+    const amount = parseAmount(match[5], '.');
+    const balance = match[6] ? parseAmount(match[6], '.') : null;
+
+    if (!date || amount === null) continue;
+
+    const description = match[4];
+    let type: 'income' | 'expense';
+    if (amount < 0) {
+      type = 'expense';
+    } else if (section) {
+      type = section === 'debit' ? 'expense' : 'income';
+    } else {
+      type = resolveDirection(amount, description, balance, previousBalance);
+    }
+
+    transactions.push(toTransaction(date, description, amount, type));
+    if (balance !== null) previousBalance = runningBalance = balance;
+  }
+
+  return {
+    transactions,
+    balances: {
+      openingBalance,
+      // Without an "Ending balance" line, the last running balance is the closing one
+      closingBalance: closingBalance ?? runningBalance,
+      periodStart: periodMatch ? parseNumericDate(periodMatch[1], 'MDY') : null,
+      periodEnd,
+    },
+  };
+}
+
+export const usCheckingParser: StatementParser = {
+  id: 'us-checking',
+  name: 'US checking (MM/DD/YYYY, $1,234.56)',
+
+  detect(text: string): number {
+    const rows = toLines(text)
+      .map(line => line.match(ROW))
+      .filter((match): match is RegExpMatchArray => match !== null);
+
+    // A first field above 12 can only be a day, so this is not a US layout
+    if (rows.some(match => parseInt(match[1], 10) > 12)) {
+      return 0;
+    }
+
+    return detectionScore(rows.length, countKeywords(text, KEYWORDS));
+  },
+
+  parse(text: string): ParsedTransaction[] {
+    return read(text).transactions;
+  },
+
+  balances(text: string): StatementBalances {
+    return read(text).balances;
+  },
+};
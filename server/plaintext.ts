@@ -0,0 +1,677 @@
+import { accountTypes, TRANSFER_CATEGORY } from "@shared/schema";
+import type { Account, AccountStatement, AccountType, Category } from "@shared/schema";
+import { parentNames } from "./categories";
+import { toCents } from "./duplicates";
+import { writeChunked } from "./exports";
+import type { ExportRow, ExportSink } from "./exports";
+
+// Where money that went through none of the user's accounts is kept
+const UNASSIGNED_ACCOUNT = "Assets:Unassigned";
+const OPENING_BALANCES_ACCOUNT = "Equity:Opening-Balances";
+
+// Account types whose balance is money owed
+const LIABILITY_TYPES: AccountType[] = ["credit_card", "loan"];
+
+// Everything a Beancount or Ledger file is written from
+export interface PlaintextLedger {
+  rows: ExportRow[];
+  categories: Category[];
+  // Balance before the period, for each account whose every transaction in the period is exported
+  openingBalances: Map<number, number>;
+  // Statements of those accounts; the reconciled ones become balance assertions
+  statements: AccountStatement[];
+  baseCurrency: string;
+  period: { from: string; to: string };
+}
+
+interface Posting {
+  account: string;
+  amount: number;
+  currency: string;
+}
+
+interface JournalTransaction {
+  date: string;
+  cleared: boolean;
+  description: string;
+  externalId: string | null;
+  postings: Posting[];
+}
+
+interface Assertion {
+  // Last day the balance covers
+  date: string;
+  account: string;
+  amount: number;
+  currency: string;
+  // The statement's closing balance differs from the exported transactions', e.g. when the
+  // account's opening balance was never set to the bank's
+  difference: number;
+}
+
+interface Journal {
+  // Date each account is first used, and what it stands for in the app
+  opens: Map<string, { date: string; meta: Record<string, string> }>;
+  transactions: JournalTransaction[];
+  assertions: Assertion[];
+}
+
+// One component of an account name: the words of a name run together with dashes, as
+// Beancount only allows letters, digits and dashes, starting with a capital or a digit
+export function accountComponent(name: string): string {
+  const words = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  if (words.length === 0) return 'Unnamed';
+  return words.map(word => word[0].toUpperCase() + word.slice(1)).join('-');
+}
+
+// Names of the user's accounts and categories in a plain-text ledger: accounts under Assets
+// or Liabilities, categories under Expenses or Income with subcategories below their parent.
+// Two names that come out the same are told apart by a number.
+export function ledgerNames(accounts: Account[], categories: Category[]) {
+  const taken = new Set([UNASSIGNED_ACCOUNT, OPENING_BALANCES_ACCOUNT]);
+  const claim = (name: string) => {
+    let unique = name;
+    for (let suffix = 2; taken.has(unique); suffix++) {
+      unique = `${name}-${suffix}`;
+    }
+    taken.add(unique);
+    return unique;
+  };
+
+  const accountNames = new Map<number, string>();
+  for (const account of [...accounts].sort((a, b) => a.id - b.id)) {
+    const root = LIABILITY_TYPES.includes(account.type as AccountType) ? 'Liabilities' : 'Assets';
+    accountNames.set(account.id, claim(`${root}:${accountComponent(account.name)}`));
+  }
+
+  const parentOf = parentNames(categories);
+  const categoryNames = new Map<string, string>();
+  const category = (name: string, type: string) => {
+    const root = type === 'income' ? 'Income' : 'Expenses';
+    const key = `${root}|${name}`;
+    let path = categoryNames.get(key);
+    if (!path) {
+      const parent = parentOf.get(name) ?? name;
+      path = claim([root, ...(parent !== name ? [accountComponent(parent)] : []), accountComponent(name)].join(':'));
+      categoryNames.set(key, path);
+    }
+    return path;
+  };
+
+  return {
+    account: (account: Account | null) => (account ? accountNames.get(account.id) ?? UNASSIGNED_ACCOUNT : UNASSIGNED_ACCOUNT),
+    category,
+  };
+}
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+// The double-entry view of the exported rows shared by both formats. A transfer is one
+// transaction between two accounts, written once when both legs are exported; income and
+// spending post against the category's account.
+function buildJournal(ledger: PlaintextLedger): Journal {
+  const accounts = new Map<number, Account>();
+  for (const row of ledger.rows) {
+    if (row.account) accounts.set(row.account.id, row.account);
+    if (row.transferAccount) accounts.set(row.transferAccount.id, row.transferAccount);
+  }
+  const names = ledgerNames(Array.from(accounts.values()), ledger.categories);
+
+  const opens = new Map<string, { date: string; meta: Record<string, string> }>();
+  const use = (name: string, date: string, meta: Record<string, string>) => {
+    const open = opens.get(name);
+    if (!open) {
+      opens.set(name, { date, meta });
+    } else if (date < open.date) {
+      open.date = date;
+    }
+  };
+  const accountMeta = (account: Account | null): Record<string, string> =>
+    (account ? { name: account.name, type: account.type } : {});
+
+  const exported = new Map(ledger.rows.map(row => [row.transaction.id, row]));
+  const transactions: JournalTransaction[] = [];
+  for (const row of ledger.rows) {
+    const { transaction } = row;
+    const amount = Number(transaction.amount);
+    const postings: Posting[] = [{ account: names.account(row.account), amount, currency: transaction.currency }];
+    use(postings[0].account, transaction.date, accountMeta(row.account));
+
+    if (transaction.transferId !== null) {
+      const other = exported.get(transaction.transferId);
+      if (other && (amount > 0 || (amount === 0 && transaction.id > other.transaction.id))) continue;
+      const otherAccount = other ? other.account : row.transferAccount;
+      postings.push({
+        account: names.account(otherAccount),
+        amount: other ? Number(other.transaction.amount) : -amount,
+        currency: other ? other.transaction.currency : transaction.currency,
+      });
+      use(postings[1].account, transaction.date, accountMeta(otherAccount));
+    } else {
+      postings.push({ account: names.category(transaction.category, transaction.type), amount: -amount, currency: transaction.currency });
+      use(postings[1].account, transaction.date, { category: transaction.category });
+    }
+
+    transactions.push({
+      date: transaction.date,
+      cleared: transaction.status !== 'uncleared',
+      description: transaction.description.replace(/\s+/g, ' ').trim(),
+      externalId: transaction.externalId,
+      postings,
+    });
+  }
+
+  const assertions: Assertion[] = [];
+  const openings: JournalTransaction[] = [];
+  for (const account of Array.from(accounts.values())) {
+    const opening = ledger.openingBalances.get(account.id);
+    if (opening === undefined) continue;
+    const name = names.account(account);
+
+    // Only transactions in the account's own currency count towards a balance in it
+    const own = ledger.rows.filter(row => row.account?.id === account.id && row.transaction.currency === account.currency);
+    for (const statement of ledger.statements) {
+      if (statement.accountId !== account.id || statement.reconciledAt === null || statement.closingBalance === null) continue;
+      if (statement.periodEnd < ledger.period.from || statement.periodEnd > ledger.period.to) continue;
+      const balance = own
+        .filter(row => row.transaction.date <= statement.periodEnd)
+        .reduce((sum, row) => sum + toCents(row.transaction.amount), toCents(opening));
+      assertions.push({
+        date: statement.periodEnd,
+        account: name,
+        amount: Number(statement.closingBalance),
+        currency: account.currency,
+        difference: (toCents(statement.closingBalance) - balance) / 100,
+      });
+      use(name, statement.periodEnd, accountMeta(account));
+    }
+
+    if (toCents(opening) === 0 || !opens.has(name)) continue;
+    const date = opens.get(name)!.date;
+    use(OPENING_BALANCES_ACCOUNT, date, {});
+    openings.push({
+      date,
+      cleared: true,
+      description: 'Opening balance',
+      externalId: null,
+      postings: [
+        { account: name, amount: opening, currency: account.currency },
+        { account: OPENING_BALANCES_ACCOUNT, amount: -opening, currency: account.currency },
+      ],
+    });
+  }
+
+  return {
+    opens,
+    transactions: [...openings, ...transactions].sort((a, b) => a.date.localeCompare(b.date)),
+    assertions: assertions.sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+const formatAmount = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+
+// Entries in date order; on the same day, lower `order` first
+function inDateOrder<T extends { date: string; order: number }>(entries: T[]): T[] {
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || a.order - b.order);
+}
+
+const beancountString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// A Beancount file that passes bean-check. Each account's `open` carries the name it has in
+// the app, so the Beancount import can map it back. Reconciled statements become `balance`
+// assertions, dated the day after the statement closes as Beancount checks them before
+// that day's transactions.
+export async function writeBeancount(ledger: PlaintextLedger, sink: ExportSink): Promise<void> {
+  const journal = buildJournal(ledger);
+  const metadata = (meta: Record<string, string>) =>
+    Object.entries(meta).map(([key, value]) => `  ${key}: ${beancountString(value)}\n`).join('');
+
+  const entries = inDateOrder<{ date: string; order: number; text: string }>([
+    ...Array.from(journal.opens.entries()).map(([account, open]) => ({
+      date: open.date,
+      order: 0,
+      text: `${open.date} open ${account}\n${metadata(open.meta)}`,
+    })),
+    ...journal.assertions.map(assertion => ({
+      date: nextDay(assertion.date),
+      order: 1,
+      text: assertion.difference === 0
+        ? `${nextDay(assertion.date)} balance ${assertion.account}  ${formatAmount(assertion.amount, assertion.currency)}\n`
+        : `; ${assertion.account} closed its statement on ${assertion.date} at ${formatAmount(assertion.amount, assertion.currency)}, ${formatAmount(assertion.difference, assertion.currency)} away from these transactions\n`,
+    })),
+    ...journal.transactions.map(transaction => ({
+      date: transaction.date,
+      order: 2,
+      text: `${transaction.date} ${transaction.cleared ? '*' : '!'} ${beancountString(transaction.description)}\n`
+        + (transaction.externalId ? metadata({ 'external-id': transaction.externalId }) : '')
+        + transaction.postings.map(posting => `  ${posting.account}  ${formatAmount(posting.amount, posting.currency)}\n`).join(''),
+    })),
+  ]);
+
+  await sink(
+    `option "title" ${beancountString(`Transactions ${ledger.period.from} to ${ledger.period.to}`)}\n`
+    + `option "operating_currency" ${beancountString(ledger.baseCurrency)}\n\n`,
+  );
+  await writeChunked(sink, entries, entry => `${entry.text}\n`);
+}
+
+// A Ledger journal, also readable by hledger. Uncleared transactions carry no mark, and a
+// reconciled statement's closing balance is asserted on a zero posting on its last day.
+export async function writeLedger(ledger: PlaintextLedger, sink: ExportSink): Promise<void> {
+  const journal = buildJournal(ledger);
+
+  const entries = inDateOrder<{ date: string; order: number; text: string }>([
+    ...journal.transactions.map(transaction => ({
+      date: transaction.date,
+      order: 0,
+      text: `${transaction.date}${transaction.cleared ? ' *' : ''} ${transaction.description}\n`
+        + (transaction.externalId ? `    ; external-id: ${transaction.externalId}\n` : '')
+        + transaction.postings.map(posting => `    ${posting.account}  ${formatAmount(posting.amount, posting.currency)}\n`).join(''),
+    })),
+    ...journal.assertions.map(assertion => ({
+      date: assertion.date,
+      order: 1,
+      text: assertion.difference === 0
+        ? `${assertion.date} * Statement balance\n    ${assertion.account}  ${formatAmount(0, assertion.currency)} = ${formatAmount(assertion.amount, assertion.currency)}\n`
+        : `; ${assertion.account} closed its statement on ${assertion.date} at ${formatAmount(assertion.amount, assertion.currency)}, ${formatAmount(assertion.difference, assertion.currency)} away from these transactions\n`,
+    })),
+  ]);
+
+  await sink(
+    Array.from(journal.opens.keys()).sort().map(account => `account ${account}\n`).join('') + '\n',
+  );
+  await writeChunked(sink, entries, entry => `${entry.text}\n`);
+}
+
+// A posting read from a Beancount file. `amount` is null where Beancount leaves it to be
+// worked out from the other postings, until the file is parsed.
+export interface BeancountPosting {
+  account: string;
+  amount: number | null;
+  currency: string | null;
+  // What the posting is worth in the transaction's other currency, from an `@` or `@@` price
+  cost: { amount: number; currency: string } | null;
+}
+
+export interface BeancountTransaction {
+  line: number;
+  date: string;
+  flag: string;
+  payee: string | null;
+  narration: string;
+  meta: Record<string, string>;
+  postings: BeancountPosting[];
+}
+
+export interface BeancountOpen {
+  date: string;
+  currencies: string[];
+  meta: Record<string, string>;
+}
+
+export interface BeancountFile {
+  opens: Map<string, BeancountOpen>;
+  transactions: BeancountTransaction[];
+  // Directives left out of the import, such as `pad`
+  ignored: { line: number; reason: string }[];
+  errors: { line: number; message: string }[];
+}
+
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+// Beancount also allows letters beyond ASCII in account names
+const ACCOUNT = /^(Assets|Liabilities|Equity|Income|Expenses)(:[A-Z0-9\u00C0-\uFFFF][A-Za-z0-9\u00C0-\uFFFF-]*)+$/;
+const CURRENCY = /^[A-Z][A-Z0-9'._-]{0,22}[A-Z0-9]$|^[A-Z]$/;
+const TRANSACTION_FLAGS = "*!&#?%PSTCURM";
+
+// Directives with no bearing on the transactions
+const PASSIVE_DIRECTIVES = new Set(["close", "commodity", "price", "note", "document", "event", "query", "custom", "balance"]);
+
+// Split a line into tokens, keeping quoted strings whole and dropping a trailing comment
+function tokenize(line: string): string[] | null {
+  const tokens: string[] = [];
+  let index = 0;
+  while (index < line.length) {
+    const char = line[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === ';') {
+      break;
+    } else if (char === '"') {
+      let value = '';
+      index++;
+      while (index < line.length && line[index] !== '"') {
+        if (line[index] === '\\' && index + 1 < line.length) index++;
+        value += line[index++];
+      }
+      if (index >= line.length) return null;
+      index++;
+      tokens.push(`"${value}`);
+    } else {
+      const start = index;
+      while (index < line.length && !/[\s;"]/.test(line[index])) index++;
+      tokens.push(line.slice(start, index));
+    }
+  }
+  return tokens;
+}
+
+const isString = (token: string | undefined): token is string => token?.startsWith('"') ?? false;
+const unquote = (token: string) => (token.startsWith('"') ? token.slice(1) : token);
+
+// Beancount numbers may carry thousands separators and simple arithmetic is not supported
+function parseNumber(token: string | undefined): number | null {
+  if (!token || !/^[-+]?[\d,]*\.?\d+$/.test(token)) return null;
+  return Number(token.replace(/,/g, ''));
+}
+
+function parsePosting(tokens: string[]): BeancountPosting | string {
+  let index = TRANSACTION_FLAGS.includes(tokens[0]) && tokens[0].length === 1 ? 1 : 0;
+  const account = tokens[index++];
+  if (!ACCOUNT.test(account)) return `"${account}" is not an account name`;
+  if (index >= tokens.length) return { account, amount: null, currency: null, cost: null };
+
+  const amount = parseNumber(tokens[index++]);
+  const currency = tokens[index++];
+  if (amount === null || !currency || !CURRENCY.test(currency)) return `The amount of ${account} could not be read`;
+
+  // A lot's cost basis (`{...}`) is what was paid, which is what the app records
+  let cost: BeancountPosting["cost"] = null;
+  if (tokens[index]?.startsWith('{')) {
+    const closing = tokens.findIndex((token, position) => position >= index && token.endsWith('}'));
+    if (closing === -1) return `The cost of ${account} is not closed`;
+    const [costAmount, costCurrency] = tokens.slice(index, closing + 1).join(' ').replace(/[{}]/g, ' ').trim().split(/[\s,]+/);
+    const unitCost = parseNumber(costAmount);
+    if (unitCost !== null && costCurrency && CURRENCY.test(costCurrency)) {
+      cost = { amount: unitCost * amount, currency: costCurrency };
+    }
+    index = closing + 1;
+  }
+  if (tokens[index] === '@' || tokens[index] === '@@') {
+    const price = parseNumber(tokens[index + 1]);
+    const priceCurrency = tokens[index + 2];
+    if (price === null || !priceCurrency || !CURRENCY.test(priceCurrency)) return `The price of ${account} could not be read`;
+    cost ??= { amount: tokens[index] === '@' ? price * amount : Math.sign(amount) * price, currency: priceCurrency };
+  }
+  return { account, amount, currency, cost };
+}
+
+// Fill in the one posting Beancount lets a transaction leave blank: whatever balances the rest
+function balancePostings(transaction: BeancountTransaction): string | null {
+  const blank = transaction.postings.filter(posting => posting.amount === null);
+  if (blank.length > 1) return 'Only one posting may leave out its amount';
+  const residual = new Map<string, number>();
+  for (const posting of transaction.postings) {
+    const weight = posting.cost ?? (posting.amount !== null ? { amount: posting.amount, currency: posting.currency! } : null);
+    if (!weight) continue;
+    residual.set(weight.currency, (residual.get(weight.currency) ?? 0) + toCents(weight.amount));
+  }
+  const open = Array.from(residual.entries()).filter(([, cents]) => cents !== 0);
+  if (blank.length === 0) {
+    return open.length > 0 ? 'The postings do not balance' : null;
+  }
+  if (open.length > 1) return 'The missing amount is in more than one currency';
+  const [currency, cents] = open[0] ?? [transaction.postings.find(posting => posting.currency)?.currency ?? null, 0];
+  blank[0].amount = -cents / 100;
+  blank[0].currency = currency;
+  return null;
+}
+
+// Read the transactions and account openings of a Beancount file. Only what the app can hold
+// is read: `balance` assertions are for bean-check, and prices, notes and the like are skipped.
+export function parseBeancount(text: string): BeancountFile {
+  const file: BeancountFile = { opens: new Map(), transactions: [], ignored: [], errors: [] };
+  // Where indented metadata and postings below a directive go
+  let current: { meta: Record<string, string>; transaction?: BeancountTransaction } | null = null;
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = index + 1;
+    const raw = lines[index];
+    const tokens = tokenize(raw);
+    if (!tokens) {
+      file.errors.push({ line, message: 'A quoted string is not closed' });
+      continue;
+    }
+    if (tokens.length === 0 || /^[*#]/.test(raw)) continue;
+
+    if (/^\s/.test(raw)) {
+      if (!current) continue;
+      if (/^[a-z][a-zA-Z0-9_-]*:$/.test(tokens[0])) {
+        // Metadata on a posting is indented further; only the directive's own is kept
+        if (!current.transaction || current.transaction.postings.length === 0) {
+          current.meta[tokens[0].slice(0, -1)] = tokens.slice(1).map(unquote).join(' ');
+        }
+        continue;
+      }
+      if (!current.transaction) continue;
+      const posting = parsePosting(tokens);
+      if (typeof posting === 'string') {
+        file.errors.push({ line, message: posting });
+      } else {
+        current.transaction.postings.push(posting);
+      }
+      continue;
+    }
+
+    current = null;
+    const [first, directive] = tokens;
+    if (first === 'include') {
+      file.errors.push({ line, message: 'Included files are not read; import each file on its own' });
+      continue;
+    }
+    if (!DATE.test(first)) continue; // option, plugin, pushtag and the like
+
+    if (directive === 'open') {
+      const account = tokens[2];
+      if (!ACCOUNT.test(account ?? '')) {
+        file.errors.push({ line, message: `"${account ?? ''}" is not an account name` });
+        continue;
+      }
+      const open: BeancountOpen = {
+        date: first,
+        currencies: (tokens[3] && !isString(tokens[3]) ? tokens[3] : '').split(',').filter(Boolean),
+        meta: {},
+      };
+      file.opens.set(account, open);
+      current = { meta: open.meta };
+    } else if (directive === 'txn' || (directive?.length === 1 && TRANSACTION_FLAGS.includes(directive))) {
+      const strings = tokens.slice(2).filter(isString).map(unquote);
+      const transaction: BeancountTransaction = {
+        line,
+        date: first,
+        flag: directive === 'txn' ? '*' : directive,
+        payee: strings.length > 1 ? strings[0] : null,
+        narration: strings[strings.length - 1] ?? '',
+        meta: {},
+        postings: [],
+      };
+      file.transactions.push(transaction);
+      current = { meta: transaction.meta, transaction };
+    } else if (!PASSIVE_DIRECTIVES.has(directive)) {
+      file.ignored.push({ line, reason: `"${directive}" directives are not imported` });
+    }
+  }
+
+  for (const transaction of file.transactions) {
+    const error = transaction.postings.length < 2 ? 'A transaction needs at least two postings' : balancePostings(transaction);
+    if (error) file.errors.push({ line: transaction.line, message: error });
+  }
+  file.errors.sort((a, b) => a.line - b.line);
+  return file;
+}
+
+// An account of the user's a Beancount account stands for; `accountId` is null for one to add
+export interface PlannedAccount {
+  accountId: number | null;
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: number;
+}
+
+// One side of an imported transaction. `account` is the Beancount account, or null when the
+// money went through none of the user's accounts.
+export interface PlannedTransaction {
+  line: number;
+  date: string;
+  description: string;
+  amount: number;
+  currency: string;
+  type: 'income' | 'expense';
+  category: string;
+  account: string | null;
+  externalId: string | null;
+  cleared: boolean;
+}
+
+export interface BeancountImportPlan {
+  accounts: Map<string, PlannedAccount>;
+  // Categories to add, each with the name of its parent; parents may need adding too
+  categories: { name: string; parent: string | null }[];
+  transactions: PlannedTransaction[];
+  // Both legs of each transfer, the money going out first
+  transfers: [PlannedTransaction, PlannedTransaction][];
+  skipped: { line: number; reason: string }[];
+}
+
+// The words a Beancount account name was made from
+const componentWords = (component: string) => component.replace(/-/g, ' ');
+
+// Work out what importing a parsed Beancount file means for the user's ledger. Accounts and
+// categories are matched by the names the export gives them, or the names recorded on their
+// `open`; the rest are added. A transaction between an account and categories becomes one
+// transaction per category, one between two accounts a transfer, and a posting against
+// Equity:Opening-Balances the opening balance of an account being added.
+export function planBeancountImport(
+  file: BeancountFile,
+  accounts: Account[],
+  categories: Category[],
+  baseCurrency: string,
+): BeancountImportPlan {
+  const names = ledgerNames(accounts, categories);
+  const plan: BeancountImportPlan = { accounts: new Map(), categories: [], transactions: [], transfers: [], skipped: [...file.ignored] };
+
+  const isAccount = (name: string) => name.startsWith('Assets:') || name.startsWith('Liabilities:');
+  const planAccount = (name: string, currency: string | null): PlannedAccount | null => {
+    if (name === UNASSIGNED_ACCOUNT) return null;
+    let planned = plan.accounts.get(name);
+    if (planned) return planned;
+    const meta = file.opens.get(name)?.meta ?? {};
+    const existing = accounts.find(account =>
+      !account.archived && (meta.name ? account.name.toLowerCase() === meta.name.toLowerCase() : names.account(account) === name)
+    );
+    const [root, ...components] = name.split(':');
+    planned = existing
+      ? { accountId: existing.id, name: existing.name, type: existing.type as AccountType, currency: existing.currency, openingBalance: Number(existing.openingBalance) }
+      : {
+        accountId: null,
+        name: (meta.name || components.map(componentWords).join(' ')).slice(0, 50),
+        type: accountTypes.includes(meta.type as AccountType) ? meta.type as AccountType : root === 'Liabilities' ? 'credit_card' : 'checking',
+        currency: file.opens.get(name)?.currencies[0] ?? currency ?? baseCurrency,
+        openingBalance: 0,
+      };
+    plan.accounts.set(name, planned);
+    return planned;
+  };
+
+  const categoryPaths = new Map<string, string>();
+  for (const category of categories) {
+    categoryPaths.set(names.category(category.name, 'expense'), category.name);
+    categoryPaths.set(names.category(category.name, 'income'), category.name);
+  }
+  const known = (name: string) =>
+    categories.find(category => category.name.toLowerCase() === name.toLowerCase())?.name
+    ?? plan.categories.find(category => category.name.toLowerCase() === name.toLowerCase())?.name;
+  const planCategory = (name: string): string => {
+    const fromMeta = file.opens.get(name)?.meta.category;
+    const matched = (fromMeta && known(fromMeta)) || categoryPaths.get(name);
+    if (matched) return matched;
+
+    const [, ...components] = name.split(':');
+    const category = (fromMeta || componentWords(components.length > 1 ? components.slice(1).join(' ') : components[0])).slice(0, 50);
+    const parent = components.length > 1 ? known(componentWords(components[0])) ?? componentWords(components[0]).slice(0, 50) : null;
+    if (!known(category)) {
+      plan.categories.push({ name: category, parent });
+    }
+    categoryPaths.set(name, known(category)!);
+    return known(category)!;
+  };
+
+  for (const transaction of file.transactions) {
+    const postings = transaction.postings;
+    const accountPostings = postings.filter(posting => isAccount(posting.account));
+    const categoryPostings = postings.filter(posting => posting.account.startsWith('Income:') || posting.account.startsWith('Expenses:'));
+    const openingPostings = postings.filter(posting => posting.account === OPENING_BALANCES_ACCOUNT);
+    const other = postings.find(posting => !accountPostings.includes(posting) && !categoryPostings.includes(posting) && !openingPostings.includes(posting));
+    const skip = (reason: string) => plan.skipped.push({ line: transaction.line, reason });
+
+    if (other) {
+      skip(`${other.account} has no counterpart in the app`);
+      continue;
+    }
+
+    if (openingPostings.length > 0) {
+      const [posting] = accountPostings;
+      const account = accountPostings.length === 1 && categoryPostings.length === 0 ? planAccount(posting.account, posting.currency) : null;
+      if (!account || account.currency !== posting.currency) {
+        skip('Only the opening balance of one account, in its own currency, can be imported');
+      } else if (account.accountId !== null) {
+        skip(`The opening balance of ${account.name} is kept as it is`);
+      } else {
+        account.openingBalance = (toCents(account.openingBalance) + toCents(posting.amount!)) / 100;
+      }
+      continue;
+    }
+
+    const leg = (posting: BeancountPosting, type: PlannedTransaction["type"], category: string): PlannedTransaction => {
+      planAccount(posting.account, posting.currency);
+      return {
+        line: transaction.line,
+        date: transaction.date,
+        description: [transaction.payee, transaction.narration].filter(Boolean).join(' - ') || category,
+        amount: posting.amount!,
+        currency: posting.currency!,
+        type,
+        category,
+        account: posting.account === UNASSIGNED_ACCOUNT ? null : posting.account,
+        externalId: transaction.meta['external-id'] || null,
+        cleared: transaction.flag === '*',
+      };
+    };
+
+    if (categoryPostings.length === 0 && accountPostings.length === 2) {
+      const [outgoing, incoming] = [...accountPostings].sort((a, b) => a.amount! - b.amount!);
+      if (outgoing.currency !== incoming.currency) {
+        skip('Transfers between accounts in different currencies are not supported');
+        continue;
+      }
+      plan.transfers.push([leg(outgoing, 'expense', TRANSFER_CATEGORY), leg(incoming, 'income', TRANSFER_CATEGORY)]);
+      continue;
+    }
+
+    if (accountPostings.length > 1 || categoryPostings.length === 0) {
+      skip(`${accountPostings.length} accounts and ${categoryPostings.length} categories cannot be split into the app's transactions`);
+      continue;
+    }
+
+    const [accountPosting = { account: UNASSIGNED_ACCOUNT, amount: null, currency: null, cost: null }] = accountPostings;
+    for (const posting of categoryPostings) {
+      const type = posting.account.startsWith('Income:') ? 'income' : 'expense';
+      // With a single category the account's side says what it cost, in the account's currency
+      const side = categoryPostings.length === 1 && accountPosting.amount !== null
+        ? accountPosting
+        : { ...posting, account: accountPosting.account, amount: -posting.amount!, cost: null };
+      plan.transactions.push(leg(side, type, planCategory(posting.account)));
+    }
+  }
+
+  return plan;
+}
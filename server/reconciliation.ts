@@ -0,0 +1,55 @@
+import type { AccountStatement, Transaction } from "@shared/schema";
+import { roundCents, toDateString } from "./duplicates";
+
+// A statement checked against the account's ledger
+export interface Reconciliation {
+  statement: AccountStatement;
+  // The account's transactions dated within the statement period
+  transactions: Transaction[];
+  // Sum of the cleared and reconciled transactions
+  clearedTotal: number;
+  // Sum of every transaction in the period
+  ledgerTotal: number;
+  // What the statement says the balance moved by, when both balances are known
+  statementChange: number | null;
+  // Statement change not accounted for by cleared transactions; zero means it reconciles
+  difference: number | null;
+  // Same, counting every transaction in the period: whether the imported transactions add up
+  ledgerDifference: number | null;
+}
+
+export function inStatementPeriod(statement: AccountStatement, date: string | Date): boolean {
+  const day = toDateString(date);
+  return statement.periodStart <= day && day <= statement.periodEnd;
+}
+
+// A reconciled statement locks its account's period: nothing may be added to it or moved into it
+export function isReconciledPeriod(statements: AccountStatement[], accountId: number | null, date: string | Date): boolean {
+  return accountId !== null && statements.some(statement =>
+    statement.reconciledAt !== null && statement.accountId === accountId && inStatementPeriod(statement, date)
+  );
+}
+
+export function reconcileStatement(statement: AccountStatement, accountTransactions: Transaction[]): Reconciliation {
+  const transactions = accountTransactions
+    .filter(transaction => transaction.accountId === statement.accountId && inStatementPeriod(statement, transaction.date))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+
+  const sum = (list: Transaction[]) => roundCents(list.reduce((total, transaction) => total + Number(transaction.amount), 0));
+  const clearedTotal = sum(transactions.filter(transaction => transaction.status !== 'uncleared'));
+  const ledgerTotal = sum(transactions);
+
+  const statementChange = statement.openingBalance !== null && statement.closingBalance !== null
+    ? roundCents(Number(statement.closingBalance) - Number(statement.openingBalance))
+    : null;
+
+  return {
+    statement,
+    transactions,
+    clearedTotal,
+    ledgerTotal,
+    statementChange,
+    difference: statementChange === null ? null : roundCents(statementChange - clearedTotal),
+    ledgerDifference: statementChange === null ? null : roundCents(statementChange - ledgerTotal),
+  };
+}
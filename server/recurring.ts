@@ -0,0 +1,80 @@
+import type { RecurringFrequency } from "@shared/schema";
+import { toDateString } from "./duplicates";
+
+// The schedule of a recurring template. Dates are "YYYY-MM-DD" strings, as stored.
+export interface RecurringSchedule {
+  frequency: RecurringFrequency | string;
+  interval: number;
+  dayOfMonth: number | null;
+  startDate: string;
+  endDate: string | null;
+}
+
+const toUtcDate = (value: string) => new Date(`${value}T00:00:00Z`);
+
+export const daysInMonth = (year: number, monthIndex: number) => new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+// The schedule's day in the given month, moved back to the month's last day if it is shorter
+function dayInMonth(schedule: RecurringSchedule, year: number, monthIndex: number): string {
+  const day = schedule.dayOfMonth ?? toUtcDate(schedule.startDate).getUTCDate();
+  return toDateString(new Date(Date.UTC(year, monthIndex, Math.min(day, daysInMonth(year, monthIndex)))));
+}
+
+// The nth occurrence of a schedule, counting from 0, ignoring its end date
+function occurrence(schedule: RecurringSchedule, n: number): string {
+  const start = toUtcDate(schedule.startDate);
+  const step = n * schedule.interval;
+  switch (schedule.frequency) {
+    case "daily":
+      return toDateString(new Date(start.getTime() + step * 86400000));
+    case "weekly":
+      return toDateString(new Date(start.getTime() + step * 7 * 86400000));
+    case "yearly":
+      return dayInMonth(schedule, start.getUTCFullYear() + step, start.getUTCMonth());
+    default: {
+      const monthIndex = start.getUTCMonth() + step;
+      return dayInMonth(schedule, start.getUTCFullYear() + Math.floor(monthIndex / 12), monthIndex % 12);
+    }
+  }
+}
+
+// The first occurrence on or after `date`, or null when the series has ended by then.
+// A monthly or yearly series whose day falls before the start date in its first
+// period begins in the next one.
+export function occurrenceOnOrAfter(schedule: RecurringSchedule, date: string): string | null {
+  const from = date > schedule.startDate ? date : schedule.startDate;
+
+  // Jump close to `from` rather than stepping through every earlier occurrence. Periods are
+  // taken at their longest so the jump never lands past `from`.
+  const elapsedDays = (toUtcDate(from).getTime() - toUtcDate(schedule.startDate).getTime()) / 86400000;
+  const periodDays = { daily: 1, weekly: 7, monthly: 31, yearly: 366 }[schedule.frequency as RecurringFrequency] ?? 31;
+  let n = Math.max(0, Math.floor(elapsedDays / (periodDays * schedule.interval)) - 1);
+
+  let next = occurrence(schedule, n);
+  while (next < from) {
+    next = occurrence(schedule, ++n);
+  }
+  return schedule.endDate !== null && next > schedule.endDate ? null : next;
+}
+
+// The occurrence after `date`, or null when there is none before the end date
+export function occurrenceAfter(schedule: RecurringSchedule, date: string): string | null {
+  const nextDay = toDateString(new Date(toUtcDate(date).getTime() + 86400000));
+  return occurrenceOnOrAfter(schedule, nextDay);
+}
+
+// Up to `count` occurrences from `date` on
+export function occurrencesFrom(schedule: RecurringSchedule, date: string | null, count: number): string[] {
+  const dates: string[] = [];
+  let next = date !== null ? occurrenceOnOrAfter(schedule, date) : null;
+  while (next !== null && dates.length < count) {
+    dates.push(next);
+    next = occurrenceAfter(schedule, next);
+  }
+  return dates;
+}
+
+// Whether `date` is one of the schedule's occurrences
+export function isOccurrence(schedule: RecurringSchedule, date: string): boolean {
+  return occurrenceOnOrAfter(schedule, date) === date;
+}
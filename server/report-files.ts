@@ -0,0 +1,347 @@
+import PDFDocument from "pdfkit";
+import ExcelJS from "exceljs";
+import type { AnnualReport } from "./reports";
+
+const MONTH_NAMES = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+const INCOME_COLOR = "#1e293b";
+const EXPENSE_COLOR = "#ef4444";
+const FALLBACK_COLORS = ["#3b82f6", "#22c55e", "#eab308", "#a855f7", "#ec4899", "#14b8a6", "#f97316", "#6366f1"];
+const MUTED_COLOR = "#6b7280";
+const RULE_COLOR = "#e5e7eb";
+
+// A4 with the margins the report is laid out for
+const PAGE_MARGIN = 50;
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+const formatCompact = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency, notation: 'compact', maximumFractionDigits: 1 }).format(amount);
+
+const formatRate = (rate: number | null) => (rate === null ? "—" : `${rate.toFixed(1)}%`);
+
+// Round the gap between axis ticks up to a value that reads well, such as 250 or 1,500
+function niceStep(value: number): number {
+  if (value <= 0) return 1;
+  const power = Math.pow(10, Math.floor(Math.log10(value)));
+  const multiple = [1, 1.5, 2, 2.5, 3, 4, 5, 7.5, 10].find(multiple => multiple * power >= value) ?? 10;
+  return multiple * power;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+type PdfDocument = InstanceType<typeof PDFDocument>;
+
+// Start a new page when `height` more would run past the bottom margin
+function ensureSpace(doc: PdfDocument, height: number) {
+  if (doc.y + height > PAGE_HEIGHT - PAGE_MARGIN) doc.addPage();
+}
+
+function heading(doc: PdfDocument, text: string) {
+  ensureSpace(doc, 60);
+  doc.moveDown(1).font('Helvetica-Bold').fontSize(14).fillColor('black').text(text, PAGE_MARGIN, doc.y);
+  doc.moveDown(0.5);
+}
+
+// A table with a bold header row, repeating the header on each new page
+function table(doc: PdfDocument, columns: TableColumn[], rows: string[][], boldLast = false) {
+  const rowHeight = 18;
+  const drawRow = (cells: string[], bold: boolean) => {
+    const top = doc.y;
+    let left = PAGE_MARGIN;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor('black');
+    cells.forEach((cell, index) => {
+      const column = columns[index];
+      doc.text(cell, left + 4, top + 5, { width: column.width - 8, align: column.align ?? 'left', lineBreak: false, ellipsis: true });
+      left += column.width;
+    });
+    doc.moveTo(PAGE_MARGIN, top + rowHeight).lineTo(PAGE_MARGIN + CONTENT_WIDTH, top + rowHeight).strokeColor(RULE_COLOR).lineWidth(0.5).stroke();
+    doc.x = PAGE_MARGIN;
+    doc.y = top + rowHeight;
+  };
+
+  ensureSpace(doc, rowHeight * 2);
+  drawRow(columns.map(column => column.header), true);
+  rows.forEach((row, index) => {
+    if (doc.y + rowHeight > PAGE_HEIGHT - PAGE_MARGIN) {
+      doc.addPage();
+      drawRow(columns.map(column => column.header), true);
+    }
+    drawRow(row, boldLast && index === rows.length - 1);
+  });
+}
+
+// Four boxes with the year's totals
+function summaryBoxes(doc: PdfDocument, report: AnnualReport) {
+  const boxes = [
+    { label: "Income", value: formatMoney(report.income, report.currency) },
+    { label: "Expenses", value: formatMoney(report.expenses, report.currency) },
+    { label: "Saved", value: formatMoney(report.net, report.currency) },
+    { label: "Savings rate", value: formatRate(report.savingsRate) },
+  ];
+  const gap = 10;
+  const width = (CONTENT_WIDTH - gap * (boxes.length - 1)) / boxes.length;
+  const top = doc.y;
+  boxes.forEach((box, index) => {
+    const left = PAGE_MARGIN + index * (width + gap);
+    doc.roundedRect(left, top, width, 52, 4).strokeColor(RULE_COLOR).lineWidth(1).stroke();
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR).text(box.label, left + 8, top + 9, { width: width - 16 });
+    doc.font('Helvetica-Bold').fontSize(12).fillColor('black').text(box.value, left + 8, top + 26, { width: width - 16, lineBreak: false, ellipsis: true });
+  });
+  doc.x = PAGE_MARGIN;
+  doc.y = top + 52;
+}
+
+// Income and expenses side by side for each month, with a labelled value axis
+function monthlyChart(doc: PdfDocument, report: AnnualReport) {
+  const height = 180;
+  const axisWidth = 50;
+  ensureSpace(doc, height + 40);
+  const top = doc.y;
+  const left = PAGE_MARGIN + axisWidth;
+  const width = CONTENT_WIDTH - axisWidth;
+  const ticks = 4;
+  const maximum = ticks * niceStep(Math.max(...report.months.map(month => Math.max(month.income, month.expenses))) / ticks);
+
+  doc.font('Helvetica').fontSize(8);
+  for (let tick = 0; tick <= ticks; tick++) {
+    const y = top + height - (height * tick) / ticks;
+    doc.moveTo(left, y).lineTo(left + width, y).strokeColor(RULE_COLOR).lineWidth(0.5).stroke();
+    doc.fillColor(MUTED_COLOR).text(formatCompact((maximum * tick) / ticks, report.currency), PAGE_MARGIN, y - 4, { width: axisWidth - 6, align: 'right' });
+  }
+
+  const slot = width / 12;
+  const barWidth = slot * 0.35;
+  report.months.forEach((month, index) => {
+    const x = left + index * slot + slot * 0.15;
+    const incomeHeight = (month.income / maximum) * height;
+    const expenseHeight = (month.expenses / maximum) * height;
+    if (incomeHeight > 0) doc.rect(x, top + height - incomeHeight, barWidth, incomeHeight).fill(INCOME_COLOR);
+    if (expenseHeight > 0) doc.rect(x + barWidth, top + height - expenseHeight, barWidth, expenseHeight).fill(EXPENSE_COLOR);
+    doc.fillColor(MUTED_COLOR).text(MONTH_NAMES[index].slice(0, 3), left + index * slot, top + height + 4, { width: slot, align: 'center' });
+  });
+
+  // Legend
+  const legendTop = top + height + 20;
+  doc.rect(left, legendTop, 8, 8).fill(INCOME_COLOR);
+  doc.fillColor('black').text("Income", left + 12, legendTop, { lineBreak: false });
+  doc.rect(left + 70, legendTop, 8, 8).fill(EXPENSE_COLOR);
+  doc.fillColor('black').text("Expenses", left + 82, legendTop, { lineBreak: false });
+  doc.x = PAGE_MARGIN;
+  doc.y = legendTop + 16;
+}
+
+// A horizontal bar for each category's spending
+function categoryChart(doc: PdfDocument, report: AnnualReport) {
+  const labelWidth = 120;
+  const valueWidth = 110;
+  const barSpace = CONTENT_WIDTH - labelWidth - valueWidth;
+  const rowHeight = 18;
+  const maximum = Math.max(...report.categories.map(category => category.amount));
+
+  report.categories.forEach((category, index) => {
+    ensureSpace(doc, rowHeight);
+    const top = doc.y;
+    const color = category.color ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length];
+    doc.font('Helvetica').fontSize(9).fillColor('black')
+      .text(category.category, PAGE_MARGIN, top + 4, { width: labelWidth - 8, lineBreak: false, ellipsis: true });
+    doc.rect(PAGE_MARGIN + labelWidth, top + 3, Math.max(1, (category.amount / maximum) * barSpace), rowHeight - 6).fill(color);
+    doc.fillColor(MUTED_COLOR)
+      .text(`${formatMoney(category.amount, report.currency)} (${category.percentage.toFixed(1)}%)`,
+        PAGE_MARGIN + labelWidth + barSpace, top + 4, { width: valueWidth, align: 'right', lineBreak: false });
+    doc.x = PAGE_MARGIN;
+    doc.y = top + rowHeight;
+  });
+}
+
+// The annual report as a PDF: totals, the monthly chart and table, spending by category
+// and the top merchants
+export function annualReportPdf(report: AnnualReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: { Title: `Annual Report ${report.year}` },
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.font('Helvetica-Bold').fontSize(20).text(`Annual Report ${report.year}`);
+    doc.font('Helvetica').fontSize(10).fillColor(MUTED_COLOR)
+      .text(`Amounts in ${report.currency} · ${report.transactionCount} transactions`);
+    doc.moveDown(1);
+    summaryBoxes(doc, report);
+
+    heading(doc, "Income and Expenses by Month");
+    monthlyChart(doc, report);
+    doc.moveDown(1);
+    const money = (amount: number) => formatMoney(amount, report.currency);
+    table(doc, [
+      { header: "Month", width: 115 },
+      { header: "Income", width: 100, align: 'right' },
+      { header: "Expenses", width: 100, align: 'right' },
+      { header: "Net", width: 100, align: 'right' },
+      { header: "Savings rate", width: CONTENT_WIDTH - 415, align: 'right' },
+    ], [
+      ...report.months.map(month => [
+        MONTH_NAMES[month.month - 1],
+        money(month.income),
+        money(month.expenses),
+        money(month.net),
+        formatRate(month.savingsRate),
+      ]),
+      ["Total", money(report.income), money(report.expenses), money(report.net), formatRate(report.savingsRate)],
+    ], true);
+
+    heading(doc, "Spending by Category");
+    if (report.categories.length > 0) {
+      categoryChart(doc, report);
+    } else {
+      doc.font('Helvetica').fontSize(10).fillColor(MUTED_COLOR).text("No spending this year.");
+    }
+
+    heading(doc, "Top Merchants");
+    if (report.merchants.length > 0) {
+      table(doc, [
+        { header: "Merchant", width: CONTENT_WIDTH - 200 },
+        { header: "Transactions", width: 80, align: 'right' },
+        { header: "Spent", width: 120, align: 'right' },
+      ], report.merchants.map(merchant => [merchant.name, String(merchant.count), money(merchant.amount)]));
+    } else {
+      doc.font('Helvetica').fontSize(10).fillColor(MUTED_COLOR).text("No spending this year.");
+    }
+
+    if (report.unconverted.length > 0) {
+      doc.moveDown(1.5);
+      ensureSpace(doc, 30);
+      doc.font('Helvetica-Oblique').fontSize(8).fillColor(MUTED_COLOR).text(
+        `Amounts in ${report.unconverted.join(", ")} are counted without conversion; add exchange rates in Settings to convert them.`,
+        PAGE_MARGIN, doc.y, { width: CONTENT_WIDTH },
+      );
+    }
+
+    doc.end();
+  });
+}
+
+const argb = (hex: string) => `FF${hex.replace('#', '').toUpperCase()}`;
+
+// Style a sheet's first row as its header
+function styleHeader(sheet: ExcelJS.Worksheet) {
+  const header = sheet.getRow(1);
+  header.font = { bold: true };
+  header.border = { bottom: { style: 'thin' } };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+}
+
+// Shade a column's cells with bars proportional to their values. ExcelJS cannot write
+// native charts, so data bars stand in for them.
+function addDataBars(sheet: ExcelJS.Worksheet, ref: string, color: string) {
+  const rule = {
+    type: 'dataBar' as const,
+    priority: 1,
+    gradient: false,
+    cfvo: [{ type: 'num' as const, value: 0 }, { type: 'max' as const }],
+    color: { argb: argb(color) },
+  };
+  sheet.addConditionalFormatting({ ref, rules: [rule] });
+}
+
+// The annual report as an XLSX workbook with a sheet each for the summary, the months,
+// the categories and the top merchants
+export async function annualReportXlsx(report: AnnualReport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const moneyFormat = '#,##0.00';
+  const rateFormat = '0.0%';
+  const rate = (value: number | null) => (value === null ? null : value / 100);
+
+  const summary = workbook.addWorksheet("Summary");
+  summary.columns = [
+    { header: `Annual Report ${report.year}`, key: 'label', width: 28 },
+    { header: report.currency, key: 'value', width: 18 },
+  ];
+  summary.addRows([
+    { label: "Income", value: report.income },
+    { label: "Expenses", value: report.expenses },
+    { label: "Saved", value: report.net },
+    { label: "Savings rate", value: rate(report.savingsRate) },
+    { label: "Transactions", value: report.transactionCount },
+  ]);
+  summary.getColumn('value').numFmt = moneyFormat;
+  summary.getCell('B5').numFmt = rateFormat;
+  summary.getCell('B6').numFmt = '0';
+  if (report.unconverted.length > 0) {
+    summary.addRow([]);
+    summary.addRow([`Amounts in ${report.unconverted.join(", ")} are counted without conversion.`]);
+  }
+  styleHeader(summary);
+
+  const months = workbook.addWorksheet("Monthly");
+  months.columns = [
+    { header: "Month", key: 'month', width: 14 },
+    { header: `Income (${report.currency})`, key: 'income', width: 18, style: { numFmt: moneyFormat } },
+    { header: `Expenses (${report.currency})`, key: 'expenses', width: 18, style: { numFmt: moneyFormat } },
+    { header: `Net (${report.currency})`, key: 'net', width: 18, style: { numFmt: moneyFormat } },
+    { header: "Savings rate", key: 'savingsRate', width: 14, style: { numFmt: rateFormat } },
+  ];
+  months.addRows(report.months.map(month => ({
+    month: MONTH_NAMES[month.month - 1],
+    income: month.income,
+    expenses: month.expenses,
+    net: month.net,
+    savingsRate: rate(month.savingsRate),
+  })));
+  const total = months.addRow({
+    month: "Total",
+    income: { formula: 'SUM(B2:B13)', result: report.income },
+    expenses: { formula: 'SUM(C2:C13)', result: report.expenses },
+    net: { formula: 'SUM(D2:D13)', result: report.net },
+    savingsRate: { formula: 'IF(B14>0,D14/B14,"")', result: rate(report.savingsRate) ?? '' },
+  });
+  total.font = { bold: true };
+  total.border = { top: { style: 'thin' } };
+  styleHeader(months);
+  addDataBars(months, 'B2:B13', INCOME_COLOR);
+  addDataBars(months, 'C2:C13', EXPENSE_COLOR);
+
+  const categories = workbook.addWorksheet("Categories");
+  categories.columns = [
+    { header: "Category", key: 'category', width: 24 },
+    { header: `Spent (${report.currency})`, key: 'amount', width: 18, style: { numFmt: moneyFormat } },
+    { header: "Share", key: 'share', width: 10, style: { numFmt: rateFormat } },
+  ];
+  categories.addRows(report.categories.map(category => ({
+    category: category.category,
+    amount: category.amount,
+    share: category.percentage / 100,
+  })));
+  styleHeader(categories);
+  if (report.categories.length > 0) {
+    addDataBars(categories, `B2:B${report.categories.length + 1}`, EXPENSE_COLOR);
+  }
+
+  const merchants = workbook.addWorksheet("Top Merchants");
+  merchants.columns = [
+    { header: "Merchant", key: 'name', width: 40 },
+    { header: "Transactions", key: 'count', width: 14 },
+    { header: `Spent (${report.currency})`, key: 'amount', width: 18, style: { numFmt: moneyFormat } },
+  ];
+  merchants.addRows(report.merchants);
+  styleHeader(merchants);
+  if (report.merchants.length > 0) {
+    addDataBars(merchants, `C2:C${report.merchants.length + 1}`, EXPENSE_COLOR);
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
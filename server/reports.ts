@@ -0,0 +1,132 @@
+import type { Category, Transaction } from "@shared/schema";
+import { rollUpBreakdowns } from "./categories";
+import type { CategoryTotal } from "./categories";
+import { roundCents, toDateString } from "./duplicates";
+import { merchantKey } from "./subscriptions";
+
+// How many merchants the annual report lists
+const TOP_MERCHANTS = 10;
+
+export interface ReportMonth {
+  month: number;
+  income: number;
+  expenses: number;
+  net: number;
+  // Share of the month's income left over; null without income
+  savingsRate: number | null;
+}
+
+export interface ReportMerchant {
+  // The most recent description seen for the merchant
+  name: string;
+  amount: number;
+  count: number;
+}
+
+export interface AnnualReport {
+  year: number;
+  currency: string;
+  income: number;
+  expenses: number;
+  net: number;
+  savingsRate: number | null;
+  months: ReportMonth[];
+  // Spending per top-level category, largest first
+  categories: (CategoryTotal & { color: string | null })[];
+  merchants: ReportMerchant[];
+  transactionCount: number;
+  // Currencies with amounts counted as they are for want of an exchange rate
+  unconverted: string[];
+}
+
+export interface AnnualReportInput {
+  year: number;
+  currency: string;
+  transactions: Transaction[];
+  categories: Category[];
+  // Converts an amount to the report's currency with the rate in force on a date
+  toBase: (amount: number, currency: string, date: string) => number | null;
+}
+
+const savingsRate = (income: number, net: number) => (income > 0 ? roundCents((net / income) * 100) : null);
+
+// A year of income and spending: monthly totals, spending by category and the merchants
+// spent with most. Totals follow the monthly summaries: transfers are left out, and an
+// amount no rate converts is counted as it is.
+export function buildAnnualReport(input: AnnualReportInput): AnnualReport {
+  const months = Array.from({ length: 12 }, (_, index) => ({ month: index + 1, income: 0, expenses: 0 }));
+  const byCategory = new Map<string, number>();
+  const byMerchant = new Map<string, ReportMerchant & { latest: string }>();
+  const unconverted = new Set<string>();
+  let transactionCount = 0;
+
+  for (const transaction of input.transactions) {
+    const date = toDateString(transaction.date);
+    if (Number(date.slice(0, 4)) !== input.year) continue;
+    if (transaction.type !== 'income' && transaction.type !== 'expense') continue;
+    transactionCount++;
+
+    let amount = input.toBase(Number(transaction.amount), transaction.currency, date);
+    if (amount === null) {
+      unconverted.add(transaction.currency);
+      amount = Number(transaction.amount);
+    }
+
+    const month = months[Number(date.slice(5, 7)) - 1];
+    if (transaction.type === 'income') {
+      month.income += amount;
+      continue;
+    }
+
+    const spent = Math.abs(amount);
+    month.expenses += spent;
+    byCategory.set(transaction.category, (byCategory.get(transaction.category) ?? 0) + spent);
+
+    const key = merchantKey(transaction.description);
+    if (!key) continue;
+    const merchant = byMerchant.get(key);
+    if (!merchant) {
+      byMerchant.set(key, { name: transaction.description, amount: spent, count: 1, latest: date });
+    } else {
+      merchant.amount += spent;
+      merchant.count++;
+      if (date >= merchant.latest) {
+        merchant.name = transaction.description;
+        merchant.latest = date;
+      }
+    }
+  }
+
+  const income = roundCents(months.reduce((sum, month) => sum + month.income, 0));
+  const expenses = roundCents(months.reduce((sum, month) => sum + month.expenses, 0));
+  const colorOf = new Map(input.categories.map(category => [category.name, category.color]));
+
+  return {
+    year: input.year,
+    currency: input.currency,
+    income,
+    expenses,
+    net: roundCents(income - expenses),
+    savingsRate: savingsRate(income, income - expenses),
+    months: months.map(month => {
+      const net = month.income - month.expenses;
+      return {
+        month: month.month,
+        income: roundCents(month.income),
+        expenses: roundCents(month.expenses),
+        net: roundCents(net),
+        savingsRate: savingsRate(month.income, net),
+      };
+    }),
+    categories: rollUpBreakdowns(
+      Array.from(byCategory.entries()).map(([category, amount]) => ({ category, amount })),
+      input.categories,
+    ).map(total => ({ ...total, color: colorOf.get(total.category) ?? null })),
+    merchants: Array.from(byMerchant.values())
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, TOP_MERCHANTS)
+      .map(({ name, amount, count }) => ({ name, amount: roundCents(amount), count })),
+    transactionCount,
+    unconverted: Array.from(unconverted).sort(),
+  };
+}
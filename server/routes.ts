@@ -1,9 +1,39 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { getStorage } from "./storage";
-import { insertTransactionSchema, insertMonthlySummarySchema, insertCategoryBreakdownSchema, categories } from "@shared/schema";
+import type { StatementImportRowCommit } from "./storage";
+import { insertTransactionSchema, insertMonthlySummarySchema, insertCategoryBreakdownSchema, insertHouseholdSchema, insertSettlementSchema, insertStatementImportRowSchema, insertCsvProfileSchema, csvMappingSchema, insertCategorySchema, updateCategorySchema, defaultCategories, insertCategoryRuleSchema, defaultCategoryRules, insertAccountSchema, updateAccountSchema, insertTransferSchema, TRANSFER_CATEGORY, insertAccountStatementSchema, insertExchangeRateSchema, updateUserPreferencesSchema, insertBudgetSchema, updateBudgetSchema, copyBudgetsSchema, insertEnvelopeSchema, updateEnvelopeSchema, insertEnvelopeAllocationSchema, insertRecurringTemplateSchema, updateRecurringOccurrenceSchema, insertSavingsGoalSchema, insertAssetSchema, insertAssetValuationSchema, insertLoanSchema, exportQuerySchema } from "@shared/schema";
+import type { InsertTransaction, Transaction, Household, HouseholdMember, HouseholdInvitation, StatementImport, InsertStatementImport, Category, CategoryRule, Account, AccountStatement, Budget, Envelope, EnvelopeAllocation, InsertRecurringTemplate, RecurringTemplate, InsertSavingsGoal, SavingsGoal, Asset, InsertLoan, Loan } from "@shared/schema";
 import { z } from "zod";
-import { PDF_CONFIG } from './config';
+import { PDF_CONFIG, RECURRING_CONFIG, NET_WORTH_CONFIG } from './config';
+import { setupAuth, toPublicUser } from './auth';
+import { computeNetBalances, simplifyDebts, summariseSharedSpending, buildBalanceHistory, inHouseholdCurrency, participantsOf, participantsOn } from './households';
+import { parseStatement, getParser, listParsers, previewCsv, parseCsvTransactions, isOfx, parseOfxTransactions, parseOfxBalances, withStatementPeriod } from './parsers';
+import type { ParsedTransaction } from './parsers';
+import { findDuplicate, findDuplicateGroups, toDateString } from './duplicates';
+import { rollUpBreakdowns, parentCategoryIds } from './categories';
+import { findMatchingRule, previewRuleChanges } from './rules';
+import type { RuleSubject } from './rules';
+import { accountBalance, withRunningBalances } from './accounts';
+import { findTransferMatch, isTransferPair } from './transfers';
+import { isReconciledPeriod, reconcileStatement } from './reconciliation';
+import { convertAmount, findRate, parseExchangeRateCsv } from './currency';
+import { budgetProgress, budgetsForMonth } from './budgets';
+import { buildEnvelopeMonth } from './envelopes';
+import { isOccurrence, occurrenceAfter, occurrenceOnOrAfter, occurrencesFrom } from './recurring';
+import { detectSubscriptions, merchantKey } from './subscriptions';
+import { buildForecast } from './forecast';
+import { goalContributions, goalProgress } from './goals';
+import { netWorthOn, netWorthStart, snapshotMonths } from './networth';
+import type { NetWorthInput } from './networth';
+import { buildLoanSchedule, comparePayoffStrategies, loanPayments } from './loans';
+import type { Debt } from './loans';
+import { buildAnnualReport } from './reports';
+import { annualReportPdf, annualReportXlsx } from './report-files';
+import { filterForExport, writeCsv, writeJson, writeOfx, writeQif, writeXlsx } from './exports';
+import type { ExportRow, ExportSink } from './exports';
+import { parseBeancount, planBeancountImport, writeBeancount, writeLedger } from './plaintext';
+import type { PlannedTransaction } from './plaintext';
 
 // Helper to parse PDF data from buffer
 async function extractPdfContent(pdfBuffer: Buffer): Promise<string> {
@@ -23,44 +53,307 @@ async function extractPdfContent(pdfBuffer: Buffer): Promise<string> {
   }
 }
 
-// Helper to extract transaction data from text
-function extractTransactions(text: string) {
-  // In a real app, this would use NLP or pattern matching to extract transactions
-  // For this demo, we'll return some placeholder data
-  const lines = text.split('\n').filter(line => line.trim().length > 0);
-  const transactions = [];
-  
-  // Very simple pattern matching - in real app would be more sophisticated
-  for (const line of lines) {
-    // Look for patterns that might indicate transactions
-    if (/\$\d+\.\d{2}/.test(line)) {
-      const amount = parseFloat(line.match(/\$(\d+\.\d{2})/)?.[1] || '0');
-      
-      // Try to determine if it's income or expense by context
-      const isIncome = /deposit|salary|income|transfer in/i.test(line);
-      
-      // Try to determine category
-      let category = 'Other';
-      if (/rent|mortgage|home/i.test(line)) category = 'Housing';
-      else if (/car|gas|uber|lyft|transit/i.test(line)) category = 'Transportation';
-      else if (/grocery|restaurant|food/i.test(line)) category = 'Food';
-      else if (/electric|water|phone|internet/i.test(line)) category = 'Utilities';
-      else if (/salary|deposit|income/i.test(line)) category = 'Income';
-      
-      transactions.push({
-        date: new Date(),
-        description: line.trim().substring(0, 100),
-        category,
-        amount: isIncome ? amount : -amount,
-        type: isIncome ? 'income' : 'expense'
-      });
+// Helper to load a user's categories, seeding the default categories and rules the first time
+async function getUserCategories(userId: number): Promise<Category[]> {
+  const storage = await getStorage();
+  const userCategories = await storage.getCategories(userId);
+  if (userCategories.length > 0) {
+    return userCategories;
+  }
+  
+  const created = await storage.createMissingCategories(userId, defaultCategories);
+  // Another request may have seeded the user concurrently
+  if (created.length > 0) {
+    for (const rule of defaultCategoryRules) {
+      await storage.createCategoryRule(userId, rule);
     }
   }
+  return storage.getCategories(userId);
+}
+
+// Helper to list the category names a user can still assign: active leaves, not parents
+async function getActiveCategoryNames(userId: number): Promise<string[]> {
+  const userCategories = await getUserCategories(userId);
+  const parentIds = parentCategoryIds(userCategories);
+  return userCategories
+    .filter(category => !category.archived && !parentIds.has(category.id))
+    .map(category => category.name);
+}
+
+// Helper to load the rules that can still apply: those whose category can be assigned
+async function getApplicableRules(userId: number): Promise<CategoryRule[]> {
+  const storage = await getStorage();
+  const activeCategories = await getActiveCategoryNames(userId);
+  const rules = await storage.getCategoryRules(userId);
+  return rules.filter(rule => activeCategories.includes(rule.category));
+}
+
+// Helper to build a categoriser from the user's rules.
+// Entries no rule matches go to Income or Other, or the first category left if those are gone.
+async function getCategoriser(userId: number): Promise<(subject: RuleSubject) => string> {
+  const rules = await getApplicableRules(userId);
+  const activeCategories = await getActiveCategoryNames(userId);
+  const fallback = (type: string) =>
+    [type === 'income' ? 'Income' : 'Other', 'Other'].find(name => activeCategories.includes(name)) ?? activeCategories[0] ?? 'Other';
+  return (subject) => findMatchingRule(rules, subject)?.category ?? fallback(subject.type);
+}
+
+// Helper to load a category rule, only if it belongs to the user
+async function getOwnedCategoryRule(userId: number, id: number): Promise<CategoryRule | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const rule = await storage.getCategoryRuleById(id);
+  return rule && rule.userId === userId ? rule : undefined;
+}
+
+// Helper to load a budget, only if it belongs to the user
+async function getOwnedBudget(userId: number, id: number): Promise<Budget | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const budget = await storage.getBudgetById(id);
+  return budget && budget.userId === userId ? budget : undefined;
+}
+
+// Helper to compare the budgets in force in a month with the month's spending
+async function getBudgetProgress(userId: number, year: number, month: number) {
+  const storage = await getStorage();
+  const summary = await storage.getMonthlySummaryByMonth(userId, year, month);
+  const breakdowns = summary ? await storage.getCategoryBreakdowns(summary.id) : [];
+  return budgetProgress(await storage.getBudgets(userId), breakdowns, await getUserCategories(userId), year, month);
+}
+
+// Helper to load an envelope, only if it belongs to the user
+async function getOwnedEnvelope(userId: number, id: number): Promise<Envelope | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const envelope = await storage.getEnvelopeById(id);
+  return envelope && envelope.userId === userId ? envelope : undefined;
+}
+
+// Helper to load an envelope allocation, only if it belongs to the user
+async function getOwnedEnvelopeAllocation(userId: number, id: number): Promise<EnvelopeAllocation | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const allocation = await storage.getEnvelopeAllocationById(id);
+  return allocation && allocation.userId === userId ? allocation : undefined;
+}
+
+// Helper to work out a month of envelope budgeting from the summaries of the months
+// since envelope budgeting started
+async function getEnvelopeMonth(userId: number, year: number, month: number) {
+  const storage = await getStorage();
+  const allocations = await storage.getEnvelopeAllocations(userId);
+  const first = allocations.reduce((earliest, allocation) =>
+    Math.min(earliest, allocation.year * 12 + allocation.month - 1), year * 12 + month - 1);
+  
+  const activity = [];
+  for (const summary of await storage.getMonthlySummaries(userId)) {
+    const index = summary.year * 12 + summary.month - 1;
+    if (index < first || index > year * 12 + month - 1) continue;
+    activity.push({
+      year: summary.year,
+      month: summary.month,
+      income: Number(summary.totalIncome),
+      spending: await storage.getCategoryBreakdowns(summary.id),
+    });
+  }
+  
+  return buildEnvelopeMonth(
+    await storage.getEnvelopes(userId), allocations, activity, await getUserCategories(userId), year, month,
+  );
+}
+
+// Helper to check a category's new parent. Categories nest one level deep only.
+async function validateCategoryParent(userId: number, parentId: number | null, category?: Category): Promise<string | null> {
+  if (parentId === null) return null;
+  
+  const parent = await getOwnedCategory(userId, parentId);
+  if (!parent) {
+    return 'Parent category not found';
+  }
+  if (parent.id === category?.id) {
+    return 'A category cannot be its own parent';
+  }
+  if (parent.parentId !== null) {
+    return 'Subcategories cannot have subcategories of their own';
+  }
+  if (category && parentCategoryIds(await getUserCategories(userId)).has(category.id)) {
+    return 'A category with subcategories cannot become a subcategory';
+  }
+  return null;
+}
+
+// Helper to load a category, only if it belongs to the user
+async function getOwnedCategory(userId: number, id: number): Promise<Category | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const category = await storage.getCategoryById(id);
+  return category && category.userId === userId ? category : undefined;
+}
+
+// Helper to check that no other category of the user already has a name (case-insensitive)
+async function isCategoryNameTaken(userId: number, name: string, exceptId?: number): Promise<boolean> {
+  const userCategories = await getUserCategories(userId);
+  return userCategories.some(category =>
+    category.id !== exceptId && category.name.toLowerCase() === name.toLowerCase()
+  );
+}
+
+// Helper to list the accounts a user can use: their own and their household's joint accounts
+async function getVisibleAccounts(userId: number): Promise<Account[]> {
+  const storage = await getStorage();
+  const ownAccounts = await storage.getAccounts(userId);
+  const household = await storage.getHouseholdByUser(userId);
+  const jointAccounts = household ? await storage.getHouseholdAccounts(household.id) : [];
+  return [...ownAccounts, ...jointAccounts.filter(account => account.userId !== userId)];
+}
+
+// Helper to load an account, only if the user can see it
+async function getVisibleAccount(userId: number, id: number): Promise<Account | undefined> {
+  if (isNaN(id)) return undefined;
+  const accounts = await getVisibleAccounts(userId);
+  return accounts.find(account => account.id === id);
+}
+
+// Helper to check an account id sent by the client: null, or an open account the user can see
+async function resolveAccountId(userId: number, rawId: unknown): Promise<{ accountId: number | null } | { error: string }> {
+  if (rawId === undefined || rawId === null || rawId === '') {
+    return { accountId: null };
+  }
+  
+  const account = await getVisibleAccount(userId, Number(rawId));
+  if (!account || account.archived) {
+    return { error: 'Unknown account' };
+  }
+  return { accountId: account.id };
+}
+
+// Helper to narrow a transaction list to the account in an ?accountId= query parameter
+function filterByAccount(transactions: Transaction[], accountId: unknown): Transaction[] {
+  if (typeof accountId !== 'string' || accountId.length === 0) {
+    return transactions;
+  }
+  return transactions.filter(transaction => transaction.accountId === parseInt(accountId));
+}
+
+// Helper to load a statement, only if the user can see its account
+async function getVisibleAccountStatement(userId: number, id: number): Promise<AccountStatement | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const statement = await storage.getAccountStatementById(id);
+  return statement && await getVisibleAccount(userId, statement.accountId) ? statement : undefined;
+}
+
+// Helper to check whether a transaction dated `date` in the account would fall in a reconciled, locked period
+async function inReconciledPeriod(accountId: number | null | undefined, date: string | Date): Promise<boolean> {
+  if (accountId == null) return false;
+  const storage = await getStorage();
+  return isReconciledPeriod(await storage.getAccountStatements(accountId), accountId, date);
+}
+
+const RECONCILED_MESSAGE = 'This transaction has been reconciled; undo the reconciliation to change it';
+const RECONCILED_PERIOD_MESSAGE = 'That date falls in a reconciled statement period of the account';
+
+// Helper to load what converting a user's amounts needs: their base currency and exchange rates
+async function getCurrencyContext(userId: number) {
+  const storage = await getStorage();
+  const user = await storage.getUser(userId);
+  return {
+    baseCurrency: user?.baseCurrency ?? 'USD',
+    rates: await storage.getExchangeRates(userId),
+  };
+}
+
+// Helper to add each transaction's amount in the user's base currency; null when no rate converts it
+async function withBaseAmounts(userId: number, transactions: Transaction[]) {
+  const { baseCurrency, rates } = await getCurrencyContext(userId);
+  return transactions.map(transaction => ({
+    ...transaction,
+    baseAmount: convertAmount(transaction.amount, transaction.currency, baseCurrency, transaction.date, rates),
+  }));
+}
+
+// Helper to pick a transaction's currency: a transaction in an account must use the account's currency,
+// one without an account defaults to the user's base currency
+async function resolveCurrency(
+  userId: number,
+  accountId: number | null | undefined,
+  requested: string | undefined,
+  current?: string,
+): Promise<{ currency: string } | { error: string }> {
+  const storage = await getStorage();
+  const account = accountId != null ? await storage.getAccountById(accountId) : undefined;
+  const currency = requested ?? current ?? account?.currency ?? (await getCurrencyContext(userId)).baseCurrency;
+  if (account && currency !== account.currency) {
+    return { error: `${account.name} is in ${account.currency}; record the transaction in that currency` };
+  }
+  return { currency };
+}
+
+// Names of the import formats that are not statement parsers
+const FILE_IMPORT_FORMATS: Record<string, string> = {
+  csv: 'CSV file',
+  ofx: 'OFX/QFX file',
+};
+
+// Look of the categories a Beancount import adds; they can be restyled like any other
+const IMPORTED_CATEGORY_STYLE = { color: '#6b7280', icon: 'tag' };
+
+// Helper to save parsed statement lines as a draft import for review.
+// Rows already in the ledger (e.g. from an overlapping statement) are flagged and skipped unless the user decides otherwise.
+// Rows mirroring a transaction in another account are proposed as the other leg of a transfer.
+async function createDraftImport(userId: number, source: InsertStatementImport, parsed: ParsedTransaction[]): Promise<StatementImport> {
+  const storage = await getStorage();
+  const existingTransactions = await storage.getTransactions(userId);
+  const categorise = await getCategoriser(userId);
+  const claimedTransferIds = new Set<number>();
+  const rows = parsed.map(transaction => {
+    const candidate = { ...transaction, accountId: source.accountId };
+    const duplicate = findDuplicate(candidate, existingTransactions);
+    const transferOf = duplicate ? undefined : findTransferMatch(candidate, existingTransactions, claimedTransferIds);
+    if (transferOf) claimedTransferIds.add(transferOf.id);
+    return insertStatementImportRowSchema.parse({
+      ...transaction,
+      type: transferOf ? 'transfer' : transaction.type,
+      category: categorise(transaction),
+      externalId: transaction.externalId ?? null,
+      duplicateOfId: duplicate?.transaction.id ?? null,
+      transferOfId: transferOf?.id ?? null,
+      resolution: duplicate ? 'skip' : null,
+    });
+  });
   
-  return transactions;
+  return storage.createStatementImport(userId, source, rows);
+}
+
+// Helper to load a draft statement import, only if it belongs to the user
+async function getOwnedStatementImport(userId: number, id: number): Promise<StatementImport | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const statementImport = await storage.getStatementImportById(id);
+  return statementImport && statementImport.userId === userId ? statementImport : undefined;
 }
 
-// Helper to generate monthly summaries from transactions
+// Helper to attach the reviewable rows, the transactions they may duplicate or transfer with and the parser name to a draft import
+async function getStatementImportDetails(statementImport: StatementImport) {
+  const storage = await getStorage();
+  const rows = await storage.getStatementImportRows(statementImport.id);
+  const transactions = rows.some(row => row.duplicateOfId !== null || row.transferOfId !== null)
+    ? await storage.getTransactions(statementImport.userId)
+    : [];
+  return {
+    ...statementImport,
+    parserName: getParser(statementImport.parserId)?.name ?? FILE_IMPORT_FORMATS[statementImport.parserId] ?? statementImport.parserId,
+    rows: rows.map(row => ({
+      ...row,
+      duplicateOf: transactions.find(t => t.id === row.duplicateOfId) ?? null,
+      transferOf: transactions.find(t => t.id === row.transferOfId) ?? null,
+    })),
+  };
+}
+
+// Helper to generate monthly summaries from transactions.
+// Settlements between household members live in their own table and are never counted here.
 async function generateMonthlySummary(userId: number, year: number, month: number) {
   const storage = await getStorage();
   const transactions = await storage.getTransactionsByMonth(userId, year, month);
@@ -69,13 +362,18 @@ async function generateMonthlySummary(userId: number, year: number, month: numbe
     return null;
   }
   
+  // Totals are in the user's base currency. Without a rate an amount is counted as it is;
+  // the exchange rate settings list the currencies that need one.
+  const { baseCurrency, rates } = await getCurrencyContext(userId);
+  const toBase = (t: Transaction) => convertAmount(t.amount, t.currency, baseCurrency, t.date, rates) ?? Number(t.amount);
+  
   const totalIncome = transactions
     .filter((t: any) => t.type === 'income')
-    .reduce((sum: number, t: any) => sum + Number(t.amount), 0);
+    .reduce((sum: number, t: any) => sum + toBase(t), 0);
     
   const totalExpenses = transactions
     .filter((t: any) => t.type === 'expense')
-    .reduce((sum: number, t: any) => sum + Number(Math.abs(t.amount)), 0);
+    .reduce((sum: number, t: any) => sum + Math.abs(toBase(t)), 0);
     
   const netBalance = totalIncome - totalExpenses;
   
@@ -92,14 +390,15 @@ async function generateMonthlySummary(userId: number, year: number, month: numbe
   const expensesByCategory = new Map<string, number>();
   
   // Initialize all categories with zero
-  categories.forEach(cat => expensesByCategory.set(cat, 0));
+  const userCategories = await storage.getCategories(userId);
+  userCategories.forEach(cat => expensesByCategory.set(cat.name, 0));
   
   // Sum expenses by category
   transactions
     .filter((t: any) => t.type === 'expense')
     .forEach((t: any) => {
       const currentAmount = expensesByCategory.get(t.category) || 0;
-      expensesByCategory.set(t.category, currentAmount + Number(Math.abs(t.amount)));
+      expensesByCategory.set(t.category, currentAmount + Math.abs(toBase(t)));
     });
   
   // Convert to array of category breakdowns
@@ -117,296 +416,3679 @@ async function generateMonthlySummary(userId: number, year: number, month: numbe
   return summary;
 }
 
+// Helper to regenerate the summaries of every month the given transactions fall in,
+// returning the last summary generated
+async function regenerateMonthlySummaries(userId: number, transactions: Transaction[]) {
+  const months = new Set(transactions.map(t => {
+    const date = new Date(t.date);
+    return `${date.getFullYear()}-${date.getMonth() + 1}`;
+  }));
+  
+  let summary = null;
+  for (const key of Array.from(months)) {
+    const [year, month] = key.split('-').map(Number);
+    summary = await generateMonthlySummary(userId, year, month);
+  }
+  return summary;
+}
+
+// Helper to load a user's household together with its members
+async function getHouseholdContext(userId: number) {
+  const storage = await getStorage();
+  const household = await storage.getHouseholdByUser(userId);
+  
+  if (!household) {
+    return null;
+  }
+  
+  const members = await storage.getHouseholdMembers(household.id);
+  return {
+    household,
+    members,
+    memberIds: members.map(member => member.userId),
+  };
+}
+
+// Helper to load a household invitation, only if it was sent to the user
+async function getOwnHouseholdInvitation(userId: number, id: number): Promise<HouseholdInvitation | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const invitation = await storage.getHouseholdInvitationById(id);
+  return invitation && invitation.userId === userId ? invitation : undefined;
+}
+
+// Helper to restate transactions in a household's currency, with the exchange rates its members have stored
+async function toHouseholdCurrency(household: Household, memberIds: number[], transactions: Transaction[]) {
+  const storage = await getStorage();
+  const rates = (await Promise.all(memberIds.map(memberId => storage.getExchangeRates(memberId)))).flat();
+  return transactions.map(transaction => inHouseholdCurrency(transaction, household.currency,
+    (amount, currency, date) => convertAmount(amount, currency, household.currency, date, rates)));
+}
+
+// Helper to load a household's shared transactions in its currency, each with the members it is split between
+async function getHouseholdSharedTransactions(household: Household, members: HouseholdMember[]) {
+  const storage = await getStorage();
+  const sharedTransactions = (await storage.getSharedTransactions(household.id))
+    .map(transaction => ({ ...transaction, participantIds: participantsOf(transaction, members) }));
+  return toHouseholdCurrency(household, members.map(member => member.userId), sharedTransactions);
+}
+
+// Helper to compute current household balances from shared transactions and settlements
+async function getHouseholdBalances(household: Household, members: HouseholdMember[]) {
+  const storage = await getStorage();
+  const sharedTransactions = await getHouseholdSharedTransactions(household, members);
+  const settlements = await storage.getSettlements(household.id);
+  return computeNetBalances(sharedTransactions, members.map(member => member.userId), settlements);
+}
+
+// Helper to validate a transaction's split and attach the payer's household and the members who had joined by its date.
+// The client never chooses the household or the members itself. A transaction that stays shared with
+// the same household keeps the members it was first split between.
+async function resolveHouseholdSplit(
+  userId: number,
+  data: Partial<InsertTransaction>,
+  existing?: Transaction,
+): Promise<{ data: Partial<InsertTransaction> } | { error: string }> {
+  const { householdId: _ignored, participantIds: _alsoIgnored, ...rest } = data;
+  
+  // Split untouched on a partial update
+  if (rest.splitType === undefined) {
+    return { data: rest };
+  }
+  
+  // Not shared
+  if (!rest.splitType) {
+    return { data: { ...rest, splitType: null, splitValue: null, householdId: null, participantIds: null } };
+  }
+  
+  const storage = await getStorage();
+  const household = await storage.getHouseholdByUser(userId);
+  
+  if (!household) {
+    return { error: 'Join a household before sharing transactions' };
+  }
+  
+  const members = await storage.getHouseholdMembers(household.id);
+  const date = rest.date ?? existing?.date;
+  const participantIds = existing?.householdId === household.id
+    ? participantsOf(existing, members)
+    : participantsOn(userId, date ?? new Date(), members);
+  
+  if (rest.splitType === 'equal') {
+    return { data: { ...rest, splitValue: null, householdId: household.id, participantIds } };
+  }
+  
+  if (rest.splitValue == null) {
+    return { error: 'A split value is required for percentage and fixed splits' };
+  }
+  
+  if (rest.splitType === 'percentage' && rest.splitValue > 100) {
+    return { error: 'Split percentage must be between 0 and 100' };
+  }
+  
+  const amount = Math.abs(Number(rest.amount ?? existing?.amount ?? 0));
+  if (rest.splitType === 'fixed' && rest.splitValue > amount) {
+    return { error: 'Your fixed share cannot exceed the transaction amount' };
+  }
+  
+  return { data: { ...rest, householdId: household.id, participantIds } };
+}
+
+// Helper to check a new transaction's category, account, currency and split, returning what to save
+async function validateNewTransaction(
+  userId: number,
+  data: InsertTransaction,
+): Promise<{ data: InsertTransaction } | { error: string }> {
+  if (!(await getActiveCategoryNames(userId)).includes(data.category)) {
+    return { error: 'Unknown category' };
+  }
+  
+  const account = await resolveAccountId(userId, data.accountId);
+  if ('error' in account) {
+    return account;
+  }
+  
+  if (await inReconciledPeriod(account.accountId, data.date)) {
+    return { error: RECONCILED_PERIOD_MESSAGE };
+  }
+  
+  const currency = await resolveCurrency(userId, account.accountId, data.currency);
+  if ('error' in currency) {
+    return currency;
+  }
+  
+  const split = await resolveHouseholdSplit(userId, { ...data, ...account, ...currency });
+  if ('error' in split) {
+    return split;
+  }
+  
+  return { data: { ...data, ...split.data } };
+}
+
+// Helper to load a recurring template, only if it belongs to the user
+async function getOwnedRecurringTemplate(userId: number, id: number): Promise<RecurringTemplate | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const template = await storage.getRecurringTemplateById(id);
+  return template && template.userId === userId ? template : undefined;
+}
+
+// Helper to check a recurring template's category, account, currency and split up front,
+// so that its occurrences can be posted later
+async function validateRecurringTemplate(
+  userId: number,
+  data: InsertRecurringTemplate,
+): Promise<{ data: InsertRecurringTemplate } | { error: string }> {
+  if (!(await getActiveCategoryNames(userId)).includes(data.category)) {
+    return { error: 'Unknown category' };
+  }
+  
+  const account = await resolveAccountId(userId, data.accountId);
+  if ('error' in account) {
+    return account;
+  }
+  
+  const currency = await resolveCurrency(userId, account.accountId, data.currency);
+  if ('error' in currency) {
+    return currency;
+  }
+  
+  const split = await resolveHouseholdSplit(userId, { amount: data.amount, splitType: data.splitType, splitValue: data.splitValue });
+  if ('error' in split) {
+    return split;
+  }
+  
+  return { data: { ...data, ...account, ...currency, splitType: split.data.splitType, splitValue: split.data.splitValue } };
+}
+
+// How many upcoming occurrences of each recurring transaction to list
+const RECURRING_UPCOMING_COUNT = 5;
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+// Posting runs one template at a time, so the scheduler and a request never post the same occurrence twice
+let recurringPosting: Promise<unknown> = Promise.resolve();
+
+// Helper to post a template's occurrences that have fallen due, skipping the skipped ones.
+// An occurrence that can no longer be posted (its category archived, its account closed or
+// reconciled) stops the series where it is; it shows as overdue until the template is fixed.
+function postDueOccurrences(templateId: number): Promise<Transaction[]> {
+  const run = recurringPosting.then(async () => {
+    const storage = await getStorage();
+    const template = await storage.getRecurringTemplateById(templateId);
+    if (!template) return [];
+    
+    const overrides = new Map((await storage.getRecurringOccurrences(template.id)).map(occurrence => [occurrence.date, occurrence]));
+    const today = todayString();
+    const posted: Transaction[] = [];
+    let next = template.nextDate;
+    
+    while (next !== null && next <= today) {
+      const override = overrides.get(next);
+      const following = occurrenceAfter(template, next);
+      if (override?.status === 'skipped' || override?.status === 'posted') {
+        await storage.setRecurringNextDate(template.id, following);
+      } else {
+        const validated = await validateNewTransaction(template.userId, {
+          date: new Date(next),
+          description: override?.description ?? template.description,
+          category: override?.category ?? template.category,
+          amount: Number(override?.amount ?? template.amount),
+          type: template.type as 'income' | 'expense',
+          currency: template.currency,
+          accountId: template.accountId,
+          splitType: template.splitType as InsertTransaction['splitType'],
+          splitValue: template.splitValue != null ? Number(template.splitValue) : null,
+        });
+        if ('error' in validated) {
+          console.error(`Could not post recurring transaction ${template.id} due ${next}: ${validated.error}`);
+          break;
+        }
+        
+        // Posting, recording the occurrence and moving the template on happen together, so a
+        // failure part way never leaves an occurrence to be posted a second time
+        const transaction = await storage.postRecurringOccurrence(template.id, template.userId, validated.data, {
+          date: next,
+          description: override?.description ?? null,
+          category: override?.category ?? null,
+          amount: override?.amount ?? null,
+        }, following);
+        if (transaction) {
+          posted.push(transaction);
+        } else {
+          await storage.setRecurringNextDate(template.id, following);
+        }
+      }
+      
+      next = following;
+    }
+    
+    await regenerateMonthlySummaries(template.userId, posted);
+    return posted;
+  });
+  recurringPosting = run.catch(() => undefined);
+  return run;
+}
+
+// Helper to post every user's recurring transactions that have fallen due
+async function postDueRecurringTransactions() {
+  const storage = await getStorage();
+  for (const template of await storage.getDueRecurringTemplates(todayString())) {
+    try {
+      await postDueOccurrences(template.id);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+}
+
+// Helper to find the user's subscriptions, each with its cost in the base currency and the
+// recurring transaction it has been turned into, if any
+async function getSubscriptions(userId: number) {
+  const storage = await getStorage();
+  const subscriptions = detectSubscriptions(await storage.getTransactions(userId), todayString());
+  const templates = await storage.getRecurringTemplates(userId);
+  const { baseCurrency, rates } = await getCurrencyContext(userId);
+  
+  return subscriptions.map(subscription => ({
+    ...subscription,
+    baseMonthlyCost: convertAmount(subscription.monthlyCost, subscription.currency, baseCurrency, subscription.lastCharge, rates),
+    templateId: templates.find(template =>
+      template.currency === subscription.currency && merchantKey(template.description) === subscription.merchantKey
+    )?.id ?? null,
+  }));
+}
+
+// Helper to load a savings goal, only if it belongs to the user
+async function getOwnedSavingsGoal(userId: number, id: number): Promise<SavingsGoal | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const goal = await storage.getSavingsGoalById(id);
+  return goal && goal.userId === userId ? goal : undefined;
+}
+
+// Helper to check a savings goal's account or category. A goal tracking an account is in
+// the account's currency; one tracking a category defaults to the base currency.
+async function resolveSavingsGoal(userId: number, data: InsertSavingsGoal): Promise<{ data: InsertSavingsGoal } | { error: string }> {
+  if (data.category !== null && !(await getActiveCategoryNames(userId)).includes(data.category)) {
+    return { error: 'Unknown category' };
+  }
+  
+  const account = await resolveAccountId(userId, data.accountId);
+  if ('error' in account) {
+    return account;
+  }
+  
+  const currency = await resolveCurrency(userId, account.accountId, data.currency);
+  if ('error' in currency) {
+    return currency;
+  }
+  
+  return { data: { ...data, ...account, ...currency } };
+}
+
+// Helper to work out how far along a savings goal is
+async function getGoalProgress(userId: number, goal: SavingsGoal) {
+  const storage = await getStorage();
+  const { rates } = await getCurrencyContext(userId);
+  const account = goal.accountId !== null ? await storage.getAccountById(goal.accountId) : undefined;
+  const transactions = account ? await storage.getTransactionsByAccount(account.id) : await storage.getTransactions(userId);
+  const contributions = goalContributions(goal, transactions, (amount, currency, date) =>
+    convertAmount(amount, currency, goal.currency, date, rates) ?? amount);
+  
+  const saved = account
+    ? accountBalance(account, transactions)
+    : Number(goal.initialAmount) + contributions.reduce((sum, contribution) => sum + contribution.amount, 0);
+  return goalProgress(goal, saved, contributions, todayString());
+}
+
+// Helper to load an asset or liability, only if it belongs to the user
+async function getOwnedAsset(userId: number, id: number): Promise<Asset | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const asset = await storage.getAssetById(id);
+  return asset && asset.userId === userId ? asset : undefined;
+}
+
+// Helper to add an asset's valuations, oldest first, and its latest value
+async function withValuations(asset: Asset) {
+  const storage = await getStorage();
+  const valuations = await storage.getAssetValuations(asset.id);
+  const latest = valuations.at(-1);
+  return { ...asset, valuations, value: latest ? Number(latest.value) : null, valuedOn: latest?.date ?? null };
+}
+
+// Helper to gather what a user's net worth is worked out from: the accounts they can use
+// and their assets and liabilities
+async function getNetWorthInput(userId: number): Promise<{ input: NetWorthInput; baseCurrency: string }> {
+  const storage = await getStorage();
+  const { baseCurrency, rates } = await getCurrencyContext(userId);
+  
+  const accounts = [];
+  for (const account of await getVisibleAccounts(userId)) {
+    accounts.push({ account, transactions: await storage.getTransactionsByAccount(account.id) });
+  }
+  
+  const assets = [];
+  for (const asset of await storage.getAssets(userId)) {
+    assets.push({ asset, valuations: await storage.getAssetValuations(asset.id) });
+  }
+  
+  return {
+    input: {
+      accounts,
+      assets,
+      toBase: (amount, currency, date) => convertAmount(amount, currency, baseCurrency, date, rates),
+    },
+    baseCurrency,
+  };
+}
+
+// Helper to take a user's monthly net worth snapshots that are missing or out of date: those
+// taken before their month was over, or in another base currency. Months from `retakeFrom`
+// on are taken again, for a valuation changed after the snapshot of its month was taken.
+async function takeNetWorthSnapshots(userId: number, retakeFrom?: string) {
+  const storage = await getStorage();
+  const { input, baseCurrency } = await getNetWorthInput(userId);
+  const start = netWorthStart(input);
+  if (start === null) return;
+  
+  const existing = await storage.getNetWorthSnapshots(userId);
+  for (const { year, month, date } of snapshotMonths(start, todayString())) {
+    const snapshot = existing.find(snapshot => snapshot.year === year && snapshot.month === month);
+    const retake = retakeFrom !== undefined && retakeFrom <= date;
+    if (snapshot && snapshot.date === date && snapshot.currency === baseCurrency && !retake) continue;
+    
+    const worth = netWorthOn(input, date);
+    await storage.saveNetWorthSnapshot(userId, {
+      year,
+      month,
+      date,
+      currency: baseCurrency,
+      assets: String(worth.assets),
+      liabilities: String(worth.liabilities),
+      netWorth: String(worth.netWorth),
+    });
+  }
+}
+
+// Helper to take every user's net worth snapshots that are due
+async function takeAllNetWorthSnapshots() {
+  const storage = await getStorage();
+  for (const user of await storage.getUsers()) {
+    try {
+      await takeNetWorthSnapshots(user.id);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+}
+
+// Helper to load a loan, only if it belongs to the user
+async function getOwnedLoan(userId: number, id: number): Promise<Loan | undefined> {
+  if (isNaN(id)) return undefined;
+  const storage = await getStorage();
+  const loan = await storage.getLoanById(id);
+  return loan && loan.userId === userId ? loan : undefined;
+}
+
+// Helper to check the account or category a loan's payments are tracked with. A loan
+// tracked with an account is in the account's currency.
+async function resolveLoan(userId: number, data: InsertLoan): Promise<{ data: InsertLoan } | { error: string }> {
+  if (data.category !== null && !(await getActiveCategoryNames(userId)).includes(data.category)) {
+    return { error: 'Unknown category' };
+  }
+  
+  const account = await resolveAccountId(userId, data.accountId);
+  if ('error' in account) {
+    return account;
+  }
+  
+  const currency = await resolveCurrency(userId, account.accountId, data.currency);
+  if ('error' in currency) {
+    return currency;
+  }
+  
+  return { data: { ...data, ...account, ...currency } };
+}
+
+// Helper to work out a loan's amortisation schedule from the payments recorded for it
+async function getLoanSchedule(userId: number, loan: Loan) {
+  const storage = await getStorage();
+  const { rates } = await getCurrencyContext(userId);
+  const transactions = loan.accountId !== null
+    ? await storage.getTransactionsByAccount(loan.accountId)
+    : loan.category !== null ? await storage.getTransactions(userId) : [];
+  const payments = loanPayments(loan, transactions, (amount, currency, date) =>
+    convertAmount(amount, currency, loan.currency, date, rates) ?? amount);
+  return buildLoanSchedule(loan, payments, todayString());
+}
+
+// Helper to write an export to a response, waiting whenever the client has yet to catch up
+function responseSink(res: Response): ExportSink {
+  return chunk => new Promise(resolve => {
+    // Once the client has gone, what is left is written nowhere
+    if (res.destroyed || res.write(chunk)) return resolve();
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+// Helper to list a template's next occurrences with any single-occurrence changes applied
+async function getUpcomingOccurrences(template: RecurringTemplate, count: number) {
+  const storage = await getStorage();
+  const overrides = new Map((await storage.getRecurringOccurrences(template.id)).map(occurrence => [occurrence.date, occurrence]));
+  const today = todayString();
+  return occurrencesFrom(template, template.nextDate, count).map(date => {
+    const override = overrides.get(date);
+    return {
+      date,
+      description: override?.description ?? template.description,
+      category: override?.category ?? template.category,
+      amount: override?.amount ?? template.amount,
+      skipped: override?.status === 'skipped',
+      edited: override != null && (override.description !== null || override.category !== null || override.amount !== null),
+      // Still unposted a day after it fell due
+      overdue: date < today && override?.status !== 'skipped',
+    };
+  });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, auth endpoints and the /api auth guard must be registered first
+  await setupAuth(app);
+
   // API Routes
   // ===========
   
-  // Transaction Routes
-  app.get('/api/transactions', async (req: Request, res: Response) => {
+  // Transaction Routes
+  app.get('/api/transactions', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const storage = await getStorage();
+      const transactions = await storage.getTransactions(userId);
+      res.json(await withBaseAmounts(userId, filterByAccount(transactions, req.query.accountId)));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch transactions' });
+    }
+  });
+  
+  app.get('/api/transactions/month/:year/:month', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      
+      if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
+        return res.status(400).json({ message: 'Invalid year or month' });
+      }
+      
+      const storage = await getStorage();
+      const transactions = await storage.getTransactionsByMonth(userId, year, month);
+      res.json(await withBaseAmounts(userId, filterByAccount(transactions, req.query.accountId)));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch transactions' });
+    }
+  });
+  
+  // Scan the ledger for transactions that look like copies of each other
+  app.get('/api/transactions/duplicates', async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const transactions = await storage.getTransactions(req.user!.id);
+      res.json(findDuplicateGroups(transactions));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to scan for duplicates' });
+    }
+  });
+  
+  app.post('/api/transactions', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      // Without a category the user's rules pick one
+      const { category, ...rest } = insertTransactionSchema.partial({ category: true }).parse(req.body);
+      const validated = await validateNewTransaction(userId, { ...rest, category: category ?? (await getCategoriser(userId))(rest) });
+      
+      if ('error' in validated) {
+        return res.status(400).json({ message: validated.error });
+      }
+      
+      const storage = await getStorage();
+      const transaction = await storage.createTransaction(userId, validated.data);
+      
+      // Update monthly summary after adding a transaction
+      const transactionDate = new Date(transaction.date);
+      await generateMonthlySummary(
+        userId, 
+        transactionDate.getFullYear(), 
+        transactionDate.getMonth() + 1
+      );
+      
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid transaction data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create transaction' });
+    }
+  });
+  
+  app.put('/api/transactions/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid transaction ID' });
+      }
+      
+      const storage = await getStorage();
+      const transaction = await storage.getTransactionById(id);
+      
+      if (!transaction || transaction.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Transaction not found' });
+      }
+      
+      if (transaction.status === 'reconciled') {
+        return res.status(400).json({ message: RECONCILED_MESSAGE });
+      }
+      
+      const validatedData = insertTransactionSchema.partial().parse(req.body);
+      
+      // The legs of a transfer have to keep mirroring each other
+      if (transaction.transferId !== null) {
+        const { date, description, ...rest } = validatedData;
+        if (Object.values(rest).some(value => value !== undefined)) {
+          return res.status(400).json({ message: 'Only the date and description of a transfer can be changed; unlink it to edit anything else' });
+        }
+      }
+      
+      // A transaction may keep an archived category, but not be moved into one
+      if (validatedData.category !== undefined && validatedData.category !== transaction.category &&
+          !(await getActiveCategoryNames(transaction.userId)).includes(validatedData.category)) {
+        return res.status(400).json({ message: 'Unknown category' });
+      }
+      
+      // Like categories, an archived account may stay on the transactions already in it
+      if (validatedData.accountId !== undefined && validatedData.accountId !== transaction.accountId) {
+        const account = await resolveAccountId(transaction.userId, validatedData.accountId);
+        if ('error' in account) {
+          return res.status(400).json({ message: account.error });
+        }
+      }
+      
+      if (await inReconciledPeriod(
+        validatedData.accountId !== undefined ? validatedData.accountId : transaction.accountId,
+        validatedData.date ?? transaction.date,
+      )) {
+        return res.status(400).json({ message: RECONCILED_PERIOD_MESSAGE });
+      }
+      
+      if (validatedData.currency !== undefined || validatedData.accountId !== undefined) {
+        const currency = await resolveCurrency(
+          transaction.userId,
+          validatedData.accountId !== undefined ? validatedData.accountId : transaction.accountId,
+          validatedData.currency,
+          transaction.currency,
+        );
+        if ('error' in currency) {
+          return res.status(400).json({ message: currency.error });
+        }
+      }
+      
+      const split = await resolveHouseholdSplit(transaction.userId, validatedData, transaction);
+      
+      if ('error' in split) {
+        return res.status(400).json({ message: split.error });
+      }
+      
+      const updatedTransaction = await storage.updateTransaction(id, split.data);
+      
+      // Update monthly summary after modifying a transaction
+      const transactionDate = new Date(updatedTransaction?.date || transaction.date);
+      await generateMonthlySummary(
+        transaction.userId, 
+        transactionDate.getFullYear(), 
+        transactionDate.getMonth() + 1
+      );
+      
+      res.json(updatedTransaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid transaction data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update transaction' });
+    }
+  });
+  
+  app.delete('/api/transactions/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid transaction ID' });
+      }
+      
+      const storage = await getStorage();
+      const transaction = await storage.getTransactionById(id);
+      
+      if (!transaction || transaction.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Transaction not found' });
+      }
+      
+      if (transaction.status === 'reconciled') {
+        return res.status(400).json({ message: RECONCILED_MESSAGE });
+      }
+      
+      if (transaction.transferId !== null && (await storage.getTransactionById(transaction.transferId))?.status === 'reconciled') {
+        return res.status(400).json({ message: 'The other side of this transfer has been reconciled' });
+      }
+      
+      const success = await storage.deleteTransaction(id);
+      
+      // A transfer cannot be left with one leg
+      if (success && transaction.transferId !== null) {
+        await storage.deleteTransaction(transaction.transferId);
+      }
+      
+      if (success) {
+        // Update monthly summary after deleting a transaction
+        const transactionDate = new Date(transaction.date);
+        await generateMonthlySummary(
+          transaction.userId, 
+          transactionDate.getFullYear(), 
+          transactionDate.getMonth() + 1
+        );
+        
+        res.status(204).end();
+      } else {
+        res.status(500).json({ message: 'Failed to delete transaction' });
+      }
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete transaction' });
+    }
+  });
+  
+  // Account Routes
+  app.get('/api/accounts', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const storage = await getStorage();
+      const accounts = await getVisibleAccounts(userId);
+      const { baseCurrency, rates } = await getCurrencyContext(userId);
+      
+      const withBalances = [];
+      for (const account of accounts) {
+        const transactions = await storage.getTransactionsByAccount(account.id);
+        const balance = accountBalance(account, transactions);
+        // Today's value in the user's base currency
+        const baseBalance = convertAmount(balance, account.currency, baseCurrency, new Date(), rates);
+        withBalances.push({ ...account, balance, baseBalance });
+      }
+      res.json(withBalances);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch accounts' });
+    }
+  });
+  
+  app.post('/api/accounts', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertAccountSchema.parse(req.body);
+      const storage = await getStorage();
+      const household = validatedData.joint ? await storage.getHouseholdByUser(userId) : undefined;
+      
+      if (validatedData.joint && !household) {
+        return res.status(400).json({ message: 'Join a household before adding a joint account' });
+      }
+      
+      const account = await storage.createAccount(userId, household?.id ?? null, validatedData);
+      res.status(201).json({ ...account, balance: Number(account.openingBalance) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid account data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create account' });
+    }
+  });
+  
+  app.put('/api/accounts/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const account = await getVisibleAccount(userId, parseInt(req.params.id));
+      
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      
+      if (account.userId !== userId) {
+        return res.status(403).json({ message: 'Only the account owner can change it' });
+      }
+      
+      const validatedData = updateAccountSchema.parse(req.body);
+      const storage = await getStorage();
+      
+      // The amounts already recorded are in the old currency
+      if (validatedData.currency !== undefined && validatedData.currency !== account.currency &&
+          (await storage.getTransactionsByAccount(account.id)).length > 0) {
+        return res.status(400).json({ message: 'This account has transactions, so its currency cannot change' });
+      }
+      
+      let householdId: number | null | undefined;
+      if (validatedData.joint !== undefined) {
+        const household = validatedData.joint ? await storage.getHouseholdByUser(userId) : undefined;
+        if (validatedData.joint && !household) {
+          return res.status(400).json({ message: 'Join a household before sharing an account' });
+        }
+        householdId = household?.id ?? null;
+      }
+      
+      const updatedAccount = await storage.updateAccount(account.id, validatedData, householdId);
+      res.json(updatedAccount);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid account data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update account' });
+    }
+  });
+  
+  // Only empty accounts can be deleted; archive the others
+  app.delete('/api/accounts/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const account = await getVisibleAccount(userId, parseInt(req.params.id));
+      
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      
+      if (account.userId !== userId) {
+        return res.status(403).json({ message: 'Only the account owner can delete it' });
+      }
+      
+      const storage = await getStorage();
+      const transactions = await storage.getTransactionsByAccount(account.id);
+      
+      if (transactions.length > 0) {
+        return res.status(400).json({ message: 'This account has transactions; archive it instead' });
+      }
+      
+      await storage.deleteAccount(account.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete account' });
+    }
+  });
+  
+  // An account's transactions, newest first, with the running balance after each
+  app.get('/api/accounts/:id/transactions', async (req: Request, res: Response) => {
+    try {
+      const account = await getVisibleAccount(req.user!.id, parseInt(req.params.id));
+      
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      
+      const storage = await getStorage();
+      const transactions = await storage.getTransactionsByAccount(account.id);
+      res.json(withRunningBalances(account, transactions));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch account transactions' });
+    }
+  });
+  
+  // Statement Routes
+  // The account's statements, newest first, each with whether its cleared transactions add up
+  app.get('/api/accounts/:id/statements', async (req: Request, res: Response) => {
+    try {
+      const account = await getVisibleAccount(req.user!.id, parseInt(req.params.id));
+      
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      
+      const storage = await getStorage();
+      const transactions = await storage.getTransactionsByAccount(account.id);
+      const statements = await storage.getAccountStatements(account.id);
+      res.json(statements.map(statement => {
+        const { transactions: _, ...reconciliation } = reconcileStatement(statement, transactions);
+        return reconciliation;
+      }));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch statements' });
+    }
+  });
+  
+  // Enter a statement's balances by hand, e.g. for a paper statement or a CSV export without them
+  app.post('/api/accounts/:id/statements', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const account = await getVisibleAccount(userId, parseInt(req.params.id));
+      
+      if (!account) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      
+      const validatedData = insertAccountStatementSchema.parse(req.body);
+      const storage = await getStorage();
+      const statement = await storage.createAccountStatement(userId, account.id, validatedData);
+      res.status(201).json(statement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid statement data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create statement' });
+    }
+  });
+  
+  // A statement with the account's transactions in its period, to tick off against it
+  app.get('/api/statements/:id', async (req: Request, res: Response) => {
+    try {
+      const statement = await getVisibleAccountStatement(req.user!.id, parseInt(req.params.id));
+      
+      if (!statement) {
+        return res.status(404).json({ message: 'Statement not found' });
+      }
+      
+      const storage = await getStorage();
+      res.json(reconcileStatement(statement, await storage.getTransactionsByAccount(statement.accountId)));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch statement' });
+    }
+  });
+  
+  app.put('/api/statements/:id', async (req: Request, res: Response) => {
+    try {
+      const statement = await getVisibleAccountStatement(req.user!.id, parseInt(req.params.id));
+      
+      if (!statement) {
+        return res.status(404).json({ message: 'Statement not found' });
+      }
+      
+      if (statement.reconciledAt !== null) {
+        return res.status(400).json({ message: 'Undo the reconciliation before changing the statement' });
+      }
+      
+      const validatedData = insertAccountStatementSchema.parse(req.body);
+      const storage = await getStorage();
+      const updatedStatement = await storage.updateAccountStatement(statement.id, validatedData);
+      res.json(updatedStatement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid statement data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update statement' });
+    }
+  });
+  
+  app.delete('/api/statements/:id', async (req: Request, res: Response) => {
+    try {
+      const statement = await getVisibleAccountStatement(req.user!.id, parseInt(req.params.id));
+      
+      if (!statement) {
+        return res.status(404).json({ message: 'Statement not found' });
+      }
+      
+      if (statement.reconciledAt !== null) {
+        return res.status(400).json({ message: 'Undo the reconciliation before deleting the statement' });
+      }
+      
+      const storage = await getStorage();
+      await storage.deleteAccountStatement(statement.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete statement' });
+    }
+  });
+  
+  // Tick transactions in the statement period off as cleared by the bank, or untick them
+  app.post('/api/statements/:id/cleared', async (req: Request, res: Response) => {
+    try {
+      const { transactionIds, cleared } = z.object({
+        transactionIds: z.array(z.number().int()),
+        cleared: z.boolean(),
+      }).parse(req.body);
+      
+      const statement = await getVisibleAccountStatement(req.user!.id, parseInt(req.params.id));
+      
+      if (!statement) {
+        return res.status(404).json({ message: 'Statement not found' });
+      }
+      
+      if (statement.reconciledAt !== null) {
+        return res.status(400).json({ message: 'This statement has been reconciled; undo the reconciliation to change it' });
+      }
+      
+      const storage = await getStorage();
+      const { transactions } = reconcileStatement(statement, await storage.getTransactionsByAccount(statement.accountId));
+      const ids = transactions
+        .filter(transaction => transactionIds.includes(transaction.id) && transaction.status !== 'reconciled')
+        .map(transaction => transaction.id);
+      
+      res.json(await storage.setTransactionStatus(ids, cleared ? 'cleared' : 'uncleared'));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update transactions' });
+    }
+  });
+  
+  // Lock the statement period once its cleared transactions match the statement balances exactly
+  app.post('/api/statements/:id/reconcile', async (req: Request, res: Response) => {
+    try {
+      const statement = await getVisibleAccountStatement(req.user!.id, parseInt(req.params.id));
+      
+      if (!statement) {
+        return res.status(404).json({ message: 'Statement not found' });
+      }
+      
+      if (statement.reconciledAt !== null) {
+        return res.status(400).json({ message: 'This statement has already been reconciled' });
+      }
+      
+      const storage = await getStorage();
+      const reconciliation = reconcileStatement(statement, await storage.getTransactionsByAccount(statement.accountId));
+      
+      if (reconciliation.difference === null) {
+        return res.status(400).json({ message: 'Enter the opening and closing balances before reconciling' });
+      }
+      
+      if (reconciliation.difference !== 0) {
+        return res.status(400).json({ message: `The cleared transactions are ${reconciliation.difference.toFixed(2)} away from the statement` });
+      }
+      
+      const clearedIds = reconciliation.transactions
+        .filter(transaction => transaction.status === 'cleared')
+        .map(transaction => transaction.id);
+      res.json(await storage.setAccountStatementReconciled(statement.id, clearedIds, true));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to reconcile statement' });
+    }
+  });
+  
+  // Unlock a reconciled period so its transactions can be corrected
+  app.post('/api/statements/:id/unreconcile', async (req: Request, res: Response) => {
+    try {
+      const statement = await getVisibleAccountStatement(req.user!.id, parseInt(req.params.id));
+      
+      if (!statement) {
+        return res.status(404).json({ message: 'Statement not found' });
+      }
+      
+      if (statement.reconciledAt === null) {
+        return res.status(400).json({ message: 'This statement has not been reconciled' });
+      }
+      
+      const storage = await getStorage();
+      const { transactions } = reconcileStatement(statement, await storage.getTransactionsByAccount(statement.accountId));
+      const reconciledIds = transactions
+        .filter(transaction => transaction.status === 'reconciled')
+        .map(transaction => transaction.id);
+      res.json(await storage.setAccountStatementReconciled(statement.id, reconciledIds, false));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to undo reconciliation' });
+    }
+  });
+  
+  // Transfer Routes
+  // Record money moved between two of the user's accounts as a linked pair of transactions
+  app.post('/api/transfers', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertTransferSchema.parse(req.body);
+      
+      const from = await resolveAccountId(userId, validatedData.fromAccountId);
+      const to = await resolveAccountId(userId, validatedData.toAccountId);
+      if ('error' in from || 'error' in to) {
+        return res.status(400).json({ message: 'Unknown account' });
+      }
+      
+      if (await inReconciledPeriod(from.accountId, validatedData.date) || await inReconciledPeriod(to.accountId, validatedData.date)) {
+        return res.status(400).json({ message: RECONCILED_PERIOD_MESSAGE });
+      }
+      
+      const storage = await getStorage();
+      const [fromAccount, toAccount] = await Promise.all([from.accountId, to.accountId].map(id => storage.getAccountById(id!)));
+      if (fromAccount?.currency !== toAccount?.currency) {
+        return res.status(400).json({ message: 'Transfers between accounts in different currencies are not supported' });
+      }
+      
+      const leg = { date: validatedData.date, description: validatedData.description, category: TRANSFER_CATEGORY, currency: fromAccount?.currency };
+      const outgoing = await storage.createTransaction(userId, {
+        ...leg,
+        amount: -validatedData.amount,
+        type: 'expense',
+        accountId: from.accountId,
+      });
+      const incoming = await storage.createTransaction(userId, {
+        ...leg,
+        amount: validatedData.amount,
+        type: 'income',
+        accountId: to.accountId,
+      });
+      
+      res.status(201).json(await storage.linkTransfer(outgoing.id, incoming.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid transfer data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create transfer' });
+    }
+  });
+  
+  // Turn two existing transactions, e.g. entered by hand as an expense and an income, into a transfer
+  app.post('/api/transfers/link', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { transactionIds } = z.object({
+        transactionIds: z.tuple([z.number().int(), z.number().int()]),
+      }).parse(req.body);
+      
+      const storage = await getStorage();
+      const [first, second] = await Promise.all(transactionIds.map(id => storage.getTransactionById(id)));
+      
+      if (!first || !second || first.userId !== userId || second.userId !== userId) {
+        return res.status(404).json({ message: 'Transaction not found' });
+      }
+      
+      if (first.transferId !== null || second.transferId !== null) {
+        return res.status(400).json({ message: 'One of these transactions is already part of a transfer' });
+      }
+      
+      if (first.status === 'reconciled' || second.status === 'reconciled') {
+        return res.status(400).json({ message: RECONCILED_MESSAGE });
+      }
+      
+      if (!isTransferPair(first, second) || first.currency !== second.currency) {
+        return res.status(400).json({ message: 'A transfer needs equal and opposite amounts in two different accounts, a few days apart at most' });
+      }
+      
+      const [outgoing, incoming] = Number(first.amount) < 0 ? [first, second] : [second, first];
+      const legs = await storage.linkTransfer(outgoing.id, incoming.id);
+      
+      // Both legs no longer count as income or expense
+      await regenerateMonthlySummaries(userId, [first, second]);
+      
+      res.json(legs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid transfer data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to link transfer' });
+    }
+  });
+  
+  // Split a transfer back into an ordinary expense and income, categorised by the user's rules
+  app.post('/api/transfers/:id/unlink', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id);
+      const storage = await getStorage();
+      const transaction = isNaN(id) ? undefined : await storage.getTransactionById(id);
+      
+      if (!transaction || transaction.userId !== userId || transaction.transferId === null) {
+        return res.status(404).json({ message: 'Transfer not found' });
+      }
+      
+      const other = await storage.getTransactionById(transaction.transferId);
+      if (transaction.status === 'reconciled' || other?.status === 'reconciled') {
+        return res.status(400).json({ message: RECONCILED_MESSAGE });
+      }
+      
+      const categorise = await getCategoriser(userId);
+      const legs = [];
+      for (const leg of await storage.unlinkTransfer(transaction.id)) {
+        legs.push(await storage.updateTransaction(leg.id, { category: categorise(leg) }) ?? leg);
+      }
+      
+      await regenerateMonthlySummaries(userId, legs);
+      
+      res.json(legs);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to unlink transfer' });
+    }
+  });
+  
+  // Monthly Summary Routes
+  app.get('/api/summaries', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const storage = await getStorage();
+      const summaries = await storage.getMonthlySummaries(userId);
+      res.json(summaries);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch monthly summaries' });
+    }
+  });
+  
+  app.get('/api/summaries/:year/:month', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      
+      if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
+        return res.status(400).json({ message: 'Invalid year or month' });
+      }
+      
+      const storage = await getStorage();
+      const summary = await storage.getMonthlySummaryByMonth(userId, year, month);
+      
+      if (!summary) {
+        return res.status(404).json({ message: 'Summary not found for this month' });
+      }
+      
+      // Get category breakdowns, stored per leaf category.
+      // ?level=parent rolls them up; ?parent=Food drills into Food's subcategories.
+      const breakdowns = await storage.getCategoryBreakdowns(summary.id);
+      const parent = typeof req.query.parent === 'string' ? req.query.parent : undefined;
+      
+      if (req.query.level === 'parent' || parent !== undefined) {
+        const userCategories = await getUserCategories(userId);
+        return res.json({ summary, breakdowns: rollUpBreakdowns(breakdowns, userCategories, parent) });
+      }
+      
+      res.json({ summary, breakdowns });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch monthly summary' });
+    }
+  });
+  
+  // Spending by category over a year, rolled up to top-level categories or,
+  // with ?parent=, broken down into that category's subcategories
+  app.get('/api/reports/:year/categories', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const year = parseInt(req.params.year);
+      
+      if (isNaN(year)) {
+        return res.status(400).json({ message: 'Invalid year' });
+      }
+      
+      const storage = await getStorage();
+      const summaries = (await storage.getMonthlySummaries(userId)).filter(summary => summary.year === year);
+      const breakdowns = [];
+      for (const summary of summaries) {
+        breakdowns.push(...await storage.getCategoryBreakdowns(summary.id));
+      }
+      
+      const parent = typeof req.query.parent === 'string' ? req.query.parent : undefined;
+      res.json(rollUpBreakdowns(breakdowns, await getUserCategories(userId), parent));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch category report' });
+    }
+  });
+  
+  // A year's report to download: monthly income and spending, category totals, top merchants
+  // and the savings rate, as a PDF with charts or an XLSX workbook
+  app.get('/api/reports/:year/annual.:format', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const year = parseInt(req.params.year);
+      const format = req.params.format;
+      
+      if (isNaN(year)) {
+        return res.status(400).json({ message: 'Invalid year' });
+      }
+      if (format !== 'pdf' && format !== 'xlsx') {
+        return res.status(400).json({ message: 'Format must be pdf or xlsx' });
+      }
+      
+      const storage = await getStorage();
+      const { baseCurrency, rates } = await getCurrencyContext(userId);
+      const report = buildAnnualReport({
+        year,
+        currency: baseCurrency,
+        transactions: await storage.getTransactions(userId),
+        categories: await getUserCategories(userId),
+        toBase: (amount, currency, date) => convertAmount(amount, currency, baseCurrency, date, rates),
+      });
+      
+      if (format === 'pdf') {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename=annual-report-${year}.pdf`);
+        res.send(await annualReportPdf(report));
+      } else {
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename=annual-report-${year}.xlsx`);
+        res.send(await annualReportXlsx(report));
+      }
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to generate annual report' });
+    }
+  });
+  
+  // Household Routes
+  app.get('/api/household', async (req: Request, res: Response) => {
+    try {
+      const context = await getHouseholdContext(req.user!.id);
+      
+      if (!context) {
+        return res.status(404).json({ message: 'You are not a member of a household' });
+      }
+      
+      const storage = await getStorage();
+      const members = await Promise.all(context.members.map(async (member) => {
+        const user = await storage.getUser(member.userId);
+        return {
+          userId: member.userId,
+          username: user?.username ?? 'Unknown user',
+          role: member.role,
+          joinedAt: member.joinedAt,
+        };
+      }));
+      
+      res.json({ household: context.household, members });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch household' });
+    }
+  });
+  
+  app.post('/api/household', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertHouseholdSchema.parse(req.body);
+      const storage = await getStorage();
+      
+      if (await storage.getHouseholdByUser(userId)) {
+        return res.status(400).json({ message: 'You already belong to a household' });
+      }
+      
+      const household = await storage.createHousehold(userId, {
+        ...validatedData,
+        currency: validatedData.currency ?? (await getCurrencyContext(userId)).baseCurrency,
+      });
+      res.status(201).json(household);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid household data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create household' });
+    }
+  });
+  
+  // Invite a user to the household; they join only once they accept. The reply is the same
+  // whether or not the username exists, so inviting cannot be used to find out who has an account.
+  app.post('/api/household/invitations', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { username } = z.object({ username: z.string().trim().min(1) }).parse(req.body);
+      const context = await getHouseholdContext(userId);
+      
+      if (!context) {
+        return res.status(404).json({ message: 'You are not a member of a household' });
+      }
+      
+      const storage = await getStorage();
+      const user = await storage.getUserByUsername(username);
+      
+      if (user && !context.memberIds.includes(user.id)) {
+        await storage.createHouseholdInvitation(context.household.id, user.id, userId);
+      }
+      
+      res.status(202).json({ message: `If ${username} has an account, they will see the invitation next time they open Household` });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid invitation data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to send invitation' });
+    }
+  });
+  
+  // Invitations waiting for the signed-in user
+  app.get('/api/household/invitations', async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const invitations = await storage.getHouseholdInvitationsForUser(req.user!.id);
+      res.json(await Promise.all(invitations.map(async (invitation) => {
+        const [members, inviter] = await Promise.all([
+          storage.getHouseholdMembers(invitation.householdId),
+          storage.getUser(invitation.invitedBy),
+        ]);
+        const household = members.length > 0 ? await storage.getHouseholdByUser(members[0].userId) : undefined;
+        return {
+          id: invitation.id,
+          householdName: household?.name ?? 'Household',
+          invitedBy: inviter?.username ?? 'Unknown user',
+          createdAt: invitation.createdAt,
+        };
+      })));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch invitations' });
+    }
+  });
+  
+  app.post('/api/household/invitations/:id/accept', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const storage = await getStorage();
+      const invitation = await getOwnHouseholdInvitation(userId, parseInt(req.params.id));
+      
+      if (!invitation) {
+        return res.status(404).json({ message: 'Invitation not found' });
+      }
+      
+      if (await storage.getHouseholdByUser(userId)) {
+        return res.status(400).json({ message: 'Leave your current household before joining another' });
+      }
+      
+      // Everyone may have left the household since the invitation was sent
+      if ((await storage.getHouseholdMembers(invitation.householdId)).length === 0) {
+        await storage.deleteHouseholdInvitation(invitation.id);
+        return res.status(404).json({ message: 'That household no longer exists' });
+      }
+      
+      // Shared transactions keep the members they were split between, so the newcomer takes
+      // no part in the household's history: only in what is shared from today on
+      const member = await storage.acceptHouseholdInvitation(invitation.id);
+      res.status(201).json({ userId: member.userId, username: req.user!.username, role: member.role, joinedAt: member.joinedAt });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to accept invitation' });
+    }
+  });
+  
+  // Decline an invitation
+  app.delete('/api/household/invitations/:id', async (req: Request, res: Response) => {
+    try {
+      const invitation = await getOwnHouseholdInvitation(req.user!.id, parseInt(req.params.id));
+      
+      if (!invitation) {
+        return res.status(404).json({ message: 'Invitation not found' });
+      }
+      
+      const storage = await getStorage();
+      await storage.deleteHouseholdInvitation(invitation.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to decline invitation' });
+    }
+  });
+  
+  app.delete('/api/household/members/:userId', async (req: Request, res: Response) => {
+    try {
+      const memberId = parseInt(req.params.userId);
+      
+      if (isNaN(memberId)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+      
+      const context = await getHouseholdContext(req.user!.id);
+      
+      if (!context || !context.memberIds.includes(memberId)) {
+        return res.status(404).json({ message: 'Household member not found' });
+      }
+      
+      // Members may leave; only the owner may remove someone else
+      const requester = context.members.find(member => member.userId === req.user!.id);
+      if (memberId !== req.user!.id && requester?.role !== 'owner') {
+        return res.status(403).json({ message: 'Only the household owner can remove members' });
+      }
+      
+      const net = await getHouseholdBalances(context.household, context.members);
+      
+      if (Math.abs(net.get(memberId) || 0) >= 0.01) {
+        return res.status(400).json({ message: 'Settle up outstanding balances before leaving the household' });
+      }
+      
+      const storage = await getStorage();
+      await storage.removeHouseholdMember(context.household.id, memberId);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to remove household member' });
+    }
+  });
+  
+  app.get('/api/household/balances', async (req: Request, res: Response) => {
+    try {
+      const context = await getHouseholdContext(req.user!.id);
+      
+      if (!context) {
+        return res.status(404).json({ message: 'You are not a member of a household' });
+      }
+      
+      const net = await getHouseholdBalances(context.household, context.members);
+      
+      res.json({
+        balances: Array.from(net.entries()).map(([userId, amount]) => ({ userId, net: amount })),
+        debts: simplifyDebts(net),
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to compute household balances' });
+    }
+  });
+  
+  app.get('/api/household/summary/:year/:month', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      
+      if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
+        return res.status(400).json({ message: 'Invalid year or month' });
+      }
+      
+      const context = await getHouseholdContext(userId);
+      
+      if (!context) {
+        return res.status(404).json({ message: 'You are not a member of a household' });
+      }
+      
+      const storage = await getStorage();
+      const ownTransactions = await toHouseholdCurrency(context.household, context.memberIds, await storage.getTransactionsByMonth(userId, year, month));
+      const sharedTransactions = (await getHouseholdSharedTransactions(context.household, context.members))
+        .filter(transaction => {
+          const transactionDate = new Date(transaction.date);
+          return transactionDate.getFullYear() === year && transactionDate.getMonth() === month - 1;
+        });
+      
+      res.json({
+        ...summariseSharedSpending(userId, ownTransactions, sharedTransactions, context.memberIds),
+        currency: context.household.currency,
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch household summary' });
+    }
+  });
+  
+  // Settlement Routes
+  app.get('/api/household/settlements', async (req: Request, res: Response) => {
+    try {
+      const context = await getHouseholdContext(req.user!.id);
+      
+      if (!context) {
+        return res.status(404).json({ message: 'You are not a member of a household' });
+      }
+      
+      const storage = await getStorage();
+      const settlements = await storage.getSettlements(context.household.id);
+      res.json(settlements);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch settlements' });
+    }
+  });
+  
+  app.post('/api/household/settlements', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertSettlementSchema.parse(req.body);
+      const context = await getHouseholdContext(userId);
+      
+      if (!context) {
+        return res.status(404).json({ message: 'You are not a member of a household' });
+      }
+      
+      if (
+        validatedData.fromUserId === validatedData.toUserId ||
+        !context.memberIds.includes(validatedData.fromUserId) ||
+        !context.memberIds.includes(validatedData.toUserId)
+      ) {
+        return res.status(400).json({ message: 'A settlement must be between two household members' });
+      }
+      
+      if (userId !== validatedData.fromUserId && userId !== validatedData.toUserId) {
+        return res.status(403).json({ message: 'You can only record settlements you are part of' });
+      }
+      
+      const storage = await getStorage();
+      const settlement = await storage.createSettlement(context.household.id, userId, validatedData);
+      res.status(201).json(settlement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid settlement data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to record settlement' });
+    }
+  });
+  
+  // Settle every outstanding debt the current user is part of in one go
+  app.post('/api/household/settlements/settle-all', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const context = await getHouseholdContext(userId);
+      
+      if (!context) {
+        return res.status(404).json({ message: 'You are not a member of a household' });
+      }
+      
+      const net = await getHouseholdBalances(context.household, context.members);
+      const debts = simplifyDebts(net)
+        .filter(debt => debt.fromUserId === userId || debt.toUserId === userId);
+      
+      if (debts.length === 0) {
+        return res.status(400).json({ message: 'There is nothing to settle' });
+      }
+      
+      const storage = await getStorage();
+      const created = [];
+      for (const debt of debts) {
+        created.push(await storage.createSettlement(context.household.id, userId, {
+          fromUserId: debt.fromUserId,
+          toUserId: debt.toUserId,
+          amount: debt.amount,
+          date: new Date(),
+          note: 'Settled full balance',
+        }));
+      }
+      
+      res.status(201).json(created);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to settle balances' });
+    }
+  });
+  
+  app.delete('/api/household/settlements/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid settlement ID' });
+      }
+      
+      const context = await getHouseholdContext(req.user!.id);
+      const storage = await getStorage();
+      const settlement = await storage.getSettlementById(id);
+      
+      if (!context || !settlement || settlement.householdId !== context.household.id) {
+        return res.status(404).json({ message: 'Settlement not found' });
+      }
+      
+      if (settlement.createdBy !== req.user!.id) {
+        return res.status(403).json({ message: 'Only the member who recorded a settlement can delete it' });
+      }
+      
+      await storage.deleteSettlement(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete settlement' });
+    }
+  });
+  
+  app.get('/api/household/balance-history', async (req: Request, res: Response) => {
+    try {
+      const context = await getHouseholdContext(req.user!.id);
+      
+      if (!context) {
+        return res.status(404).json({ message: 'You are not a member of a household' });
+      }
+      
+      const storage = await getStorage();
+      const sharedTransactions = await getHouseholdSharedTransactions(context.household, context.members);
+      const settlements = await storage.getSettlements(context.household.id);
+      
+      res.json(buildBalanceHistory(sharedTransactions, settlements, context.memberIds));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch balance history' });
+    }
+  });
+  
+  // Supported bank statement formats
+  app.get('/api/statement-parsers', (req: Request, res: Response) => {
+    res.json(listParsers());
+  });
+  
+  // PDF Upload and Processing.
+  // Uploading only creates a draft import; nothing is saved as a transaction until it is committed.
+  app.post('/api/upload-statement', async (req: Request, res: Response) => {
+    try {
+      if (!req.body || !req.body.pdfContent) {
+        return res.status(400).json({ message: 'No PDF content provided' });
+      }
+      
+      const userId = req.user!.id;
+      const pdfContent = req.body.pdfContent;
+      const parserId: string | undefined = req.body.parser || undefined;
+      
+      if (parserId && !getParser(parserId)) {
+        return res.status(400).json({ message: `Unknown statement format: ${parserId}` });
+      }
+      
+      // For base64 encoded pdf content
+      const pdfBuffer = Buffer.from(pdfContent, 'base64');
+      
+      // Extract text from PDF
+      const extractedText = await extractPdfContent(pdfBuffer);
+      
+      // Extract transactions with the chosen or detected bank format
+      const { parser, transactions: extractedTransactions, balances } = parseStatement(extractedText, parserId);
+      
+      if (!parser) {
+        return res.status(400).json({ 
+          message: 'The statement format was not recognised. Please pick your bank format or try manual entry.' 
+        });
+      }
+      
+      if (extractedTransactions.length === 0) {
+        return res.status(400).json({ 
+          message: 'No transactions could be extracted from the PDF. Please check the format or try manual entry.' 
+        });
+      }
+      
+      const account = await resolveAccountId(userId, req.body.accountId);
+      if ('error' in account) {
+        return res.status(400).json({ message: account.error });
+      }
+      
+      const statementImport = await createDraftImport(userId, {
+        parserId: parser.id,
+        fileName: typeof req.body.fileName === 'string' ? req.body.fileName : null,
+        accountId: account.accountId,
+        ...balances,
+      }, extractedTransactions);
+      
+      res.status(201).json({
+        message: `Extracted ${extractedTransactions.length} transactions for review`,
+        parser: { id: parser.id, name: parser.name },
+        import: await getStatementImportDetails(statementImport),
+      });
+    } catch (error) {
+      console.error('PDF processing error:', error);
+      res.status(500).json({ message: 'Failed to process PDF' });
+    }
+  });
+  
+  // CSV import: preview the file for the column-mapping wizard
+  app.post('/api/import/csv/preview', async (req: Request, res: Response) => {
+    if (typeof req.body?.content !== 'string' || req.body.content.trim().length === 0) {
+      return res.status(400).json({ message: 'No CSV content provided' });
+    }
+    
+    res.json(previewCsv(req.body.content));
+  });
+  
+  // CSV import with a saved profile or a one-off column mapping
+  app.post('/api/import/csv', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      
+      if (typeof req.body?.content !== 'string' || req.body.content.trim().length === 0) {
+        return res.status(400).json({ message: 'No CSV content provided' });
+      }
+      
+      let mapping;
+      if (req.body.profileId !== undefined) {
+        const storage = await getStorage();
+        const profile = await storage.getCsvProfileById(parseInt(req.body.profileId));
+        
+        if (!profile || profile.userId !== userId) {
+          return res.status(404).json({ message: 'CSV profile not found' });
+        }
+        mapping = csvMappingSchema.parse(profile);
+      } else {
+        mapping = csvMappingSchema.parse(req.body.mapping);
+      }
+      
+      const extractedTransactions = parseCsvTransactions(req.body.content, mapping);
+      
+      if (extractedTransactions.length === 0) {
+        return res.status(400).json({ 
+          message: 'No transactions could be read from the CSV. Please check the column mapping.' 
+        });
+      }
+      
+      const account = await resolveAccountId(userId, req.body.accountId);
+      if ('error' in account) {
+        return res.status(400).json({ message: account.error });
+      }
+      
+      const statementImport = await createDraftImport(userId, {
+        parserId: 'csv',
+        fileName: typeof req.body.fileName === 'string' ? req.body.fileName : null,
+        accountId: account.accountId,
+      }, extractedTransactions);
+      
+      res.status(201).json({
+        message: `Extracted ${extractedTransactions.length} transactions for review`,
+        parser: { id: 'csv', name: FILE_IMPORT_FORMATS.csv },
+        import: await getStatementImportDetails(statementImport),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid column mapping', errors: error.errors });
+      }
+      console.error('CSV processing error:', error);
+      res.status(500).json({ message: 'Failed to process CSV' });
+    }
+  });
+  
+  // OFX/QFX import; FITIDs recognise transactions that were imported before
+  app.post('/api/import/ofx', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      
+      if (typeof req.body?.content !== 'string' || !isOfx(req.body.content)) {
+        return res.status(400).json({ message: 'The file is not an OFX or QFX statement' });
+      }
+      
+      const extractedTransactions = parseOfxTransactions(req.body.content);
+      
+      if (extractedTransactions.length === 0) {
+        return res.status(400).json({ message: 'No transactions could be read from the OFX file' });
+      }
+      
+      const account = await resolveAccountId(userId, req.body.accountId);
+      if ('error' in account) {
+        return res.status(400).json({ message: account.error });
+      }
+      
+      const statementImport = await createDraftImport(userId, {
+        parserId: 'ofx',
+        fileName: typeof req.body.fileName === 'string' ? req.body.fileName : null,
+        accountId: account.accountId,
+        ...withStatementPeriod(parseOfxBalances(req.body.content), extractedTransactions),
+      }, extractedTransactions);
+      
+      res.status(201).json({
+        message: `Extracted ${extractedTransactions.length} transactions for review`,
+        parser: { id: 'ofx', name: FILE_IMPORT_FORMATS.ofx },
+        import: await getStatementImportDetails(statementImport),
+      });
+    } catch (error) {
+      console.error('OFX processing error:', error);
+      res.status(500).json({ message: 'Failed to process OFX file' });
+    }
+  });
+  
+  // A Beancount ledger is saved straight away rather than reviewed like a statement: it spans
+  // many accounts and categorises its own transactions. Accounts and categories it names that
+  // the user does not have yet are added, and transactions already in the app are skipped,
+  // so a file exported from here can be imported back.
+  app.post('/api/import/beancount', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      
+      if (typeof req.body?.content !== 'string') {
+        return res.status(400).json({ message: 'The file is not a Beancount ledger' });
+      }
+      
+      const file = parseBeancount(req.body.content);
+      if (file.errors.length > 0) {
+        return res.status(400).json({ message: `Line ${file.errors[0].line}: ${file.errors[0].message}`, errors: file.errors });
+      }
+      
+      const plan = planBeancountImport(
+        file,
+        await getVisibleAccounts(userId),
+        await getUserCategories(userId),
+        (await getCurrencyContext(userId)).baseCurrency,
+      );
+      if (plan.transactions.length === 0 && plan.transfers.length === 0 && plan.accounts.size === 0) {
+        return res.status(400).json({ message: 'No transactions could be read from the Beancount file' });
+      }
+      
+      const storage = await getStorage();
+      const existingTransactions = await storage.getTransactions(userId);
+      const accountIdOf = (leg: PlannedTransaction) => (leg.account !== null ? plan.accounts.get(leg.account)!.accountId : null);
+      const isDuplicate = (leg: PlannedTransaction) => {
+        const accountId = accountIdOf(leg);
+        // An account still to be added has nothing in it to duplicate
+        if (leg.account !== null && accountId === null) return false;
+        const candidate = { date: leg.date, amount: leg.amount, description: leg.description, accountId, externalId: leg.externalId };
+        return findDuplicate(candidate, existingTransactions)?.confidence === 'exact';
+      };
+      const transactions = plan.transactions.filter(leg => !isDuplicate(leg));
+      const transfers = plan.transfers.filter(legs => !legs.some(isDuplicate));
+      const skipped = plan.transactions.length - transactions.length + plan.transfers.length - transfers.length;
+      
+      const newLegs = [...transactions, ...transfers.flat()];
+      const statements = new Map<number, AccountStatement[]>();
+      for (const accountId of Array.from(new Set(newLegs.map(accountIdOf)))) {
+        if (accountId !== null) statements.set(accountId, await storage.getAccountStatements(accountId));
+      }
+      const lockedLegs = newLegs.filter(leg => {
+        const accountId = accountIdOf(leg);
+        return accountId !== null && isReconciledPeriod(statements.get(accountId)!, accountId, leg.date);
+      });
+      if (lockedLegs.length > 0) {
+        return res.status(400).json({ message: `${lockedLegs.length} transactions fall in a reconciled statement period; undo the reconciliation to import them` });
+      }
+      
+      // Check everything before saving anything, so a bad entry leaves the ledger as it was
+      const pdfSource = typeof req.body.fileName === 'string' && req.body.fileName ? req.body.fileName : 'Beancount file';
+      const transactionData = (leg: PlannedTransaction) => insertTransactionSchema.parse({
+        date: leg.date,
+        description: leg.description,
+        category: leg.category,
+        amount: leg.amount,
+        type: leg.type,
+        pdfSource,
+        externalId: leg.externalId,
+        currency: leg.currency,
+      });
+      const newAccounts = Array.from(plan.accounts.values()).filter(account => account.accountId === null);
+      const accountData = newAccounts.map(account => insertAccountSchema.parse(account));
+      const categoryData = plan.categories.map(category => ({
+        ...category,
+        data: insertCategorySchema.parse({ name: category.name, ...IMPORTED_CATEGORY_STYLE }),
+        parentData: category.parent ? insertCategorySchema.parse({ name: category.parent, ...IMPORTED_CATEGORY_STYLE }) : null,
+      }));
+      newLegs.forEach(transactionData);
+      
+      const createdAccounts: string[] = [];
+      for (let index = 0; index < newAccounts.length; index++) {
+        const account = await storage.createAccount(userId, null, accountData[index]);
+        newAccounts[index].accountId = account.id;
+        createdAccounts.push(account.name);
+      }
+      
+      const createdCategories: string[] = [];
+      for (const category of categoryData) {
+        const userCategories = await getUserCategories(userId);
+        const named = (name: string) => userCategories.find(existing => existing.name.toLowerCase() === name.toLowerCase());
+        // Added already as the parent of another
+        if (named(category.name)) continue;
+        let parent = category.parent ? named(category.parent) : undefined;
+        if (!parent && category.parentData) {
+          parent = await storage.createCategory(userId, category.parentData);
+          createdCategories.push(parent.name);
+        }
+        // A parent that is a subcategory itself cannot take another level
+        const parentId = parent && !(await validateCategoryParent(userId, parent.id)) ? parent.id : null;
+        createdCategories.push((await storage.createCategory(userId, { ...category.data, parentId })).name);
+      }
+      
+      const savedTransactions: Transaction[] = [];
+      const clearedIds: number[] = [];
+      const save = async (leg: PlannedTransaction) => {
+        const transaction = await storage.createTransaction(userId, { ...transactionData(leg), accountId: accountIdOf(leg) });
+        if (leg.cleared) clearedIds.push(transaction.id);
+        return transaction;
+      };
+      for (const leg of transactions) {
+        savedTransactions.push(await save(leg));
+      }
+      for (const [outgoing, incoming] of transfers) {
+        const legs = [await save(outgoing), await save(incoming)];
+        savedTransactions.push(...await storage.linkTransfer(legs[0].id, legs[1].id));
+      }
+      await storage.setTransactionStatus(clearedIds, 'cleared');
+      
+      await regenerateMonthlySummaries(userId, savedTransactions);
+      
+      res.status(201).json({
+        message: `Imported ${savedTransactions.length} transactions`,
+        imported: savedTransactions.length,
+        skipped,
+        accounts: createdAccounts,
+        categories: createdCategories,
+        ignored: plan.skipped,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'The Beancount file holds entries the app cannot store', errors: error.errors });
+      }
+      console.error('Beancount import error:', error);
+      res.status(500).json({ message: 'Failed to import Beancount file' });
+    }
+  });
+  
+  // Saved CSV column mappings, one per bank
+  app.get('/api/csv-profiles', async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      res.json(await storage.getCsvProfiles(req.user!.id));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch CSV profiles' });
+    }
+  });
+  
+  app.post('/api/csv-profiles', async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertCsvProfileSchema.parse(req.body);
+      const storage = await getStorage();
+      const profile = await storage.createCsvProfile(req.user!.id, validatedData);
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid CSV profile', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create CSV profile' });
+    }
+  });
+  
+  app.put('/api/csv-profiles/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid CSV profile ID' });
+      }
+      
+      const storage = await getStorage();
+      const profile = await storage.getCsvProfileById(id);
+      
+      if (!profile || profile.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'CSV profile not found' });
+      }
+      
+      const validatedData = insertCsvProfileSchema.parse(req.body);
+      const updatedProfile = await storage.updateCsvProfile(id, validatedData);
+      res.json(updatedProfile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid CSV profile', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update CSV profile' });
+    }
+  });
+  
+  app.delete('/api/csv-profiles/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid CSV profile ID' });
+      }
+      
+      const storage = await getStorage();
+      const profile = await storage.getCsvProfileById(id);
+      
+      if (!profile || profile.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'CSV profile not found' });
+      }
+      
+      await storage.deleteCsvProfile(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete CSV profile' });
+    }
+  });
+  
+  // Draft statement imports awaiting review
+  app.get('/api/imports', async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const imports = await storage.getStatementImports(req.user!.id);
+      res.json(await Promise.all(imports.map(getStatementImportDetails)));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch imports' });
+    }
+  });
+  
+  app.get('/api/imports/:id', async (req: Request, res: Response) => {
+    try {
+      const statementImport = await getOwnedStatementImport(req.user!.id, parseInt(req.params.id));
+      
+      if (!statementImport) {
+        return res.status(404).json({ message: 'Import not found' });
+      }
+      
+      res.json(await getStatementImportDetails(statementImport));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch import' });
+    }
+  });
+  
+  // Discard a draft import without saving any of its rows
+  app.delete('/api/imports/:id', async (req: Request, res: Response) => {
+    try {
+      const statementImport = await getOwnedStatementImport(req.user!.id, parseInt(req.params.id));
+      
+      if (!statementImport) {
+        return res.status(404).json({ message: 'Import not found' });
+      }
+      
+      const storage = await getStorage();
+      await storage.deleteStatementImport(statementImport.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to discard import' });
+    }
+  });
+  
+  app.put('/api/imports/:id/rows/:rowId', async (req: Request, res: Response) => {
+    try {
+      const statementImport = await getOwnedStatementImport(req.user!.id, parseInt(req.params.id));
+      const storage = await getStorage();
+      const row = await storage.getStatementImportRowById(parseInt(req.params.rowId));
+      
+      if (!statementImport || !row || row.importId !== statementImport.id) {
+        return res.status(404).json({ message: 'Import row not found' });
+      }
+      
+      const validatedData = insertStatementImportRowSchema.omit({ duplicateOfId: true, transferOfId: true }).partial().parse(req.body);
+      
+      if (validatedData.resolution !== undefined && row.duplicateOfId === null) {
+        return res.status(400).json({ message: 'Only rows flagged as duplicates can be skipped or merged' });
+      }
+      
+      if (validatedData.type === 'transfer' && row.transferOfId === null) {
+        return res.status(400).json({ message: 'Only rows matched to a transaction in another account can be saved as transfers' });
+      }
+      
+      if (validatedData.category !== undefined && validatedData.category !== row.category &&
+          !(await getActiveCategoryNames(statementImport.userId)).includes(validatedData.category)) {
+        return res.status(400).json({ message: 'Unknown category' });
+      }
+      
+      // Keep the amount's sign in line with its type, as for transactions.
+      // A transfer leg keeps the direction it was imported with.
+      if (validatedData.amount !== undefined || validatedData.type !== undefined) {
+        const type = validatedData.type ?? row.type;
+        const magnitude = Math.abs(validatedData.amount ?? Number(row.amount));
+        const incoming = type === 'transfer' ? Number(row.amount) > 0 : type === 'income';
+        validatedData.amount = incoming ? magnitude : -magnitude;
+      }
+      
+      const updatedRow = await storage.updateStatementImportRow(row.id, validatedData);
+      res.json(updatedRow);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid import row data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update import row' });
+    }
+  });
+  
+  app.delete('/api/imports/:id/rows/:rowId', async (req: Request, res: Response) => {
+    try {
+      const statementImport = await getOwnedStatementImport(req.user!.id, parseInt(req.params.id));
+      const storage = await getStorage();
+      const row = await storage.getStatementImportRowById(parseInt(req.params.rowId));
+      
+      if (!statementImport || !row || row.importId !== statementImport.id) {
+        return res.status(404).json({ message: 'Import row not found' });
+      }
+      
+      await storage.deleteStatementImportRow(row.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to remove import row' });
+    }
+  });
+  
+  // Save the reviewed rows as transactions and close the draft
+  app.post('/api/imports/:id/commit', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const statementImport = await getOwnedStatementImport(userId, parseInt(req.params.id));
+      
+      if (!statementImport) {
+        return res.status(404).json({ message: 'Import not found' });
+      }
+      
+      const storage = await getStorage();
+      const rows = await storage.getStatementImportRows(statementImport.id);
+      
+      if (rows.length === 0) {
+        return res.status(400).json({ message: 'The import has no transactions left to save' });
+      }
+      
+      // A category may have been archived or deleted since the statement was uploaded
+      const activeCategories = await getActiveCategoryNames(userId);
+      const unknownCategories = Array.from(new Set(
+        rows
+          .filter(row => row.type !== 'transfer')
+          .map(row => row.category)
+          .filter(category => !activeCategories.includes(category))
+      ));
+      if (unknownCategories.length > 0) {
+        return res.status(400).json({ message: `Choose another category for rows in: ${unknownCategories.join(', ')}` });
+      }
+      
+      if ('error' in await resolveAccountId(userId, statementImport.accountId)) {
+        return res.status(400).json({ message: 'The account this statement was imported into has been closed' });
+      }
+      
+      // Rows skipped as duplicates may safely overlap a reconciled period; nothing else may be added to one
+      const statements = statementImport.accountId !== null ? await storage.getAccountStatements(statementImport.accountId) : [];
+      const lockedRows = rows.filter(row =>
+        !(row.duplicateOfId !== null && row.resolution === 'skip') &&
+        isReconciledPeriod(statements, statementImport.accountId, row.date)
+      );
+      if (lockedRows.length > 0) {
+        return res.status(400).json({ message: `${lockedRows.length} rows fall in a reconciled statement period; skip them or undo the reconciliation` });
+      }
+      
+      const currency = await resolveCurrency(userId, statementImport.accountId, undefined);
+      if ('error' in currency) {
+        return res.status(400).json({ message: currency.error });
+      }
+      
+      const pdfSource = statementImport.fileName || 'Uploaded PDF';
+      const savedTransactions = [];
+      let skipped = 0;
+      let merged = 0;
+      // Ledger transactions that became the other leg of a transfer, or were merged into and may have
+      // moved out of their old month; their months need new summaries
+      const changedTransactions = [];
+      let summary: Awaited<ReturnType<typeof regenerateMonthlySummaries>>;
+      try {
+        for (const row of rows) {
+          // The matched leg may have been deleted, or linked to something else, since the upload
+          const transferOf = row.type === 'transfer' && row.transferOfId !== null
+            ? await storage.getTransactionById(row.transferOfId)
+            : undefined;
+          const isTransfer = !!transferOf && transferOf.userId === userId && transferOf.transferId === null &&
+            transferOf.currency === currency.currency && isTransferPair({ ...row, accountId: statementImport.accountId }, transferOf);
+          
+          const transactionData = insertTransactionSchema.parse({
+            date: row.date,
+            description: row.description,
+            category: row.category,
+            amount: row.amount,
+            type: row.type === 'transfer' ? (Number(row.amount) < 0 ? 'expense' : 'income') : row.type,
+            pdfSource,
+            externalId: row.externalId,
+            accountId: statementImport.accountId,
+            currency: currency.currency,
+          });
+          
+          const duplicateOf = row.duplicateOfId !== null ? await storage.getTransactionById(row.duplicateOfId) : undefined;
+          const resolution = duplicateOf && duplicateOf.userId === userId ? row.resolution : 'keep';
+          
+          let commit: StatementImportRowCommit;
+          if (resolution === 'skip' || (resolution === 'merge' && duplicateOf?.status === 'reconciled')) {
+            // A reconciled transaction already matches the bank, and is locked
+            commit = { action: 'skip' };
+          } else if (resolution === 'merge' && duplicateOf) {
+            // The statement is the bank's record: take its date, amount and description,
+            // but keep the category and household split the user already chose.
+            // The legs of a transfer have to keep mirroring each other, so only their date and description change.
+            const { category, ...statementData } = transactionData;
+            commit = {
+              action: 'merge',
+              transactionId: duplicateOf.id,
+              update: duplicateOf.transferId !== null ? { date: statementData.date, description: statementData.description } : statementData,
+            };
+          } else {
+            commit = { action: 'create', transaction: transactionData, transferOfId: isTransfer ? transferOf!.id : undefined };
+          }
+          
+          // The row leaves the draft only together with its save, so a retry after a failure saves
+          // just what is left, and a commit running alongside passes over rows already taken
+          const saved = await storage.commitStatementImportRow(row.id, userId, commit);
+          if (saved === undefined) {
+            continue;
+          }
+          if (saved === null) {
+            skipped++;
+            continue;
+          }
+          
+          savedTransactions.push(saved);
+          if (commit.action === 'merge') {
+            merged++;
+            changedTransactions.push(duplicateOf!);
+          } else if (commit.action === 'create' && commit.transferOfId !== undefined) {
+            changedTransactions.push(transferOf!);
+          }
+        }
+      } finally {
+        // Regenerate summaries for every month the statement covers, including what was saved before a failure
+        await regenerateMonthlySummaries(userId, changedTransactions);
+        summary = await regenerateMonthlySummaries(userId, savedTransactions);
+      }
+      
+      // Keep the statement's balances to reconcile the account against
+      let accountStatement: AccountStatement | undefined;
+      if (statementImport.accountId !== null &&
+          (statementImport.openingBalance !== null || statementImport.closingBalance !== null)) {
+        const dates = rows.map(row => row.date).sort();
+        const periodStart = statementImport.periodStart ?? dates[0];
+        const periodEnd = statementImport.periodEnd ?? dates[dates.length - 1];
+        accountStatement = statements.find(statement => statement.periodStart === periodStart && statement.periodEnd === periodEnd);
+        if (!accountStatement) {
+          accountStatement = await storage.createAccountStatement(userId, statementImport.accountId, {
+            periodStart: new Date(periodStart),
+            periodEnd: new Date(periodEnd),
+            openingBalance: statementImport.openingBalance !== null ? Number(statementImport.openingBalance) : null,
+            closingBalance: statementImport.closingBalance !== null ? Number(statementImport.closingBalance) : null,
+            fileName: statementImport.fileName,
+          });
+        }
+      }
+      
+      await storage.deleteStatementImport(statementImport.id);
+      
+      res.status(201).json({
+        message: `Successfully imported ${savedTransactions.length - merged} transactions`,
+        transactions: savedTransactions,
+        skipped,
+        merged,
+        summary,
+        statement: accountStatement ?? null
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to commit import' });
+    }
+  });
+  
+  // User Preference Routes
+  app.put('/api/user/preferences', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = updateUserPreferencesSchema.parse(req.body);
+      const storage = await getStorage();
+      const user = await storage.updateUserPreferences(userId, validatedData);
+      
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // Summaries are kept in the base currency
+      if (validatedData.baseCurrency !== undefined && validatedData.baseCurrency !== req.user!.baseCurrency) {
+        await regenerateMonthlySummaries(userId, await storage.getTransactions(userId));
+      }
+      
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid preferences', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update preferences' });
+    }
+  });
+  
+  // Exchange Rate Routes
+  // The user's rates, with the currencies their transactions use that no rate converts into the base currency
+  app.get('/api/exchange-rates', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const storage = await getStorage();
+      const { baseCurrency, rates } = await getCurrencyContext(userId);
+      const transactions = await storage.getTransactions(userId);
+      const missingCurrencies = Array.from(new Set(transactions.map(transaction => transaction.currency)))
+        .filter(currency => findRate(rates, currency, baseCurrency, new Date()) === null)
+        .sort();
+      res.json({ baseCurrency, rates, missingCurrencies });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch exchange rates' });
+    }
+  });
+  
+  app.post('/api/exchange-rates', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertExchangeRateSchema.parse(req.body);
+      const storage = await getStorage();
+      const [rate] = await storage.saveExchangeRates(userId, [validatedData]);
+      
+      await regenerateMonthlySummaries(userId, await storage.getTransactions(userId));
+      
+      res.status(201).json(rate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid exchange rate', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to save exchange rate' });
+    }
+  });
+  
+  // Import rates from a CSV, e.g. a central bank's download
+  app.post('/api/exchange-rates/import', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { content } = z.object({ content: z.string().min(1) }).parse(req.body);
+      const { baseCurrency } = await getCurrencyContext(userId);
+      const parsed = parseExchangeRateCsv(content, baseCurrency);
+      
+      if ('error' in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      
+      if (parsed.rates.length === 0) {
+        return res.status(400).json({ message: 'No exchange rates could be read from the file' });
+      }
+      
+      const storage = await getStorage();
+      const rates = await storage.saveExchangeRates(userId, parsed.rates);
+      
+      await regenerateMonthlySummaries(userId, await storage.getTransactions(userId));
+      
+      res.status(201).json({ imported: rates.length, invalidRows: parsed.invalidRows });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to import exchange rates' });
+    }
+  });
+  
+  app.delete('/api/exchange-rates/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const id = parseInt(req.params.id);
+      const storage = await getStorage();
+      const rate = isNaN(id) ? undefined : await storage.getExchangeRateById(id);
+      
+      if (!rate || rate.userId !== userId) {
+        return res.status(404).json({ message: 'Exchange rate not found' });
+      }
+      
+      await storage.deleteExchangeRate(rate.id);
+      await regenerateMonthlySummaries(userId, await storage.getTransactions(userId));
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete exchange rate' });
+    }
+  });
+  
+  // Category Routes
+  app.get('/api/categories', async (req: Request, res: Response) => {
+    try {
+      res.json(await getUserCategories(req.user!.id));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch categories' });
+    }
+  });
+  
+  app.post('/api/categories', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertCategorySchema.parse(req.body);
+      
+      if (await isCategoryNameTaken(userId, validatedData.name)) {
+        return res.status(400).json({ message: 'A category with this name already exists' });
+      }
+      
+      const parentError = await validateCategoryParent(userId, validatedData.parentId ?? null);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+      
+      const storage = await getStorage();
+      const category = await storage.createCategory(userId, validatedData);
+      res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid category data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create category' });
+    }
+  });
+  
+  // Update a category; renaming moves its transactions along with it
+  app.put('/api/categories/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const category = await getOwnedCategory(userId, parseInt(req.params.id));
+      
+      if (!category) {
+        return res.status(404).json({ message: 'Category not found' });
+      }
+      
+      const validatedData = updateCategorySchema.parse(req.body);
+      const renamed = validatedData.name !== undefined && validatedData.name !== category.name;
+      
+      if (renamed && await isCategoryNameTaken(userId, validatedData.name!, category.id)) {
+        return res.status(400).json({ message: 'A category with this name already exists' });
+      }
+      
+      if (validatedData.parentId !== undefined) {
+        const parentError = await validateCategoryParent(userId, validatedData.parentId, category);
+        if (parentError) {
+          return res.status(400).json({ message: parentError });
+        }
+      }
+      
+      const storage = await getStorage();
+      const updatedCategory = await storage.updateCategory(category.id, validatedData);
+      
+      if (renamed) {
+        const moved = await storage.reassignCategory(userId, category.name, validatedData.name!);
+        await regenerateMonthlySummaries(userId, moved);
+      }
+      
+      res.json(updatedCategory);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid category data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update category' });
+    }
+  });
+  
+  // Fold a category into another: its transactions move to the target and it is removed
+  app.post('/api/categories/:id/merge', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const category = await getOwnedCategory(userId, parseInt(req.params.id));
+      const target = await getOwnedCategory(userId, parseInt(req.body.targetId));
+      
+      if (!category || !target) {
+        return res.status(404).json({ message: 'Category not found' });
+      }
+      
+      if (category.id === target.id) {
+        return res.status(400).json({ message: 'Cannot merge a category into itself' });
+      }
+      
+      // Transactions are tagged with leaves, so parents can neither be merged nor merged into
+      const parentIds = parentCategoryIds(await getUserCategories(userId));
+      if (parentIds.has(category.id)) {
+        return res.status(400).json({ message: 'Move or merge its subcategories first' });
+      }
+      if (parentIds.has(target.id)) {
+        return res.status(400).json({ message: 'Merge into one of its subcategories instead' });
+      }
+      
+      const storage = await getStorage();
+      const moved = await storage.reassignCategory(userId, category.name, target.name);
+      await storage.deleteCategory(category.id);
+      await regenerateMonthlySummaries(userId, moved);
+      
+      res.json({ category: target, moved: moved.length });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to merge categories' });
+    }
+  });
+  
+  // Only unused categories can be deleted; archive or merge the others
+  app.delete('/api/categories/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const category = await getOwnedCategory(userId, parseInt(req.params.id));
+      
+      if (!category) {
+        return res.status(404).json({ message: 'Category not found' });
+      }
+      
+      if (parentCategoryIds(await getUserCategories(userId)).has(category.id)) {
+        return res.status(400).json({ message: 'Move or delete its subcategories first' });
+      }
+      
+      const storage = await getStorage();
+      const transactions = await storage.getTransactions(userId);
+      
+      if (transactions.some(t => t.category === category.name)) {
+        return res.status(400).json({ message: 'This category has transactions; archive it or merge it into another category instead' });
+      }
+      
+      await storage.deleteCategory(category.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete category' });
+    }
+  });
+  
+  // Category Rule Routes
+  app.get('/api/rules', async (req: Request, res: Response) => {
+    try {
+      // Loading the categories seeds the default rules for new users
+      await getUserCategories(req.user!.id);
+      const storage = await getStorage();
+      res.json(await storage.getCategoryRules(req.user!.id));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch rules' });
+    }
+  });
+  
+  app.post('/api/rules', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertCategoryRuleSchema.parse(req.body);
+      
+      if (!(await getActiveCategoryNames(userId)).includes(validatedData.category)) {
+        return res.status(400).json({ message: 'Unknown category' });
+      }
+      
+      const storage = await getStorage();
+      const rule = await storage.createCategoryRule(userId, validatedData);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid rule data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create rule' });
+    }
+  });
+  
+  app.put('/api/rules/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const rule = await getOwnedCategoryRule(userId, parseInt(req.params.id));
+      
+      if (!rule) {
+        return res.status(404).json({ message: 'Rule not found' });
+      }
+      
+      const validatedData = insertCategoryRuleSchema.parse(req.body);
+      
+      if (validatedData.category !== rule.category &&
+          !(await getActiveCategoryNames(userId)).includes(validatedData.category)) {
+        return res.status(400).json({ message: 'Unknown category' });
+      }
+      
+      const storage = await getStorage();
+      const updatedRule = await storage.updateCategoryRule(rule.id, validatedData);
+      res.json(updatedRule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid rule data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update rule' });
+    }
+  });
+  
+  app.delete('/api/rules/:id', async (req: Request, res: Response) => {
+    try {
+      const rule = await getOwnedCategoryRule(req.user!.id, parseInt(req.params.id));
+      
+      if (!rule) {
+        return res.status(404).json({ message: 'Rule not found' });
+      }
+      
+      const storage = await getStorage();
+      await storage.deleteCategoryRule(rule.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete rule' });
+    }
+  });
+  
+  // What re-applying the rules to existing transactions would change
+  app.get('/api/rules/preview', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const storage = await getStorage();
+      const changes = previewRuleChanges(await getApplicableRules(userId), await storage.getTransactions(userId));
+      res.json(changes);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to preview rules' });
+    }
+  });
+  
+  // Re-apply the rules to existing transactions, optionally only to the ones picked from the preview
+  app.post('/api/rules/apply', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { transactionIds } = z.object({
+        transactionIds: z.array(z.number().int()).optional(),
+      }).parse(req.body);
+      
+      const storage = await getStorage();
+      const changes = previewRuleChanges(await getApplicableRules(userId), await storage.getTransactions(userId))
+        .filter(change => !transactionIds || transactionIds.includes(change.transaction.id));
+      
+      const updated: Transaction[] = [];
+      for (const change of changes) {
+        const transaction = await storage.updateTransaction(change.transaction.id, { category: change.category });
+        if (transaction) updated.push(transaction);
+      }
+      await regenerateMonthlySummaries(userId, updated);
+      
+      res.json({ updated: updated.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to apply rules' });
+    }
+  });
+  
+  // Budget Routes
+  app.get('/api/budgets', async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      res.json(await storage.getBudgets(req.user!.id));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch budgets' });
+    }
+  });
+  
+  // Each budget in force in a month against the month's spending, most used first
+  app.get('/api/budgets/:year/:month', async (req: Request, res: Response) => {
+    try {
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      
+      if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
+        return res.status(400).json({ message: 'Invalid year or month' });
+      }
+      
+      res.json(await getBudgetProgress(req.user!.id, year, month));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch budget progress' });
+    }
+  });
+  
+  // Set a category's budget for one month, or its recurring budget; replaces any it already has
+  app.post('/api/budgets', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertBudgetSchema.parse(req.body);
+      
+      // Parents can be budgeted too; their budget covers their subcategories
+      const userCategories = await getUserCategories(userId);
+      if (!userCategories.some(category => !category.archived && category.name === validatedData.category)) {
+        return res.status(400).json({ message: 'Unknown category' });
+      }
+      
+      const storage = await getStorage();
+      const [budget] = await storage.saveBudgets(userId, [validatedData]);
+      res.status(201).json(budget);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid budget data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to save budget' });
+    }
+  });
+  
+  app.put('/api/budgets/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const budget = await getOwnedBudget(userId, parseInt(req.params.id));
+      
+      if (!budget) {
+        return res.status(404).json({ message: 'Budget not found' });
+      }
+      
+      const { amount } = updateBudgetSchema.parse(req.body);
+      const storage = await getStorage();
+      const [updatedBudget] = await storage.saveBudgets(userId, [{
+        category: budget.category,
+        year: budget.year,
+        month: budget.month,
+        amount,
+      }]);
+      res.json(updatedBudget);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid budget data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update budget' });
+    }
+  });
+  
+  app.delete('/api/budgets/:id', async (req: Request, res: Response) => {
+    try {
+      const budget = await getOwnedBudget(req.user!.id, parseInt(req.params.id));
+      
+      if (!budget) {
+        return res.status(404).json({ message: 'Budget not found' });
+      }
+      
+      const storage = await getStorage();
+      await storage.deleteBudget(budget.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete budget' });
+    }
+  });
+  
+  // Copy the budgets in force in one month into another, e.g. to carry this month's
+  // forward and adjust them. The target month's own budgets are kept unless overwriting.
+  app.post('/api/budgets/copy', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { fromYear, fromMonth, toYear, toMonth, overwrite } = copyBudgetsSchema.parse(req.body);
+      
+      if (fromYear === toYear && fromMonth === toMonth) {
+        return res.status(400).json({ message: 'Choose a different month to copy to' });
+      }
+      
+      const storage = await getStorage();
+      const userBudgets = await storage.getBudgets(userId);
+      const existing = new Set(userBudgets
+        .filter(budget => budget.year === toYear && budget.month === toMonth)
+        .map(budget => budget.category));
+      
+      const copies = budgetsForMonth(userBudgets, fromYear, fromMonth)
+        .filter(budget => overwrite || !existing.has(budget.category))
+        .map(budget => ({ category: budget.category, year: toYear, month: toMonth, amount: Number(budget.amount) }));
+      const saved = await storage.saveBudgets(userId, copies);
+      
+      res.json({ copied: saved.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to copy budgets' });
+    }
+  });
+  
+  // Envelope Routes
+  app.get('/api/envelopes', async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      res.json(await storage.getEnvelopes(req.user!.id));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch envelopes' });
+    }
+  });
+  
+  app.post('/api/envelopes', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertEnvelopeSchema.parse(req.body);
+      
+      // Parents can have envelopes too; spending in subcategories without their own comes out of them
+      const userCategories = await getUserCategories(userId);
+      if (!userCategories.some(category => !category.archived && category.name === validatedData.category)) {
+        return res.status(400).json({ message: 'Unknown category' });
+      }
+      
+      const storage = await getStorage();
+      if ((await storage.getEnvelopes(userId)).some(envelope => envelope.category === validatedData.category)) {
+        return res.status(400).json({ message: 'This category already has an envelope' });
+      }
+      
+      const envelope = await storage.createEnvelope(userId, validatedData);
+      res.status(201).json(envelope);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid envelope data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create envelope' });
+    }
+  });
+  
+  app.put('/api/envelopes/:id', async (req: Request, res: Response) => {
+    try {
+      const envelope = await getOwnedEnvelope(req.user!.id, parseInt(req.params.id));
+      
+      if (!envelope) {
+        return res.status(404).json({ message: 'Envelope not found' });
+      }
+      
+      const { rollover } = updateEnvelopeSchema.parse(req.body);
+      const storage = await getStorage();
+      res.json(await storage.updateEnvelope(envelope.id, rollover));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid envelope data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update envelope' });
+    }
+  });
+  
+  // Only envelopes nothing was ever allocated to can be deleted, so the history stays whole
+  app.delete('/api/envelopes/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const envelope = await getOwnedEnvelope(userId, parseInt(req.params.id));
+      
+      if (!envelope) {
+        return res.status(404).json({ message: 'Envelope not found' });
+      }
+      
+      const storage = await getStorage();
+      const allocations = await storage.getEnvelopeAllocations(userId);
+      if (allocations.some(allocation =>
+        allocation.fromCategory === envelope.category || allocation.toCategory === envelope.category
+      )) {
+        return res.status(400).json({ message: 'Money has been allocated to this envelope; delete those allocations first' });
+      }
+      
+      await storage.deleteEnvelope(envelope.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete envelope' });
+    }
+  });
+  
+  // A month of envelope budgeting: income still to assign, each envelope's balance and the
+  // month's allocation history
+  app.get('/api/envelopes/:year/:month', async (req: Request, res: Response) => {
+    try {
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      
+      if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
+        return res.status(400).json({ message: 'Invalid year or month' });
+      }
+      
+      res.json(await getEnvelopeMonth(req.user!.id, year, month));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch envelopes' });
+    }
+  });
+  
+  // Assign income to an envelope, return money from one, or move money between two
+  app.post('/api/envelopes/allocations', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validatedData = insertEnvelopeAllocationSchema.parse(req.body);
+      
+      const storage = await getStorage();
+      const envelopeCategories = (await storage.getEnvelopes(userId)).map(envelope => envelope.category);
+      for (const category of [validatedData.fromCategory, validatedData.toCategory]) {
+        if (category !== null && !envelopeCategories.includes(category)) {
+          return res.status(400).json({ message: `${category} has no envelope` });
+        }
+      }
+      
+      // Income can be over-assigned, which shows as a negative amount to assign,
+      // but an envelope can only give up what it holds
+      if (validatedData.fromCategory !== null) {
+        const envelopeMonth = await getEnvelopeMonth(userId, validatedData.year, validatedData.month);
+        const source = envelopeMonth.envelopes.find(envelope => envelope.category === validatedData.fromCategory);
+        if (!source || source.available < validatedData.amount) {
+          return res.status(400).json({
+            message: `${validatedData.fromCategory} only has ${Math.max(source?.available ?? 0, 0).toFixed(2)} available`,
+          });
+        }
+      }
+      
+      const allocation = await storage.createEnvelopeAllocation(userId, validatedData);
+      res.status(201).json(allocation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid allocation data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to save allocation' });
+    }
+  });
+  
+  app.delete('/api/envelopes/allocations/:id', async (req: Request, res: Response) => {
+    try {
+      const allocation = await getOwnedEnvelopeAllocation(req.user!.id, parseInt(req.params.id));
+      
+      if (!allocation) {
+        return res.status(404).json({ message: 'Allocation not found' });
+      }
+      
+      const storage = await getStorage();
+      await storage.deleteEnvelopeAllocation(allocation.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete allocation' });
+    }
+  });
+  
+  // Recurring Transaction Routes
+  app.get('/api/recurring', async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const templates = await storage.getRecurringTemplates(req.user!.id);
+      res.json(await Promise.all(templates.map(async template => ({
+        ...template,
+        upcoming: await getUpcomingOccurrences(template, RECURRING_UPCOMING_COUNT),
+      }))));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch recurring transactions' });
+    }
+  });
+  
+  app.post('/api/recurring', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validated = await validateRecurringTemplate(userId, insertRecurringTemplateSchema.parse(req.body));
+      
+      if ('error' in validated) {
+        return res.status(400).json({ message: validated.error });
+      }
+      
+      const storage = await getStorage();
+      const template = await storage.createRecurringTemplate(userId, validated.data, null);
+      await storage.setRecurringNextDate(template.id, occurrenceOnOrAfter(template, template.startDate));
+      
+      // A start date in the past posts the occurrences since then straight away
+      await postDueOccurrences(template.id);
+      res.status(201).json(await storage.getRecurringTemplateById(template.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid recurring transaction data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create recurring transaction' });
+    }
+  });
+  
+  // Changing the schedule leaves posted occurrences alone; the series continues from its next occurrence
+  app.put('/api/recurring/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const template = await getOwnedRecurringTemplate(userId, parseInt(req.params.id));
+      
+      if (!template) {
+        return res.status(404).json({ message: 'Recurring transaction not found' });
+      }
+      
+      const validated = await validateRecurringTemplate(userId, insertRecurringTemplateSchema.parse(req.body));
+      
+      if ('error' in validated) {
+        return res.status(400).json({ message: validated.error });
+      }
+      
+      const storage = await getStorage();
+      const schedule = await storage.updateRecurringTemplate(template.id, validated.data, null);
+      if (!schedule) {
+        return res.status(404).json({ message: 'Recurring transaction not found' });
+      }
+      // An ended series that is extended picks up from today rather than filling in the gap
+      await storage.setRecurringNextDate(template.id, occurrenceOnOrAfter(schedule, template.nextDate ?? todayString()));
+      
+      // Changes to occurrences that are no longer on the schedule go with them
+      for (const occurrence of await storage.getRecurringOccurrences(template.id)) {
+        if (occurrence.status !== 'posted' && !isOccurrence(schedule, occurrence.date)) {
+          await storage.deleteRecurringOccurrence(occurrence.id);
+        }
+      }
+      
+      await postDueOccurrences(template.id);
+      res.json(await storage.getRecurringTemplateById(template.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid recurring transaction data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update recurring transaction' });
+    }
+  });
+  
+  // Transactions already posted stay in the ledger
+  app.delete('/api/recurring/:id', async (req: Request, res: Response) => {
+    try {
+      const template = await getOwnedRecurringTemplate(req.user!.id, parseInt(req.params.id));
+      
+      if (!template) {
+        return res.status(404).json({ message: 'Recurring transaction not found' });
+      }
+      
+      const storage = await getStorage();
+      await storage.deleteRecurringTemplate(template.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete recurring transaction' });
+    }
+  });
+  
+  // Skip or edit one upcoming occurrence without changing the rest of the series
+  app.put('/api/recurring/:id/occurrences/:date', async (req: Request, res: Response) => {
     try {
-      // In a real app, this would get the user ID from the authenticated session
-      const userId = 1; // Using default demo user
+      const userId = req.user!.id;
+      const template = await getOwnedRecurringTemplate(userId, parseInt(req.params.id));
+      
+      if (!template) {
+        return res.status(404).json({ message: 'Recurring transaction not found' });
+      }
+      
+      const date = req.params.date;
+      if (template.nextDate === null || date < template.nextDate || !isOccurrence(template, date)) {
+        return res.status(404).json({ message: 'No upcoming occurrence on that date' });
+      }
+      
+      const validatedData = updateRecurringOccurrenceSchema.parse(req.body);
+      
+      if (validatedData.category && !(await getActiveCategoryNames(userId)).includes(validatedData.category)) {
+        return res.status(400).json({ message: 'Unknown category' });
+      }
+      
       const storage = await getStorage();
-      const transactions = await storage.getTransactions(userId);
-      res.json(transactions);
+      const occurrence = await storage.saveRecurringOccurrence(template.id, {
+        date,
+        status: validatedData.skipped ? 'skipped' : 'scheduled',
+        description: validatedData.description ?? null,
+        category: validatedData.category ?? null,
+        amount: validatedData.amount != null ? String(validatedData.amount) : null,
+        transactionId: null,
+      });
+      
+      // An overdue occurrence that is skipped or fixed can go through now
+      await postDueOccurrences(template.id);
+      res.json(occurrence);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid occurrence data', errors: error.errors });
+      }
       console.error(error);
-      res.status(500).json({ message: 'Failed to fetch transactions' });
+      res.status(500).json({ message: 'Failed to update occurrence' });
     }
   });
   
-  app.get('/api/transactions/month/:year/:month', async (req: Request, res: Response) => {
+  // Put a skipped or edited occurrence back in line with the series
+  app.delete('/api/recurring/:id/occurrences/:date', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Using default demo user
-      const year = parseInt(req.params.year);
-      const month = parseInt(req.params.month);
+      const template = await getOwnedRecurringTemplate(req.user!.id, parseInt(req.params.id));
       
-      if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
-        return res.status(400).json({ message: 'Invalid year or month' });
+      if (!template) {
+        return res.status(404).json({ message: 'Recurring transaction not found' });
       }
       
       const storage = await getStorage();
-      const transactions = await storage.getTransactionsByMonth(userId, year, month);
-      res.json(transactions);
+      const occurrence = (await storage.getRecurringOccurrences(template.id))
+        .find(occurrence => occurrence.date === req.params.date && occurrence.status !== 'posted');
+      
+      if (!occurrence) {
+        return res.status(404).json({ message: 'No skipped or edited occurrence on that date' });
+      }
+      
+      await storage.deleteRecurringOccurrence(occurrence.id);
+      res.status(204).end();
     } catch (error) {
       console.error(error);
-      res.status(500).json({ message: 'Failed to fetch transactions' });
+      res.status(500).json({ message: 'Failed to restore occurrence' });
     }
   });
   
-  app.post('/api/transactions', async (req: Request, res: Response) => {
+  // Subscription Routes
+  app.get('/api/subscriptions', async (req: Request, res: Response) => {
+    try {
+      res.json(await getSubscriptions(req.user!.id));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to detect subscriptions' });
+    }
+  });
+  
+  // Savings Goal Routes
+  app.get('/api/goals', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Using default demo user
-      const validatedData = insertTransactionSchema.parse(req.body);
+      const userId = req.user!.id;
       const storage = await getStorage();
-      const transaction = await storage.createTransaction(userId, validatedData);
+      const goals = await storage.getSavingsGoals(userId);
+      res.json(await Promise.all(goals.map(goal => getGoalProgress(userId, goal))));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch savings goals' });
+    }
+  });
+  
+  app.post('/api/goals', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validated = await resolveSavingsGoal(userId, insertSavingsGoalSchema.parse(req.body));
       
-      // Update monthly summary after adding a transaction
-      const transactionDate = new Date(transaction.date);
-      await generateMonthlySummary(
-        userId, 
-        transactionDate.getFullYear(), 
-        transactionDate.getMonth() + 1
-      );
+      if ('error' in validated) {
+        return res.status(400).json({ message: validated.error });
+      }
       
-      res.status(201).json(transaction);
+      const storage = await getStorage();
+      const goal = await storage.createSavingsGoal(userId, validated.data);
+      res.status(201).json(await getGoalProgress(userId, goal));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Invalid transaction data', errors: error.errors });
+        return res.status(400).json({ message: 'Invalid savings goal data', errors: error.errors });
       }
       console.error(error);
-      res.status(500).json({ message: 'Failed to create transaction' });
+      res.status(500).json({ message: 'Failed to create savings goal' });
     }
   });
   
-  app.put('/api/transactions/:id', async (req: Request, res: Response) => {
+  app.put('/api/goals/:id', async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
+      const userId = req.user!.id;
+      const goal = await getOwnedSavingsGoal(userId, parseInt(req.params.id));
       
-      if (isNaN(id)) {
-        return res.status(400).json({ message: 'Invalid transaction ID' });
+      if (!goal) {
+        return res.status(404).json({ message: 'Savings goal not found' });
+      }
+      
+      const validated = await resolveSavingsGoal(userId, insertSavingsGoalSchema.parse(req.body));
+      
+      if ('error' in validated) {
+        return res.status(400).json({ message: validated.error });
       }
       
       const storage = await getStorage();
-      const transaction = await storage.getTransactionById(id);
+      const updated = await storage.updateSavingsGoal(goal.id, validated.data);
+      if (!updated) {
+        return res.status(404).json({ message: 'Savings goal not found' });
+      }
+      res.json(await getGoalProgress(userId, updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid savings goal data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update savings goal' });
+    }
+  });
+  
+  app.delete('/api/goals/:id', async (req: Request, res: Response) => {
+    try {
+      const goal = await getOwnedSavingsGoal(req.user!.id, parseInt(req.params.id));
       
-      if (!transaction) {
-        return res.status(404).json({ message: 'Transaction not found' });
+      if (!goal) {
+        return res.status(404).json({ message: 'Savings goal not found' });
       }
       
-      const validatedData = insertTransactionSchema.partial().parse(req.body);
-      const updatedTransaction = await storage.updateTransaction(id, validatedData);
+      const storage = await getStorage();
+      await storage.deleteSavingsGoal(goal.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete savings goal' });
+    }
+  });
+  
+  // Net Worth Routes
+  // Assets and liabilities valued by hand, each with its valuations
+  app.get('/api/assets', async (req: Request, res: Response) => {
+    try {
+      const storage = await getStorage();
+      const assets = await storage.getAssets(req.user!.id);
+      res.json(await Promise.all(assets.map(withValuations)));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch assets' });
+    }
+  });
+  
+  app.post('/api/assets', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const data = insertAssetSchema.parse(req.body);
+      const currency = await resolveCurrency(userId, null, data.currency);
       
-      // Update monthly summary after modifying a transaction
-      const transactionDate = new Date(updatedTransaction?.date || transaction.date);
-      await generateMonthlySummary(
-        transaction.userId, 
-        transactionDate.getFullYear(), 
-        transactionDate.getMonth() + 1
-      );
+      if ('error' in currency) {
+        return res.status(400).json({ message: currency.error });
+      }
       
-      res.json(updatedTransaction);
+      const storage = await getStorage();
+      const asset = await storage.createAsset(userId, { ...data, ...currency });
+      res.status(201).json(await withValuations(asset));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Invalid transaction data', errors: error.errors });
+        return res.status(400).json({ message: 'Invalid asset data', errors: error.errors });
       }
       console.error(error);
-      res.status(500).json({ message: 'Failed to update transaction' });
+      res.status(500).json({ message: 'Failed to create asset' });
     }
   });
   
-  app.delete('/api/transactions/:id', async (req: Request, res: Response) => {
+  app.put('/api/assets/:id', async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
+      const userId = req.user!.id;
+      const asset = await getOwnedAsset(userId, parseInt(req.params.id));
       
-      if (isNaN(id)) {
-        return res.status(400).json({ message: 'Invalid transaction ID' });
+      if (!asset) {
+        return res.status(404).json({ message: 'Asset not found' });
       }
       
-      const storage = await getStorage();
-      const transaction = await storage.getTransactionById(id);
+      const data = insertAssetSchema.parse(req.body);
+      const currency = await resolveCurrency(userId, null, data.currency, asset.currency);
       
-      if (!transaction) {
-        return res.status(404).json({ message: 'Transaction not found' });
+      if ('error' in currency) {
+        return res.status(400).json({ message: currency.error });
       }
       
-      const success = await storage.deleteTransaction(id);
-      
-      if (success) {
-        // Update monthly summary after deleting a transaction
-        const transactionDate = new Date(transaction.date);
-        await generateMonthlySummary(
-          transaction.userId, 
-          transactionDate.getFullYear(), 
-          transactionDate.getMonth() + 1
-        );
-        
-        res.status(204).end();
-      } else {
-        res.status(500).json({ message: 'Failed to delete transaction' });
+      const storage = await getStorage();
+      const updated = await storage.updateAsset(asset.id, { ...data, ...currency });
+      if (!updated) {
+        return res.status(404).json({ message: 'Asset not found' });
       }
+      
+      // Its kind or currency may have changed what every past valuation counts as
+      const [first] = await storage.getAssetValuations(asset.id);
+      if (first) await takeNetWorthSnapshots(userId, first.date);
+      res.json(await withValuations(updated));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid asset data', errors: error.errors });
+      }
       console.error(error);
-      res.status(500).json({ message: 'Failed to delete transaction' });
+      res.status(500).json({ message: 'Failed to update asset' });
     }
   });
   
-  // Monthly Summary Routes
-  app.get('/api/summaries', async (req: Request, res: Response) => {
+  app.delete('/api/assets/:id', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Using default demo user
+      const userId = req.user!.id;
+      const asset = await getOwnedAsset(userId, parseInt(req.params.id));
+      
+      if (!asset) {
+        return res.status(404).json({ message: 'Asset not found' });
+      }
+      
       const storage = await getStorage();
-      const summaries = await storage.getMonthlySummaries(userId);
-      res.json(summaries);
+      const [first] = await storage.getAssetValuations(asset.id);
+      await storage.deleteAsset(asset.id);
+      if (first) await takeNetWorthSnapshots(userId, first.date);
+      res.status(204).end();
     } catch (error) {
       console.error(error);
-      res.status(500).json({ message: 'Failed to fetch monthly summaries' });
+      res.status(500).json({ message: 'Failed to delete asset' });
     }
   });
   
-  app.get('/api/summaries/:year/:month', async (req: Request, res: Response) => {
+  // Record what an asset is worth, or a liability owed, on a date
+  app.post('/api/assets/:id/valuations', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Using default demo user
-      const year = parseInt(req.params.year);
-      const month = parseInt(req.params.month);
+      const userId = req.user!.id;
+      const asset = await getOwnedAsset(userId, parseInt(req.params.id));
       
-      if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
-        return res.status(400).json({ message: 'Invalid year or month' });
+      if (!asset) {
+        return res.status(404).json({ message: 'Asset not found' });
       }
       
-      const storage = await getStorage();
-      const summary = await storage.getMonthlySummaryByMonth(userId, year, month);
+      const data = insertAssetValuationSchema.parse(req.body);
+      const date = data.date.toISOString().split('T')[0];
+      if (date > todayString()) {
+        return res.status(400).json({ message: 'A valuation cannot be dated in the future' });
+      }
       
-      if (!summary) {
-        return res.status(404).json({ message: 'Summary not found for this month' });
+      const storage = await getStorage();
+      await storage.saveAssetValuation(asset.id, data);
+      await takeNetWorthSnapshots(userId, date);
+      res.status(201).json(await withValuations(asset));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid valuation data', errors: error.errors });
       }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to save valuation' });
+    }
+  });
+  
+  app.delete('/api/assets/:id/valuations/:valuationId', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const asset = await getOwnedAsset(userId, parseInt(req.params.id));
+      const storage = await getStorage();
+      const valuation = asset
+        ? (await storage.getAssetValuations(asset.id)).find(valuation => valuation.id === parseInt(req.params.valuationId))
+        : undefined;
       
-      // Get category breakdowns
-      const breakdowns = await storage.getCategoryBreakdowns(summary.id);
+      if (!asset || !valuation) {
+        return res.status(404).json({ message: 'Valuation not found' });
+      }
       
-      res.json({ summary, breakdowns });
+      await storage.deleteAssetValuation(valuation.id);
+      await takeNetWorthSnapshots(userId, valuation.date);
+      res.json(await withValuations(asset));
     } catch (error) {
       console.error(error);
-      res.status(500).json({ message: 'Failed to fetch monthly summary' });
+      res.status(500).json({ message: 'Failed to delete valuation' });
     }
   });
   
-  // PDF Upload and Processing
-  app.post('/api/upload-statement', async (req: Request, res: Response) => {
+  // Today's net worth item by item, and the monthly snapshots before it, in the base currency
+  app.get('/api/net-worth', async (req: Request, res: Response) => {
     try {
-      if (!req.body || !req.body.pdfContent) {
-        return res.status(400).json({ message: 'No PDF content provided' });
-      }
+      const userId = req.user!.id;
+      const storage = await getStorage();
+      await takeNetWorthSnapshots(userId);
       
-      const userId = 1; // Using default demo user
-      const pdfContent = req.body.pdfContent;
+      const { input, baseCurrency } = await getNetWorthInput(userId);
+      const snapshots = await storage.getNetWorthSnapshots(userId);
+      res.json({
+        currency: baseCurrency,
+        current: netWorthOn(input, todayString()),
+        history: snapshots
+          .filter(snapshot => snapshot.currency === baseCurrency)
+          .map(snapshot => ({
+            year: snapshot.year,
+            month: snapshot.month,
+            date: snapshot.date,
+            assets: Number(snapshot.assets),
+            liabilities: Number(snapshot.liabilities),
+            netWorth: Number(snapshot.netWorth),
+          })),
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to work out net worth' });
+    }
+  });
+  
+  // Loan Routes
+  // Every loan with its amortisation schedule and projected payoff
+  app.get('/api/loans', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const storage = await getStorage();
+      const loans = await storage.getLoans(userId);
+      res.json(await Promise.all(loans.map(loan => getLoanSchedule(userId, loan))));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to fetch loans' });
+    }
+  });
+  
+  // Paying only what each loan needs against the avalanche and snowball strategies, with
+  // ?extra= more a month (by default the loans' own extra payments), in the base currency
+  app.get('/api/loans/strategies', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const storage = await getStorage();
+      const today = todayString();
+      const { baseCurrency, rates } = await getCurrencyContext(userId);
       
-      // For base64 encoded pdf content
-      const pdfBuffer = Buffer.from(pdfContent, 'base64');
+      const debts: Debt[] = [];
+      const excluded: string[] = [];
+      let plannedExtra = 0;
+      for (const loan of await storage.getLoans(userId)) {
+        const schedule = await getLoanSchedule(userId, loan);
+        if (schedule.balance <= 0) continue;
+        
+        const balance = convertAmount(schedule.balance, loan.currency, baseCurrency, today, rates);
+        const payment = convertAmount(schedule.scheduledPayment, loan.currency, baseCurrency, today, rates);
+        if (balance === null || payment === null) {
+          excluded.push(loan.name);
+          continue;
+        }
+        debts.push({ loanId: loan.id, name: loan.name, balance, annualRate: schedule.annualRate, payment });
+        plannedExtra += convertAmount(schedule.extraPayment, loan.currency, baseCurrency, today, rates) ?? 0;
+      }
       
-      // Extract text from PDF
-      const extractedText = await extractPdfContent(pdfBuffer);
+      const extraMonthly = req.query.extra !== undefined ? Number(req.query.extra) : plannedExtra;
+      if (isNaN(extraMonthly) || extraMonthly < 0) {
+        return res.status(400).json({ message: 'Extra payment must be a positive amount' });
+      }
       
-      // Extract transactions from text
-      const extractedTransactions = extractTransactions(extractedText);
+      res.json({
+        currency: baseCurrency,
+        extraMonthly,
+        excluded,
+        strategies: debts.length > 0 ? comparePayoffStrategies(debts, extraMonthly, today) : [],
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to compare payoff strategies' });
+    }
+  });
+  
+  app.post('/api/loans', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const validated = await resolveLoan(userId, insertLoanSchema.parse(req.body));
       
-      if (extractedTransactions.length === 0) {
-        return res.status(400).json({ 
-          message: 'No transactions could be extracted from the PDF. Please check the format or try manual entry.' 
-        });
+      if ('error' in validated) {
+        return res.status(400).json({ message: validated.error });
       }
       
-      // Save transactions
       const storage = await getStorage();
-      const savedTransactions = [];
-      for (const transaction of extractedTransactions) {
-        const transactionData = insertTransactionSchema.parse({
-          ...transaction,
-          pdfSource: 'Uploaded PDF'
-        });
-        
-        savedTransactions.push(
-          await storage.createTransaction(userId, transactionData)
-        );
+      const loan = await storage.createLoan(userId, validated.data);
+      res.status(201).json(await getLoanSchedule(userId, loan));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid loan data', errors: error.errors });
       }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to create loan' });
+    }
+  });
+  
+  app.put('/api/loans/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const loan = await getOwnedLoan(userId, parseInt(req.params.id));
       
-      // Generate summary for the month of the transactions
-      const firstDate = new Date(savedTransactions[0].date);
-      const year = firstDate.getFullYear();
-      const month = firstDate.getMonth() + 1;
+      if (!loan) {
+        return res.status(404).json({ message: 'Loan not found' });
+      }
       
-      const summary = await generateMonthlySummary(userId, year, month);
+      const validated = await resolveLoan(userId, insertLoanSchema.parse(req.body));
       
-      res.status(201).json({
-        message: `Successfully extracted ${savedTransactions.length} transactions`,
-        transactions: savedTransactions,
-        summary
-      });
+      if ('error' in validated) {
+        return res.status(400).json({ message: validated.error });
+      }
+      
+      const storage = await getStorage();
+      const updated = await storage.updateLoan(loan.id, validated.data);
+      if (!updated) {
+        return res.status(404).json({ message: 'Loan not found' });
+      }
+      res.json(await getLoanSchedule(userId, updated));
     } catch (error) {
-      console.error('PDF processing error:', error);
-      res.status(500).json({ message: 'Failed to process PDF' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid loan data', errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ message: 'Failed to update loan' });
     }
   });
   
-  // Categories
-  app.get('/api/categories', (req: Request, res: Response) => {
-    res.json(categories);
+  app.delete('/api/loans/:id', async (req: Request, res: Response) => {
+    try {
+      const loan = await getOwnedLoan(req.user!.id, parseInt(req.params.id));
+      
+      if (!loan) {
+        return res.status(404).json({ message: 'Loan not found' });
+      }
+      
+      const storage = await getStorage();
+      await storage.deleteLoan(loan.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to delete loan' });
+    }
   });
   
-  // Export data to CSV
-  app.get('/api/export/:year/:month', async (req: Request, res: Response) => {
+  // Forecast Routes
+  // Daily balances of the user's open accounts over the coming days
+  app.get('/api/forecast', async (req: Request, res: Response) => {
     try {
-      const userId = 1; // Using default demo user
-      const year = parseInt(req.params.year);
-      const month = parseInt(req.params.month);
+      const userId = req.user!.id;
+      const storage = await getStorage();
+      const today = todayString();
+      const { baseCurrency, rates } = await getCurrencyContext(userId);
       
-      if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
-        return res.status(400).json({ message: 'Invalid year or month' });
+      const accounts = [];
+      for (const account of await getVisibleAccounts(userId)) {
+        if (account.archived) continue;
+        accounts.push({ account, balance: accountBalance(account, await storage.getTransactionsByAccount(account.id)) });
+      }
+      
+      const templates = [];
+      for (const template of await storage.getRecurringTemplates(userId)) {
+        templates.push({ template, occurrences: await storage.getRecurringOccurrences(template.id) });
       }
       
+      res.json(buildForecast({
+        today,
+        accounts,
+        templates,
+        subscriptions: await getSubscriptions(userId),
+        transactions: await storage.getTransactions(userId),
+        toBase: (amount, currency) => convertAmount(amount, currency, baseCurrency, today, rates),
+      }));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: 'Failed to build forecast' });
+    }
+  });
+  
+  // Export transactions over a date range, filtered by category, type and account, as CSV,
+  // JSON, XLSX, QIF or OFX. Only the date range is loaded, and the file is written out row by row.
+  app.get('/api/export', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const query = exportQuerySchema.parse(req.query);
       const storage = await getStorage();
-      const transactions = await storage.getTransactionsByMonth(userId, year, month);
+      const from = query.from ? toDateString(query.from) : undefined;
+      const to = query.to ? toDateString(query.to) : undefined;
       
-      if (transactions.length === 0) {
-        return res.status(404).json({ message: 'No transactions found for this month' });
+      let source: Transaction[];
+      if (query.accountId !== undefined) {
+        const account = await getVisibleAccount(userId, query.accountId);
+        if (!account) {
+          return res.status(404).json({ message: 'Account not found' });
+        }
+        // A joint account's transactions include those of the other household members
+        source = await storage.getTransactionsByAccountInRange(account.id, from, to);
+      } else {
+        source = await storage.getTransactionsInRange(userId, from, to);
       }
       
-      // Generate CSV content
-      const headers = ['Date', 'Description', 'Category', 'Amount', 'Type'];
-      const csvRows = [headers.join(',')];
+      const userCategories = await getUserCategories(userId);
+      const transactions = filterForExport(source, {
+        from,
+        to,
+        category: query.category,
+        type: query.type,
+        accountId: query.accountId,
+      }, userCategories);
+      
+      if (transactions.length === 0) {
+        return res.status(404).json({ message: 'No transactions match the export' });
+      }
       
+      const accounts = new Map((await getVisibleAccounts(userId)).map(account => [account.id, account]));
+      const accountOf = (accountId: number | null | undefined) => (accountId != null ? accounts.get(accountId) ?? null : null);
+      // The other leg of a transfer may be left out by the filters, so look up any not loaded
+      const legAccounts = new Map(source.map(transaction => [transaction.id, transaction.accountId]));
       for (const transaction of transactions) {
-        // Format date as MM/DD/YYYY
-        const date = new Date(transaction.date);
-        const formattedDate = `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}`;
-        
-        // Escape commas and quotes in description
-        const safeDescription = transaction.description.replace(/"/g, '""');
-        
-        const row = [
-          formattedDate,
-          `"${safeDescription}"`,
-          transaction.category,
-          Math.abs(Number(transaction.amount)).toFixed(2),
-          transaction.type
-        ];
-        
-        csvRows.push(row.join(','));
+        if (transaction.transferId !== null && !legAccounts.has(transaction.transferId)) {
+          legAccounts.set(transaction.transferId, (await storage.getTransactionById(transaction.transferId))?.accountId ?? null);
+        }
       }
+      const rows: ExportRow[] = transactions.map(transaction => ({
+        transaction,
+        account: accountOf(transaction.accountId),
+        transferAccount: transaction.transferId !== null ? accountOf(legAccounts.get(transaction.transferId)) : null,
+      }));
       
-      const csvContent = csvRows.join('\n');
+      const period = {
+        from: query.from ? toDateString(query.from) : transactions[0].date,
+        to: query.to ? toDateString(query.to) : transactions[transactions.length - 1].date,
+      };
+      const filename = `transactions-${period.from}-to-${period.to}.${query.format}`;
+      res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
       
-      // Set headers to trigger download
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename=transactions-${year}-${month}.csv`);
+      if (query.format === 'xlsx') {
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        await writeXlsx(rows, res);
+        return;
+      }
       
-      res.send(csvContent);
+      const sink = responseSink(res);
+      if (query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        await writeCsv(rows, query, sink);
+      } else if (query.format === 'json') {
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        await writeJson(rows, sink);
+      } else if (query.format === 'qif') {
+        res.setHeader('Content-Type', 'application/qif; charset=utf-8');
+        await writeQif(rows, query, sink);
+      } else if (query.format === 'ofx') {
+        // Each account's statement closes on its balance at the end of the period
+        const balances = new Map<number, number>();
+        for (const account of Array.from(new Set(rows.map(row => row.account)))) {
+          if (!account) continue;
+          balances.set(account.id, accountBalance(account, await storage.getTransactionsByAccountInRange(account.id, undefined, period.to)));
+        }
+        res.setHeader('Content-Type', 'application/x-ofx; charset=utf-8');
+        await writeOfx(rows, period, balances, todayString(), sink);
+      } else {
+        // Opening balances and statement balances only hold for accounts with nothing in the period left out
+        const exportedIds = new Set(transactions.map(transaction => transaction.id));
+        const openingBalances = new Map<number, number>();
+        const statements: AccountStatement[] = [];
+        for (const account of Array.from(new Set(rows.map(row => row.account)))) {
+          if (!account) continue;
+          const accountTransactions = await storage.getTransactionsByAccountInRange(account.id, undefined, period.to);
+          if (accountTransactions.some(transaction =>
+            transaction.date >= period.from && transaction.date <= period.to && !exportedIds.has(transaction.id))) continue;
+          openingBalances.set(account.id, accountBalance(account, accountTransactions.filter(transaction => transaction.date < period.from)));
+          statements.push(...await storage.getAccountStatements(account.id));
+        }
+        const ledger = {
+          rows,
+          categories: userCategories,
+          openingBalances,
+          statements,
+          baseCurrency: (await getCurrencyContext(userId)).baseCurrency,
+          period,
+        };
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        await (query.format === 'beancount' ? writeBeancount(ledger, sink) : writeLedger(ledger, sink));
+      }
+      res.end();
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid export options', errors: error.errors });
+      }
       console.error(error);
-      res.status(500).json({ message: 'Failed to export transactions' });
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ message: 'Failed to export transactions' });
+      }
     }
   });
 
+  // Post what fell due while the server was down, then keep checking
+  postDueRecurringTransactions().catch(console.error);
+  setInterval(() => postDueRecurringTransactions().catch(console.error), RECURRING_CONFIG.postIntervalMs).unref();
+
+  // Net worth snapshots are kept for every month, whether or not anyone looks
+  takeAllNetWorthSnapshots().catch(console.error);
+  setInterval(() => takeAllNetWorthSnapshots().catch(console.error), NET_WORTH_CONFIG.snapshotIntervalMs).unref();
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,82 @@
+import { compileRuleRegex, type CategoryRule, type Transaction } from "@shared/schema";
+
+// What a rule looks at: a saved transaction, a draft import row or a new manual entry
+export interface RuleSubject {
+  description: string;
+  amount: string | number;
+  type: string;
+}
+
+// A transaction whose category the rules would change
+export interface RuleChange {
+  transaction: Transaction;
+  category: string;
+  ruleId: number;
+}
+
+const keywords = (pattern: string) =>
+  pattern.split(',').map(keyword => keyword.trim().toLowerCase()).filter(keyword => keyword.length > 0);
+
+// Compiled rule regexes by pattern; null for a pattern that does not compile
+const compiledPatterns = new Map<string, ReturnType<typeof compileRuleRegex> | null>();
+const MAX_COMPILED_PATTERNS = 1000;
+
+function compiledPattern(pattern: string) {
+  if (!compiledPatterns.has(pattern)) {
+    if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) compiledPatterns.clear();
+    try {
+      compiledPatterns.set(pattern, compileRuleRegex(pattern));
+    } catch {
+      // Patterns are validated on save, but rules saved before the switch to RE2 may use
+      // syntax it lacks; never let a bad one break an import
+      compiledPatterns.set(pattern, null);
+    }
+  }
+  return compiledPatterns.get(pattern)!;
+}
+
+function matchesPattern(rule: CategoryRule, description: string): boolean {
+  if (rule.pattern === null) return true;
+
+  if (rule.matchType === 'regex') {
+    return compiledPattern(rule.pattern)?.test(description) ?? false;
+  }
+
+  const text = description.toLowerCase();
+  return keywords(rule.pattern).some(keyword => text.includes(keyword));
+}
+
+export function ruleMatches(rule: CategoryRule, subject: RuleSubject): boolean {
+  const magnitude = Math.abs(Number(subject.amount));
+  if (rule.type !== null && rule.type !== subject.type) return false;
+  if (rule.minAmount !== null && magnitude < Number(rule.minAmount)) return false;
+  if (rule.maxAmount !== null && magnitude > Number(rule.maxAmount)) return false;
+  return matchesPattern(rule, subject.description);
+}
+
+// Rules in the order they are tried: ascending priority, then oldest first
+export function sortRules(rules: CategoryRule[]): CategoryRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.id - b.id);
+}
+
+// First rule that matches, if any
+export function findMatchingRule(rules: CategoryRule[], subject: RuleSubject): CategoryRule | undefined {
+  return sortRules(rules).find(rule => ruleMatches(rule, subject));
+}
+
+// Transactions whose category would change if the rules were applied to them.
+// Transactions no rule matches keep their category, and transfers and reconciled transactions are never recategorised.
+export function previewRuleChanges(rules: CategoryRule[], transactions: Transaction[]): RuleChange[] {
+  const sorted = sortRules(rules);
+  const changes: RuleChange[] = [];
+
+  for (const transaction of transactions) {
+    if (transaction.type === 'transfer' || transaction.status === 'reconciled') continue;
+    const rule = sorted.find(candidate => ruleMatches(candidate, transaction));
+    if (rule && rule.category !== transaction.category) {
+      changes.push({ transaction, category: rule.category, ruleId: rule.id });
+    }
+  }
+
+  return changes;
+}
@@ -7,21 +7,258 @@ import {
   InsertMonthlySummary,
   CategoryBreakdown,
   InsertCategoryBreakdown,
+  Household,
+  InsertHousehold,
+  HouseholdMember,
+  HouseholdInvitation,
+  Settlement,
+  InsertSettlement,
+  StatementImport,
+  InsertStatementImport,
+  StatementImportRow,
+  InsertStatementImportRow,
+  CsvProfile,
+  InsertCsvProfile,
+  Category,
+  InsertCategory,
+  UpdateCategory,
+  CategoryRule,
+  InsertCategoryRule,
+  Account,
+  InsertAccount,
+  UpdateAccount,
+  AccountStatement,
+  InsertAccountStatement,
+  ExchangeRate,
+  InsertExchangeRate,
+  Budget,
+  InsertBudget,
+  Envelope,
+  InsertEnvelope,
+  EnvelopeAllocation,
+  InsertEnvelopeAllocation,
+  RecurringTemplate,
+  InsertRecurringTemplate,
+  RecurringOccurrence,
+  InsertRecurringOccurrence,
+  SavingsGoal,
+  InsertSavingsGoal,
+  Asset,
+  InsertAsset,
+  AssetValuation,
+  InsertAssetValuation,
+  NetWorthSnapshot,
+  InsertNetWorthSnapshot,
+  Loan,
+  InsertLoan,
+  UpdateUserPreferences,
+  TransactionStatus,
+  TRANSFER_CATEGORY,
 } from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+
+const MemoryStore = createMemoryStore(session);
+
+// What committing one row of a draft import does to the ledger
+export type StatementImportRowCommit =
+  | { action: 'skip' }
+  // A new transaction, linked as the other leg of `transferOfId` when given
+  | { action: 'create'; transaction: InsertTransaction; transferOfId?: number }
+  // The statement's details written over an existing transaction
+  | { action: 'merge'; transactionId: number; update: Partial<InsertTransaction> };
 
 export interface IStorage {
+  // Session store used by express-session
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: number): Promise<User | undefined>;
+  // Every user, for the jobs run on all of them
+  getUsers(): Promise<User[]>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPreferences(id: number, preferences: UpdateUserPreferences): Promise<User | undefined>;
+
+  // Household methods
+  getHouseholdByUser(userId: number): Promise<Household | undefined>;
+  getHouseholdMembers(householdId: number): Promise<HouseholdMember[]>;
+  createHousehold(ownerId: number, household: InsertHousehold): Promise<Household>;
+  addHouseholdMember(householdId: number, userId: number, role: string): Promise<HouseholdMember>;
+  removeHouseholdMember(householdId: number, userId: number): Promise<boolean>;
+  getHouseholdInvitationById(id: number): Promise<HouseholdInvitation | undefined>;
+  // Invitations waiting for the user to accept or decline
+  getHouseholdInvitationsForUser(userId: number): Promise<HouseholdInvitation[]>;
+  createHouseholdInvitation(householdId: number, userId: number, invitedBy: number): Promise<HouseholdInvitation>;
+  deleteHouseholdInvitation(id: number): Promise<boolean>;
+  // Adds the invited user as a member and drops all their other invitations
+  acceptHouseholdInvitation(id: number): Promise<HouseholdMember>;
+  getSharedTransactions(householdId: number): Promise<Transaction[]>;
+
+  // Settlement methods
+  getSettlements(householdId: number): Promise<Settlement[]>;
+  getSettlementById(id: number): Promise<Settlement | undefined>;
+  createSettlement(householdId: number, createdBy: number, settlement: InsertSettlement): Promise<Settlement>;
+  deleteSettlement(id: number): Promise<boolean>;
+
+  // Statement import methods
+  getStatementImports(userId: number): Promise<StatementImport[]>;
+  getStatementImportById(id: number): Promise<StatementImport | undefined>;
+  createStatementImport(userId: number, statementImport: InsertStatementImport, rows: InsertStatementImportRow[]): Promise<StatementImport>;
+  deleteStatementImport(id: number): Promise<boolean>;
+  getStatementImportRows(importId: number): Promise<StatementImportRow[]>;
+  getStatementImportRowById(id: number): Promise<StatementImportRow | undefined>;
+  updateStatementImportRow(id: number, row: Partial<InsertStatementImportRow>): Promise<StatementImportRow | undefined>;
+  deleteStatementImportRow(id: number): Promise<boolean>;
+  // Takes a row off its draft and applies it to the ledger as one step, marking what it saves as cleared;
+  // if the save fails the row stays in the draft. Null when nothing was saved, undefined when the row was already taken.
+  commitStatementImportRow(id: number, userId: number, commit: StatementImportRowCommit): Promise<Transaction | null | undefined>;
+
+  // CSV import profile methods
+  getCsvProfiles(userId: number): Promise<CsvProfile[]>;
+  getCsvProfileById(id: number): Promise<CsvProfile | undefined>;
+  createCsvProfile(userId: number, profile: InsertCsvProfile): Promise<CsvProfile>;
+  updateCsvProfile(id: number, profile: InsertCsvProfile): Promise<CsvProfile | undefined>;
+  deleteCsvProfile(id: number): Promise<boolean>;
+
+  // Account methods
+  getAccounts(userId: number): Promise<Account[]>;
+  // Joint accounts of a household
+  getHouseholdAccounts(householdId: number): Promise<Account[]>;
+  getAccountById(id: number): Promise<Account | undefined>;
+  // The `joint` flag is resolved to a household by the caller
+  createAccount(userId: number, householdId: number | null, account: InsertAccount): Promise<Account>;
+  updateAccount(id: number, account: UpdateAccount, householdId?: number | null): Promise<Account | undefined>;
+  deleteAccount(id: number): Promise<boolean>;
+  // Every transaction recorded against an account, whoever entered it
+  getTransactionsByAccount(accountId: number): Promise<Transaction[]>;
+  // The same, limited to an inclusive YYYY-MM-DD date range; either end may be left open
+  getTransactionsByAccountInRange(accountId: number, from?: string, to?: string): Promise<Transaction[]>;
+
+  // Account statement methods
+  getAccountStatements(accountId: number): Promise<AccountStatement[]>;
+  getAccountStatementById(id: number): Promise<AccountStatement | undefined>;
+  createAccountStatement(userId: number, accountId: number, statement: InsertAccountStatement): Promise<AccountStatement>;
+  updateAccountStatement(id: number, statement: InsertAccountStatement): Promise<AccountStatement | undefined>;
+  deleteAccountStatement(id: number): Promise<boolean>;
+  // Reconciling marks the given transactions reconciled; undoing it sets them back to cleared
+  setAccountStatementReconciled(id: number, transactionIds: number[], reconciled: boolean): Promise<AccountStatement | undefined>;
+
+  // Exchange rate methods
+  getExchangeRates(userId: number): Promise<ExchangeRate[]>;
+  getExchangeRateById(id: number): Promise<ExchangeRate | undefined>;
+  // Saving a rate for a pair and day that already has one replaces it
+  saveExchangeRates(userId: number, rates: InsertExchangeRate[]): Promise<ExchangeRate[]>;
+  deleteExchangeRate(id: number): Promise<boolean>;
+
+  // Category methods
+  getCategories(userId: number): Promise<Category[]>;
+  getCategoryById(id: number): Promise<Category | undefined>;
+  createCategory(userId: number, category: InsertCategory): Promise<Category>;
+  // Creates the categories the user does not have yet; used to seed the defaults
+  createMissingCategories(userId: number, categories: InsertCategory[]): Promise<Category[]>;
+  updateCategory(id: number, category: UpdateCategory): Promise<Category | undefined>;
+  deleteCategory(id: number): Promise<boolean>;
+  // Moves the user's transactions, draft import rows, rules, budgets, envelopes and envelope
+  // allocations to another category name, returning the transactions that changed. Budgets
+  // and envelopes the new name already has are kept over the moved ones.
+  reassignCategory(userId: number, fromName: string, toName: string): Promise<Transaction[]>;
+
+  // Category rule methods
+  getCategoryRules(userId: number): Promise<CategoryRule[]>;
+  getCategoryRuleById(id: number): Promise<CategoryRule | undefined>;
+  createCategoryRule(userId: number, rule: InsertCategoryRule): Promise<CategoryRule>;
+  updateCategoryRule(id: number, rule: InsertCategoryRule): Promise<CategoryRule | undefined>;
+  deleteCategoryRule(id: number): Promise<boolean>;
+
+  // Budget methods
+  getBudgets(userId: number): Promise<Budget[]>;
+  getBudgetById(id: number): Promise<Budget | undefined>;
+  // Saving a budget for a category and month that already has one replaces its amount
+  saveBudgets(userId: number, budgets: InsertBudget[]): Promise<Budget[]>;
+  deleteBudget(id: number): Promise<boolean>;
+
+  // Envelope methods
+  getEnvelopes(userId: number): Promise<Envelope[]>;
+  getEnvelopeById(id: number): Promise<Envelope | undefined>;
+  createEnvelope(userId: number, envelope: InsertEnvelope): Promise<Envelope>;
+  updateEnvelope(id: number, rollover: boolean): Promise<Envelope | undefined>;
+  deleteEnvelope(id: number): Promise<boolean>;
+  // Allocations come back oldest first
+  getEnvelopeAllocations(userId: number): Promise<EnvelopeAllocation[]>;
+  getEnvelopeAllocationById(id: number): Promise<EnvelopeAllocation | undefined>;
+  createEnvelopeAllocation(userId: number, allocation: InsertEnvelopeAllocation): Promise<EnvelopeAllocation>;
+  deleteEnvelopeAllocation(id: number): Promise<boolean>;
+
+  // Recurring template methods
+  getRecurringTemplates(userId: number): Promise<RecurringTemplate[]>;
+  getRecurringTemplateById(id: number): Promise<RecurringTemplate | undefined>;
+  // Templates of every user with an occurrence due on or before the date
+  getDueRecurringTemplates(date: string): Promise<RecurringTemplate[]>;
+  createRecurringTemplate(userId: number, template: InsertRecurringTemplate, nextDate: string | null): Promise<RecurringTemplate>;
+  updateRecurringTemplate(id: number, template: InsertRecurringTemplate, nextDate: string | null): Promise<RecurringTemplate | undefined>;
+  setRecurringNextDate(id: number, nextDate: string | null): Promise<RecurringTemplate | undefined>;
+  // Deletes the template and its occurrences; transactions it posted are kept
+  deleteRecurringTemplate(id: number): Promise<boolean>;
+  getRecurringOccurrences(templateId: number): Promise<RecurringOccurrence[]>;
+  // Saving an occurrence for a date that already has one replaces it
+  saveRecurringOccurrence(templateId: number, occurrence: InsertRecurringOccurrence): Promise<RecurringOccurrence>;
+  // Posts a due occurrence as the transaction, records it as posted and moves the template on to
+  // `nextDate`, all or nothing; undefined when the occurrence is already posted or skipped
+  postRecurringOccurrence(
+    templateId: number,
+    userId: number,
+    transaction: InsertTransaction,
+    occurrence: Pick<InsertRecurringOccurrence, 'date' | 'description' | 'category' | 'amount'>,
+    nextDate: string | null,
+  ): Promise<Transaction | undefined>;
+  deleteRecurringOccurrence(id: number): Promise<boolean>;
+
+  // Savings goal methods
+  getSavingsGoals(userId: number): Promise<SavingsGoal[]>;
+  getSavingsGoalById(id: number): Promise<SavingsGoal | undefined>;
+  createSavingsGoal(userId: number, goal: InsertSavingsGoal): Promise<SavingsGoal>;
+  updateSavingsGoal(id: number, goal: InsertSavingsGoal): Promise<SavingsGoal | undefined>;
+  deleteSavingsGoal(id: number): Promise<boolean>;
+
+  // Asset and liability methods
+  getAssets(userId: number): Promise<Asset[]>;
+  getAssetById(id: number): Promise<Asset | undefined>;
+  createAsset(userId: number, asset: InsertAsset): Promise<Asset>;
+  updateAsset(id: number, asset: InsertAsset): Promise<Asset | undefined>;
+  // Deletes the asset and its valuations
+  deleteAsset(id: number): Promise<boolean>;
+  // Oldest first
+  getAssetValuations(assetId: number): Promise<AssetValuation[]>;
+  // Saving a valuation for a date that already has one replaces it
+  saveAssetValuation(assetId: number, valuation: InsertAssetValuation): Promise<AssetValuation>;
+  deleteAssetValuation(id: number): Promise<boolean>;
+
+  // Net worth snapshot methods
+  // Oldest first
+  getNetWorthSnapshots(userId: number): Promise<NetWorthSnapshot[]>;
+  // Saving a snapshot for a month that already has one replaces it
+  saveNetWorthSnapshot(userId: number, snapshot: InsertNetWorthSnapshot): Promise<NetWorthSnapshot>;
+
+  // Loan methods
+  getLoans(userId: number): Promise<Loan[]>;
+  getLoanById(id: number): Promise<Loan | undefined>;
+  createLoan(userId: number, loan: InsertLoan): Promise<Loan>;
+  updateLoan(id: number, loan: InsertLoan): Promise<Loan | undefined>;
+  deleteLoan(id: number): Promise<boolean>;
 
   // Transaction methods
   getTransactions(userId: number): Promise<Transaction[]>;
   getTransactionsByMonth(userId: number, year: number, month: number): Promise<Transaction[]>;
+  // A user's transactions in an inclusive YYYY-MM-DD date range; either end may be left open
+  getTransactionsInRange(userId: number, from?: string, to?: string): Promise<Transaction[]>;
   getTransactionById(id: number): Promise<Transaction | undefined>;
   createTransaction(userId: number, transaction: InsertTransaction): Promise<Transaction>;
   updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined>;
   deleteTransaction(id: number): Promise<boolean>;
+  setTransactionStatus(ids: number[], status: TransactionStatus): Promise<Transaction[]>;
+  linkTransfer(outgoingId: number, incomingId: number): Promise<Transaction[]>;
+  unlinkTransfer(id: number): Promise<Transaction[]>;
 
   // Monthly Summary methods
   getMonthlySummaries(userId: number): Promise<MonthlySummary[]>;
@@ -36,28 +273,119 @@ export interface IStorage {
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private households: Map<number, Household>;
+  private householdMembers: Map<number, HouseholdMember>;
+  private householdInvitations: Map<number, HouseholdInvitation>;
+  private settlements: Map<number, Settlement>;
+  private statementImports: Map<number, StatementImport>;
+  private statementImportRows: Map<number, StatementImportRow>;
+  private csvProfiles: Map<number, CsvProfile>;
+  private accounts: Map<number, Account>;
+  private accountStatements: Map<number, AccountStatement>;
+  private exchangeRates: Map<number, ExchangeRate>;
+  private categories: Map<number, Category>;
+  private categoryRules: Map<number, CategoryRule>;
+  private budgets: Map<number, Budget>;
+  private envelopes: Map<number, Envelope>;
+  private envelopeAllocations: Map<number, EnvelopeAllocation>;
+  private recurringTemplates: Map<number, RecurringTemplate>;
+  private recurringOccurrences: Map<number, RecurringOccurrence>;
+  private savingsGoals: Map<number, SavingsGoal>;
+  private assets: Map<number, Asset>;
+  private assetValuations: Map<number, AssetValuation>;
+  private netWorthSnapshots: Map<number, NetWorthSnapshot>;
+  private loans: Map<number, Loan>;
   private transactions: Map<number, Transaction>;
   private monthlySummaries: Map<number, MonthlySummary>;
   private categoryBreakdowns: Map<number, CategoryBreakdown>;
   
   private userId: number;
+  private householdId: number;
+  private householdMemberId: number;
+  private householdInvitationId: number;
+  private settlementId: number;
+  private statementImportId: number;
+  private statementImportRowId: number;
+  private csvProfileId: number;
+  private accountId: number;
+  private accountStatementId: number;
+  private exchangeRateId: number;
+  private categoryId: number;
+  private categoryRuleId: number;
+  private budgetId: number;
+  private envelopeId: number;
+  private envelopeAllocationId: number;
+  private recurringTemplateId: number;
+  private recurringOccurrenceId: number;
+  private savingsGoalId: number;
+  private assetId: number;
+  private assetValuationId: number;
+  private netWorthSnapshotId: number;
+  private loanId: number;
   private transactionId: number;
   private summaryId: number;
   private breakdownId: number;
 
+  sessionStore: session.Store;
+
   constructor() {
     this.users = new Map();
+    this.households = new Map();
+    this.householdMembers = new Map();
+    this.householdInvitations = new Map();
+    this.settlements = new Map();
+    this.statementImports = new Map();
+    this.statementImportRows = new Map();
+    this.csvProfiles = new Map();
+    this.accounts = new Map();
+    this.accountStatements = new Map();
+    this.exchangeRates = new Map();
+    this.categories = new Map();
+    this.categoryRules = new Map();
+    this.budgets = new Map();
+    this.envelopes = new Map();
+    this.envelopeAllocations = new Map();
+    this.recurringTemplates = new Map();
+    this.recurringOccurrences = new Map();
+    this.savingsGoals = new Map();
+    this.assets = new Map();
+    this.assetValuations = new Map();
+    this.netWorthSnapshots = new Map();
+    this.loans = new Map();
     this.transactions = new Map();
     this.monthlySummaries = new Map();
     this.categoryBreakdowns = new Map();
     
     this.userId = 1;
+    this.householdId = 1;
+    this.householdMemberId = 1;
+    this.householdInvitationId = 1;
+    this.settlementId = 1;
+    this.statementImportId = 1;
+    this.statementImportRowId = 1;
+    this.csvProfileId = 1;
+    this.accountId = 1;
+    this.accountStatementId = 1;
+    this.exchangeRateId = 1;
+    this.categoryId = 1;
+    this.categoryRuleId = 1;
+    this.budgetId = 1;
+    this.envelopeId = 1;
+    this.envelopeAllocationId = 1;
+    this.recurringTemplateId = 1;
+    this.recurringOccurrenceId = 1;
+    this.savingsGoalId = 1;
+    this.assetId = 1;
+    this.assetValuationId = 1;
+    this.netWorthSnapshotId = 1;
+    this.loanId = 1;
     this.transactionId = 1;
     this.summaryId = 1;
     this.breakdownId = 1;
 
-    // Create a default user for demo purposes
-    this.createUser({ username: "demo", password: "password" });
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
+    });
   }
 
   // User methods
@@ -65,6 +393,10 @@ export class MemStorage implements IStorage {
     return this.users.get(id);
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
       (user) => user.username === username,
@@ -73,11 +405,1118 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, baseCurrency: 'USD', budgetMode: 'limits' };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserPreferences(id: number, preferences: UpdateUserPreferences): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser: User = { ...user, ...preferences };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  // Household methods
+  async getHouseholdByUser(userId: number): Promise<Household | undefined> {
+    const membership = Array.from(this.householdMembers.values()).find(
+      (member) => member.userId === userId,
+    );
+    return membership ? this.households.get(membership.householdId) : undefined;
+  }
+
+  async getHouseholdMembers(householdId: number): Promise<HouseholdMember[]> {
+    return Array.from(this.householdMembers.values()).filter(
+      (member) => member.householdId === householdId,
+    );
+  }
+
+  async createHousehold(ownerId: number, insertHousehold: InsertHousehold): Promise<Household> {
+    const id = this.householdId++;
+    const household: Household = {
+      id,
+      name: insertHousehold.name,
+      currency: insertHousehold.currency ?? "USD",
+      createdAt: new Date(),
+    };
+    this.households.set(id, household);
+    await this.addHouseholdMember(id, ownerId, "owner");
+    return household;
+  }
+
+  async addHouseholdMember(householdId: number, userId: number, role: string): Promise<HouseholdMember> {
+    const id = this.householdMemberId++;
+    const member: HouseholdMember = {
+      id,
+      householdId,
+      userId,
+      role,
+      joinedAt: new Date(),
+    };
+    this.householdMembers.set(id, member);
+    return member;
+  }
+
+  async removeHouseholdMember(householdId: number, userId: number): Promise<boolean> {
+    const member = Array.from(this.householdMembers.values()).find(
+      (m) => m.householdId === householdId && m.userId === userId,
+    );
+    return member ? this.householdMembers.delete(member.id) : false;
+  }
+
+  async getHouseholdInvitationById(id: number): Promise<HouseholdInvitation | undefined> {
+    return this.householdInvitations.get(id);
+  }
+
+  async getHouseholdInvitationsForUser(userId: number): Promise<HouseholdInvitation[]> {
+    return Array.from(this.householdInvitations.values()).filter(
+      (invitation) => invitation.userId === userId,
+    );
+  }
+
+  async createHouseholdInvitation(householdId: number, userId: number, invitedBy: number): Promise<HouseholdInvitation> {
+    const existing = Array.from(this.householdInvitations.values()).find(
+      (invitation) => invitation.householdId === householdId && invitation.userId === userId,
+    );
+    if (existing) {
+      return existing;
+    }
+    const id = this.householdInvitationId++;
+    const invitation: HouseholdInvitation = {
+      id,
+      householdId,
+      userId,
+      invitedBy,
+      createdAt: new Date(),
+    };
+    this.householdInvitations.set(id, invitation);
+    return invitation;
+  }
+
+  async deleteHouseholdInvitation(id: number): Promise<boolean> {
+    return this.householdInvitations.delete(id);
+  }
+
+  async acceptHouseholdInvitation(id: number): Promise<HouseholdMember> {
+    const invitation = this.householdInvitations.get(id);
+    if (!invitation) {
+      throw new Error('Invitation not found');
+    }
+    const member = await this.addHouseholdMember(invitation.householdId, invitation.userId, "member");
+    for (const other of await this.getHouseholdInvitationsForUser(invitation.userId)) {
+      this.householdInvitations.delete(other.id);
+    }
+    return member;
+  }
+
+  async getSharedTransactions(householdId: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter(
+      (transaction) => transaction.householdId === householdId,
+    );
+  }
+
+  // Settlement methods
+  async getSettlements(householdId: number): Promise<Settlement[]> {
+    return Array.from(this.settlements.values()).filter(
+      (settlement) => settlement.householdId === householdId,
+    );
+  }
+
+  async getSettlementById(id: number): Promise<Settlement | undefined> {
+    return this.settlements.get(id);
+  }
+
+  async createSettlement(householdId: number, createdBy: number, insertSettlement: InsertSettlement): Promise<Settlement> {
+    const id = this.settlementId++;
+    const settlement: Settlement = {
+      id,
+      householdId,
+      createdBy,
+      fromUserId: insertSettlement.fromUserId,
+      toUserId: insertSettlement.toUserId,
+      amount: String(insertSettlement.amount),
+      date: insertSettlement.date.toISOString().split('T')[0],
+      note: insertSettlement.note || null,
+      createdAt: new Date(),
+    };
+    this.settlements.set(id, settlement);
+    return settlement;
+  }
+
+  async deleteSettlement(id: number): Promise<boolean> {
+    return this.settlements.delete(id);
+  }
+
+  // Statement import methods
+  async getStatementImports(userId: number): Promise<StatementImport[]> {
+    return Array.from(this.statementImports.values()).filter(
+      (statementImport) => statementImport.userId === userId,
+    );
+  }
+
+  async getStatementImportById(id: number): Promise<StatementImport | undefined> {
+    return this.statementImports.get(id);
+  }
+
+  async createStatementImport(userId: number, insertImport: InsertStatementImport, rows: InsertStatementImportRow[]): Promise<StatementImport> {
+    const id = this.statementImportId++;
+    const statementImport: StatementImport = {
+      id,
+      userId,
+      parserId: insertImport.parserId,
+      fileName: insertImport.fileName || null,
+      accountId: insertImport.accountId ?? null,
+      openingBalance: insertImport.openingBalance != null ? String(insertImport.openingBalance) : null,
+      closingBalance: insertImport.closingBalance != null ? String(insertImport.closingBalance) : null,
+      periodStart: insertImport.periodStart ? insertImport.periodStart.toISOString().split('T')[0] : null,
+      periodEnd: insertImport.periodEnd ? insertImport.periodEnd.toISOString().split('T')[0] : null,
+      createdAt: new Date(),
+    };
+    this.statementImports.set(id, statementImport);
+
+    for (const row of rows) {
+      const rowId = this.statementImportRowId++;
+      this.statementImportRows.set(rowId, {
+        id: rowId,
+        importId: id,
+        date: row.date.toISOString().split('T')[0],
+        description: row.description,
+        category: row.category,
+        amount: String(row.amount),
+        type: row.type,
+        externalId: row.externalId ?? null,
+        duplicateOfId: row.duplicateOfId ?? null,
+        transferOfId: row.transferOfId ?? null,
+        resolution: row.resolution ?? null,
+      });
+    }
+
+    return statementImport;
+  }
+
+  async deleteStatementImport(id: number): Promise<boolean> {
+    Array.from(this.statementImportRows.values())
+      .filter(row => row.importId === id)
+      .forEach(row => this.statementImportRows.delete(row.id));
+    return this.statementImports.delete(id);
+  }
+
+  async getStatementImportRows(importId: number): Promise<StatementImportRow[]> {
+    return Array.from(this.statementImportRows.values()).filter(
+      (row) => row.importId === importId,
+    );
+  }
+
+  async getStatementImportRowById(id: number): Promise<StatementImportRow | undefined> {
+    return this.statementImportRows.get(id);
+  }
+
+  async updateStatementImportRow(id: number, updateData: Partial<InsertStatementImportRow>): Promise<StatementImportRow | undefined> {
+    const row = this.statementImportRows.get(id);
+    if (!row) return undefined;
+
+    const updatedRow: StatementImportRow = { ...row };
+
+    if (updateData.date !== undefined) {
+      updatedRow.date = updateData.date.toISOString().split('T')[0];
+    }
+
+    if (updateData.amount !== undefined) {
+      updatedRow.amount = String(updateData.amount);
+    }
+
+    if (updateData.description !== undefined) {
+      updatedRow.description = updateData.description;
+    }
+
+    if (updateData.category !== undefined) {
+      updatedRow.category = updateData.category;
+    }
+
+    if (updateData.type !== undefined) {
+      updatedRow.type = updateData.type;
+    }
+
+    if (updateData.resolution !== undefined) {
+      updatedRow.resolution = updateData.resolution;
+    }
+
+    this.statementImportRows.set(id, updatedRow);
+    return updatedRow;
+  }
+
+  async deleteStatementImportRow(id: number): Promise<boolean> {
+    return this.statementImportRows.delete(id);
+  }
+
+  async commitStatementImportRow(id: number, userId: number, commit: StatementImportRowCommit): Promise<Transaction | null | undefined> {
+    if (!this.statementImportRows.has(id)) return undefined;
+
+    let saved: Transaction | undefined;
+    if (commit.action === 'create') {
+      const created = await this.createTransaction(userId, commit.transaction);
+      saved = created;
+      if (commit.transferOfId !== undefined) {
+        const [outgoingId, incomingId] = Number(created.amount) < 0 ? [created.id, commit.transferOfId] : [commit.transferOfId, created.id];
+        saved = (await this.linkTransfer(outgoingId, incomingId)).find(leg => leg.id === created.id) ?? created;
+      }
+    } else if (commit.action === 'merge') {
+      saved = await this.updateTransaction(commit.transactionId, commit.update);
+    }
+
+    this.statementImportRows.delete(id);
+    return saved ? (await this.setTransactionStatus([saved.id], 'cleared'))[0] : null;
+  }
+
+  // CSV import profile methods
+  async getCsvProfiles(userId: number): Promise<CsvProfile[]> {
+    return Array.from(this.csvProfiles.values()).filter(
+      (profile) => profile.userId === userId,
+    );
+  }
+
+  async getCsvProfileById(id: number): Promise<CsvProfile | undefined> {
+    return this.csvProfiles.get(id);
+  }
+
+  async createCsvProfile(userId: number, insertProfile: InsertCsvProfile): Promise<CsvProfile> {
+    const id = this.csvProfileId++;
+    const profile: CsvProfile = {
+      id,
+      userId,
+      ...insertProfile,
+      amountColumn: insertProfile.amountColumn ?? null,
+      debitColumn: insertProfile.debitColumn ?? null,
+      creditColumn: insertProfile.creditColumn ?? null,
+      createdAt: new Date(),
+    };
+    this.csvProfiles.set(id, profile);
+    return profile;
+  }
+
+  async updateCsvProfile(id: number, updateData: InsertCsvProfile): Promise<CsvProfile | undefined> {
+    const profile = this.csvProfiles.get(id);
+    if (!profile) return undefined;
+
+    const updatedProfile: CsvProfile = {
+      ...profile,
+      ...updateData,
+      amountColumn: updateData.amountColumn ?? null,
+      debitColumn: updateData.debitColumn ?? null,
+      creditColumn: updateData.creditColumn ?? null,
+    };
+    this.csvProfiles.set(id, updatedProfile);
+    return updatedProfile;
+  }
+
+  async deleteCsvProfile(id: number): Promise<boolean> {
+    return this.csvProfiles.delete(id);
+  }
+
+  // Account methods
+  async getAccounts(userId: number): Promise<Account[]> {
+    return Array.from(this.accounts.values()).filter(
+      (account) => account.userId === userId,
+    );
+  }
+
+  async getHouseholdAccounts(householdId: number): Promise<Account[]> {
+    return Array.from(this.accounts.values()).filter(
+      (account) => account.householdId === householdId,
+    );
+  }
+
+  async getAccountById(id: number): Promise<Account | undefined> {
+    return this.accounts.get(id);
+  }
+
+  async createAccount(userId: number, householdId: number | null, insertAccount: InsertAccount): Promise<Account> {
+    const id = this.accountId++;
+    const account: Account = {
+      id,
+      userId,
+      householdId,
+      name: insertAccount.name,
+      type: insertAccount.type,
+      institution: insertAccount.institution ?? null,
+      currency: insertAccount.currency,
+      openingBalance: String(insertAccount.openingBalance),
+      archived: false,
+      createdAt: new Date(),
+    };
+    this.accounts.set(id, account);
+    return account;
+  }
+
+  async updateAccount(id: number, updateData: UpdateAccount, householdId?: number | null): Promise<Account | undefined> {
+    const account = this.accounts.get(id);
+    if (!account) return undefined;
+
+    const updatedAccount: Account = { ...account };
+
+    if (updateData.name !== undefined) {
+      updatedAccount.name = updateData.name;
+    }
+
+    if (updateData.type !== undefined) {
+      updatedAccount.type = updateData.type;
+    }
+
+    if (updateData.institution !== undefined) {
+      updatedAccount.institution = updateData.institution;
+    }
+
+    if (updateData.currency !== undefined) {
+      updatedAccount.currency = updateData.currency;
+    }
+
+    if (updateData.openingBalance !== undefined) {
+      updatedAccount.openingBalance = String(updateData.openingBalance);
+    }
+
+    if (updateData.archived !== undefined) {
+      updatedAccount.archived = updateData.archived;
+    }
+
+    if (householdId !== undefined) {
+      updatedAccount.householdId = householdId;
+    }
+
+    this.accounts.set(id, updatedAccount);
+    return updatedAccount;
+  }
+
+  async deleteAccount(id: number): Promise<boolean> {
+    Array.from(this.accountStatements.values())
+      .filter(statement => statement.accountId === id)
+      .forEach(statement => this.accountStatements.delete(statement.id));
+    return this.accounts.delete(id);
+  }
+
+  async getTransactionsByAccount(accountId: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter(
+      (transaction) => transaction.accountId === accountId,
+    );
+  }
+
+  async getTransactionsByAccountInRange(accountId: number, from?: string, to?: string): Promise<Transaction[]> {
+    return (await this.getTransactionsByAccount(accountId)).filter(
+      (transaction) => (!from || transaction.date >= from) && (!to || transaction.date <= to),
+    );
+  }
+
+  // Account statement methods
+  async getAccountStatements(accountId: number): Promise<AccountStatement[]> {
+    return Array.from(this.accountStatements.values())
+      .filter(statement => statement.accountId === accountId)
+      .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd));
+  }
+
+  async getAccountStatementById(id: number): Promise<AccountStatement | undefined> {
+    return this.accountStatements.get(id);
+  }
+
+  async createAccountStatement(userId: number, accountId: number, insertStatement: InsertAccountStatement): Promise<AccountStatement> {
+    const id = this.accountStatementId++;
+    const statement: AccountStatement = {
+      id,
+      userId,
+      accountId,
+      ...this.toAccountStatementFields(insertStatement),
+      reconciledAt: null,
+      createdAt: new Date(),
+    };
+    this.accountStatements.set(id, statement);
+    return statement;
+  }
+
+  async updateAccountStatement(id: number, updateData: InsertAccountStatement): Promise<AccountStatement | undefined> {
+    const statement = this.accountStatements.get(id);
+    if (!statement) return undefined;
+
+    const updatedStatement: AccountStatement = { ...statement, ...this.toAccountStatementFields(updateData) };
+    this.accountStatements.set(id, updatedStatement);
+    return updatedStatement;
+  }
+
+  private toAccountStatementFields(statement: InsertAccountStatement) {
+    return {
+      periodStart: statement.periodStart.toISOString().split('T')[0],
+      periodEnd: statement.periodEnd.toISOString().split('T')[0],
+      openingBalance: statement.openingBalance !== null ? String(statement.openingBalance) : null,
+      closingBalance: statement.closingBalance !== null ? String(statement.closingBalance) : null,
+      fileName: statement.fileName ?? null,
+    };
+  }
+
+  async deleteAccountStatement(id: number): Promise<boolean> {
+    return this.accountStatements.delete(id);
+  }
+
+  async setAccountStatementReconciled(id: number, transactionIds: number[], reconciled: boolean): Promise<AccountStatement | undefined> {
+    const statement = this.accountStatements.get(id);
+    if (!statement) return undefined;
+
+    await this.setTransactionStatus(transactionIds, reconciled ? 'reconciled' : 'cleared');
+    const updatedStatement: AccountStatement = { ...statement, reconciledAt: reconciled ? new Date() : null };
+    this.accountStatements.set(id, updatedStatement);
+    return updatedStatement;
+  }
+
+  // Category methods
+  async getCategories(userId: number): Promise<Category[]> {
+    return Array.from(this.categories.values()).filter(
+      (category) => category.userId === userId,
+    );
+  }
+
+  async getCategoryById(id: number): Promise<Category | undefined> {
+    return this.categories.get(id);
+  }
+
+  async createCategory(userId: number, insertCategory: InsertCategory): Promise<Category> {
+    const id = this.categoryId++;
+    const category: Category = {
+      id,
+      userId,
+      ...insertCategory,
+      parentId: insertCategory.parentId ?? null,
+      archived: false,
+      createdAt: new Date(),
+    };
+    this.categories.set(id, category);
+    return category;
+  }
+
+  async createMissingCategories(userId: number, insertCategories: InsertCategory[]): Promise<Category[]> {
+    const existing = new Set((await this.getCategories(userId)).map(category => category.name));
+    const created: Category[] = [];
+    for (const category of insertCategories) {
+      if (!existing.has(category.name)) {
+        created.push(await this.createCategory(userId, category));
+      }
+    }
+    return created;
+  }
+
+  async updateCategory(id: number, updateData: UpdateCategory): Promise<Category | undefined> {
+    const category = this.categories.get(id);
+    if (!category) return undefined;
+
+    const updatedCategory: Category = { ...category };
+
+    if (updateData.name !== undefined) {
+      updatedCategory.name = updateData.name;
+    }
+
+    if (updateData.color !== undefined) {
+      updatedCategory.color = updateData.color;
+    }
+
+    if (updateData.icon !== undefined) {
+      updatedCategory.icon = updateData.icon;
+    }
+
+    if (updateData.parentId !== undefined) {
+      updatedCategory.parentId = updateData.parentId;
+    }
+
+    if (updateData.archived !== undefined) {
+      updatedCategory.archived = updateData.archived;
+    }
+
+    this.categories.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  async deleteCategory(id: number): Promise<boolean> {
+    return this.categories.delete(id);
+  }
+
+  async reassignCategory(userId: number, fromName: string, toName: string): Promise<Transaction[]> {
+    const changed: Transaction[] = [];
+    this.transactions.forEach((transaction, id) => {
+      if (transaction.userId === userId && transaction.category === fromName) {
+        const updated = { ...transaction, category: toName };
+        this.transactions.set(id, updated);
+        changed.push(updated);
+      }
+    });
+
+    const draftIds = new Set((await this.getStatementImports(userId)).map(statementImport => statementImport.id));
+    this.statementImportRows.forEach((row, id) => {
+      if (draftIds.has(row.importId) && row.category === fromName) {
+        this.statementImportRows.set(id, { ...row, category: toName });
+      }
+    });
+
+    this.categoryRules.forEach((rule, id) => {
+      if (rule.userId === userId && rule.category === fromName) {
+        this.categoryRules.set(id, { ...rule, category: toName });
+      }
+    });
+
+    const userBudgets = await this.getBudgets(userId);
+    for (const budget of userBudgets.filter(budget => budget.category === fromName)) {
+      const taken = userBudgets.some(other =>
+        other.category === toName && other.year === budget.year && other.month === budget.month
+      );
+      if (taken) {
+        this.budgets.delete(budget.id);
+      } else {
+        this.budgets.set(budget.id, { ...budget, category: toName });
+      }
+    }
+
+    const userEnvelopes = await this.getEnvelopes(userId);
+    const envelope = userEnvelopes.find(envelope => envelope.category === fromName);
+    if (envelope && userEnvelopes.some(other => other.category === toName)) {
+      this.envelopes.delete(envelope.id);
+    } else if (envelope) {
+      this.envelopes.set(envelope.id, { ...envelope, category: toName });
+    }
+
+    this.envelopeAllocations.forEach((allocation, id) => {
+      if (allocation.userId === userId) {
+        this.envelopeAllocations.set(id, {
+          ...allocation,
+          fromCategory: allocation.fromCategory === fromName ? toName : allocation.fromCategory,
+          toCategory: allocation.toCategory === fromName ? toName : allocation.toCategory,
+        });
+      }
+    });
+
+    const templateIds = new Set<number>();
+    this.recurringTemplates.forEach((template, id) => {
+      if (template.userId !== userId) return;
+      templateIds.add(id);
+      if (template.category === fromName) {
+        this.recurringTemplates.set(id, { ...template, category: toName });
+      }
+    });
+    this.recurringOccurrences.forEach((occurrence, id) => {
+      if (templateIds.has(occurrence.templateId) && occurrence.category === fromName) {
+        this.recurringOccurrences.set(id, { ...occurrence, category: toName });
+      }
+    });
+
+    this.savingsGoals.forEach((goal, id) => {
+      if (goal.userId === userId && goal.category === fromName) {
+        this.savingsGoals.set(id, { ...goal, category: toName });
+      }
+    });
+
+    this.loans.forEach((loan, id) => {
+      if (loan.userId === userId && loan.category === fromName) {
+        this.loans.set(id, { ...loan, category: toName });
+      }
+    });
+
+    return changed;
+  }
+
+  // Category rule methods
+  async getCategoryRules(userId: number): Promise<CategoryRule[]> {
+    return Array.from(this.categoryRules.values())
+      .filter((rule) => rule.userId === userId)
+      .sort((a, b) => a.priority - b.priority || a.id - b.id);
+  }
+
+  async getCategoryRuleById(id: number): Promise<CategoryRule | undefined> {
+    return this.categoryRules.get(id);
+  }
+
+  private toCategoryRule(id: number, userId: number, rule: InsertCategoryRule, createdAt: Date | null): CategoryRule {
+    return {
+      id,
+      userId,
+      category: rule.category,
+      priority: rule.priority,
+      matchType: rule.matchType,
+      pattern: rule.pattern ?? null,
+      minAmount: rule.minAmount != null ? String(rule.minAmount) : null,
+      maxAmount: rule.maxAmount != null ? String(rule.maxAmount) : null,
+      type: rule.type ?? null,
+      createdAt,
+    };
+  }
+
+  async createCategoryRule(userId: number, insertRule: InsertCategoryRule): Promise<CategoryRule> {
+    const id = this.categoryRuleId++;
+    const rule = this.toCategoryRule(id, userId, insertRule, new Date());
+    this.categoryRules.set(id, rule);
+    return rule;
+  }
+
+  async updateCategoryRule(id: number, updateRule: InsertCategoryRule): Promise<CategoryRule | undefined> {
+    const rule = this.categoryRules.get(id);
+    if (!rule) return undefined;
+
+    const updatedRule = this.toCategoryRule(id, rule.userId, updateRule, rule.createdAt);
+    this.categoryRules.set(id, updatedRule);
+    return updatedRule;
+  }
+
+  async deleteCategoryRule(id: number): Promise<boolean> {
+    return this.categoryRules.delete(id);
+  }
+
+  // Exchange rate methods
+  async getExchangeRates(userId: number): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRates.values())
+      .filter((rate) => rate.userId === userId)
+      .sort((a, b) => b.date.localeCompare(a.date) || a.fromCurrency.localeCompare(b.fromCurrency));
+  }
+
+  async getExchangeRateById(id: number): Promise<ExchangeRate | undefined> {
+    return this.exchangeRates.get(id);
+  }
+
+  async saveExchangeRates(userId: number, rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    const saved: ExchangeRate[] = [];
+    for (const insertRate of rates) {
+      const date = insertRate.date.toISOString().split('T')[0];
+      const existing = Array.from(this.exchangeRates.values()).find((rate) =>
+        rate.userId === userId && rate.date === date &&
+        rate.fromCurrency === insertRate.fromCurrency && rate.toCurrency === insertRate.toCurrency
+      );
+      const rate: ExchangeRate = {
+        id: existing?.id ?? this.exchangeRateId++,
+        userId,
+        date,
+        fromCurrency: insertRate.fromCurrency,
+        toCurrency: insertRate.toCurrency,
+        rate: String(insertRate.rate),
+        createdAt: existing?.createdAt ?? new Date(),
+      };
+      this.exchangeRates.set(rate.id, rate);
+      saved.push(rate);
+    }
+    return saved;
+  }
+
+  async deleteExchangeRate(id: number): Promise<boolean> {
+    return this.exchangeRates.delete(id);
+  }
+
+  // Budget methods
+  async getBudgets(userId: number): Promise<Budget[]> {
+    return Array.from(this.budgets.values()).filter(
+      (budget) => budget.userId === userId,
+    );
+  }
+
+  async getBudgetById(id: number): Promise<Budget | undefined> {
+    return this.budgets.get(id);
+  }
+
+  async saveBudgets(userId: number, budgets: InsertBudget[]): Promise<Budget[]> {
+    const saved: Budget[] = [];
+    for (const insertBudget of budgets) {
+      const existing = Array.from(this.budgets.values()).find((budget) =>
+        budget.userId === userId && budget.category === insertBudget.category &&
+        budget.year === insertBudget.year && budget.month === insertBudget.month
+      );
+      const budget: Budget = {
+        id: existing?.id ?? this.budgetId++,
+        userId,
+        category: insertBudget.category,
+        year: insertBudget.year,
+        month: insertBudget.month,
+        amount: String(insertBudget.amount),
+        createdAt: existing?.createdAt ?? new Date(),
+      };
+      this.budgets.set(budget.id, budget);
+      saved.push(budget);
+    }
+    return saved;
+  }
+
+  async deleteBudget(id: number): Promise<boolean> {
+    return this.budgets.delete(id);
+  }
+
+  // Envelope methods
+  async getEnvelopes(userId: number): Promise<Envelope[]> {
+    return Array.from(this.envelopes.values()).filter(
+      (envelope) => envelope.userId === userId,
+    );
+  }
+
+  async getEnvelopeById(id: number): Promise<Envelope | undefined> {
+    return this.envelopes.get(id);
+  }
+
+  async createEnvelope(userId: number, insertEnvelope: InsertEnvelope): Promise<Envelope> {
+    const id = this.envelopeId++;
+    const envelope: Envelope = {
+      id,
+      userId,
+      category: insertEnvelope.category,
+      rollover: insertEnvelope.rollover,
+      createdAt: new Date(),
+    };
+    this.envelopes.set(id, envelope);
+    return envelope;
+  }
+
+  async updateEnvelope(id: number, rollover: boolean): Promise<Envelope | undefined> {
+    const envelope = this.envelopes.get(id);
+    if (!envelope) return undefined;
+
+    const updatedEnvelope = { ...envelope, rollover };
+    this.envelopes.set(id, updatedEnvelope);
+    return updatedEnvelope;
+  }
+
+  async deleteEnvelope(id: number): Promise<boolean> {
+    return this.envelopes.delete(id);
+  }
+
+  async getEnvelopeAllocations(userId: number): Promise<EnvelopeAllocation[]> {
+    return Array.from(this.envelopeAllocations.values())
+      .filter((allocation) => allocation.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getEnvelopeAllocationById(id: number): Promise<EnvelopeAllocation | undefined> {
+    return this.envelopeAllocations.get(id);
+  }
+
+  async createEnvelopeAllocation(userId: number, insertAllocation: InsertEnvelopeAllocation): Promise<EnvelopeAllocation> {
+    const id = this.envelopeAllocationId++;
+    const allocation: EnvelopeAllocation = {
+      id,
+      userId,
+      year: insertAllocation.year,
+      month: insertAllocation.month,
+      fromCategory: insertAllocation.fromCategory,
+      toCategory: insertAllocation.toCategory,
+      amount: String(insertAllocation.amount),
+      note: insertAllocation.note ?? null,
+      createdAt: new Date(),
+    };
+    this.envelopeAllocations.set(id, allocation);
+    return allocation;
+  }
+
+  async deleteEnvelopeAllocation(id: number): Promise<boolean> {
+    return this.envelopeAllocations.delete(id);
+  }
+
+  // Recurring template methods
+  async getRecurringTemplates(userId: number): Promise<RecurringTemplate[]> {
+    return Array.from(this.recurringTemplates.values()).filter(
+      (template) => template.userId === userId,
+    );
+  }
+
+  async getRecurringTemplateById(id: number): Promise<RecurringTemplate | undefined> {
+    return this.recurringTemplates.get(id);
+  }
+
+  async getDueRecurringTemplates(date: string): Promise<RecurringTemplate[]> {
+    return Array.from(this.recurringTemplates.values()).filter(
+      (template) => template.nextDate !== null && template.nextDate <= date,
+    );
+  }
+
+  private toRecurringTemplate(
+    id: number,
+    userId: number,
+    template: InsertRecurringTemplate,
+    nextDate: string | null,
+    createdAt: Date | null,
+  ): RecurringTemplate {
+    return {
+      id,
+      userId,
+      description: template.description,
+      category: template.category,
+      amount: String(template.amount),
+      currency: template.currency ?? 'USD',
+      type: template.type,
+      accountId: template.accountId ?? null,
+      splitType: template.splitType ?? null,
+      splitValue: template.splitValue != null ? String(template.splitValue) : null,
+      frequency: template.frequency,
+      interval: template.interval,
+      dayOfMonth: template.dayOfMonth ?? null,
+      startDate: template.startDate.toISOString().split('T')[0],
+      endDate: template.endDate ? template.endDate.toISOString().split('T')[0] : null,
+      nextDate,
+      createdAt,
+    };
+  }
+
+  async createRecurringTemplate(userId: number, insertTemplate: InsertRecurringTemplate, nextDate: string | null): Promise<RecurringTemplate> {
+    const id = this.recurringTemplateId++;
+    const template = this.toRecurringTemplate(id, userId, insertTemplate, nextDate, new Date());
+    this.recurringTemplates.set(id, template);
+    return template;
+  }
+
+  async updateRecurringTemplate(id: number, updateTemplate: InsertRecurringTemplate, nextDate: string | null): Promise<RecurringTemplate | undefined> {
+    const template = this.recurringTemplates.get(id);
+    if (!template) return undefined;
+
+    const updatedTemplate = this.toRecurringTemplate(id, template.userId, updateTemplate, nextDate, template.createdAt);
+    this.recurringTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async setRecurringNextDate(id: number, nextDate: string | null): Promise<RecurringTemplate | undefined> {
+    const template = this.recurringTemplates.get(id);
+    if (!template) return undefined;
+
+    const updatedTemplate = { ...template, nextDate };
+    this.recurringTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async deleteRecurringTemplate(id: number): Promise<boolean> {
+    this.recurringOccurrences.forEach((occurrence, occurrenceId) => {
+      if (occurrence.templateId === id) {
+        this.recurringOccurrences.delete(occurrenceId);
+      }
+    });
+    return this.recurringTemplates.delete(id);
+  }
+
+  async getRecurringOccurrences(templateId: number): Promise<RecurringOccurrence[]> {
+    return Array.from(this.recurringOccurrences.values())
+      .filter((occurrence) => occurrence.templateId === templateId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async saveRecurringOccurrence(templateId: number, insertOccurrence: InsertRecurringOccurrence): Promise<RecurringOccurrence> {
+    const existing = Array.from(this.recurringOccurrences.values()).find((occurrence) =>
+      occurrence.templateId === templateId && occurrence.date === insertOccurrence.date
+    );
+    const occurrence: RecurringOccurrence = {
+      ...insertOccurrence,
+      id: existing?.id ?? this.recurringOccurrenceId++,
+      templateId,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.recurringOccurrences.set(occurrence.id, occurrence);
+    return occurrence;
+  }
+
+  async postRecurringOccurrence(
+    templateId: number,
+    userId: number,
+    insertTransaction: InsertTransaction,
+    occurrence: Pick<InsertRecurringOccurrence, 'date' | 'description' | 'category' | 'amount'>,
+    nextDate: string | null,
+  ): Promise<Transaction | undefined> {
+    const existing = Array.from(this.recurringOccurrences.values()).find((saved) =>
+      saved.templateId === templateId && saved.date === occurrence.date
+    );
+    if (existing && existing.status !== 'scheduled') return undefined;
+
+    const transaction = await this.createTransaction(userId, insertTransaction);
+    await this.saveRecurringOccurrence(templateId, { ...occurrence, status: 'posted', transactionId: transaction.id });
+    await this.setRecurringNextDate(templateId, nextDate);
+    return transaction;
+  }
+
+  async deleteRecurringOccurrence(id: number): Promise<boolean> {
+    return this.recurringOccurrences.delete(id);
+  }
+
+  // Savings goal methods
+  async getSavingsGoals(userId: number): Promise<SavingsGoal[]> {
+    return Array.from(this.savingsGoals.values())
+      .filter((goal) => goal.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getSavingsGoalById(id: number): Promise<SavingsGoal | undefined> {
+    return this.savingsGoals.get(id);
+  }
+
+  private toSavingsGoal(id: number, userId: number, goal: InsertSavingsGoal, createdAt: Date | null): SavingsGoal {
+    return {
+      id,
+      userId,
+      name: goal.name,
+      targetAmount: String(goal.targetAmount),
+      currency: goal.currency ?? 'USD',
+      targetDate: goal.targetDate ? goal.targetDate.toISOString().split('T')[0] : null,
+      accountId: goal.accountId,
+      category: goal.category,
+      initialAmount: String(goal.initialAmount),
+      createdAt,
+    };
+  }
+
+  async createSavingsGoal(userId: number, insertGoal: InsertSavingsGoal): Promise<SavingsGoal> {
+    const id = this.savingsGoalId++;
+    const goal = this.toSavingsGoal(id, userId, insertGoal, new Date());
+    this.savingsGoals.set(id, goal);
+    return goal;
+  }
+
+  async updateSavingsGoal(id: number, updateGoal: InsertSavingsGoal): Promise<SavingsGoal | undefined> {
+    const goal = this.savingsGoals.get(id);
+    if (!goal) return undefined;
+
+    const updatedGoal = this.toSavingsGoal(id, goal.userId, updateGoal, goal.createdAt);
+    this.savingsGoals.set(id, updatedGoal);
+    return updatedGoal;
+  }
+
+  async deleteSavingsGoal(id: number): Promise<boolean> {
+    return this.savingsGoals.delete(id);
+  }
+
+  // Asset and liability methods
+  async getAssets(userId: number): Promise<Asset[]> {
+    return Array.from(this.assets.values())
+      .filter((asset) => asset.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getAssetById(id: number): Promise<Asset | undefined> {
+    return this.assets.get(id);
+  }
+
+  private toAsset(id: number, userId: number, asset: InsertAsset, createdAt: Date | null): Asset {
+    return {
+      id,
+      userId,
+      name: asset.name,
+      kind: asset.kind,
+      type: asset.type,
+      currency: asset.currency ?? 'USD',
+      createdAt,
+    };
+  }
+
+  async createAsset(userId: number, insertAsset: InsertAsset): Promise<Asset> {
+    const id = this.assetId++;
+    const asset = this.toAsset(id, userId, insertAsset, new Date());
+    this.assets.set(id, asset);
+    return asset;
+  }
+
+  async updateAsset(id: number, updateAsset: InsertAsset): Promise<Asset | undefined> {
+    const asset = this.assets.get(id);
+    if (!asset) return undefined;
+
+    const updatedAsset = this.toAsset(id, asset.userId, updateAsset, asset.createdAt);
+    this.assets.set(id, updatedAsset);
+    return updatedAsset;
+  }
+
+  async deleteAsset(id: number): Promise<boolean> {
+    this.assetValuations.forEach((valuation, valuationId) => {
+      if (valuation.assetId === id) {
+        this.assetValuations.delete(valuationId);
+      }
+    });
+    return this.assets.delete(id);
+  }
+
+  async getAssetValuations(assetId: number): Promise<AssetValuation[]> {
+    return Array.from(this.assetValuations.values())
+      .filter((valuation) => valuation.assetId === assetId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async saveAssetValuation(assetId: number, insertValuation: InsertAssetValuation): Promise<AssetValuation> {
+    const date = insertValuation.date.toISOString().split('T')[0];
+    const existing = Array.from(this.assetValuations.values()).find((valuation) =>
+      valuation.assetId === assetId && valuation.date === date
+    );
+    const valuation: AssetValuation = {
+      id: existing?.id ?? this.assetValuationId++,
+      assetId,
+      date,
+      value: String(insertValuation.value),
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.assetValuations.set(valuation.id, valuation);
+    return valuation;
+  }
+
+  async deleteAssetValuation(id: number): Promise<boolean> {
+    return this.assetValuations.delete(id);
+  }
+
+  // Net worth snapshot methods
+  async getNetWorthSnapshots(userId: number): Promise<NetWorthSnapshot[]> {
+    return Array.from(this.netWorthSnapshots.values())
+      .filter((snapshot) => snapshot.userId === userId)
+      .sort((a, b) => a.year - b.year || a.month - b.month);
+  }
+
+  async saveNetWorthSnapshot(userId: number, insertSnapshot: InsertNetWorthSnapshot): Promise<NetWorthSnapshot> {
+    const existing = Array.from(this.netWorthSnapshots.values()).find((snapshot) =>
+      snapshot.userId === userId && snapshot.year === insertSnapshot.year && snapshot.month === insertSnapshot.month
+    );
+    const snapshot: NetWorthSnapshot = {
+      ...insertSnapshot,
+      id: existing?.id ?? this.netWorthSnapshotId++,
+      userId,
+      updatedAt: new Date(),
+    };
+    this.netWorthSnapshots.set(snapshot.id, snapshot);
+    return snapshot;
+  }
+
+  // Loan methods
+  async getLoans(userId: number): Promise<Loan[]> {
+    return Array.from(this.loans.values())
+      .filter((loan) => loan.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getLoanById(id: number): Promise<Loan | undefined> {
+    return this.loans.get(id);
+  }
+
+  private toLoan(id: number, userId: number, loan: InsertLoan, createdAt: Date | null): Loan {
+    return {
+      id,
+      userId,
+      name: loan.name,
+      principal: String(loan.principal),
+      annualRate: String(loan.annualRate),
+      termMonths: loan.termMonths,
+      firstPaymentDate: loan.firstPaymentDate.toISOString().split('T')[0],
+      payment: loan.payment !== null ? String(loan.payment) : null,
+      extraPayment: String(loan.extraPayment),
+      currency: loan.currency ?? 'USD',
+      accountId: loan.accountId,
+      category: loan.category,
+      createdAt,
+    };
+  }
+
+  async createLoan(userId: number, insertLoan: InsertLoan): Promise<Loan> {
+    const id = this.loanId++;
+    const loan = this.toLoan(id, userId, insertLoan, new Date());
+    this.loans.set(id, loan);
+    return loan;
+  }
+
+  async updateLoan(id: number, updateLoan: InsertLoan): Promise<Loan | undefined> {
+    const loan = this.loans.get(id);
+    if (!loan) return undefined;
+
+    const updatedLoan = this.toLoan(id, loan.userId, updateLoan, loan.createdAt);
+    this.loans.set(id, updatedLoan);
+    return updatedLoan;
+  }
+
+  async deleteLoan(id: number): Promise<boolean> {
+    return this.loans.delete(id);
+  }
+
   // Transaction methods
   async getTransactions(userId: number): Promise<Transaction[]> {
     return Array.from(this.transactions.values()).filter(
@@ -98,6 +1537,12 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getTransactionsInRange(userId: number, from?: string, to?: string): Promise<Transaction[]> {
+    return (await this.getTransactions(userId)).filter(
+      (transaction) => (!from || transaction.date >= from) && (!to || transaction.date <= to),
+    );
+  }
+
   async getTransactionById(id: number): Promise<Transaction | undefined> {
     return this.transactions.get(id);
   }
@@ -113,7 +1558,16 @@ export class MemStorage implements IStorage {
       description: insertTransaction.description,
       category: insertTransaction.category,
       amount: String(insertTransaction.amount),
+      currency: insertTransaction.currency ?? 'USD',
       pdfSource: insertTransaction.pdfSource || null,
+      householdId: insertTransaction.householdId ?? null,
+      splitType: insertTransaction.splitType ?? null,
+      splitValue: insertTransaction.splitValue != null ? String(insertTransaction.splitValue) : null,
+      participantIds: insertTransaction.participantIds ?? null,
+      externalId: insertTransaction.externalId ?? null,
+      accountId: insertTransaction.accountId ?? null,
+      transferId: null,
+      status: 'uncleared',
       createdAt: new Date(),
     };
     this.transactions.set(id, transaction);
@@ -136,6 +1590,10 @@ export class MemStorage implements IStorage {
       updatedTransaction.amount = String(updateData.amount);
     }
     
+    if (updateData.currency !== undefined) {
+      updatedTransaction.currency = updateData.currency;
+    }
+    
     if (updateData.description !== undefined) {
       updatedTransaction.description = updateData.description;
     }
@@ -152,6 +1610,30 @@ export class MemStorage implements IStorage {
       updatedTransaction.pdfSource = updateData.pdfSource;
     }
     
+    if (updateData.householdId !== undefined) {
+      updatedTransaction.householdId = updateData.householdId;
+    }
+    
+    if (updateData.splitType !== undefined) {
+      updatedTransaction.splitType = updateData.splitType;
+    }
+    
+    if (updateData.splitValue !== undefined) {
+      updatedTransaction.splitValue = updateData.splitValue != null ? String(updateData.splitValue) : null;
+    }
+    
+    if (updateData.participantIds !== undefined) {
+      updatedTransaction.participantIds = updateData.participantIds;
+    }
+    
+    if (updateData.externalId !== undefined) {
+      updatedTransaction.externalId = updateData.externalId;
+    }
+    
+    if (updateData.accountId !== undefined) {
+      updatedTransaction.accountId = updateData.accountId;
+    }
+    
     this.transactions.set(id, updatedTransaction);
     return updatedTransaction;
   }
@@ -160,6 +1642,59 @@ export class MemStorage implements IStorage {
     return this.transactions.delete(id);
   }
 
+  async setTransactionStatus(ids: number[], status: TransactionStatus): Promise<Transaction[]> {
+    const updated: Transaction[] = [];
+    for (const id of ids) {
+      const transaction = this.transactions.get(id);
+      if (!transaction) continue;
+      const updatedTransaction: Transaction = { ...transaction, status };
+      this.transactions.set(id, updatedTransaction);
+      updated.push(updatedTransaction);
+    }
+    return updated;
+  }
+
+  async linkTransfer(outgoingId: number, incomingId: number): Promise<Transaction[]> {
+    const legs = [[outgoingId, incomingId], [incomingId, outgoingId]];
+    const linked: Transaction[] = [];
+    for (const [id, transferId] of legs) {
+      const transaction = this.transactions.get(id);
+      if (!transaction) continue;
+      // Transfers are never shared: the money stays with the same person
+      const updatedTransaction: Transaction = {
+        ...transaction,
+        type: 'transfer',
+        category: TRANSFER_CATEGORY,
+        transferId,
+        householdId: null,
+        splitType: null,
+        splitValue: null,
+        participantIds: null,
+      };
+      this.transactions.set(id, updatedTransaction);
+      linked.push(updatedTransaction);
+    }
+    return linked;
+  }
+
+  async unlinkTransfer(id: number): Promise<Transaction[]> {
+    const transaction = this.transactions.get(id);
+    if (!transaction) return [];
+
+    const unlinked: Transaction[] = [];
+    for (const leg of [transaction, transaction.transferId !== null ? this.transactions.get(transaction.transferId) : undefined]) {
+      if (!leg) continue;
+      const updatedTransaction: Transaction = {
+        ...leg,
+        type: Number(leg.amount) < 0 ? 'expense' : 'income',
+        transferId: null,
+      };
+      this.transactions.set(leg.id, updatedTransaction);
+      unlinked.push(updatedTransaction);
+    }
+    return unlinked;
+  }
+
   // Monthly Summary methods
   async getMonthlySummaries(userId: number): Promise<MonthlySummary[]> {
     return Array.from(this.monthlySummaries.values()).filter(
@@ -289,15 +1824,6 @@ let storageInstance: IStorage | null = null;
 export async function getStorage(): Promise<IStorage> {
   if (!storageInstance) {
     storageInstance = await createStorage();
-    
-    // Create a default user if using Postgres
-    if (storageInstance instanceof PostgresStorage) {
-      const existingUser = await storageInstance.getUserByUsername('demo');
-      if (!existingUser) {
-        await storageInstance.createUser({ username: 'demo', password: 'password' });
-        log('Created default demo user in PostgreSQL', 'storage');
-      }
-    }
   }
   return storageInstance;
 }
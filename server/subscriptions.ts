@@ -0,0 +1,158 @@
+import type { RecurringFrequency, Transaction } from "@shared/schema";
+import { daysBetween, normaliseDescription, roundCents, toDateString } from "./duplicates";
+import { occurrenceOnOrAfter } from "./recurring";
+
+// Fewer charges than this are too few to call a pattern
+const MIN_SUBSCRIPTION_CHARGES = 3;
+
+// How far one charge may differ from the one before and still count as the same
+// subscription; bigger jumps are ordinary spending at the same merchant
+const SUBSCRIPTION_AMOUNT_TOLERANCE = 0.5;
+
+// Share of the gaps between charges that must fit the cadence
+const SUBSCRIPTION_REGULARITY = 0.75;
+
+// The billing cycles recognised, as recurring template schedules, with how far a gap
+// between charges may drift from the usual length (weekends, short months, retries)
+const CADENCES: { frequency: RecurringFrequency; interval: number; days: number; toleranceDays: number; perYear: number }[] = [
+  { frequency: "weekly", interval: 1, days: 7, toleranceDays: 1, perYear: 52 },
+  { frequency: "weekly", interval: 2, days: 14, toleranceDays: 2, perYear: 26 },
+  { frequency: "monthly", interval: 1, days: 30.4, toleranceDays: 4, perYear: 12 },
+  { frequency: "monthly", interval: 3, days: 91.3, toleranceDays: 7, perYear: 4 },
+  { frequency: "monthly", interval: 6, days: 182.6, toleranceDays: 10, perYear: 2 },
+  { frequency: "yearly", interval: 1, days: 365.25, toleranceDays: 15, perYear: 1 },
+];
+
+export interface PriceChange {
+  date: string;
+  from: number;
+  to: number;
+}
+
+// A run of regular charges from one merchant. Amounts are positive and in the charges' currency.
+export interface DetectedSubscription {
+  // Identifies the merchant across charges and when converting to a recurring template
+  merchantKey: string;
+  // The latest charge's description, category and account
+  description: string;
+  category: string;
+  accountId: number | null;
+  currency: string;
+  frequency: RecurringFrequency;
+  interval: number;
+  // The day of the month monthly and yearly charges fall on
+  dayOfMonth: number | null;
+  amount: number;
+  monthlyCost: number;
+  annualCost: number;
+  chargeCount: number;
+  firstCharge: string;
+  lastCharge: string;
+  // The next charge expected after `today`
+  nextCharge: string;
+  // False once a charge has been missed
+  active: boolean;
+  priceChanges: PriceChange[];
+  transactionIds: number[];
+}
+
+// Payee names on card statements carry dates and reference numbers that change with every charge
+export function merchantKey(description: string): string {
+  return normaliseDescription(description)
+    .replace(/\b\d+\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Detect a subscription in one merchant's charges, oldest first, or return null
+function detectInCharges(charges: Transaction[], today: string): DetectedSubscription | null {
+  if (charges.length < MIN_SUBSCRIPTION_CHARGES) return null;
+
+  const amounts = charges.map(charge => Math.abs(Number(charge.amount)));
+  for (let i = 1; i < amounts.length; i++) {
+    if (Math.abs(amounts[i] - amounts[i - 1]) > amounts[i - 1] * SUBSCRIPTION_AMOUNT_TOLERANCE) return null;
+  }
+
+  const dates = charges.map(charge => toDateString(charge.date));
+  const gaps = dates.slice(1).map((date, i) => daysBetween(date, dates[i]));
+  const typicalGap = median(gaps);
+  const cadence = CADENCES.find(candidate => Math.abs(typicalGap - candidate.days) <= candidate.toleranceDays);
+  if (!cadence) return null;
+
+  const regular = gaps.filter(gap => Math.abs(gap - cadence.days) <= cadence.toleranceDays).length;
+  if (regular / gaps.length < SUBSCRIPTION_REGULARITY) return null;
+
+  const latest = charges[charges.length - 1];
+  const lastCharge = dates[dates.length - 1];
+  const byMonth = cadence.frequency === "monthly" || cadence.frequency === "yearly";
+  const schedule = {
+    frequency: cadence.frequency,
+    interval: cadence.interval,
+    dayOfMonth: byMonth ? new Date(`${lastCharge}T00:00:00Z`).getUTCDate() : null,
+    startDate: lastCharge,
+    endDate: null,
+  };
+  const tomorrow = new Date(Date.parse(`${today}T00:00:00Z`) + 86400000).toISOString().split('T')[0];
+
+  const priceChanges: PriceChange[] = [];
+  for (let i = 1; i < amounts.length; i++) {
+    if (Math.round(amounts[i] * 100) !== Math.round(amounts[i - 1] * 100)) {
+      priceChanges.push({ date: dates[i], from: amounts[i - 1], to: amounts[i] });
+    }
+  }
+
+  const amount = amounts[amounts.length - 1];
+  return {
+    merchantKey: merchantKey(latest.description),
+    description: latest.description,
+    category: latest.category,
+    accountId: latest.accountId,
+    currency: latest.currency,
+    frequency: cadence.frequency,
+    interval: cadence.interval,
+    dayOfMonth: schedule.dayOfMonth,
+    amount,
+    monthlyCost: roundCents(amount * cadence.perYear / 12),
+    annualCost: roundCents(amount * cadence.perYear),
+    chargeCount: charges.length,
+    firstCharge: dates[0],
+    lastCharge,
+    nextCharge: occurrenceOnOrAfter(schedule, tomorrow)!,
+    active: daysBetween(today, lastCharge) <= cadence.days + cadence.toleranceDays,
+    priceChanges,
+    transactionIds: charges.map(charge => charge.id),
+  };
+}
+
+// Find recurring charges in a ledger: expenses to the same merchant in the same currency,
+// at a steady price, on a regular billing cycle. Active subscriptions come first, dearest first.
+export function detectSubscriptions(transactions: Transaction[], today: string): DetectedSubscription[] {
+  const byMerchant = new Map<string, Transaction[]>();
+  for (const transaction of transactions) {
+    if (transaction.type !== 'expense') continue;
+    const merchant = merchantKey(transaction.description);
+    if (!merchant) continue;
+    const key = `${merchant}|${transaction.currency}`;
+    const charges = byMerchant.get(key);
+    if (charges) {
+      charges.push(transaction);
+    } else {
+      byMerchant.set(key, [transaction]);
+    }
+  }
+
+  const subscriptions: DetectedSubscription[] = [];
+  for (const charges of Array.from(byMerchant.values())) {
+    charges.sort((a, b) => toDateString(a.date).localeCompare(toDateString(b.date)) || a.id - b.id);
+    const subscription = detectInCharges(charges, today);
+    if (subscription) subscriptions.push(subscription);
+  }
+
+  return subscriptions.sort((a, b) => Number(b.active) - Number(a.active) || b.monthlyCost - a.monthlyCost);
+}
@@ -0,0 +1,40 @@
+import type { Transaction } from "@shared/schema";
+import { daysBetween, toCents, toDateString } from "./duplicates";
+
+// The two legs of a transfer rarely post on the same day
+const TRANSFER_WINDOW_DAYS = 3;
+
+// One side of a possible transfer: a saved transaction or a row of a draft import
+export interface TransferCandidate {
+  date: string | Date;
+  amount: string | number;
+  accountId?: number | null;
+}
+
+// Could the two entries be the legs of one transfer? They must be in different
+// known accounts, for equal and opposite amounts, a few days apart at most.
+export function isTransferPair(a: TransferCandidate, b: TransferCandidate): boolean {
+  if (a.accountId == null || b.accountId == null || a.accountId === b.accountId) {
+    return false;
+  }
+  const cents = toCents(a.amount);
+  if (cents === 0 || cents !== -toCents(b.amount)) {
+    return false;
+  }
+  return daysBetween(toDateString(a.date), toDateString(b.date)) <= TRANSFER_WINDOW_DAYS;
+}
+
+// Find the existing transaction that is most likely the other leg of a transfer,
+// preferring the closest date. Transactions already linked, or in `claimed`, are passed over.
+export function findTransferMatch(
+  candidate: TransferCandidate,
+  existing: Transaction[],
+  claimed: Set<number> = new Set(),
+): Transaction | undefined {
+  const date = toDateString(candidate.date);
+  return existing
+    .filter(transaction =>
+      transaction.transferId === null && !claimed.has(transaction.id) && isTransferPair(candidate, transaction)
+    )
+    .sort((a, b) => daysBetween(date, a.date) - daysBetween(date, b.date) || a.id - b.id)[0];
+}
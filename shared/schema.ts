@@ -1,11 +1,16 @@
-import { pgTable, text, serial, integer, numeric, date, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, numeric, date, timestamp, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { RE2JS } from "re2js";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Currency that summaries and reports are converted into
+  baseCurrency: text("base_currency").notNull().default("USD"),
+  // How the user budgets: spending limits per category, or envelopes that income is assigned to
+  budgetMode: text("budget_mode").notNull().default("limits"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -15,19 +20,386 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 
-// Transaction categories
-export const categories = [
-  "Housing",
-  "Transportation",
-  "Food",
-  "Utilities",
-  "Healthcare",
-  "Entertainment",
-  "Education",
-  "Shopping",
-  "Income",
-  "Other",
+// ISO 4217 code; any is accepted, these are offered first
+export const currencyCode = z.string().trim().toUpperCase().length(3, "Use a three-letter currency code such as USD");
+export const commonCurrencies = ["USD", "EUR", "GBP", "CAD", "AUD"] as const;
+
+export const budgetModes = ["limits", "envelope"] as const;
+export type BudgetMode = typeof budgetModes[number];
+
+export const updateUserPreferencesSchema = z.object({
+  baseCurrency: currencyCode.optional(),
+  budgetMode: z.enum(budgetModes).optional(),
+});
+
+export type UpdateUserPreferences = z.infer<typeof updateUserPreferencesSchema>;
+
+// Household model - a group of users (e.g. partners) sharing expenses
+export const households = pgTable("households", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  // Shared amounts are converted into this currency for splits and balances, and settlements are recorded in it
+  currency: text("currency").notNull().default("USD"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertHouseholdSchema = createInsertSchema(households)
+  .pick({
+    name: true,
+    currency: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Household name is required"),
+    // Defaults to the creator's base currency
+    currency: currencyCode.optional(),
+  });
+
+export type InsertHousehold = z.infer<typeof insertHouseholdSchema>;
+export type Household = typeof households.$inferSelect;
+
+// Household members model - a user belongs to at most one household
+export const householdMembers = pgTable("household_members", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull(),
+  userId: integer("user_id").notNull().unique(),
+  role: text("role").notNull(), // "owner" or "member"
+  joinedAt: timestamp("joined_at").defaultNow(),
+});
+
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+
+// Household invitations model - a member invites another user by username, and the
+// user joins the household only once they accept
+export const householdInvitations = pgTable("household_invitations", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull(),
+  userId: integer("user_id").notNull(),
+  invitedBy: integer("invited_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("household_invitations_household_user_unique").on(table.householdId, table.userId),
+]);
+
+export type HouseholdInvitation = typeof householdInvitations.$inferSelect;
+
+// Settlements model - money paid between household members to settle balances.
+// Settlements are not income or expenses and never appear in monthly summaries.
+export const settlements = pgTable("settlements", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull(),
+  fromUserId: integer("from_user_id").notNull(),
+  toUserId: integer("to_user_id").notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  date: date("date").notNull(),
+  note: text("note"),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertSettlementSchema = createInsertSchema(settlements)
+  .pick({
+    fromUserId: true,
+    toUserId: true,
+    amount: true,
+    date: true,
+    note: true,
+  })
+  .extend({
+    fromUserId: z.coerce.number().int(),
+    toUserId: z.coerce.number().int(),
+    amount: z.coerce.number().positive("Amount must be positive"),
+    date: z.coerce.date(),
+  });
+
+export type InsertSettlement = z.infer<typeof insertSettlementSchema>;
+export type Settlement = typeof settlements.$inferSelect;
+
+// How a shared transaction is split between household members
+export const splitTypes = ["equal", "percentage", "fixed"] as const;
+export type SplitType = typeof splitTypes[number];
+
+export const accountTypes = ["checking", "savings", "credit_card", "cash", "loan", "investment"] as const;
+export type AccountType = typeof accountTypes[number];
+
+// Accounts model - a bank account, card or wallet that money moves through.
+// A joint account is linked to the owner's household and every member can use it.
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  householdId: integer("household_id"),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // one of accountTypes
+  institution: text("institution"),
+  currency: text("currency").notNull().default("USD"),
+  // Balance before the first transaction recorded against the account; negative when money is owed
+  openingBalance: numeric("opening_balance", { precision: 12, scale: 2 }).notNull().default("0"),
+  archived: boolean("archived").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAccountSchema = createInsertSchema(accounts)
+  .pick({
+    name: true,
+    type: true,
+    institution: true,
+    currency: true,
+    openingBalance: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Account name is required").max(50),
+    type: z.enum(accountTypes),
+    institution: z.string().trim().nullable().optional(),
+    currency: currencyCode.default("USD"),
+    openingBalance: z.coerce.number().default(0),
+    // Share the account with the owner's household
+    joint: z.boolean().default(false),
+  });
+
+export const updateAccountSchema = insertAccountSchema.partial().extend({
+  archived: z.boolean().optional(),
+});
+
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type UpdateAccount = z.infer<typeof updateAccountSchema>;
+export type Account = typeof accounts.$inferSelect;
+
+// Exchange rates model - what one unit of fromCurrency is worth in toCurrency on a date,
+// entered by the user or imported from a CSV of rates. The latest rate on or before a
+// transaction's date converts it; either direction of a pair can be used.
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  date: date("date").notNull(),
+  fromCurrency: text("from_currency").notNull(),
+  toCurrency: text("to_currency").notNull(),
+  rate: numeric("rate", { precision: 18, scale: 8 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // One rate per pair and day; saving another replaces it
+  unique("exchange_rates_user_pair_date_unique").on(table.userId, table.fromCurrency, table.toCurrency, table.date),
+]);
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates)
+  .pick({
+    date: true,
+    fromCurrency: true,
+    toCurrency: true,
+    rate: true,
+  })
+  .extend({
+    date: z.coerce.date(),
+    fromCurrency: currencyCode,
+    toCurrency: currencyCode,
+    rate: z.coerce.number().positive("Rate must be positive"),
+  })
+  .refine(data => data.fromCurrency !== data.toCurrency, {
+    message: "Choose two different currencies",
+    path: ["toCurrency"],
+  });
+
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+
+// Account statements model - the period and balances of one bank statement for an account,
+// which the account's cleared transactions are reconciled against.
+// Once reconciled, the account's transactions in the period are locked against edits.
+export const accountStatements = pgTable("account_statements", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  accountId: integer("account_id").notNull(),
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  openingBalance: numeric("opening_balance", { precision: 12, scale: 2 }),
+  closingBalance: numeric("closing_balance", { precision: 12, scale: 2 }),
+  fileName: text("file_name"),
+  reconciledAt: timestamp("reconciled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAccountStatementSchema = createInsertSchema(accountStatements)
+  .pick({
+    periodStart: true,
+    periodEnd: true,
+    openingBalance: true,
+    closingBalance: true,
+    fileName: true,
+  })
+  .extend({
+    periodStart: z.coerce.date(),
+    periodEnd: z.coerce.date(),
+    openingBalance: z.coerce.number().nullable(),
+    closingBalance: z.coerce.number().nullable(),
+    fileName: z.string().nullable().optional(),
+  })
+  .refine(data => data.periodStart <= data.periodEnd, {
+    message: "The period must end after it starts",
+    path: ["periodEnd"],
+  });
+
+export type InsertAccountStatement = z.infer<typeof insertAccountStatementSchema>;
+export type AccountStatement = typeof accountStatements.$inferSelect;
+
+// Icons a category can use; the client maps each name to a lucide icon
+export const categoryIcons = [
+  "home",
+  "car",
+  "utensils",
+  "zap",
+  "heart-pulse",
+  "film",
+  "graduation-cap",
+  "shopping-bag",
+  "briefcase",
+  "baby",
+  "paw-print",
+  "gift",
+  "plane",
+  "piggy-bank",
+  "tag",
+] as const;
+
+// Categories every user starts with; they can be renamed, merged or archived afterwards
+export const defaultCategories: { name: string; color: string; icon: typeof categoryIcons[number] }[] = [
+  { name: "Housing", color: "#3b82f6", icon: "home" },
+  { name: "Transportation", color: "#a855f7", icon: "car" },
+  { name: "Food", color: "#eab308", icon: "utensils" },
+  { name: "Utilities", color: "#ef4444", icon: "zap" },
+  { name: "Healthcare", color: "#ec4899", icon: "heart-pulse" },
+  { name: "Entertainment", color: "#f97316", icon: "film" },
+  { name: "Education", color: "#14b8a6", icon: "graduation-cap" },
+  { name: "Shopping", color: "#6366f1", icon: "shopping-bag" },
+  { name: "Income", color: "#22c55e", icon: "briefcase" },
+  { name: "Other", color: "#6b7280", icon: "tag" },
+];
+
+// Categories model - each user's own transaction categories.
+// Transactions refer to a category by name; archived categories keep their
+// history but can no longer be picked for new transactions.
+// Categories nest one level deep (Food -> Groceries, Restaurants): transactions
+// are tagged with a leaf and reports roll leaves up into their parent.
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  parentId: integer("parent_id"),
+  name: text("name").notNull(),
+  color: text("color").notNull(),
+  icon: text("icon").notNull(),
+  archived: boolean("archived").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("categories_user_name_unique").on(table.userId, table.name),
+]);
+
+export const insertCategorySchema = createInsertSchema(categories)
+  .pick({
+    name: true,
+    color: true,
+    icon: true,
+    parentId: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Category name is required").max(50),
+    parentId: z.number().int().nullable().optional(),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colour must be a hex value such as #3b82f6"),
+    icon: z.enum(categoryIcons),
+  });
+
+export const updateCategorySchema = insertCategorySchema.partial().extend({
+  archived: z.boolean().optional(),
+});
+
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type UpdateCategory = z.infer<typeof updateCategorySchema>;
+export type Category = typeof categories.$inferSelect;
+
+// Category names are checked against the user's own categories on the server
+const categoryName = z.string().trim().min(1, "Category is required");
+
+// How a rule's pattern is compared with a transaction description
+export const ruleMatchTypes = ["contains", "regex"] as const;
+
+// Category rules model - auto-categorisation applied on import and manual entry.
+// Rules are tried in ascending priority; the first whose conditions all hold wins.
+// Every condition is optional, but a rule needs at least one.
+export const categoryRules = pgTable("category_rules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  category: text("category").notNull(),
+  priority: integer("priority").notNull().default(0),
+  matchType: text("match_type").notNull().default("contains"), // "contains" or "regex"
+  // "contains": comma-separated keywords, any of which may appear; "regex": a pattern.
+  // Both are case-insensitive.
+  pattern: text("pattern"),
+  // Bounds on the size of the amount, whatever its sign
+  minAmount: numeric("min_amount", { precision: 10, scale: 2 }),
+  maxAmount: numeric("max_amount", { precision: 10, scale: 2 }),
+  type: text("type"), // "income", "expense" or null for either
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const MAX_RULE_PATTERN_LENGTH = 200;
+
+// Rule regexes run on RE2, whose matching time grows linearly with the description whatever the
+// pattern, so no rule can stall the server. RE2 has no lookarounds or backreferences.
+export const compileRuleRegex = (pattern: string) =>
+  RE2JS.compile(RE2JS.translateRegExp(pattern), RE2JS.CASE_INSENSITIVE);
+
+const isValidRegex = (pattern: string) => {
+  try {
+    compileRuleRegex(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const insertCategoryRuleSchema = createInsertSchema(categoryRules)
+  .pick({
+    category: true,
+    priority: true,
+    matchType: true,
+    pattern: true,
+    minAmount: true,
+    maxAmount: true,
+    type: true,
+  })
+  .extend({
+    category: categoryName,
+    priority: z.coerce.number().int().default(0),
+    matchType: z.enum(ruleMatchTypes).default("contains"),
+    pattern: z.string().trim().min(1).max(MAX_RULE_PATTERN_LENGTH, `Keep the pattern under ${MAX_RULE_PATTERN_LENGTH} characters`).nullable().optional(),
+    minAmount: z.coerce.number().nonnegative().nullable().optional(),
+    maxAmount: z.coerce.number().nonnegative().nullable().optional(),
+    type: z.enum(["income", "expense"]).nullable().optional(),
+  })
+  .refine(rule => rule.pattern != null || rule.minAmount != null || rule.maxAmount != null || rule.type != null, {
+    message: "A rule needs a pattern, an amount range or a transaction type",
+    path: ["pattern"],
+  })
+  .refine(rule => rule.matchType !== "regex" || rule.pattern == null || isValidRegex(rule.pattern), {
+    message: "Invalid regular expression; lookarounds and backreferences are not supported",
+    path: ["pattern"],
+  })
+  .refine(rule => rule.minAmount == null || rule.maxAmount == null || rule.minAmount <= rule.maxAmount, {
+    message: "The minimum amount cannot exceed the maximum",
+    path: ["maxAmount"],
+  });
+
+export type InsertCategoryRule = z.infer<typeof insertCategoryRuleSchema>;
+export type CategoryRule = typeof categoryRules.$inferSelect;
+
+// Rules every user starts with, taken from the keywords the statement importer used to hard-code
+export const defaultCategoryRules: InsertCategoryRule[] = [
+  { category: "Housing", priority: 10, matchType: "contains", pattern: "rent, mortgage, home, property, housing" },
+  { category: "Transportation", priority: 20, matchType: "contains", pattern: "gas, car, uber, lyft, transit, transport, fuel" },
+  { category: "Food", priority: 30, matchType: "contains", pattern: "grocery, restaurant, food, meal, dining" },
+  { category: "Utilities", priority: 40, matchType: "contains", pattern: "electric, water, phone, internet, utility" },
+  { category: "Healthcare", priority: 50, matchType: "contains", pattern: "doctor, medical, health, pharmacy" },
+  { category: "Entertainment", priority: 60, matchType: "contains", pattern: "movie, cinema, netflix, spotify" },
+  { category: "Income", priority: 100, matchType: "contains", pattern: "salary, deposit, income" },
+  { category: "Income", priority: 110, matchType: "contains", type: "income" },
 ];
 
 // Transaction model
@@ -38,11 +410,36 @@ export const transactions = pgTable("transactions", {
   description: text("description").notNull(),
   category: text("category").notNull(),
   amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
-  type: text("type").notNull(), // "income" or "expense"
+  // Currency of the amount; always the account's currency when the transaction has an account
+  currency: text("currency").notNull().default("USD"),
+  type: text("type").notNull(), // "income", "expense" or "transfer"
   pdfSource: text("pdf_source"),
+  // Set when the transaction is shared with the payer's household
+  householdId: integer("household_id"),
+  splitType: text("split_type"), // "equal", "percentage" or "fixed"
+  // Payer's own share: a percentage (0-100) for "percentage", an amount for "fixed"
+  splitValue: numeric("split_value", { precision: 10, scale: 2 }),
+  // Household members the transaction is split between, fixed when it is shared so that
+  // members joining or leaving later leave it alone
+  participantIds: integer("participant_ids").array(),
+  // Bank-assigned id from an OFX/QFX import (FITID), used to recognise re-imports
+  externalId: text("external_id"),
+  // Account the money moved through, if recorded
+  accountId: integer("account_id"),
+  // The other leg of a transfer between two accounts
+  transferId: integer("transfer_id"),
+  // Whether the bank has cleared the transaction; reconciled ones are locked
+  status: text("status").notNull().default("uncleared"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const transactionStatuses = ["uncleared", "cleared", "reconciled"] as const;
+export type TransactionStatus = typeof transactionStatuses[number];
+
+// Transfers move money between the user's own accounts: each one is saved as two linked
+// transactions, one per account, that count as neither income nor expense
+export const TRANSFER_CATEGORY = "Transfer";
+
 export const insertTransactionSchema = createInsertSchema(transactions)
   .pick({
     date: true,
@@ -51,17 +448,307 @@ export const insertTransactionSchema = createInsertSchema(transactions)
     amount: true,
     type: true,
     pdfSource: true,
+    householdId: true,
+    splitType: true,
+    splitValue: true,
+    participantIds: true,
+    externalId: true,
+    accountId: true,
+    currency: true,
   })
   .extend({
     date: z.coerce.date(),
     amount: z.coerce.number(),
-    category: z.enum([...categories] as [string, ...string[]]),
+    // Defaults to the account's currency, or the user's base currency
+    currency: currencyCode.optional(),
+    category: categoryName,
     type: z.enum(["income", "expense"]),
+    // Always derived from the payer's household on the server
+    householdId: z.number().int().nullable().optional(),
+    participantIds: z.array(z.number().int()).nullable().optional(),
+    splitType: z.enum(splitTypes).nullable().optional(),
+    splitValue: z.coerce.number().nonnegative().nullable().optional(),
+    externalId: z.string().nullable().optional(),
+    accountId: z.number().int().nullable().optional(),
   });
 
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 
+export const insertTransferSchema = z.object({
+  date: z.coerce.date(),
+  description: z.string().trim().min(1, "Description is required"),
+  amount: z.coerce.number().positive("Amount must be positive"),
+  fromAccountId: z.number().int(),
+  toAccountId: z.number().int(),
+}).refine(data => data.fromAccountId !== data.toAccountId, {
+  message: "Choose two different accounts",
+  path: ["toAccountId"],
+});
+
+export type InsertTransfer = z.infer<typeof insertTransferSchema>;
+
+export const recurringFrequencies = ["daily", "weekly", "monthly", "yearly"] as const;
+export type RecurringFrequency = typeof recurringFrequencies[number];
+
+// Recurring templates model - a transaction (rent, salary, a subscription) that the server
+// posts on a schedule: every `interval` days, weeks, months or years from the start date.
+// Monthly and yearly ones fall on dayOfMonth, or the start date's day, moved back to the
+// last day of shorter months. nextDate is the first occurrence not yet posted or skipped,
+// and null once the series has ended.
+export const recurringTemplates = pgTable("recurring_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  description: text("description").notNull(),
+  category: text("category").notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("USD"),
+  type: text("type").notNull(), // "income" or "expense"
+  accountId: integer("account_id"),
+  splitType: text("split_type"),
+  splitValue: numeric("split_value", { precision: 10, scale: 2 }),
+  frequency: text("frequency").notNull(),
+  interval: integer("interval").notNull().default(1),
+  dayOfMonth: integer("day_of_month"),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  nextDate: date("next_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertRecurringTemplateSchema = createInsertSchema(recurringTemplates)
+  .pick({
+    description: true,
+    category: true,
+    amount: true,
+    currency: true,
+    type: true,
+    accountId: true,
+    splitType: true,
+    splitValue: true,
+    frequency: true,
+    interval: true,
+    dayOfMonth: true,
+    startDate: true,
+    endDate: true,
+  })
+  .extend({
+    description: z.string().trim().min(1, "Description is required"),
+    category: categoryName,
+    amount: z.coerce.number().refine(amount => amount !== 0, "Amount cannot be zero"),
+    currency: currencyCode.optional(),
+    type: z.enum(["income", "expense"]),
+    accountId: z.number().int().nullable().optional(),
+    splitType: z.enum(splitTypes).nullable().optional(),
+    splitValue: z.coerce.number().nonnegative().nullable().optional(),
+    frequency: z.enum(recurringFrequencies),
+    interval: z.coerce.number().int().min(1).max(365).default(1),
+    dayOfMonth: z.coerce.number().int().min(1).max(31).nullable().optional(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date().nullable().optional(),
+  })
+  .refine(data => !data.endDate || data.endDate >= data.startDate, {
+    message: "The end date must be after the start date",
+    path: ["endDate"],
+  });
+
+export type InsertRecurringTemplate = z.infer<typeof insertRecurringTemplateSchema>;
+export type RecurringTemplate = typeof recurringTemplates.$inferSelect;
+
+export const occurrenceStatuses = ["scheduled", "skipped", "posted"] as const;
+export type OccurrenceStatus = typeof occurrenceStatuses[number];
+
+// Recurring occurrences model - one occurrence of a template that differs from the series:
+// skipped, edited before it is posted, or posted as the given transaction.
+// Occurrences without a row simply follow the template.
+export const recurringOccurrences = pgTable("recurring_occurrences", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").notNull(),
+  // The scheduled date, which identifies the occurrence within its series
+  date: date("date").notNull(),
+  status: text("status").notNull().default("scheduled"),
+  // Overrides for this occurrence only; null keeps the template's value
+  description: text("description"),
+  category: text("category"),
+  amount: numeric("amount", { precision: 10, scale: 2 }),
+  transactionId: integer("transaction_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("recurring_occurrences_template_date_unique").on(table.templateId, table.date),
+]);
+
+// Skipping or editing a single upcoming occurrence
+export const updateRecurringOccurrenceSchema = z.object({
+  skipped: z.boolean().default(false),
+  description: z.string().trim().min(1).nullable().optional(),
+  category: categoryName.nullable().optional(),
+  amount: z.coerce.number().refine(amount => amount !== 0, "Amount cannot be zero").nullable().optional(),
+});
+
+export type UpdateRecurringOccurrence = z.infer<typeof updateRecurringOccurrenceSchema>;
+export type RecurringOccurrence = typeof recurringOccurrences.$inferSelect;
+
+// What storage saves for an occurrence; the server fills it in
+export type InsertRecurringOccurrence = Omit<RecurringOccurrence, "id" | "templateId" | "createdAt">;
+
+// Statement imports model - a parsed bank statement awaiting review.
+// Its rows only become transactions when the import is committed.
+export const statementImports = pgTable("statement_imports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  parserId: text("parser_id").notNull(),
+  fileName: text("file_name"),
+  // Account the statement belongs to; its transactions are saved against it
+  accountId: integer("account_id"),
+  // Balances and period printed on the statement, when the format shows them
+  openingBalance: numeric("opening_balance", { precision: 12, scale: 2 }),
+  closingBalance: numeric("closing_balance", { precision: 12, scale: 2 }),
+  periodStart: date("period_start"),
+  periodEnd: date("period_end"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertStatementImportSchema = createInsertSchema(statementImports)
+  .pick({
+    parserId: true,
+    fileName: true,
+    accountId: true,
+    openingBalance: true,
+    closingBalance: true,
+    periodStart: true,
+    periodEnd: true,
+  })
+  .extend({
+    openingBalance: z.number().nullable().optional(),
+    closingBalance: z.number().nullable().optional(),
+    periodStart: z.date().nullable().optional(),
+    periodEnd: z.date().nullable().optional(),
+  });
+
+export type InsertStatementImport = z.infer<typeof insertStatementImportSchema>;
+export type StatementImport = typeof statementImports.$inferSelect;
+
+// Statement import rows model - one reviewable line of a draft import
+export const statementImportRows = pgTable("statement_import_rows", {
+  id: serial("id").primaryKey(),
+  importId: integer("import_id").notNull(),
+  date: date("date").notNull(),
+  description: text("description").notNull(),
+  category: text("category").notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  type: text("type").notNull(), // "income", "expense" or "transfer"
+  externalId: text("external_id"),
+  // Existing transaction this row probably duplicates, found when the statement was parsed
+  duplicateOfId: integer("duplicate_of_id"),
+  // Transaction in another account that looks like the other leg of a transfer with this row
+  transferOfId: integer("transfer_of_id"),
+  resolution: text("resolution"), // "skip", "keep" or "merge"; only used for duplicates
+});
+
+// What to do with an import row that duplicates an existing transaction
+export const duplicateResolutions = ["skip", "keep", "merge"] as const;
+export type DuplicateResolution = typeof duplicateResolutions[number];
+
+export const insertStatementImportRowSchema = createInsertSchema(statementImportRows)
+  .pick({
+    date: true,
+    description: true,
+    category: true,
+    amount: true,
+    type: true,
+    externalId: true,
+    duplicateOfId: true,
+    transferOfId: true,
+    resolution: true,
+  })
+  .extend({
+    date: z.coerce.date(),
+    description: z.string().trim().min(1, "Description is required"),
+    amount: z.coerce.number(),
+    category: categoryName,
+    // "transfer" is only for rows matched to the other leg of a transfer
+    type: z.enum(["income", "expense", "transfer"]),
+    externalId: z.string().nullable().optional(),
+    // Always derived from the existing ledger on the server
+    duplicateOfId: z.number().int().nullable().optional(),
+    transferOfId: z.number().int().nullable().optional(),
+    resolution: z.enum(duplicateResolutions).nullable().optional(),
+  });
+
+export type InsertStatementImportRow = z.infer<typeof insertStatementImportRowSchema>;
+export type StatementImportRow = typeof statementImportRows.$inferSelect;
+
+// CSV import profiles model - a saved column mapping for one bank's CSV export
+export const csvProfiles = pgTable("csv_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  delimiter: text("delimiter").notNull(),
+  hasHeader: boolean("has_header").notNull(),
+  // Zero-based column positions
+  dateColumn: integer("date_column").notNull(),
+  descriptionColumn: integer("description_column").notNull(),
+  // Either a single signed amount column, or separate debit and credit columns
+  amountColumn: integer("amount_column"),
+  debitColumn: integer("debit_column"),
+  creditColumn: integer("credit_column"),
+  dateFormat: text("date_format").notNull(), // "MDY", "DMY" or "YMD"
+  decimalSeparator: text("decimal_separator").notNull(), // "." or ","
+  // For exports (often credit cards) that list spending as positive amounts
+  negateAmounts: boolean("negate_amounts").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const csvDelimiters = [",", ";", "\t", "|"] as const;
+export const csvDateFormats = ["MDY", "DMY", "YMD"] as const;
+
+const csvColumn = z.coerce.number().int().nonnegative();
+
+const csvProfileFieldsSchema = createInsertSchema(csvProfiles)
+  .pick({
+    name: true,
+    delimiter: true,
+    hasHeader: true,
+    dateColumn: true,
+    descriptionColumn: true,
+    amountColumn: true,
+    debitColumn: true,
+    creditColumn: true,
+    dateFormat: true,
+    decimalSeparator: true,
+    negateAmounts: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Profile name is required"),
+    delimiter: z.enum(csvDelimiters),
+    hasHeader: z.boolean(),
+    dateColumn: csvColumn,
+    descriptionColumn: csvColumn,
+    amountColumn: csvColumn.nullable().optional(),
+    debitColumn: csvColumn.nullable().optional(),
+    creditColumn: csvColumn.nullable().optional(),
+    dateFormat: z.enum(csvDateFormats),
+    decimalSeparator: z.enum([".", ","]),
+    negateAmounts: z.boolean().default(false),
+  });
+
+const hasAmountColumns = (mapping: { amountColumn?: number | null; debitColumn?: number | null; creditColumn?: number | null }) =>
+  mapping.amountColumn != null || (mapping.debitColumn != null && mapping.creditColumn != null);
+
+const amountColumnsMessage = {
+  message: "Map an amount column, or both a debit and a credit column",
+  path: ["amountColumn"],
+};
+
+export const insertCsvProfileSchema = csvProfileFieldsSchema.refine(hasAmountColumns, amountColumnsMessage);
+
+// A column mapping used for a single import without saving it as a profile
+export const csvMappingSchema = csvProfileFieldsSchema.omit({ name: true }).refine(hasAmountColumns, amountColumnsMessage);
+
+export type InsertCsvProfile = z.infer<typeof insertCsvProfileSchema>;
+export type CsvMapping = z.infer<typeof csvMappingSchema>;
+export type CsvProfile = typeof csvProfiles.$inferSelect;
+
 // Monthly summaries model
 export const monthlySummaries = pgTable("monthly_summaries", {
   id: serial("id").primaryKey(),
@@ -109,10 +796,352 @@ export const insertCategoryBreakdownSchema = createInsertSchema(categoryBreakdow
     percentage: true,
   })
   .extend({
-    category: z.enum([...categories] as [string, ...string[]]),
+    category: categoryName,
     amount: z.coerce.number(),
     percentage: z.coerce.number(),
   });
 
 export type InsertCategoryBreakdown = z.infer<typeof insertCategoryBreakdownSchema>;
 export type CategoryBreakdown = typeof categoryBreakdowns.$inferSelect;
+
+// Budgets model - a monthly spending limit for one category.
+// A budget with a year and month applies to that month only; a recurring one (no year or
+// month) applies to every month without a budget of its own. A budget on a parent
+// category covers spending in its subcategories too.
+export const budgets = pgTable("budgets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  category: text("category").notNull(),
+  year: integer("year"),
+  month: integer("month"),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // One budget per category and month, and one recurring budget per category
+  unique("budgets_user_category_month_unique").on(table.userId, table.category, table.year, table.month).nullsNotDistinct(),
+]);
+
+export const insertBudgetSchema = createInsertSchema(budgets)
+  .pick({
+    category: true,
+    year: true,
+    month: true,
+    amount: true,
+  })
+  .extend({
+    category: categoryName,
+    year: z.number().int().min(1900).max(2100).nullable().default(null),
+    month: z.number().int().min(1).max(12).nullable().default(null),
+    amount: z.coerce.number().positive("Budget must be positive"),
+  })
+  .refine(data => (data.year === null) === (data.month === null), {
+    message: "Give both a year and a month, or neither for a recurring budget",
+    path: ["month"],
+  });
+
+// A budget's category and month are fixed once set; only its amount changes
+export const updateBudgetSchema = insertBudgetSchema.innerType().pick({ amount: true });
+
+// Copies the budgets in force in one month into another as month-specific budgets
+export const copyBudgetsSchema = z.object({
+  fromYear: z.number().int(),
+  fromMonth: z.number().int().min(1).max(12),
+  toYear: z.number().int(),
+  toMonth: z.number().int().min(1).max(12),
+  // Replace budgets the target month already has instead of keeping them
+  overwrite: z.boolean().default(false),
+});
+
+export type InsertBudget = z.infer<typeof insertBudgetSchema>;
+export type UpdateBudget = z.infer<typeof updateBudgetSchema>;
+export type CopyBudgets = z.infer<typeof copyBudgetsSchema>;
+export type Budget = typeof budgets.$inferSelect;
+
+// Envelopes model - the categories a user budgets for in envelope mode. Each month's
+// income is assigned to envelopes; spending in a category comes out of its envelope, or
+// its parent's when it has none. At month end an envelope's unspent money rolls over,
+// or is swept to savings when rollover is off.
+export const envelopes = pgTable("envelopes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  category: text("category").notNull(),
+  rollover: boolean("rollover").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("envelopes_user_category_unique").on(table.userId, table.category),
+]);
+
+export const insertEnvelopeSchema = createInsertSchema(envelopes)
+  .pick({
+    category: true,
+    rollover: true,
+  })
+  .extend({
+    category: categoryName,
+    rollover: z.boolean().default(true),
+  });
+
+export const updateEnvelopeSchema = insertEnvelopeSchema.pick({ rollover: true });
+
+export type InsertEnvelope = z.infer<typeof insertEnvelopeSchema>;
+export type Envelope = typeof envelopes.$inferSelect;
+
+// Envelope allocations model - money moved in a month, kept as a history. A null
+// fromCategory takes it from the month's income still to be assigned; a null toCategory
+// returns it there. Moving between two envelopes covers overspending in one from another.
+export const envelopeAllocations = pgTable("envelope_allocations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  year: integer("year").notNull(),
+  month: integer("month").notNull(),
+  fromCategory: text("from_category"),
+  toCategory: text("to_category"),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertEnvelopeAllocationSchema = createInsertSchema(envelopeAllocations)
+  .pick({
+    year: true,
+    month: true,
+    fromCategory: true,
+    toCategory: true,
+    amount: true,
+    note: true,
+  })
+  .extend({
+    year: z.number().int().min(1900).max(2100),
+    month: z.number().int().min(1).max(12),
+    fromCategory: categoryName.nullable().default(null),
+    toCategory: categoryName.nullable().default(null),
+    amount: z.coerce.number().positive("Amount must be positive"),
+    note: z.string().trim().max(200).nullable().optional(),
+  })
+  .refine(data => data.fromCategory !== data.toCategory, {
+    message: "Choose where the money comes from and where it goes",
+    path: ["toCategory"],
+  });
+
+export type InsertEnvelopeAllocation = z.infer<typeof insertEnvelopeAllocationSchema>;
+export type EnvelopeAllocation = typeof envelopeAllocations.$inferSelect;
+
+// Savings goals model - an amount to save by a date. Progress is either the balance of a
+// linked account, or the contributions recorded in a category (spending in it adds to the
+// goal, income in it takes out) on top of what had been saved before tracking began.
+export const savingsGoals = pgTable("savings_goals", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  targetAmount: numeric("target_amount", { precision: 12, scale: 2 }).notNull(),
+  // The linked account's currency, or the currency contributions are counted in
+  currency: text("currency").notNull().default("USD"),
+  targetDate: date("target_date"),
+  accountId: integer("account_id"),
+  category: text("category"),
+  initialAmount: numeric("initial_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertSavingsGoalSchema = createInsertSchema(savingsGoals)
+  .pick({
+    name: true,
+    targetAmount: true,
+    currency: true,
+    targetDate: true,
+    accountId: true,
+    category: true,
+    initialAmount: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    targetAmount: z.coerce.number().positive("Target must be positive"),
+    currency: currencyCode.optional(),
+    targetDate: z.coerce.date().nullable().optional(),
+    accountId: z.number().int().nullable().default(null),
+    category: categoryName.nullable().default(null),
+    initialAmount: z.coerce.number().nonnegative().default(0),
+  })
+  .refine(data => (data.accountId === null) !== (data.category === null), {
+    message: "Track the goal with either an account or a category",
+    path: ["accountId"],
+  });
+
+export type InsertSavingsGoal = z.infer<typeof insertSavingsGoalSchema>;
+export type SavingsGoal = typeof savingsGoals.$inferSelect;
+
+export const assetKinds = ["asset", "liability"] as const;
+export type AssetKind = typeof assetKinds[number];
+
+export const assetTypes = ["property", "vehicle", "investment", "valuables", "other"] as const;
+export const liabilityTypes = ["mortgage", "loan", "other"] as const;
+
+// Assets model - something a user owns (a home, a car) or owes (a mortgage, a loan) outside
+// their accounts, valued by hand from time to time. Both kinds are valued as positive
+// amounts; a liability's value is what is still owed.
+export const assets = pgTable("assets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  kind: text("kind").notNull(), // one of assetKinds
+  type: text("type").notNull(), // one of assetTypes or liabilityTypes, by kind
+  currency: text("currency").notNull().default("USD"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAssetSchema = createInsertSchema(assets)
+  .pick({
+    name: true,
+    kind: true,
+    type: true,
+    currency: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    kind: z.enum(assetKinds),
+    type: z.string(),
+    currency: currencyCode.optional(),
+  })
+  .refine(data => (data.kind === "asset" ? assetTypes : liabilityTypes).some(type => type === data.type), {
+    message: "Unknown type",
+    path: ["type"],
+  });
+
+export type InsertAsset = z.infer<typeof insertAssetSchema>;
+export type Asset = typeof assets.$inferSelect;
+
+// Asset valuations model - what an asset was worth, or a liability owed, on a date. The
+// latest valuation on or before a date values it then; before its first it is not counted.
+export const assetValuations = pgTable("asset_valuations", {
+  id: serial("id").primaryKey(),
+  assetId: integer("asset_id").notNull(),
+  date: date("date").notNull(),
+  value: numeric("value", { precision: 14, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // One valuation per day; saving another replaces it
+  unique("asset_valuations_asset_date_unique").on(table.assetId, table.date),
+]);
+
+export const insertAssetValuationSchema = createInsertSchema(assetValuations)
+  .pick({
+    date: true,
+    value: true,
+  })
+  .extend({
+    date: z.coerce.date(),
+    value: z.coerce.number().nonnegative("Value cannot be negative"),
+  });
+
+export type InsertAssetValuation = z.infer<typeof insertAssetValuationSchema>;
+export type AssetValuation = typeof assetValuations.$inferSelect;
+
+// Net worth snapshots model - a user's assets and liabilities at the end of a month, in
+// their base currency at the time. The current month's snapshot is refreshed until the
+// month is over.
+export const netWorthSnapshots = pgTable("net_worth_snapshots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  year: integer("year").notNull(),
+  month: integer("month").notNull(),
+  // The day it values: the last day of the month, or today for the current month
+  date: date("date").notNull(),
+  currency: text("currency").notNull(),
+  assets: numeric("assets", { precision: 14, scale: 2 }).notNull(),
+  liabilities: numeric("liabilities", { precision: 14, scale: 2 }).notNull(),
+  netWorth: numeric("net_worth", { precision: 14, scale: 2 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("net_worth_snapshots_user_month_unique").on(table.userId, table.year, table.month),
+]);
+
+export type NetWorthSnapshot = typeof netWorthSnapshots.$inferSelect;
+
+// What storage saves for a snapshot; the server works it out
+export type InsertNetWorthSnapshot = Omit<NetWorthSnapshot, "id" | "userId" | "updatedAt">;
+
+// Loans model - a mortgage, car loan or other debt repaid monthly. Its payments are the
+// money paid into a linked loan account, or the spending in a linked category; with
+// neither, the scheduled payments are taken as made on time.
+export const loans = pgTable("loans", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  principal: numeric("principal", { precision: 14, scale: 2 }).notNull(),
+  // Yearly interest rate as a percentage, e.g. 4.5
+  annualRate: numeric("annual_rate", { precision: 6, scale: 3 }).notNull(),
+  termMonths: integer("term_months").notNull(),
+  // Interest starts a month before the first payment
+  firstPaymentDate: date("first_payment_date").notNull(),
+  // The agreed monthly payment; null for the payment that repays the loan over its term
+  payment: numeric("payment", { precision: 12, scale: 2 }),
+  // Paid on top of each monthly payment from now on
+  extraPayment: numeric("extra_payment", { precision: 12, scale: 2 }).notNull().default("0"),
+  currency: text("currency").notNull().default("USD"),
+  accountId: integer("account_id"),
+  category: text("category"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertLoanSchema = createInsertSchema(loans)
+  .pick({
+    name: true,
+    principal: true,
+    annualRate: true,
+    termMonths: true,
+    firstPaymentDate: true,
+    payment: true,
+    extraPayment: true,
+    currency: true,
+    accountId: true,
+    category: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    principal: z.coerce.number().positive("Amount borrowed must be positive"),
+    annualRate: z.coerce.number().min(0, "Rate cannot be negative").max(100),
+    termMonths: z.coerce.number().int().min(1, "Term must be at least a month").max(600),
+    firstPaymentDate: z.coerce.date(),
+    payment: z.coerce.number().positive("Payment must be positive").nullable().default(null),
+    extraPayment: z.coerce.number().nonnegative("Cannot be negative").default(0),
+    currency: currencyCode.optional(),
+    accountId: z.number().int().nullable().default(null),
+    category: categoryName.nullable().default(null),
+  })
+  .refine(data => data.accountId === null || data.category === null, {
+    message: "Track payments with an account or a category, not both",
+    path: ["category"],
+  });
+
+export type InsertLoan = z.infer<typeof insertLoanSchema>;
+export type Loan = typeof loans.$inferSelect;
+
+// Transaction export options, sent as query parameters. The delimiter, date order and
+// decimal separator match those of the CSV import profiles so exports can be re-imported.
+export const exportFormats = ["csv", "json", "xlsx", "qif", "ofx", "beancount", "ledger"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export const exportQuerySchema = z.object({
+  format: z.enum(exportFormats).default("csv"),
+  // Inclusive; without them the export starts at the first transaction and runs to the last
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // A parent category includes its subcategories
+  category: categoryName.optional(),
+  type: z.enum(["income", "expense", "transfer"]).optional(),
+  accountId: z.coerce.number().int().positive().optional(),
+  // CSV and QIF only: OFX and JSON have fixed formats and XLSX stores real dates and numbers
+  dateFormat: z.enum(csvDateFormats).default("YMD"),
+  decimalSeparator: z.enum([".", ","]).default("."),
+  delimiter: z.enum(csvDelimiters).default(","),
+})
+  .refine(query => !query.from || !query.to || query.from <= query.to, {
+    message: "The start date must not be after the end date",
+    path: ["to"],
+  })
+  .refine(query => query.delimiter !== query.decimalSeparator, {
+    message: "The delimiter and the decimal separator must differ",
+    path: ["delimiter"],
+  });
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>;